@@ -19,6 +19,24 @@ export default ({ config }: ConfigContext): ExpoConfig => {
   slug: config.slug ?? 'eist-app',
   extra: {
     apiKey: process.env.API_KEY,
+    // Which station profile (constants/stations.ts) to build against; unset
+    // in release builds, `mock` for the local stand-ins
+    stationProfile: process.env.STATION_PROFILE,
+    // The settings below override single values of that profile.
+    // Unset in release builds; set to e.g. http://localhost:4010/api to run
+    // against scripts/mock-radiocult.js
+    radiocultApiBaseUrl: process.env.RADIOCULT_API_BASE_URL,
+    // Likewise for the éist archive API, e.g. http://localhost:4010
+    eistApiBaseUrl: process.env.EIST_API_BASE_URL,
+    // `1` to use the éist API's archive audio route (see README), `0` to turn
+    // it off; unset keeps the profile's setting
+    eistArchiveAudio: process.env.EIST_ARCHIVE_AUDIO,
+    // Likewise for the worker serving calendar feeds, e.g. http://localhost:8787
+    calendarFeedBaseUrl: process.env.CALENDAR_FEED_BASE_URL,
+    // Optional low-bitrate mount offered to listeners on mobile data
+    lowDataStreamUrl: process.env.LOW_DATA_STREAM_URL,
+    // Replaces the profile's main live stream mount
+    streamUrl: process.env.STREAM_URL,
     eas: {
       projectId: '4f034ae2-70e3-4215-8782-3aec98781aa6',
     },
@@ -47,6 +65,8 @@ export default ({ config }: ConfigContext): ExpoConfig => {
       iosSuspendSessionsWhenBackgrounded: false
     }],
     "./plugins/withAndroidAuto",
+    "./plugins/withAndroidWidget",
+    "./plugins/withSsdpDiscovery",
     "./plugins/withFmtConstevalFix",
     ...carPlayPlugins
   ],
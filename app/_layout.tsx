@@ -19,9 +19,17 @@ import {
     StyleSheet,
     View,
 } from 'react-native';
+import { AlarmProvider } from '../context/AlarmContext';
+import { DigestProvider } from '../context/DigestContext';
 import { CastProvider } from '../context/CastContext';
+import { DownloadProvider } from '../context/DownloadContext';
+import { FavouritesProvider } from '../context/FavouritesContext';
+import { ListeningHistoryProvider } from '../context/ListeningHistoryContext';
 import { NotificationProvider } from '../context/NotificationContext';
+import { OutputProvider } from '../context/OutputContext';
 import { TrackPlayerProvider } from '../context/TrackPlayerContext';
+import { useAndroidAutoLibrary } from '../hooks/useAndroidAutoLibrary';
+import { colors } from '../theme/tokens';
 import { EistDarkTheme, EistLightTheme } from '../themes';
 
 // React Query doesn't know about connectivity in React Native unless wired up.
@@ -42,6 +50,13 @@ const queryClient = new QueryClient();
 
 const splashImage = require('../assets/images/eist.png');
 
+// Android Auto's browse tree draws on the player, favourites, downloads and
+// listening history, so it's kept in sync from inside all of their providers
+function AndroidAutoLibrarySync() {
+  useAndroidAutoLibrary();
+  return null;
+}
+
 export default function RootLayout() {
   const [fontsLoaded] = useFonts({
     FunnelSans: require('../assets/fonts/FunnelSans-VariableFont_wght.ttf'),
@@ -115,8 +130,15 @@ export default function RootLayout() {
         >
           <QueryClientProvider client={queryClient}>
             <CastProvider>
+            <OutputProvider>
               <TrackPlayerProvider>
+              <DownloadProvider>
+              <FavouritesProvider>
+              <ListeningHistoryProvider>
                 <NotificationProvider>
+                <AlarmProvider>
+                <DigestProvider>
+                <AndroidAutoLibrarySync />
                 <Suspense
                   fallback={
                     <View style={styles.loader}>
@@ -131,14 +153,20 @@ export default function RootLayout() {
                         gestureEnabled: true,
                         gestureDirection: 'horizontal',
                         animation: 'slide_from_right',
-                        contentStyle: { backgroundColor: '#4733FF' },
+                        contentStyle: { backgroundColor: colors.purple },
                       }}
                     />
                     <StatusBar style="auto" />
                   </ThemeProvider>
                 </Suspense>
+                </DigestProvider>
+                </AlarmProvider>
               </NotificationProvider>
+              </ListeningHistoryProvider>
+              </FavouritesProvider>
+              </DownloadProvider>
               </TrackPlayerProvider>
+            </OutputProvider>
             </CastProvider>
           </QueryClientProvider>
         </Animated.View>
@@ -169,7 +197,7 @@ export default function RootLayout() {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#4733FF',
+    backgroundColor: colors.purple,
   },
   loader: {
     flex: 1,
@@ -178,7 +206,7 @@ const styles = StyleSheet.create({
   },
   splashContainer: {
     ...StyleSheet.absoluteFillObject,
-    backgroundColor: '#4733FF',
+    backgroundColor: colors.purple,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -1,38 +1,35 @@
 // app/archive/[slug].tsx
 
+import * as Haptics from 'expo-haptics';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useState } from 'react';
-import { Linking, Pressable, ScrollView, Text, View } from 'react-native';
+import { Linking, Platform, Pressable, ScrollView, Text, View } from 'react-native';
 import { FormattedShowTitle } from '../../components/FormattedShowTitle';
 import { HeaderLeftNav } from '../../components/ui/HeaderLeftNav';
 import { Eyebrow } from '../../components/ui/Eyebrow';
 import { PageScaffold } from '../../components/ui/PageScaffold';
+import { DownloadControl } from '../../components/ui/DownloadControl';
+import { HeartControl } from '../../components/ui/HeartControl';
 import { PlatformDisc } from '../../components/ui/PlatformDisc';
+import { PlayDisc } from '../../components/ui/PlayDisc';
+import { ScrubBar } from '../../components/ui/ScrubBar';
 import { ShowArtworkBackground } from '../../components/ui/ShowArtworkBackground';
 import { SpinningLogo } from '../../components/ui/SpinningLogo';
-import { useArchiveShowBySlug } from '../../hooks/useArchiveShows';
+import { useDownloads } from '../../context/DownloadContext';
+import { useFavourites } from '../../context/FavouritesContext';
+import { useListeningHistory } from '../../context/ListeningHistoryContext';
+import { useTrackPlayer } from '../../context/TrackPlayerContext';
+import { useArchiveShowAudio, useArchiveShowBySlug } from '../../hooks/useArchiveShows';
+import { useNetworkConnectivity } from '../../hooks/useNetworkConnectivity';
+import { useOnDemandProgress } from '../../hooks/useOnDemandProgress';
 import { colors, font, type as t } from '../../theme/tokens';
+import { getArchiveShowImage } from '../../utils/archiveArtwork';
+import { formatDuration } from '../../utils/formatTime';
+import { getResumePosition } from '../../utils/listeningHistory';
 import { stripFormatting } from '../../utils/stripFormatting';
 
 const fallbackImage = require('../../assets/images/eist_online.png');
 
-function getShowImage(show: any): string | null {
-  if (show?.soundcloud_match?.thumbnail) {
-    return show.soundcloud_match.thumbnail;
-  }
-  if (show?.mixcloud_match?.pictures) {
-    const pics = show.mixcloud_match.pictures;
-    return (
-      pics['1024wx1024h'] ||
-      pics['768wx768h'] ||
-      pics['640wx640h'] ||
-      pics.extra_large ||
-      null
-    );
-  }
-  return null;
-}
-
 function formatDate(isoString: string): string {
   const date = new Date(isoString);
   return date.toLocaleDateString(undefined, {
@@ -46,23 +43,74 @@ export default function ArchiveShowScreen() {
   const { slug } = useLocalSearchParams<{ slug?: string }>();
   const router = useRouter();
 
-  const { data: show, isLoading } = useArchiveShowBySlug(slug);
+  const { data: fetchedShow, isLoading } = useArchiveShowBySlug(slug);
+  const { data: remoteAudio } = useArchiveShowAudio(slug);
+  const { isConnected } = useNetworkConnectivity();
+  const { findDownloadBySlug, getLocalAudio } = useDownloads();
+  const { favouriteShows, isShowSaved, toggleShowFavourite } = useFavourites();
+
+  // A downloaded or saved show opens with no network: both records carry the
+  // show itself. A download's file is preferred over streaming whenever it
+  // exists (offline it's the only option).
+  const download = slug ? findDownloadBySlug(slug) : undefined;
+  const favourite = slug
+    ? Object.values(favouriteShows).find((f) => f.show.slug === slug)
+    : undefined;
+  const show = fetchedShow ?? download?.show ?? favourite?.show;
+  const localAudio = download ? getLocalAudio(download.show.id) : null;
+  const audio = localAudio ?? (isConnected ? remoteAudio : null);
+  const {
+    isPlaying,
+    onDemandShow,
+    isOnDemandCasting,
+    activeOutput,
+    playArchiveShow,
+    toggleOnDemandPause,
+    seekTo,
+  } = useTrackPlayer();
+
+  // This show is the one loaded in the player (playing or paused)
+  const isLoaded = !!show && onDemandShow?.id === show.id;
+  const progress = useOnDemandProgress(isLoaded);
+  const { getHistoryEntry } = useListeningHistory();
+  const resumePosition = show ? getResumePosition(getHistoryEntry(show.id)) : 0;
 
   const [imageFailed, setImageFailed] = useState(false);
 
-  if (isLoading || !show) {
+  if ((isLoading && !download && !favourite) || !show) {
     return <PageScaffold left={<HeaderLeftNav />}>{null}</PageScaffold>;
   }
 
-  const imageUrl = getShowImage(show);
+  const imageUrl =
+    download?.artworkUri ?? favourite?.artworkUri ?? getArchiveShowImage(show);
   const imageSource =
     imageUrl && !imageFailed ? { uri: imageUrl } : fallbackImage;
 
   const mixcloudUrl = show.mixcloud_match?.url;
   const soundcloudUrl = show.soundcloud_match?.url;
-  const hasPlayable = mixcloudUrl || soundcloudUrl;
+  const hasPlayable = isConnected && (mixcloudUrl || soundcloudUrl);
   const primaryPlatform = soundcloudUrl ? 'soundcloud' : 'mixcloud';
-  const primaryUrl = soundcloudUrl || mixcloudUrl;
+  // External links are no use offline
+  const primaryUrl = isConnected ? soundcloudUrl || mixcloudUrl : undefined;
+  const primaryLabel =
+    primaryPlatform === 'soundcloud' ? 'SoundCloud' : 'Mixcloud';
+
+  const isPlayingHere = isLoaded && isPlaying;
+  const onListenPress = () => {
+    if (isLoaded) {
+      toggleOnDemandPause();
+    } else if (audio) {
+      // A Chromecast fetches the audio itself, so it needs the remote copy
+      // even when the show is downloaded
+      const castAudio = activeOutput?.kind === 'chromecast' ? remoteAudio : undefined;
+      playArchiveShow(show, castAudio ?? audio, resumePosition);
+    }
+  };
+  const listenLabel = isPlayingHere
+    ? 'Pause'
+    : !isLoaded && resumePosition > 0
+      ? `Resume from ${formatDuration(resumePosition)}`
+      : 'Listen back';
 
   const plain = stripFormatting(show.description?.content);
   const paragraphs = plain
@@ -132,7 +180,76 @@ export default function ArchiveShowScreen() {
           </Text>
         </View>
 
-        {hasPlayable && (
+        <HeartControl
+          active={isShowSaved(show.id)}
+          onToggle={() => {
+            if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            toggleShowFavourite(show);
+          }}
+          caption="to your library"
+        />
+
+        {audio ? (
+          <>
+            <View
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                gap: 21,
+                marginTop: 28,
+              }}
+            >
+              <Pressable
+                onPress={onListenPress}
+                accessibilityRole="button"
+                accessibilityLabel={listenLabel}
+              >
+                <PlayDisc playing={isPlayingHere} size={68} />
+              </Pressable>
+              <Text
+                style={{
+                  fontFamily: font.body,
+                  fontWeight: '600',
+                  fontSize: 20,
+                  letterSpacing: 0.2,
+                  color: colors.green,
+                  flexShrink: 1,
+                }}
+              >
+                {listenLabel}
+              </Text>
+            </View>
+
+            {isLoaded && (
+              <View style={{ marginTop: 14 }}>
+                <ScrubBar
+                  position={progress.position}
+                  duration={progress.duration || audio.duration || 0}
+                  onSeek={seekTo}
+                />
+                {isOnDemandCasting && activeOutput ? (
+                  <Text style={[t.meta, { color: colors.textDim, marginTop: 8 }]}>
+                    {`Playing on ${activeOutput.name}`}
+                  </Text>
+                ) : null}
+              </View>
+            )}
+
+            <DownloadControl show={show} audio={remoteAudio} />
+
+            {primaryUrl && (
+              <Pressable
+                onPress={() => Linking.openURL(primaryUrl)}
+                accessibilityRole="link"
+                style={{ marginTop: 14 }}
+              >
+                <Text style={[t.meta, { color: colors.textDim }]}>
+                  {`Also on ${primaryLabel}`}
+                </Text>
+              </Pressable>
+            )}
+          </>
+        ) : hasPlayable && (
           <View
             style={{
               flexDirection: 'row',
@@ -144,11 +261,7 @@ export default function ArchiveShowScreen() {
             <Pressable
               onPress={() => primaryUrl && Linking.openURL(primaryUrl)}
               accessibilityRole="button"
-              accessibilityLabel={
-                primaryPlatform === 'soundcloud'
-                  ? 'Listen on SoundCloud'
-                  : 'Listen on Mixcloud'
-              }
+              accessibilityLabel={`Listen on ${primaryLabel}`}
             >
               <PlatformDisc platform={primaryPlatform} size={68} />
             </Pressable>
@@ -162,9 +275,7 @@ export default function ArchiveShowScreen() {
                 flexShrink: 1,
               }}
             >
-              {primaryPlatform === 'soundcloud'
-                ? 'Listen on SoundCloud'
-                : 'Listen on Mixcloud'}
+              {`Listen on ${primaryLabel}`}
             </Text>
           </View>
         )}
@@ -14,46 +14,31 @@ import {
   Text,
   View,
 } from 'react-native';
-import { apiKey } from '../../config';
 import { HeaderLeftNav } from '../../components/ui/HeaderLeftNav';
 import { Eyebrow } from '../../components/ui/Eyebrow';
+import { HeartControl } from '../../components/ui/HeartControl';
 import { NotifyControl } from '../../components/ui/NotifyControl';
 import { PageScaffold } from '../../components/ui/PageScaffold';
 import { SpinningLogo } from '../../components/ui/SpinningLogo';
 import { Chevron } from '../../components/ui/Chevron';
 import { ShowArtworkBackground } from '../../components/ui/ShowArtworkBackground';
+import { ListeningMarker } from '../../components/ui/ListeningMarker';
 import { FormattedShowTitle } from '../../components/FormattedShowTitle';
+import { useFavourites } from '../../context/FavouritesContext';
+import { useListeningHistory } from '../../context/ListeningHistoryContext';
 import { useNotifications } from '../../hooks/useNotifications';
 import { useTimezoneChange } from '../../hooks/useTimezoneChange';
 import { stripFormatting } from '../../utils/stripFormatting';
-import { fetchNextShowForArtist, formatNextShowDate } from '../../utils/nextShow';
+import { useNextShowForArtist } from '../../hooks/useSchedule';
+import { calendarSubscriptionUrl } from '../../hooks/useCalendarExport';
+import { CALENDAR_FEED_ENDPOINTS } from '../../config';
+import { formatNextShowDate } from '../../utils/nextShow';
 import { colors, type as t } from '../../theme/tokens';
+import { RadioCultArtist } from '../../types/radiocult';
+import { getArtist } from '../../utils/radiocultClient';
 
-const STATION_ID = 'eist-radio';
 const fallbackImage = require('../../assets/images/eist_online.png');
 
-type RawArtist = {
-  id: string;
-  slug?: string;
-  name?: string;
-  description?: { content?: any[] };
-  logo?: {
-    default?: string;
-    '256x256'?: string;
-    '512x512'?: string;
-    '1024x1024'?: string;
-  };
-  socials?: {
-    twitterHandle?: string;
-    instagramHandle?: string;
-    facebook?: string;
-    mixcloud?: string;
-    soundcloud?: string;
-    site?: string;
-  };
-  tags?: string[];
-};
-
 function normalizeSlug(name: string): string {
   return name
     .toLowerCase()
@@ -64,15 +49,6 @@ function normalizeSlug(name: string): string {
     .replace(/-+/g, '-');
 }
 
-async function fetchArtistById(id: string): Promise<RawArtist> {
-  const url = `https://api.radiocult.fm/api/station/${STATION_ID}/artists/${encodeURIComponent(id)}`;
-  const res = await fetch(url, { headers: { 'x-api-key': apiKey } });
-  if (!res.ok) throw new Error(`Artist fetch failed: ${res.statusText}`);
-  const json = (await res.json()) as { artist?: RawArtist };
-  if (!json.artist) throw new Error('Artist not found');
-  return json.artist;
-}
-
 // RadioCult socials are inconsistent: instagram/mixcloud are bare handles
 // (sometimes @-prefixed), soundcloud is a handle OR a full URL, site is a full
 // URL. Resolve each to an absolute URL, accepting either form.
@@ -82,7 +58,7 @@ function resolveSocialUrl(value: string, base: string): string {
   return base + v.replace(/^@/, '');
 }
 
-function buildArtistLinks(socials?: RawArtist['socials']): { label: string; url: string }[] {
+function buildArtistLinks(socials?: RadioCultArtist['socials']): { label: string; url: string }[] {
   if (!socials) return [];
   const links: { label: string; url: string }[] = [];
   if (socials.instagramHandle)
@@ -105,16 +81,12 @@ export default function ArtistScreen() {
 
   const { data: artist } = useQuery({
     queryKey: ['artist', id],
-    queryFn: () => fetchArtistById(id || ''),
+    queryFn: () => getArtist(id || ''),
     enabled: !!id,
+    retry: false, // radiocultClient retries transient failures itself
   });
 
-  const { data: nextShow } = useQuery({
-    queryKey: ['artist-next-show', id, currentTimezone],
-    queryFn: () => fetchNextShowForArtist(id || '', currentTimezone),
-    enabled: !!id,
-    staleTime: 5 * 60 * 1000,
-  });
+  const { nextShow } = useNextShowForArtist(id, currentTimezone);
 
   // The archive indexes shows by its own artistSlug. The authoritative match is
   // the artist mapping (built from the archive shows themselves: id -> slug),
@@ -130,6 +102,8 @@ export default function ArtistScreen() {
     mappedSlug ?? nameSlug ?? routeSlug ?? artist?.slug;
 
   const { shows: archivedShows } = useArchiveShowsByArtist(archiveArtistSlug, 12);
+  const { history } = useListeningHistory();
+  const { isArtistSaved, toggleArtistFavourite } = useFavourites();
 
   const { isArtistSubscribed, toggleArtistSubscription, isLoading } = useNotifications();
   const [isToggling, setIsToggling] = useState(false);
@@ -186,6 +160,16 @@ export default function ArtistScreen() {
     artist.logo?.default;
   const imageSource = artistImageUrl && !imageFailed ? { uri: artistImageUrl } : fallbackImage;
 
+  const onToggleSave = () => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    toggleArtistFavourite({
+      artistId: artist.id,
+      artistName: artist.name ?? '',
+      artistSlug: archiveArtistSlug ?? artist.id,
+      imageUrl: artistImageUrl,
+    });
+  };
+
   return (
     <PageScaffold left={<HeaderLeftNav />} right={<SpinningLogo />} transparentBg liveNow>
       <ShowArtworkBackground source={imageSource} onError={() => setImageFailed(true)} />
@@ -223,6 +207,21 @@ export default function ArtistScreen() {
           caption="for next show"
         />
 
+        <HeartControl
+          active={isArtistSaved(artist.id)}
+          onToggle={onToggleSave}
+          caption="to your library"
+        />
+
+        <Pressable
+          onPress={() => Linking.openURL(calendarSubscriptionUrl(CALENDAR_FEED_ENDPOINTS.artist(artist.id)))}
+          hitSlop={8}
+          accessibilityRole="link"
+          style={{ alignSelf: 'flex-start', marginTop: 14 }}
+        >
+          <Text style={[t.meta, { color: colors.green }]}>Subscribe in calendar</Text>
+        </Pressable>
+
         {plain ? (
           <Text style={[t.bio, { color: colors.text, marginTop: 26 }]}>
             {plain}
@@ -273,6 +272,7 @@ export default function ArtistScreen() {
                   year: 'numeric',
                 })}
               </Text>
+              <ListeningMarker entry={history[show.id]} />
             </View>
             <Chevron direction="right" size={20} />
           </Pressable>
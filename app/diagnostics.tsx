@@ -0,0 +1,207 @@
+// app/diagnostics.tsx
+//
+// Hidden playback diagnostics: recent stream sessions (utils/streamHealth.ts)
+// and the event log (utils/eventLog.ts), newest first, with an export to a
+// text file for bug reports. Reached by long-pressing the spinning logo; not
+// linked from anywhere else.
+
+import Constants from 'expo-constants';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Alert, Platform, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { Eyebrow } from '../components/ui/Eyebrow';
+import { HeaderLeftNav } from '../components/ui/HeaderLeftNav';
+import { PageScaffold } from '../components/ui/PageScaffold';
+import { STATION } from '../config';
+import { useTrackPlayer } from '../context/TrackPlayerContext';
+import { colors, font, type as t } from '../theme/tokens';
+import {
+  clearEventLog,
+  formatEventLog,
+  getEventLog,
+  LoggedEvent,
+  loadEventLog,
+  subscribeEventLog,
+} from '../utils/eventLog';
+import {
+  bufferingRatio,
+  clearStreamHealth,
+  formatStreamSession,
+  getStreamSessions,
+  loadStreamHealth,
+  recoverySuccessRate,
+  StreamSession,
+  subscribeStreamHealth,
+} from '../utils/streamHealth';
+
+function formatEventTime(at: number): string {
+  return new Date(at).toLocaleTimeString('en-GB', { hour12: false });
+}
+
+function formatSessionStart(at: number): string {
+  return new Date(at).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+function SessionRow({ session }: { session: StreamSession }) {
+  const minutes = session.endedAt ? Math.round((session.endedAt - session.startedAt) / 60000) : 0;
+  const rate = recoverySuccessRate(session);
+  const stats = [
+    `first audio ${session.timeToFirstAudioMs === null ? 'never' : `${(session.timeToFirstAudioMs / 1000).toFixed(1)}s`}`,
+    `${session.rebufferCount} ${session.rebufferCount === 1 ? 'stall' : 'stalls'} (${Math.round(session.rebufferMs / 1000)}s)`,
+    `${(bufferingRatio(session) * 100).toFixed(1)}% buffering`,
+    rate === null
+      ? 'no recoveries'
+      : `${session.recoveriesSucceeded}/${session.recoveries} recovered (${Math.round(rate * 100)}%)`,
+  ];
+  return (
+    <View style={s.row}>
+      <View style={{ flex: 1 }}>
+        <Text style={[s.message, { color: colors.text }]}>
+          <Text style={{ color: colors.green }}>{formatSessionStart(session.startedAt)} </Text>
+          {minutes} min · {session.quality}
+        </Text>
+        <Text style={[s.details, { color: colors.textDim }]}>{stats.join(' · ')}</Text>
+      </View>
+    </View>
+  );
+}
+
+export default function DiagnosticsScreen() {
+  const [log, setLog] = useState<LoggedEvent[]>(getEventLog);
+  const [sessions, setSessions] = useState<StreamSession[]>(getStreamSessions);
+  const [isExporting, setIsExporting] = useState(false);
+  const { streamQuality, isLowDataMode, activeOutput } = useTrackPlayer();
+
+  useEffect(() => {
+    const unsubscribeLog = subscribeEventLog(setLog);
+    const unsubscribeHealth = subscribeStreamHealth(setSessions);
+    loadEventLog().then(setLog);
+    loadStreamHealth().then(setSessions);
+    return () => {
+      unsubscribeLog();
+      unsubscribeHealth();
+    };
+  }, []);
+
+  const newestFirst = useMemo(() => [...log].reverse(), [log]);
+  const newestSessions = useMemo(() => [...sessions].reverse(), [sessions]);
+  const isEmpty = log.length === 0 && sessions.length === 0;
+
+  const header = [
+    `${STATION.name} diagnostics`,
+    `exported: ${new Date().toISOString()}`,
+    `app: ${Constants.expoConfig?.version ?? 'unknown'}`,
+    `platform: ${Platform.OS} ${Platform.Version}`,
+    `station: ${STATION.id}`,
+    `stream quality: ${streamQuality}${isLowDataMode ? ' (low data)' : ''}`,
+    `output: ${activeOutput ? `${activeOutput.name} (${activeOutput.kind})` : 'this device'}`,
+  ];
+
+  const onExport = async () => {
+    if (Platform.OS === 'web' || isExporting) return;
+    setIsExporting(true);
+    try {
+      const uri = `${FileSystem.cacheDirectory}eist-diagnostics-${Date.now()}.txt`;
+      const sessionLines = ['stream sessions:', ...sessions.map(formatStreamSession)];
+      await FileSystem.writeAsStringAsync(uri, formatEventLog(log, [...header, '', ...sessionLines]));
+
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Sharing unavailable', 'Sharing isn’t available on this device.');
+        return;
+      }
+
+      await Sharing.shareAsync(uri, {
+        mimeType: 'text/plain',
+        UTI: 'public.plain-text',
+        dialogTitle: 'Export event log',
+      });
+    } catch (error) {
+      console.error('Event log export failed:', error);
+      Alert.alert('Export failed', 'Couldn’t create the log file. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const onClear = () => {
+    Alert.alert('Clear diagnostics?', 'This removes every logged event and stream session.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => {
+          clearEventLog();
+          clearStreamHealth();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <PageScaffold left={<HeaderLeftNav />}>
+      <Eyebrow>diagnostics</Eyebrow>
+      <Text style={[t.pagehead, { color: colors.green, marginTop: 8 }]}>Playback</Text>
+      <Text style={[t.meta, { color: colors.textDim, marginTop: 12 }]}>{header.slice(2).join(' · ')}</Text>
+
+      <View style={s.actions}>
+        <Pressable onPress={onExport} disabled={isExporting || isEmpty} accessibilityRole="button">
+          <Text style={[t.meta, { color: isExporting || isEmpty ? colors.textDim : colors.green }]}>
+            Export
+          </Text>
+        </Pressable>
+        <Pressable onPress={onClear} disabled={isEmpty} accessibilityRole="button">
+          <Text style={[t.meta, { color: isEmpty ? colors.textDim : colors.text }]}>Clear</Text>
+        </Pressable>
+      </View>
+
+      <ScrollView style={{ flex: 1, marginTop: 18 }} showsVerticalScrollIndicator={false}>
+        <Eyebrow>stream sessions</Eyebrow>
+        <View style={s.section}>
+          {newestSessions.length === 0 && (
+            <Text style={[t.bio, { color: colors.textDim }]}>No live sessions yet.</Text>
+          )}
+          {newestSessions.map((session) => (
+            <SessionRow key={session.startedAt} session={session} />
+          ))}
+        </View>
+
+        <Eyebrow>events</Eyebrow>
+        <View style={s.section}>
+          {newestFirst.length === 0 && (
+            <Text style={[t.bio, { color: colors.textDim }]}>Nothing logged yet.</Text>
+          )}
+          {newestFirst.map((event, index) => (
+            <View key={`${event.at}-${index}`} style={s.row}>
+              <Text style={[s.time, { color: colors.textDim }]}>{formatEventTime(event.at)}</Text>
+              <View style={{ flex: 1 }}>
+                <Text style={[s.message, { color: colors.text }]}>
+                  <Text style={{ color: colors.green }}>{event.category} </Text>
+                  {event.message}
+                </Text>
+                {event.details ? (
+                  <Text style={[s.details, { color: colors.textDim }]}>{event.details}</Text>
+                ) : null}
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </PageScaffold>
+  );
+}
+
+const s = StyleSheet.create({
+  actions: { flexDirection: 'row', gap: 24, marginTop: 18 },
+  section: { marginTop: 12, marginBottom: 18 },
+  row: { flexDirection: 'row', alignItems: 'flex-start', gap: 12, marginBottom: 10 },
+  time: { fontFamily: font.body, fontSize: 13, width: 64, fontVariant: ['tabular-nums'] },
+  message: { fontFamily: font.body, fontSize: 14, lineHeight: 19 },
+  details: { fontFamily: font.body, fontSize: 13, lineHeight: 18, marginTop: 2 },
+});
@@ -0,0 +1,111 @@
+// app/schedule/hosts.tsx
+//
+// The coming week's schedule narrowed to a set of hosts: where the weekly
+// digest notification lands. `?artists=` lists the host ids; without it the
+// page shows everyone currently subscribed.
+
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useMemo } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { FormattedShowTitle } from '../../components/FormattedShowTitle';
+import { Eyebrow } from '../../components/ui/Eyebrow';
+import { HeaderLeftNav } from '../../components/ui/HeaderLeftNav';
+import { PageScaffold } from '../../components/ui/PageScaffold';
+import { SpinningLogo } from '../../components/ui/SpinningLogo';
+import { useNotifications } from '../../hooks/useNotifications';
+import { useSchedule } from '../../hooks/useSchedule';
+import { useTimezoneChange } from '../../hooks/useTimezoneChange';
+import { colors, font, type as t } from '../../theme/tokens';
+import { formatClockTime } from '../../utils/formatTime';
+import { findUpcomingShowsForArtists } from '../../utils/nextShow';
+
+function formatDayHeading(iso: string, timezone: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    timeZone: timezone,
+  });
+}
+
+export default function SubscribedScheduleScreen() {
+  const { artists } = useLocalSearchParams<{ artists?: string }>();
+  const router = useRouter();
+  const currentTimezone = useTimezoneChange();
+  const { subscriptions } = useNotifications();
+  const { data: schedule, isLoading, isError } = useSchedule(currentTimezone);
+
+  const artistIds = useMemo(() => {
+    const fromLink = (artists ?? '').split(',').filter(Boolean);
+    if (fromLink.length > 0) return fromLink;
+    return Object.values(subscriptions)
+      .filter((sub) => sub.isActive)
+      .map((sub) => sub.artistId);
+  }, [artists, subscriptions]);
+
+  // The week's shows, bucketed by local day
+  const days = useMemo(() => {
+    const shows = findUpcomingShowsForArtists(schedule ?? [], artistIds);
+    const byDay: { heading: string; shows: typeof shows }[] = [];
+    for (const show of shows) {
+      const heading = formatDayHeading(show.startDateUtc, currentTimezone);
+      const last = byDay[byDay.length - 1];
+      if (last?.heading === heading) {
+        last.shows.push(show);
+      } else {
+        byDay.push({ heading, shows: [show] });
+      }
+    }
+    return byDay;
+  }, [schedule, artistIds, currentTimezone]);
+
+  const hostName = (ids?: string[]) => {
+    const id = ids?.find((a) => subscriptions[a]);
+    return id ? subscriptions[id].artistName : '';
+  };
+
+  return (
+    <PageScaffold left={<HeaderLeftNav />} right={<SpinningLogo />} liveNow>
+      <Eyebrow>schedule</Eyebrow>
+      <Text style={[t.pagehead, { color: colors.green, marginTop: 8 }]}>Your hosts</Text>
+      <ScrollView style={{ flex: 1, marginTop: 24 }} showsVerticalScrollIndicator={false}>
+        {!isLoading && days.length === 0 && (
+          <Text style={[t.bio, { color: colors.textDim }]}>
+            {isError
+              ? 'Couldn’t load the schedule. Please try again later.'
+              : 'None of your hosts are on in the next seven days.'}
+          </Text>
+        )}
+
+        {days.map((day) => (
+          <View key={day.heading} style={{ marginBottom: 10 }}>
+            <Eyebrow>{day.heading}</Eyebrow>
+            {day.shows.map((show) => (
+              <Pressable
+                key={show.id}
+                style={s.row}
+                onPress={() => router.push(`/show/${encodeURIComponent(show.id)}`)}
+              >
+                <View style={s.timeCol}>
+                  <Text style={[s.time, { color: colors.text }]} numberOfLines={1}>
+                    {formatClockTime(show.startDateUtc, currentTimezone)}
+                  </Text>
+                </View>
+                <View style={{ flex: 1 }}>
+                  <FormattedShowTitle title={show.title.trim()} color={colors.green} size={26} style={t.rowTitle} />
+                  <Text style={[t.rowSub, { color: colors.text, marginTop: 4 }]}>{hostName(show.artistIds)}</Text>
+                </View>
+              </Pressable>
+            ))}
+          </View>
+        ))}
+      </ScrollView>
+    </PageScaffold>
+  );
+}
+
+const s = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'flex-start', gap: 14, marginTop: 18, marginBottom: 12 },
+  timeCol: { width: 84 },
+  time: { fontFamily: font.body, fontWeight: '600', fontSize: 16 },
+});
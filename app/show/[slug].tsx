@@ -9,81 +9,24 @@ import { ActivityIndicator, Platform, Pressable, ScrollView, Text, View } from '
 import { FormattedShowTitle } from '../../components/FormattedShowTitle';
 import { ShareCard } from '../../components/share/ShareCard';
 import { useShareShow } from '../../hooks/useShareShow';
+import { useCalendarExport } from '../../hooks/useCalendarExport';
 import { HeaderLeftNav } from '../../components/ui/HeaderLeftNav';
 import { Eyebrow } from '../../components/ui/Eyebrow';
+import { LeadTimePicker } from '../../components/ui/LeadTimePicker';
 import { NotifyControl } from '../../components/ui/NotifyControl';
 import { PageScaffold } from '../../components/ui/PageScaffold';
 import { SpinningLogo } from '../../components/ui/SpinningLogo';
 import { ShowArtworkBackground } from '../../components/ui/ShowArtworkBackground';
-import { apiKey } from '../../config';
 import { useNotifications } from '../../hooks/useNotifications';
+import { useScheduleEvent } from '../../hooks/useSchedule';
 import { useTimezoneChange } from '../../hooks/useTimezoneChange';
 import { colors, font, type as t } from '../../theme/tokens';
 import { stripFormatting } from '../../utils/stripFormatting';
 import { formatClockTime } from '../../utils/formatTime';
+import { getArtist } from '../../utils/radiocultClient';
 
-const STATION_ID = 'eist-radio';
 const fallbackImage = require('../../assets/images/eist_online.png');
 
-type RawScheduleItem = {
-  id: string;
-  stationId: string;
-  title: string;
-  startDateUtc: string;
-  endDateUtc: string;
-  description?: { content?: any[] };
-  duration: number;
-  timezone: string;
-  color?: string;
-  artistIds?: string[];
-  isRecurring: boolean;
-  media:
-    | { type: 'mix'; trackId?: string }
-    | { type: 'playlist'; playlistId: string }
-    | { type: 'live' };
-};
-
-type Artist = {
-  id: string;
-  name?: string;
-  logo?: {
-    default?: string;
-    '256x256'?: string;
-    '512x512'?: string;
-    '1024x1024'?: string;
-  };
-};
-
-async function fetchEventById(id: string): Promise<RawScheduleItem> {
-  // Start the window one day earlier (yesterday 00:00) so a show that began
-  // before today's UTC midnight — including the currently-live and late-night
-  // shows — still falls inside the lookup range (matches ScheduleScreen).
-  const start = new Date();
-  start.setDate(start.getDate() - 1);
-  const end = new Date();
-  end.setDate(end.getDate() + 7);
-
-  const startIso = `${start.toISOString().split('T')[0]}T00:00:00Z`;
-  const endIso = `${end.toISOString().split('T')[0]}T23:59:59Z`;
-
-  const url =
-    `https://api.radiocult.fm/api/station/${STATION_ID}/schedule` +
-    `?startDate=${startIso}&endDate=${endIso}`;
-  const res = await fetch(url, { headers: { 'x-api-key': apiKey } });
-  const json = await res.json();
-  const match = (json.schedules || []).find((e: RawScheduleItem) => e.id === id);
-  if (!match) throw new Error('Show not found');
-  return match;
-}
-
-async function fetchHostArtist(artistId: string): Promise<Artist> {
-  const url = `https://api.radiocult.fm/api/station/${STATION_ID}/artists/${artistId}`;
-  const res = await fetch(url, { headers: { 'x-api-key': apiKey } });
-  const json = await res.json();
-  if (!json.artist) throw new Error('Artist not found');
-  return json.artist;
-}
-
 function formatShowTime(start: string, end: string, timezone: string): string {
   return formatClockTime(start, timezone);
 }
@@ -128,44 +71,51 @@ export default function ShowScreen() {
   const [imageFailed, setImageFailed] = useState(false);
 
   // All hooks must run before any early return (rules of hooks)
-  const { data: event, isError: eventNotFound } = useQuery({
-    queryKey: ['show', slug],
-    queryFn: () => fetchEventById(slug || ''),
-    enabled: !!slug,
-  });
+  // Looked up in the shared schedule window (yesterday onwards, so the live
+  // and late-night shows are still there) rather than fetched separately
+  const { event, isError, isNotFound } = useScheduleEvent(slug, currentTimezone);
+  const eventNotFound = isError || isNotFound;
 
   const hostIds = event?.artistIds || [];
 
+  // retry: false throughout, since radiocultClient retries transient failures itself
   const host1 = useQuery({
     queryKey: ['artist', hostIds[0]],
-    queryFn: () => fetchHostArtist(hostIds[0]),
+    queryFn: () => getArtist(hostIds[0]),
     enabled: Boolean(hostIds[0]),
+    retry: false,
   });
 
   const host2 = useQuery({
     queryKey: ['artist', hostIds[1]],
-    queryFn: () => fetchHostArtist(hostIds[1]),
+    queryFn: () => getArtist(hostIds[1]),
     enabled: Boolean(hostIds[1]),
+    retry: false,
   });
 
   const host3 = useQuery({
     queryKey: ['artist', hostIds[2]],
-    queryFn: () => fetchHostArtist(hostIds[2]),
+    queryFn: () => getArtist(hostIds[2]),
     enabled: Boolean(hostIds[2]),
+    retry: false,
   });
 
   const host4 = useQuery({
     queryKey: ['artist', hostIds[3]],
-    queryFn: () => fetchHostArtist(hostIds[3]),
+    queryFn: () => getArtist(hostIds[3]),
     enabled: Boolean(hostIds[3]),
+    retry: false,
   });
 
   const hosts = [host1.data, host2.data, host3.data, host4.data].filter(Boolean);
 
   // Notify wiring (per-show reminder)
-  const { isShowReminderSet, toggleShowReminder, isLoading } = useNotifications();
+  const { isShowReminderSet, toggleShowReminder, getShowReminder, setReminderLeadTime, isLoading } =
+    useNotifications();
   const [isToggling, setIsToggling] = useState(false);
   const isSet = event ? isShowReminderSet(event.id) : false;
+  const reminder = event ? getShowReminder(event.id) : undefined;
+  const { exportShows, isExporting } = useCalendarExport();
   const hasStarted = event ? new Date(event.startDateUtc) <= new Date() : false;
 
   const onToggleNotify = useCallback(async () => {
@@ -302,6 +252,30 @@ export default function ShowScreen() {
           caption="for this show"
         />
 
+        {reminder && !hasStarted ? (
+          <View style={{ marginTop: 16 }}>
+            <LeadTimePicker
+              value={reminder.leadTime}
+              onChange={(leadTime) =>
+                setReminderLeadTime(reminder.showId, leadTime).catch((e) =>
+                  console.error('Failed to change reminder time:', e)
+                )
+              }
+            />
+          </View>
+        ) : null}
+
+        {Platform.OS !== 'web' ? (
+          <Pressable
+            onPress={() => exportShows([{ item: event, hostName: hosts[0]?.name }], `eist-${event.id}`)}
+            disabled={isExporting}
+            accessibilityRole="button"
+            style={{ marginTop: 22 }}
+          >
+            <Text style={[t.meta, { color: isExporting ? colors.textDim : colors.green }]}>Add to calendar</Text>
+          </Pressable>
+        ) : null}
+
         {plain ? (
           <Text style={[t.bio, { color: colors.text, marginTop: 26 }]}>
             {plain}
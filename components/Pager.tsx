@@ -12,6 +12,7 @@ import ListenScreen from './screens/ListenScreen';
 import ScheduleScreen from './screens/ScheduleScreen';
 import ArtistsScreen from './screens/ArtistsScreen';
 import ArchiveScreen from './screens/ArchiveScreen';
+import SavedScreen from './screens/SavedScreen';
 import ConnectScreen from './screens/ConnectScreen';
 import NotificationsScreen from './screens/NotificationsScreen';
 
@@ -47,8 +48,9 @@ export function Pager() {
               : i === 1 ? <ScheduleScreen pageIndex={1} isActive={active === 1} />
               : i === 2 ? <ArtistsScreen pageIndex={2} isActive={active === 2} />
               : i === 3 ? <ArchiveScreen pageIndex={3} isActive={active === 3} />
-              : i === 4 ? <NotificationsScreen pageIndex={4} isActive={active === 4} />
-              : i === 5 ? <ConnectScreen pageIndex={5} isActive={active === 5} />
+              : i === 4 ? <SavedScreen pageIndex={4} isActive={active === 4} />
+              : i === 5 ? <NotificationsScreen pageIndex={5} isActive={active === 5} />
+              : i === 6 ? <ConnectScreen pageIndex={6} isActive={active === 6} />
               : <PageScaffold><Text style={{ color: colors.green }}>Page {i}</Text></PageScaffold>}
           </View>
         ))}
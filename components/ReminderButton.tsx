@@ -11,9 +11,11 @@ import {
   View,
 } from 'react-native';
 import { useNotifications } from '../hooks/useNotifications';
+import { colors } from '../theme/tokens';
+import { ReminderLeadTime } from '../types/notifications';
 
 const COLORS = {
-  lime: '#AFFC41',
+  lime: colors.green,
   limeMuted: 'rgba(175, 252, 65, 0.5)',
   limeSubtle: 'rgba(175, 252, 65, 0.15)',
 };
@@ -23,6 +25,8 @@ type ReminderButtonProps = {
   showTitle: string;
   artistName?: string;
   startDateUtc: string;
+  // Lead time for this show; the default applies when omitted
+  leadTime?: ReminderLeadTime;
   size?: number;
   disabled?: boolean;
 };
@@ -32,6 +36,7 @@ export const ReminderButton: React.FC<ReminderButtonProps> = ({
   showTitle,
   artistName,
   startDateUtc,
+  leadTime,
   size = 22,
   disabled = false,
 }) => {
@@ -61,6 +66,7 @@ export const ReminderButton: React.FC<ReminderButtonProps> = ({
         showTitle,
         artistName,
         startDateUtc,
+        leadTime,
       });
     } catch (error) {
       console.error('Failed to toggle reminder:', error);
@@ -76,6 +82,7 @@ export const ReminderButton: React.FC<ReminderButtonProps> = ({
     showTitle,
     artistName,
     startDateUtc,
+    leadTime,
     toggleShowReminder,
   ]);
 
@@ -3,11 +3,22 @@ import { ActivityIndicator, NativeScrollEvent, NativeSyntheticEvent, ScrollView,
 import { useRouter } from 'expo-router';
 import { colors, font, type } from '../../theme/tokens';
 import { useArchiveShows } from '../../hooks/useArchiveShows';
+import { useDownloads } from '../../context/DownloadContext';
+import { useListeningHistory } from '../../context/ListeningHistoryContext';
+import { DOWNLOAD_QUOTA_OPTIONS, formatBytes } from '../../utils/downloadStorage';
+import { formatDuration } from '../../utils/formatTime';
+import { getContinueListening } from '../../utils/listeningHistory';
 import { PageScaffold } from '../ui/PageScaffold';
 import { Eyebrow } from '../ui/Eyebrow';
 import { Chevron } from '../ui/Chevron';
+import { ListeningMarker } from '../ui/ListeningMarker';
 import { FormattedShowTitle } from '../FormattedShowTitle';
 
+// How many half-finished shows the "Continue listening" row shows.
+const CONTINUE_LIMIT = 3;
+
+type ArchiveFilter = 'all' | 'downloads';
+
 function formatDate(isoString?: string): string | null {
   if (!isoString) return null;
   const date = new Date(isoString);
@@ -23,6 +34,7 @@ export default function ArchiveScreen(_props: { pageIndex: number; isActive: boo
   const router = useRouter();
   const [query, setQuery] = useState('');
   const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<ArchiveFilter>('all');
 
   // Debounce the input before hitting the backend so we don't fire a request
   // on every keystroke.
@@ -36,13 +48,33 @@ export default function ArchiveScreen(_props: { pageIndex: number; isActive: boo
   const { shows: items, hasMore, loadMore, isLoadingMore, isLoading } =
     useArchiveShows(search);
 
+  const { history } = useListeningHistory();
+  // Only on the unfiltered list — a search is looking for something specific
+  const continueListening =
+    search || filter !== 'all' ? [] : getContinueListening(history).slice(0, CONTINUE_LIMIT);
+
+  // Downloads are filtered locally (they have to work offline), newest first
+  const { downloads, usedBytes, quotaBytes, setQuota, isSupported: downloadsSupported } =
+    useDownloads();
+  const needle = search.toLowerCase();
+  const downloadedShows = Object.values(downloads)
+    .sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt))
+    .map((d) => d.show)
+    .filter(
+      (show) =>
+        !needle ||
+        show.title.toLowerCase().includes(needle) ||
+        show.artistName.toLowerCase().includes(needle)
+    );
+  const rows = filter === 'downloads' ? downloadedShows : items;
+
   // Load the next page as the user nears the bottom. loadMore() already guards
   // against overlapping/duplicate fetches, so an eager threshold is safe.
   const onScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
     const { layoutMeasurement, contentOffset, contentSize } = e.nativeEvent;
     const distanceFromBottom =
       contentSize.height - (contentOffset.y + layoutMeasurement.height);
-    if (hasMore && distanceFromBottom < 600) loadMore();
+    if (filter === 'all' && hasMore && distanceFromBottom < 600) loadMore();
   };
 
   return (
@@ -60,8 +92,50 @@ export default function ArchiveScreen(_props: { pageIndex: number; isActive: boo
         returnKeyType="search"
         clearButtonMode="while-editing"
       />
+      {downloadsSupported && (
+        <View style={s.filters}>
+          {(['all', 'downloads'] as ArchiveFilter[]).map((f) => (
+            <Pressable key={f} onPress={() => setFilter(f)} hitSlop={8} accessibilityRole="button" accessibilityState={{ selected: filter === f }}>
+              <Text style={[s.filter, { color: filter === f ? colors.green : colors.textDim }]}>{f}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
       <ScrollView style={{ flex: 1, marginTop: 24 }} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled" onScroll={onScroll} scrollEventThrottle={16}>
-        {items.map((it) => (
+        {continueListening.length > 0 && (
+          <View style={s.continue}>
+            <Eyebrow>continue listening</Eyebrow>
+            {continueListening.map(({ show, position, duration }) => (
+              <Pressable key={show.id} style={[s.row, { marginTop: 14, marginBottom: 0 }]} onPress={() => router.push(`/archive/${show.slug}`)}>
+                <View style={{ flex: 1 }}>
+                  <FormattedShowTitle title={show.title} color={colors.green} size={26} style={type.rowTitle} />
+                  <Text style={[type.rowSub, { color: colors.text, marginTop: 4 }]}>{show.artistName}</Text>
+                  <Text style={[type.meta, { color: colors.textDim, marginTop: 2 }]}>
+                    {duration > 0
+                      ? `${formatDuration(duration - position)} left`
+                      : `Stopped at ${formatDuration(position)}`}
+                  </Text>
+                </View>
+                <Chevron direction="right" size={20} />
+              </Pressable>
+            ))}
+          </View>
+        )}
+        {filter === 'downloads' && (
+          <View style={s.quota}>
+            <Text style={[type.meta, { color: colors.text }]}>
+              {`Using ${formatBytes(usedBytes)} of ${formatBytes(quotaBytes)}`}
+            </Text>
+            <View style={s.filters}>
+              {DOWNLOAD_QUOTA_OPTIONS.map(({ bytes, label }) => (
+                <Pressable key={bytes} onPress={() => setQuota(bytes)} hitSlop={8} accessibilityRole="button" accessibilityLabel={`Limit downloads to ${label}`} accessibilityState={{ selected: quotaBytes === bytes }}>
+                  <Text style={[type.meta, { color: quotaBytes === bytes ? colors.green : colors.textDim }]}>{label}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+        )}
+        {rows.map((it) => (
           <Pressable key={it.slug} style={s.row} onPress={() => router.push(`/archive/${it.slug}`)}>
             <View style={{ flex: 1 }}>
               <FormattedShowTitle title={it.title} color={colors.green} size={26} style={type.rowTitle} />
@@ -69,16 +143,21 @@ export default function ArchiveScreen(_props: { pageIndex: number; isActive: boo
               {formatDate(it.start) && (
                 <Text style={[type.meta, { color: colors.textDim, marginTop: 2 }]}>{formatDate(it.start)}</Text>
               )}
+              <ListeningMarker entry={history[it.id]} />
             </View>
             <Chevron direction="right" size={20} />
           </Pressable>
         ))}
-        {isLoadingMore && (
+        {filter === 'all' && isLoadingMore && (
           <ActivityIndicator color={colors.green} style={{ marginBottom: 30 }} />
         )}
-        {!isLoading && items.length === 0 && (
+        {(filter === 'downloads' || !isLoading) && rows.length === 0 && (
           <Text style={[type.meta, { color: colors.textDim, marginTop: 8 }]}>
-            {search ? `No shows match "${search}"` : 'No shows found'}
+            {search
+              ? `No shows match "${search}"`
+              : filter === 'downloads'
+                ? 'No downloads yet'
+                : 'No shows found'}
           </Text>
         )}
       </ScrollView>
@@ -88,5 +167,9 @@ export default function ArchiveScreen(_props: { pageIndex: number; isActive: boo
 
 const s = StyleSheet.create({
   row: { flexDirection: 'row', alignItems: 'center', gap: 16, marginBottom: 30 },
+  continue: { marginBottom: 40 },
+  filters: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 13, marginTop: 10 },
+  filter: { fontFamily: font.body, fontWeight: '600', fontSize: 16, letterSpacing: 0.2 },
+  quota: { marginBottom: 30 },
   search: { fontFamily: font.body, fontWeight: '500', fontSize: 16, color: colors.green, marginTop: 18, paddingVertical: 4 },
 });
@@ -12,31 +12,45 @@ import {
   View,
 } from 'react-native'
 import { CastButton } from '../CastButton'
-import { apiKey } from '../../config'
+import { useCast } from '../../context/CastContext'
 import { useTrackPlayer } from '../../context/TrackPlayerContext'
 import { useTimezoneChange } from '../../hooks/useTimezoneChange'
 import { colors, font } from '../../theme/tokens'
 import { formatShowTimeRange } from '../../utils/liveShowInfo'
+import { findUpNextShow } from '../../utils/nextShow'
+import { getArtist, getLiveSchedule, getSchedule } from '../../utils/radiocultClient'
+import { HAS_LOW_DATA_STREAM } from '../../utils/streamQuality'
 import { FormattedShowTitle } from '../FormattedShowTitle'
 import { Eyebrow } from '../ui/Eyebrow'
 import { PageScaffold } from '../ui/PageScaffold'
 import { PlayDisc } from '../ui/PlayDisc'
 import { ShowArtworkBackground } from '../ui/ShowArtworkBackground'
+import { SleepTimerControl } from '../ui/SleepTimerControl'
+import { SpeakerControl } from '../ui/SpeakerControl'
+import { StreamQualityControl } from '../ui/StreamQualityControl'
 
 
 const placeholderArtistImage = require('../../assets/images/eist_online.png')
 const placeholderOfflineImage = require('../../assets/images/eist_offline.png')
 
-const stationId = 'eist-radio'
-const apiUrl = `https://api.radiocult.fm/api/station/${stationId}`
 
 export default function ListenScreen({ isActive }: { pageIndex: number; isActive: boolean }) {
   const {
     isPlaying,
     togglePlayStop,
     updateMetadata,
-    isCastConnected,
+    sleepTimer,
+    startSleepTimer,
+    cancelSleepTimer,
+    onDemandShow,
+    streamQuality,
+    setStreamQuality,
+    isLowDataMode,
+    reconnectStatus,
   } = useTrackPlayer()
+  const { isCastConnected } = useCast()
+  // The Listen button reflects the live stream only, not an archive show
+  const isLivePlaying = isPlaying && !onDemandShow
   const router = useRouter()
   const currentTimezone = useTimezoneChange()
 
@@ -77,7 +91,8 @@ export default function ListenScreen({ isActive }: { pageIndex: number; isActive
       .filter(Boolean)
       .join('\n\n') || ''
 
-  // Preload image function
+  // Preload image function. In low-data mode nothing is fetched ahead; the
+  // artwork loads only when it's actually drawn.
   const preloadImage = useCallback((uri: string): Promise<boolean> => {
     return new Promise((resolve) => {
       if (!uri) {
@@ -85,6 +100,11 @@ export default function ListenScreen({ isActive }: { pageIndex: number; isActive
         return
       }
 
+      if (isLowDataMode) {
+        resolve(true)
+        return
+      }
+
       // Check if we're on web or native
       if (Platform.OS === 'web') {
         // Web environment - use standard HTML Image preloading
@@ -115,7 +135,7 @@ export default function ListenScreen({ isActive }: { pageIndex: number; isActive
         }
       }
     })
-  }, [])
+  }, [isLowDataMode])
 
   const getArtistDetails = useCallback(async (id: string | null) => {
     if (!id) return { name: '', image: placeholderArtistImage }
@@ -126,12 +146,7 @@ export default function ListenScreen({ isActive }: { pageIndex: number; isActive
     }
 
     try {
-      const res = await fetch(`${apiUrl}/artists/${id}`, {
-        headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
-      })
-      if (!res.ok) throw new Error(`HTTP ${res.status}`)
-      const json = await res.json()
-      const artist = json.artist || {}
+      const artist = await getArtist(id)
       const imageUrl = artist.logo?.['1024x1024'] || artist.logo?.['512x512'] || artist.logo?.['256x256']
       const artistData = {
         name: artist.name || '',
@@ -168,30 +183,17 @@ export default function ListenScreen({ isActive }: { pageIndex: number; isActive
   const fetchLiveScheduleOnly = useCallback(async () => {
 
     try {
-      const res = await fetch(`${apiUrl}/schedule/live`, {
-        headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
-      })
-      if (!res.ok) throw new Error(`HTTP ${res.status}`)
-      const data = await res.json()
-      const { status, content, metadata } = data.result
+      const { status, content, metadata } = await getLiveSchedule()
 
       setBroadcastStatus(status)
 
-      if (status !== 'schedule') {
+      if (status !== 'schedule' || !content) {
         await clearNowPlayingState()
 
         try {
           const now = new Date().toISOString()
           const weekAhead = new Date(Date.now() + 7 * 86400000).toISOString()
-          const nextRes = await fetch(
-            `${apiUrl}/schedule?startDate=${encodeURIComponent(now)}&endDate=${encodeURIComponent(weekAhead)}`,
-            {
-              headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
-            }
-          )
-          if (!nextRes.ok) throw new Error(`HTTP ${nextRes.status}`)
-          const nextJson = await nextRes.json()
-          const events: any[] = nextJson.schedules || []
+          const events = await getSchedule({ startDate: now, endDate: weekAhead })
           if (events.length > 0) {
             events.sort((a, b) => new Date(a.startDateUtc).getTime() - new Date(b.startDateUtc).getTime())
             const nextEvent = events[0]
@@ -280,31 +282,18 @@ export default function ListenScreen({ isActive }: { pageIndex: number; isActive
     setIsContentLoading(true)
 
     try {
-      const res = await fetch(`${apiUrl}/schedule/live`, {
-        headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
-      })
-      if (!res.ok) throw new Error(`HTTP ${res.status}`)
-      const data = await res.json()
-      const { status, content, metadata } = data.result
+      const { status, content, metadata } = await getLiveSchedule()
 
       setBroadcastStatus(status)
 
-      if (status !== 'schedule') {
+      if (status !== 'schedule' || !content) {
         await clearNowPlayingState()
 
         // Fetch next show information when station is off air
         try {
           const now = new Date().toISOString()
           const weekAhead = new Date(Date.now() + 7 * 86400000).toISOString()
-          const nextRes = await fetch(
-            `${apiUrl}/schedule?startDate=${encodeURIComponent(now)}&endDate=${encodeURIComponent(weekAhead)}`,
-            {
-              headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
-            }
-          )
-          if (!nextRes.ok) throw new Error(`HTTP ${nextRes.status}`)
-          const nextJson = await nextRes.json()
-          const events: any[] = nextJson.schedules || []
+          const events = await getSchedule({ startDate: now, endDate: weekAhead })
           if (events.length > 0) {
             events.sort((a, b) => new Date(a.startDateUtc).getTime() - new Date(b.startDateUtc).getTime())
             const nextEvent = events[0]
@@ -378,19 +367,10 @@ export default function ListenScreen({ isActive }: { pageIndex: number; isActive
       const nowMs = Date.now()
       const now = new Date(nowMs).toISOString()
       const weekAhead = new Date(nowMs + 7 * 86400000).toISOString()
-      const res = await fetch(
-        `${apiUrl}/schedule?startDate=${encodeURIComponent(now)}&endDate=${encodeURIComponent(weekAhead)}`,
-        { headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' } }
-      )
-      if (!res.ok) return
-      const json = await res.json()
-      const events: any[] = (json.schedules || []).filter(
-        (e: any) => new Date(e.startDateUtc).getTime() > nowMs
-      )
-      events.sort((a, b) => new Date(a.startDateUtc).getTime() - new Date(b.startDateUtc).getTime())
-      if (events.length > 0) {
-        setNextShowId(events[0].id)
-        setNextShowTitle(events[0].title || '')
+      const nextEvent = findUpNextShow(await getSchedule({ startDate: now, endDate: weekAhead }), new Date(nowMs))
+      if (nextEvent) {
+        setNextShowId(nextEvent.id)
+        setNextShowTitle(nextEvent.title || '')
       }
     } catch (err) {
       console.warn('Up-next fetch failed:', err)
@@ -525,11 +505,38 @@ export default function ListenScreen({ isActive }: { pageIndex: number; isActive
 
       <View style={s.player}>
         <Pressable onPress={handlePlayButtonPress} accessibilityRole="button"
-          accessibilityLabel={isPlaying ? 'Stop playback' : 'Start playback'}>
-          <PlayDisc playing={isPlaying} size={68} />
+          accessibilityLabel={isLivePlaying ? 'Stop playback' : 'Start playback'}>
+          <PlayDisc playing={isLivePlaying} size={68} />
         </Pressable>
-        <Text style={s.playlabel}>{isPlaying ? 'Stop' : 'Listen now'}</Text>
+        <Text style={s.playlabel}>{isLivePlaying ? 'Stop' : 'Listen now'}</Text>
       </View>
+
+      {!onDemandShow && reconnectStatus === 'reconnecting' ? (
+        <Text style={s.reconnect} accessibilityLiveRegion="polite">reconnecting…</Text>
+      ) : null}
+      {!onDemandShow && reconnectStatus === 'failed' ? (
+        <Pressable onPress={handlePlayButtonPress} accessibilityRole="button">
+          <Text style={s.reconnect} accessibilityLiveRegion="polite">couldn’t reconnect, tap to retry</Text>
+        </Pressable>
+      ) : null}
+
+      {isPlaying || sleepTimer ? (
+        <SleepTimerControl
+          timer={sleepTimer}
+          onStart={startSleepTimer}
+          onCancel={cancelSleepTimer}
+        />
+      ) : null}
+
+      {HAS_LOW_DATA_STREAM ? (
+        <StreamQualityControl
+          setting={streamQuality}
+          isLowData={isLowDataMode}
+          onChange={setStreamQuality}
+        />
+      ) : null}
+
+      <SpeakerControl />
     </PageScaffold>
   );
 }
@@ -550,4 +557,5 @@ const s = StyleSheet.create({
   upNextText: { fontFamily: font.body, fontWeight: '500', fontSize: 16, color: colors.text },
   player: { flexDirection: 'row', alignItems: 'center', gap: 21, marginTop: 34 },
   playlabel: { fontFamily: font.body, fontWeight: '600', fontSize: 26, letterSpacing: 0.2, color: colors.green },
+  reconnect: { fontFamily: font.body, fontWeight: '500', fontSize: 16, color: colors.text, marginTop: 13 },
 });
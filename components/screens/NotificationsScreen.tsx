@@ -2,11 +2,16 @@ import React, { useCallback, useMemo, useState } from 'react';
 import { Ionicons } from '@expo/vector-icons';
 import { Platform, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 import * as Haptics from 'expo-haptics';
-import { useQuery } from '@tanstack/react-query';
-import { colors, type } from '../../theme/tokens';
+import { useRouter } from 'expo-router';
+import { colors, font, type } from '../../theme/tokens';
+import { useAlarms } from '../../context/AlarmContext';
+import { subscribedScheduleHref, useDigest } from '../../context/DigestContext';
 import { useNotifications } from '../../hooks/useNotifications';
 import { useTimezoneChange } from '../../hooks/useTimezoneChange';
-import { fetchNextShowForArtist, formatNextShowDate } from '../../utils/nextShow';
+import { useNextShowForArtist } from '../../hooks/useSchedule';
+import { formatNextShowDate } from '../../utils/nextShow';
+import { DIGEST_WEEKS_AHEAD, formatLeadTime } from '../../utils/notificationScheduler';
+import { LeadTimePicker } from '../ui/LeadTimePicker';
 import { PageScaffold } from '../ui/PageScaffold';
 import { Eyebrow } from '../ui/Eyebrow';
 import { FormattedShowTitle } from '../FormattedShowTitle';
@@ -37,6 +42,172 @@ function ClearButton({ onPress, label }: { onPress: () => void; label: string })
   );
 }
 
+// Weekday chips in Monday-first display order, using expo-notifications'
+// weekly-trigger numbering (1 = Sunday … 7 = Saturday).
+const WEEKDAYS = [
+  { value: 2, short: 'M', name: 'Mon' },
+  { value: 3, short: 'T', name: 'Tue' },
+  { value: 4, short: 'W', name: 'Wed' },
+  { value: 5, short: 'T', name: 'Thu' },
+  { value: 6, short: 'F', name: 'Fri' },
+  { value: 7, short: 'S', name: 'Sat' },
+  { value: 1, short: 'S', name: 'Sun' },
+];
+
+function formatAlarmTime(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function formatAlarmDays(weekdays: number[]): string {
+  const set = new Set(weekdays);
+  if (set.size === 7) return 'Every day';
+  if (set.size === 5 && [2, 3, 4, 5, 6].every((d) => set.has(d))) return 'Weekdays';
+  if (set.size === 2 && set.has(1) && set.has(7)) return 'Weekends';
+  return WEEKDAYS.filter((d) => set.has(d.value)).map((d) => d.name).join(', ');
+}
+
+function StepButton({ icon, onPress, label }: { icon: 'remove' | 'add'; onPress: () => void; label: string }) {
+  return (
+    <Pressable onPress={onPress} hitSlop={8} accessibilityRole="button" accessibilityLabel={label} style={s.clear}>
+      <Ionicons name={icon} size={20} color={colors.green} />
+    </Pressable>
+  );
+}
+
+function AlarmEditor({
+  onSave,
+  onCancel,
+}: {
+  onSave: (hour: number, minute: number, weekdays: number[]) => void;
+  onCancel: () => void;
+}) {
+  const [hour, setHour] = useState(7);
+  const [minute, setMinute] = useState(0);
+  const [weekdays, setWeekdays] = useState<number[]>([2, 3, 4, 5, 6]);
+
+  const toggleDay = (value: number) =>
+    setWeekdays((prev) => (prev.includes(value) ? prev.filter((d) => d !== value) : [...prev, value]));
+
+  return (
+    <View style={{ marginBottom: 28 }}>
+      <View style={s.stepRow}>
+        <StepButton icon="remove" label="Earlier hour" onPress={() => setHour((h) => (h + 23) % 24)} />
+        <Text style={[type.rowTitle, { color: colors.green }]}>{formatAlarmTime(hour, minute)}</Text>
+        <StepButton icon="add" label="Later hour" onPress={() => setHour((h) => (h + 1) % 24)} />
+        <View style={{ width: 8 }} />
+        <StepButton icon="remove" label="Five minutes earlier" onPress={() => setMinute((m) => (m + 55) % 60)} />
+        <StepButton icon="add" label="Five minutes later" onPress={() => setMinute((m) => (m + 5) % 60)} />
+      </View>
+      <View style={[s.stepRow, { marginTop: 16 }]}>
+        {WEEKDAYS.map((d) => {
+          const selected = weekdays.includes(d.value);
+          return (
+            <Pressable
+              key={d.value}
+              onPress={() => toggleDay(d.value)}
+              accessibilityRole="button"
+              accessibilityLabel={d.name}
+              accessibilityState={{ selected }}
+              style={[s.day, selected && { backgroundColor: colors.green }]}
+            >
+              <Text style={[s.dayText, { color: selected ? colors.purple : colors.green }]}>{d.short}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <View style={[s.stepRow, { marginTop: 18, gap: 21 }]}>
+        <Pressable onPress={() => onSave(hour, minute, weekdays)} disabled={weekdays.length === 0} accessibilityRole="button">
+          <Text style={[type.eyebrow, { color: weekdays.length === 0 ? colors.textDim : colors.green }]}>Save alarm</Text>
+        </Pressable>
+        <Pressable onPress={onCancel} accessibilityRole="button">
+          <Text style={[type.eyebrow, { color: colors.textDim }]}>Cancel</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+// Weekly digest of subscribed hosts: on/off, then day and time
+function DigestSettings({ artistIds }: { artistIds: string[] }) {
+  const router = useRouter();
+  const { digest, updateWeeklyDigest } = useDigest();
+
+  const update = (changes: Parameters<typeof updateWeeklyDigest>[0]) => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    updateWeeklyDigest(changes).catch((e) => console.error('Failed to update weekly digest:', e));
+  };
+
+  const dayName = WEEKDAYS.find((d) => d.value === digest.weekday)?.name ?? '';
+
+  return (
+    <View style={{ marginBottom: 28 }}>
+      <View style={s.row}>
+        <View style={{ flex: 1 }}>
+          <Text style={[type.rowTitle, { color: colors.green }]}>Weekly digest</Text>
+          <Text style={[type.rowSub, { color: colors.text, marginTop: 4 }]}>
+            {digest.enabled
+              ? `${dayName}s at ${formatAlarmTime(digest.hour, digest.minute)}: your hosts' shows that week`
+              : 'One notification a week listing your hosts’ shows'}
+          </Text>
+          {digest.enabled && (
+            <Text style={[type.rowSub, { color: colors.textDim, marginTop: 4 }]}>
+              {`Set up ${DIGEST_WEEKS_AHEAD} weeks at a time whenever you open the app. If you don't open it for longer, the digests stop until you do.`}
+            </Text>
+          )}
+        </View>
+        <Pressable
+          onPress={() => update({ enabled: !digest.enabled })}
+          accessibilityRole="switch"
+          accessibilityState={{ checked: digest.enabled }}
+          accessibilityLabel="Weekly digest"
+        >
+          <Text style={[type.eyebrow, { color: digest.enabled ? colors.green : colors.textDim }]}>
+            {digest.enabled ? 'On' : 'Off'}
+          </Text>
+        </Pressable>
+      </View>
+
+      {digest.enabled && (
+        <>
+          <View style={[s.stepRow, { marginTop: -12 }]}>
+            {WEEKDAYS.map((d) => {
+              const selected = digest.weekday === d.value;
+              return (
+                <Pressable
+                  key={d.value}
+                  onPress={() => update({ weekday: d.value })}
+                  accessibilityRole="button"
+                  accessibilityLabel={d.name}
+                  accessibilityState={{ selected }}
+                  style={[s.day, selected && { backgroundColor: colors.green }]}
+                >
+                  <Text style={[s.dayText, { color: selected ? colors.purple : colors.green }]}>{d.short}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+          <View style={[s.stepRow, { marginTop: 16 }]}>
+            <StepButton icon="remove" label="Earlier hour" onPress={() => update({ hour: (digest.hour + 23) % 24 })} />
+            <Text style={[type.rowTitle, { color: colors.green }]}>{formatAlarmTime(digest.hour, digest.minute)}</Text>
+            <StepButton icon="add" label="Later hour" onPress={() => update({ hour: (digest.hour + 1) % 24 })} />
+            <View style={{ width: 8 }} />
+            <StepButton icon="remove" label="Fifteen minutes earlier" onPress={() => update({ minute: (digest.minute + 45) % 60 })} />
+            <StepButton icon="add" label="Fifteen minutes later" onPress={() => update({ minute: (digest.minute + 15) % 60 })} />
+          </View>
+        </>
+      )}
+
+      <Pressable
+        onPress={() => router.push(subscribedScheduleHref(artistIds))}
+        accessibilityRole="button"
+        style={{ marginTop: 18 }}
+      >
+        <Text style={[type.rowSub, { color: colors.green }]}>See your hosts’ shows this week</Text>
+      </Pressable>
+    </View>
+  );
+}
+
 function SubscriptionRow({
   artistId,
   artistName,
@@ -47,12 +218,7 @@ function SubscriptionRow({
   onClear: () => void;
 }) {
   const timezone = useTimezoneChange();
-  const { data: nextShow } = useQuery({
-    queryKey: ['artist-next-show', artistId, timezone],
-    queryFn: () => fetchNextShowForArtist(artistId, timezone),
-    enabled: !!artistId,
-    staleTime: 5 * 60 * 1000,
-  });
+  const { nextShow } = useNextShowForArtist(artistId, timezone);
 
   const subtitle = nextShow
     ? `Next show: ${formatNextShowDate(nextShow.startDateUtc)}`
@@ -70,8 +236,17 @@ function SubscriptionRow({
 }
 
 export default function NotificationsScreen(_props: { pageIndex: number; isActive: boolean }) {
-  const { reminders, subscriptions, toggleShowReminder, toggleArtistSubscription } = useNotifications();
+  const {
+    reminders,
+    subscriptions,
+    toggleShowReminder,
+    toggleArtistSubscription,
+    defaultLeadTime,
+    setDefaultLeadTime,
+  } = useNotifications();
+  const { alarms, addWakeAlarm, removeWakeAlarm } = useAlarms();
   const [busy, setBusy] = useState(false);
+  const [isAddingAlarm, setIsAddingAlarm] = useState(false);
 
   const reminderList = useMemo(
     () =>
@@ -86,6 +261,12 @@ export default function NotificationsScreen(_props: { pageIndex: number; isActiv
     [subscriptions]
   );
 
+  const alarmList = useMemo(
+    () =>
+      Object.values(alarms).sort((a, b) => a.hour * 60 + a.minute - (b.hour * 60 + b.minute)),
+    [alarms]
+  );
+
   const isEmpty = reminderList.length === 0 && subscriptionList.length === 0;
 
   const clearReminder = useCallback(
@@ -127,16 +308,48 @@ export default function NotificationsScreen(_props: { pageIndex: number; isActiv
     [subscriptions, busy, toggleArtistSubscription]
   );
 
+  const saveAlarm = useCallback(
+    async (hour: number, minute: number, weekdays: number[]) => {
+      if (busy) return;
+      setBusy(true);
+      if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      try {
+        if (await addWakeAlarm(hour, minute, weekdays)) {
+          setIsAddingAlarm(false);
+        }
+      } catch (e) {
+        console.error('Failed to add wake alarm:', e);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [busy, addWakeAlarm]
+  );
+
+  const clearAlarm = useCallback(
+    async (alarmId: string) => {
+      if (busy) return;
+      setBusy(true);
+      if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      try {
+        await removeWakeAlarm(alarmId);
+      } catch (e) {
+        console.error('Failed to clear wake alarm:', e);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [busy, removeWakeAlarm]
+  );
+
   return (
     <PageScaffold frozenLiveNow>
       <Eyebrow>notifications</Eyebrow>
       <Text style={[type.pagehead, { color: colors.green, marginTop: 8 }]}>Reminders</Text>
 
-      {isEmpty ? (
+      {Platform.OS === 'web' ? (
         <Text style={[type.bio, { color: colors.textDim, marginTop: 28 }]}>
-          {Platform.OS === 'web'
-            ? 'Notifications are available in the mobile app.'
-            : "You have no active reminders set up. Tap the bell beside a show or artist to get notified before they go live."}
+          Notifications are available in the mobile app.
         </Text>
       ) : (
         <ScrollView
@@ -144,6 +357,12 @@ export default function NotificationsScreen(_props: { pageIndex: number; isActiv
           contentContainerStyle={{ paddingBottom: 24 }}
           showsVerticalScrollIndicator={false}
         >
+          {isEmpty && (
+            <Text style={[type.bio, { color: colors.textDim, marginBottom: 28 }]}>
+              You have no active reminders set up. Tap the bell beside a show or artist to get notified before they go live.
+            </Text>
+          )}
+
           {reminderList.length > 0 && (
             <Text style={[type.eyebrow, { color: colors.textDim, marginBottom: 16 }]}>Show reminders</Text>
           )}
@@ -154,16 +373,29 @@ export default function NotificationsScreen(_props: { pageIndex: number; isActiv
                 <Text style={[type.rowSub, { color: colors.text, marginTop: 4 }]}>
                   {[r.artistName, formatReminderDate(r.startDateUtc)].filter(Boolean).join(' · ')}
                 </Text>
+                <Text style={[type.rowSub, { color: colors.textDim, marginTop: 4 }]}>
+                  {`Reminder: ${formatLeadTime(r.leadTime).toLowerCase()}`}
+                </Text>
               </View>
               <ClearButton onPress={() => clearReminder(r.showId)} label={`Clear reminder for ${r.showTitle}`} />
             </View>
           ))}
 
+          <View style={{ marginBottom: 28, marginTop: reminderList.length > 0 ? 12 : 0 }}>
+            <Text style={[type.eyebrow, { color: colors.textDim, marginBottom: 16 }]}>Remind me</Text>
+            <LeadTimePicker
+              value={defaultLeadTime}
+              onChange={(leadTime) =>
+                setDefaultLeadTime(leadTime).catch((e) => console.error('Failed to change reminder time:', e))
+              }
+            />
+          </View>
+
           {subscriptionList.length > 0 && (
             <Text
               style={[
                 type.eyebrow,
-                { color: colors.textDim, marginBottom: 16, marginTop: reminderList.length > 0 ? 12 : 0 },
+                { color: colors.textDim, marginBottom: 16 },
               ]}
             >
               Subscribed artists
@@ -177,6 +409,39 @@ export default function NotificationsScreen(_props: { pageIndex: number; isActiv
               onClear={() => clearSubscription(sub.artistId)}
             />
           ))}
+          {subscriptionList.length > 0 && (
+            <DigestSettings artistIds={subscriptionList.map((sub) => sub.artistId)} />
+          )}
+
+          <Text
+            style={[
+              type.eyebrow,
+              { color: colors.textDim, marginBottom: 16, marginTop: isEmpty ? 0 : 12 },
+            ]}
+          >
+            Wake-up alarms
+          </Text>
+          {alarmList.map((alarm) => (
+            <View key={alarm.alarmId} style={s.row}>
+              <View style={{ flex: 1 }}>
+                <Text style={[type.rowTitle, { color: colors.green }]}>{formatAlarmTime(alarm.hour, alarm.minute)}</Text>
+                <Text style={[type.rowSub, { color: colors.text, marginTop: 4 }]}>{formatAlarmDays(alarm.weekdays)}</Text>
+              </View>
+              <ClearButton
+                onPress={() => clearAlarm(alarm.alarmId)}
+                label={`Clear ${formatAlarmTime(alarm.hour, alarm.minute)} alarm`}
+              />
+            </View>
+          ))}
+          {isAddingAlarm ? (
+            <AlarmEditor onSave={saveAlarm} onCancel={() => setIsAddingAlarm(false)} />
+          ) : (
+            <Pressable onPress={() => setIsAddingAlarm(true)} accessibilityRole="button">
+              <Text style={[type.rowSub, { color: colors.green }]}>
+                {alarmList.length > 0 ? 'Add another alarm' : 'Wake up to éist: add an alarm'}
+              </Text>
+            </Pressable>
+          )}
         </ScrollView>
       )}
     </PageScaffold>
@@ -186,4 +451,7 @@ export default function NotificationsScreen(_props: { pageIndex: number; isActiv
 const s = StyleSheet.create({
   row: { flexDirection: 'row', alignItems: 'center', gap: 16, marginBottom: 28 },
   clear: { width: 34, height: 34, borderRadius: 17, borderWidth: 1.5, borderColor: colors.green, alignItems: 'center', justifyContent: 'center' },
+  stepRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  day: { width: 34, height: 34, borderRadius: 17, borderWidth: 1.5, borderColor: colors.green, alignItems: 'center', justifyContent: 'center' },
+  dayText: { fontFamily: font.body, fontWeight: '600', fontSize: 15 },
 });
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ScrollView, Pressable, Text, View, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { useRouter } from 'expo-router';
+import { colors, type } from '../../theme/tokens';
+import { useFavourites } from '../../context/FavouritesContext';
+import { getArchiveShowImage } from '../../utils/archiveArtwork';
+import { PageScaffold } from '../ui/PageScaffold';
+import { Eyebrow } from '../ui/Eyebrow';
+import { Chevron } from '../ui/Chevron';
+import { FormattedShowTitle } from '../FormattedShowTitle';
+
+const fallbackImage = require('../../assets/images/eist_online.png');
+
+// Square thumbnail preferring the copy saved with the favourite, so the page
+// still has artwork offline; falls back to the remote URL, then the logo.
+function Thumb({ localUri, remoteUrl }: { localUri?: string | null; remoteUrl?: string | null }) {
+  const [failed, setFailed] = useState(false);
+  const uri = localUri || remoteUrl;
+  const source = uri && !failed ? { uri } : fallbackImage;
+  return <Image source={source} style={s.thumb} contentFit="cover" onError={() => setFailed(true)} />;
+}
+
+export default function SavedScreen(_props: { pageIndex: number; isActive: boolean }) {
+  const router = useRouter();
+  const { favouriteShows, favouriteArtists, isLoading } = useFavourites();
+
+  const shows = Object.values(favouriteShows).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  const artists = Object.values(favouriteArtists).sort((a, b) =>
+    a.artistName.localeCompare(b.artistName)
+  );
+
+  return (
+    <PageScaffold frozenLiveNow>
+      <Eyebrow>library</Eyebrow>
+      <Text style={[type.pagehead, { color: colors.green, marginTop: 8 }]}>Saved</Text>
+      <ScrollView style={{ flex: 1, marginTop: 24 }} showsVerticalScrollIndicator={false}>
+        {!isLoading && shows.length === 0 && artists.length === 0 && (
+          <Text style={[type.meta, { color: colors.textDim }]}>
+            Tap the heart on a show or host to save it here.
+          </Text>
+        )}
+
+        {shows.length > 0 && (
+          <View style={s.section}>
+            <Eyebrow>shows</Eyebrow>
+            {shows.map(({ show, artworkUri }) => (
+              <Pressable key={show.id} style={s.row} onPress={() => router.push(`/archive/${show.slug}`)}>
+                <Thumb localUri={artworkUri} remoteUrl={getArchiveShowImage(show)} />
+                <View style={{ flex: 1 }}>
+                  <FormattedShowTitle title={show.title} color={colors.green} size={26} style={type.rowTitle} />
+                  <Text style={[type.rowSub, { color: colors.text, marginTop: 4 }]}>{show.artistName}</Text>
+                </View>
+                <Chevron direction="right" size={20} />
+              </Pressable>
+            ))}
+          </View>
+        )}
+
+        {artists.length > 0 && (
+          <View style={s.section}>
+            <Eyebrow>hosts</Eyebrow>
+            {artists.map((a) => (
+              <Pressable
+                key={a.artistId}
+                style={s.row}
+                onPress={() => router.push(`/artist/${encodeURIComponent(a.artistSlug)}?id=${encodeURIComponent(a.artistId)}`)}
+              >
+                <Thumb localUri={a.artworkUri} remoteUrl={a.imageUrl} />
+                <Text style={[type.rowTitle, { color: colors.green, flex: 1 }]}>{a.artistName}</Text>
+                <Chevron direction="right" size={20} />
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </PageScaffold>
+  );
+}
+
+const s = StyleSheet.create({
+  section: { marginBottom: 10 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 16, marginTop: 14, marginBottom: 16 },
+  thumb: { width: 64, height: 64, borderRadius: 4 },
+});
@@ -1,37 +1,21 @@
 // components/screens/ScheduleScreen.tsx
-import React, { useCallback, useEffect, useRef, useState } from 'react'
-import { AppState, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { AppState, Platform, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native'
 import { useRouter } from 'expo-router'
 import { colors, font, type } from '../../theme/tokens'
 import { PageScaffold } from '../ui/PageScaffold'
 import { Eyebrow } from '../ui/Eyebrow'
 import { FormattedShowTitle } from '../FormattedShowTitle'
-import { apiKey } from '../../config'
 import { useArtistMapping, useArtists } from '../../hooks/useArtists'
 import { useTimezoneChange } from '../../hooks/useTimezoneChange'
+import { useSchedule } from '../../hooks/useSchedule'
+import { useCalendarExport } from '../../hooks/useCalendarExport'
+import { RawScheduleItem } from '../../types/schedule'
+import { getArtist, getLiveSchedule } from '../../utils/radiocultClient'
 import { formatClockTime } from '../../utils/formatTime'
 
-const STATION_ID = 'eist-radio'
 const NUM_DAYS = 7
 
-type RawScheduleItem = {
-  id: string
-  stationId: string
-  title: string
-  startDateUtc: string
-  endDateUtc: string
-  description?: any
-  duration: number
-  timezone: string
-  color?: string
-  artistIds?: string[]
-  isRecurring: boolean
-  media:
-    | { type: 'mix'; trackId?: string }
-    | { type: 'playlist'; playlistId: string }
-    | { type: 'live' }
-}
-
 type SectionRow = {
   time: string
   startTime: string
@@ -51,28 +35,6 @@ type SectionData = {
   data: SectionRow[]
 }
 
-async function fetchSchedule(startDate: string, endDate: string, currentTimezone: string) {
-  const url =
-    `https://api.radiocult.fm/api/station/${STATION_ID}/schedule` +
-    `?startDate=${encodeURIComponent(startDate)}` +
-    `&endDate=${encodeURIComponent(endDate)}` +
-    `&timeZone=${encodeURIComponent(currentTimezone)}`
-
-  const controller = new AbortController()
-  const timeoutId = setTimeout(() => controller.abort(), 10000)
-
-  try {
-    const res = await fetch(url, {
-      headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
-      signal: controller.signal,
-    })
-    if (!res.ok) throw new Error(`${res.status} ${res.statusText}`)
-    return (await res.json()) as { schedules?: RawScheduleItem[] }
-  } finally {
-    clearTimeout(timeoutId)
-  }
-}
-
 function groupByDate(items: RawScheduleItem[], currentTimezone: string): SectionData[] {
   const today = new Date()
   const todayKey = today.toISOString().split('T')[0]
@@ -82,6 +44,10 @@ function groupByDate(items: RawScheduleItem[], currentTimezone: string): Section
   const yesterday = new Date(today)
   yesterday.setDate(yesterday.getDate() - 1)
   const yesterdayKey = yesterday.toISOString().split('T')[0]
+  // The shared schedule runs further ahead than the page shows
+  const lastDay = new Date(today)
+  lastDay.setDate(lastDay.getDate() + NUM_DAYS)
+  const lastKey = lastDay.toISOString().split('T')[0]
 
   const buckets: Record<string, RawScheduleItem[]> = {}
 
@@ -96,7 +62,7 @@ function groupByDate(items: RawScheduleItem[], currentTimezone: string): Section
       dateKey = prev.toISOString().split('T')[0]
     }
 
-    if (dateKey >= yesterdayKey) {
+    if (dateKey >= yesterdayKey && dateKey <= lastKey) {
       ;(buckets[dateKey] ||= []).push(item)
     }
   })
@@ -163,102 +129,63 @@ export default function ScheduleScreen({ isActive }: { pageIndex: number; isActi
     [artistMapping, artistsById, extraNames]
   )
 
-  const [sections, setSections] = useState<SectionData[]>([])
-  const [, setLoading] = useState(true)
-  const [, setError] = useState<string>()
+  // Shared with show pages, artists' next show and the reminder resync
+  const { data: schedule, isStale, refetch } = useSchedule(currentTimezone)
+  const sections = useMemo(
+    () => groupByDate(schedule ?? [], currentTimezone),
+    [schedule, currentTimezone]
+  )
   const [currentShowId, setCurrentShowId] = useState<string | null>(null)
 
-  // guards to avoid overlapping fetches from mount + focus + foreground
-  const isFetchingSchedule = useRef(false)
+  // "Export week": everything still to come (or on now) over the next 7 days
+  const { exportShows, isExporting } = useCalendarExport()
+  const exportWeek = useCallback(() => {
+    const now = Date.now()
+    const weekEnd = now + NUM_DAYS * 24 * 60 * 60 * 1000
+    const shows = (schedule ?? [])
+      .filter((it) => new Date(it.endDateUtc).getTime() > now && new Date(it.startDateUtc).getTime() < weekEnd)
+      .map((item) => ({ item, hostName: resolveArtistName(item.artistIds?.[0]) || undefined }))
+    exportShows(shows, 'eist-week')
+  }, [schedule, resolveArtistName, exportShows])
+
+  // guard to avoid overlapping fetches from mount + focus + foreground
   const isFetchingLive = useRef(false)
 
-  function fmt(d: Date, suffix: string) {
-    // UTC-day window
-    return d.toISOString().split('T')[0] + 'T' + suffix
-  }
-
   const fetchLiveNow = useCallback(async () => {
     if (isFetchingLive.current) return
     isFetchingLive.current = true
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 10000)
     try {
-      const res = await fetch(
-        `https://api.radiocult.fm/api/station/${STATION_ID}/schedule/live`,
-        {
-          headers: {
-            'x-api-key': apiKey,
-            'Content-Type': 'application/json',
-          },
-          signal: controller.signal,
-        }
-      )
-      if (!res.ok) throw new Error(`Live fetch error: ${res.status} ${res.statusText}`)
-      const json = await res.json()
-      const newId = json?.result?.status === 'schedule' ? json?.result?.content?.id : null
+      const result = await getLiveSchedule()
+      const newId = result.status === 'schedule' ? result.content?.id : null
       setCurrentShowId(newId || null)
     } catch (err) {
       console.warn('Live-show fetch error:', err)
     } finally {
-      clearTimeout(timeoutId)
       isFetchingLive.current = false
     }
   }, [])
 
-  const fetchScheduleData = useCallback(async () => {
-    if (isFetchingSchedule.current) return
-    isFetchingSchedule.current = true
-    try {
-      const startDate = new Date()
-      startDate.setDate(startDate.getDate() - 1)
-      const endDate = new Date()
-      endDate.setDate(endDate.getDate() + NUM_DAYS)
-
-      const startIso = fmt(startDate, '00:00:00Z')
-      const endIso = fmt(endDate, '23:59:59Z')
-
-      const raw = await fetchSchedule(startIso, endIso, currentTimezone)
-      const grouped = groupByDate(raw.schedules || [], currentTimezone)
-      setSections(grouped)
-      setError(undefined)
-    } catch (err) {
-      console.warn('ScheduleScreen fetch error:', err)
-      if (sections.length === 0) setError('Could not load schedule.')
-    } finally {
-      isFetchingSchedule.current = false
-    }
-  }, [currentTimezone, sections.length])
-
   // Initial load
   useEffect(() => {
-    ;(async () => {
-      try {
-        await Promise.all([fetchScheduleData(), fetchLiveNow()])
-      } finally {
-        setLoading(false)
-      }
-    })()
-  }, [fetchScheduleData, fetchLiveNow])
+    fetchLiveNow()
+  }, [fetchLiveNow])
 
-  // Refresh when isActive (Task 9 pattern)
+  // Refresh when isActive (Task 9 pattern). The schedule only goes back to the
+  // network if the shared copy is stale; the live id is always re-checked.
   useEffect(() => {
     if (!isActive) return
-    Promise.all([fetchScheduleData(), fetchLiveNow()]).catch((e) =>
-      console.warn('Schedule refresh failed:', e)
-    )
-  }, [isActive, fetchScheduleData, fetchLiveNow])
+    if (isStale) refetch({ cancelRefetch: false }).catch((e) => console.warn('Schedule refresh failed:', e))
+    fetchLiveNow()
+  }, [isActive, isStale, refetch, fetchLiveNow])
 
-  // Also refresh when app returns to foreground
+  // Also refresh the live id when app returns to foreground (React Query's
+  // focusManager already refetches a stale schedule)
   useEffect(() => {
     const sub = AppState.addEventListener('change', (state) => {
-      if (state === 'active') {
-        Promise.all([fetchScheduleData(), fetchLiveNow()]).catch((e) =>
-          console.warn('Foreground refresh failed:', e)
-        )
-      }
+      if (state === 'active') fetchLiveNow()
     })
     return () => sub.remove()
-  }, [fetchScheduleData, fetchLiveNow])
+  }, [fetchLiveNow])
 
   // All days (-1 .. +7), each with its rows. Sorted chronologically by groupByDate.
   const days = React.useMemo(
@@ -293,13 +220,8 @@ export default function ScheduleScreen({ isActive }: { pageIndex: number; isActi
       const entries = await Promise.all(
         [...missing].map(async (id) => {
           try {
-            const res = await fetch(
-              `https://api.radiocult.fm/api/station/${STATION_ID}/artists/${encodeURIComponent(id)}`,
-              { headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' } }
-            )
-            if (!res.ok) return [id, ''] as const
-            const json = await res.json()
-            return [id, json?.artist?.name ?? ''] as const
+            const artist = await getArtist(id, { retries: 0 })
+            return [id, artist.name ?? ''] as const
           } catch {
             return [id, ''] as const
           }
@@ -390,7 +312,14 @@ export default function ScheduleScreen({ isActive }: { pageIndex: number; isActi
 
   return (
     <PageScaffold frozenLiveNow>
-      <Eyebrow>schedule</Eyebrow>
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Eyebrow>schedule</Eyebrow>
+        {Platform.OS !== 'web' && sections.length > 0 ? (
+          <Pressable onPress={exportWeek} disabled={isExporting} hitSlop={12} accessibilityRole="button">
+            <Text style={[type.eyebrow, { color: isExporting ? colors.textDim : colors.green }]}>Export week</Text>
+          </Pressable>
+        ) : null}
+      </View>
       <Text style={[type.pagehead, { color: colors.green, marginTop: 8 }]}>{activeDay}</Text>
       <ScrollView
         ref={scrollRef}
@@ -0,0 +1,79 @@
+// components/ui/DownloadControl.tsx
+import React from 'react';
+import { Alert, Pressable, StyleSheet, Text } from 'react-native';
+import { useDownloads } from '../../context/DownloadContext';
+import { colors, type as t } from '../../theme/tokens';
+import { ArchiveAudio, ArchiveShow } from '../../types/archive';
+import { formatBytes } from '../../utils/downloadStorage';
+
+// Per-show download state for the listen-back page: offer the download, show
+// progress (tap to cancel) while it runs, and offer removal once it's saved.
+export function DownloadControl({
+  show,
+  audio,
+}: {
+  show: ArchiveShow;
+  audio?: ArchiveAudio | null;
+}) {
+  const { downloads, downloadProgress, downloadShow, cancelDownload, removeDownload, quotaBytes, isSupported } =
+    useDownloads();
+
+  if (!isSupported) return null;
+
+  const download = downloads[show.id];
+  const progress = downloadProgress[show.id];
+
+  const start = async () => {
+    if (!audio) return;
+    const result = await downloadShow(show, audio);
+    if (result === 'quota') {
+      Alert.alert(
+        'Not enough room',
+        `Downloads are limited to ${formatBytes(quotaBytes)}. Remove a show or raise the limit under Archive → Downloads.`
+      );
+    } else if (result === 'failed') {
+      Alert.alert('Download failed', 'Couldn’t save this show. Please try again.');
+    }
+  };
+
+  const confirmRemove = () => {
+    Alert.alert('Remove download?', show.title, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => removeDownload(show.id) },
+    ]);
+  };
+
+  if (download) {
+    return (
+      <Pressable style={s.row} onPress={confirmRemove} accessibilityRole="button" accessibilityLabel="Remove download">
+        <Text style={[t.meta, { color: colors.green }]}>
+          {`Downloaded · ${formatBytes(download.bytes)}`}
+        </Text>
+        <Text style={[t.meta, { color: colors.textDim }]}>remove</Text>
+      </Pressable>
+    );
+  }
+
+  if (progress !== undefined) {
+    return (
+      <Pressable style={s.row} onPress={() => cancelDownload(show.id)} accessibilityRole="button" accessibilityLabel="Cancel download">
+        <Text style={[t.meta, { color: colors.text }]}>
+          {progress > 0 ? `Downloading ${Math.round(progress * 100)}%` : 'Downloading…'}
+        </Text>
+        <Text style={[t.meta, { color: colors.textDim }]}>cancel</Text>
+      </Pressable>
+    );
+  }
+
+  if (!audio) return null;
+
+  return (
+    <Pressable style={s.row} onPress={start} accessibilityRole="button">
+      <Text style={[t.meta, { color: colors.green }]}>Download for offline</Text>
+    </Pressable>
+  );
+}
+
+const s = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', gap: 13, marginTop: 14 },
+});
@@ -0,0 +1,55 @@
+// components/ui/HeartControl.tsx
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, Defs, G, Mask, Path, Rect } from 'react-native-svg';
+import { colors, font } from '../../theme/tokens';
+
+const HEART =
+  'M12 20.3l-1.2-1.1C6.4 15.3 3.5 12.7 3.5 9.4 3.5 6.8 5.6 4.7 8.2 4.7c1.5 0 2.9.7 3.8 1.8.9-1.1 2.3-1.8 3.8-1.8 2.6 0 4.7 2.1 4.7 4.7 0 3.3-2.9 5.9-7.3 9.8L12 20.3z';
+
+// Same language as NotifyControl's bell:
+// saved   -> transparent circle (ring) + filled heart
+// unsaved -> solid coin + heart-shaped hole
+function HeartGlyph({ active, size = 56 }: { active: boolean; size?: number }) {
+  const id = React.useId();
+  if (active) {
+    return (
+      <Svg width={size} height={size} viewBox="0 0 56 56">
+        <Circle cx={28} cy={28} r={27} fill="none" stroke={colors.green} strokeWidth={1.5} />
+        <G transform="translate(11.2,11.2) scale(1.4)" fill={colors.green}>
+          <Path d={HEART} />
+        </G>
+      </Svg>
+    );
+  }
+  return (
+    <Svg width={size} height={size} viewBox="0 0 56 56">
+      <Defs>
+        <Mask id={id}>
+          <Rect width={56} height={56} fill="#fff" />
+          <G transform="translate(11.2,11.2) scale(1.4)" fill="#000">
+            <Path d={HEART} />
+          </G>
+        </Mask>
+      </Defs>
+      <Circle cx={28} cy={28} r={28} fill={colors.green} mask={`url(#${id})`} />
+    </Svg>
+  );
+}
+
+export function HeartControl({ active, onToggle, caption }: { active: boolean; onToggle: () => void; caption: string }) {
+  return (
+    <Pressable style={s.row} onPress={onToggle} accessibilityRole="button" accessibilityState={{ selected: active }}>
+      <HeartGlyph active={active} />
+      <View>
+        <Text style={s.l1}>{active ? 'Saved' : 'Save'}</Text>
+        <Text style={s.l2}>{caption}</Text>
+      </View>
+    </Pressable>
+  );
+}
+const s = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', gap: 16, marginTop: 26 },
+  l1: { fontFamily: font.body, fontWeight: '600', fontSize: 16, letterSpacing: 0.2, color: colors.green },
+  l2: { fontFamily: font.body, fontWeight: '500', fontSize: 16, color: colors.text, marginTop: 4 },
+});
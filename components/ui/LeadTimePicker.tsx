@@ -0,0 +1,47 @@
+// components/ui/LeadTimePicker.tsx
+import React from 'react';
+import { Platform, Pressable, StyleSheet, Text, View } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { colors, type as t } from '../../theme/tokens';
+import { ReminderLeadTime } from '../../types/notifications';
+import { formatLeadTime } from '../../utils/notificationScheduler';
+import { REMINDER_LEAD_TIMES } from '../../utils/notificationStorage';
+
+// Reminder lead times as a wrapping row of pill options
+export function LeadTimePicker({
+  value,
+  onChange,
+}: {
+  value: ReminderLeadTime;
+  onChange: (leadTime: ReminderLeadTime) => void;
+}) {
+  return (
+    <View style={s.row}>
+      {REMINDER_LEAD_TIMES.map((leadTime) => {
+        const selected = leadTime === value;
+        return (
+          <Pressable
+            key={String(leadTime)}
+            onPress={() => {
+              if (selected) return;
+              if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onChange(leadTime);
+            }}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+            style={[s.pill, selected && { backgroundColor: colors.green }]}
+          >
+            <Text style={[t.meta, { color: selected ? colors.purple : colors.green }]}>
+              {formatLeadTime(leadTime)}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  row: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  pill: { borderWidth: 1.5, borderColor: colors.green, borderRadius: 17, paddingHorizontal: 12, paddingVertical: 5 },
+});
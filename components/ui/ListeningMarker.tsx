@@ -0,0 +1,23 @@
+// components/ui/ListeningMarker.tsx
+import React from 'react';
+import { StyleSheet, Text } from 'react-native';
+import { colors, type as t } from '../../theme/tokens';
+import { ListeningHistoryEntry } from '../../types/archive';
+import { getListeningStatus } from '../../utils/listeningHistory';
+
+// "played" / "in progress" tag for archive rows; renders nothing for shows the
+// listener hasn't started.
+export function ListeningMarker({ entry }: { entry?: ListeningHistoryEntry }) {
+  const status = getListeningStatus(entry);
+  if (!status) return null;
+
+  return (
+    <Text style={[s.marker, { color: status === 'in-progress' ? colors.green : colors.textDim }]}>
+      {status === 'in-progress' ? 'in progress' : 'played'}
+    </Text>
+  );
+}
+
+const s = StyleSheet.create({
+  marker: { ...t.meta, marginTop: 2 },
+});
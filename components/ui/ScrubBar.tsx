@@ -0,0 +1,69 @@
+// components/ui/ScrubBar.tsx
+//
+// Thin progress track for archive playback. Drag or tap anywhere on it to
+// scrub; the seek is committed on release so the player isn't flooded with
+// seeks mid-drag. Elapsed / remaining time sit underneath.
+import React, { useState } from 'react';
+import { GestureResponderEvent, LayoutChangeEvent, StyleSheet, Text, View } from 'react-native';
+import { colors, type as t } from '../../theme/tokens';
+import { formatDuration } from '../../utils/formatTime';
+
+export function ScrubBar({
+  position,
+  duration,
+  onSeek,
+}: {
+  position: number;
+  duration: number;
+  onSeek: (position: number) => void;
+}) {
+  const [width, setWidth] = useState(0);
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+
+  const canSeek = duration > 0 && width > 0;
+  const shown = dragPosition ?? position;
+  const fraction = duration > 0 ? Math.min(1, Math.max(0, shown / duration)) : 0;
+
+  const positionFor = (e: GestureResponderEvent) => {
+    const x = Math.min(width, Math.max(0, e.nativeEvent.locationX));
+    return (x / width) * duration;
+  };
+
+  return (
+    <View>
+      <View
+        style={s.hit}
+        onLayout={(e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width)}
+        onStartShouldSetResponder={() => canSeek}
+        onMoveShouldSetResponder={() => canSeek}
+        onResponderGrant={(e) => setDragPosition(positionFor(e))}
+        onResponderMove={(e) => setDragPosition(positionFor(e))}
+        onResponderRelease={(e) => {
+          onSeek(positionFor(e));
+          setDragPosition(null);
+        }}
+        onResponderTerminate={() => setDragPosition(null)}
+        accessibilityRole="adjustable"
+        accessibilityLabel="Playback position"
+        accessibilityValue={{ min: 0, max: Math.round(duration), now: Math.round(shown) }}
+      >
+        <View style={s.track} pointerEvents="none">
+          <View style={[s.fill, { width: `${fraction * 100}%` }]} />
+        </View>
+      </View>
+      <View style={s.times}>
+        <Text style={[t.meta, { color: colors.text }]}>{formatDuration(shown)}</Text>
+        <Text style={[t.meta, { color: colors.textDim }]}>
+          {duration > 0 ? `-${formatDuration(Math.max(0, duration - shown))}` : ''}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  hit: { paddingVertical: 12, justifyContent: 'center' },
+  track: { height: 4, borderRadius: 2, backgroundColor: colors.pillDim, overflow: 'hidden' },
+  fill: { height: 4, backgroundColor: colors.green },
+  times: { flexDirection: 'row', justifyContent: 'space-between' },
+});
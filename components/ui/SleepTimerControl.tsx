@@ -0,0 +1,87 @@
+// components/ui/SleepTimerControl.tsx
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { colors, font } from '../../theme/tokens';
+import {
+  formatSleepCountdown,
+  SLEEP_TIMER_OPTIONS,
+  SleepTimer,
+  SleepTimerOption,
+} from '../../utils/sleepTimer';
+import { Eyebrow } from './Eyebrow';
+
+// Sleep timer row for the Listen page. Collapsed it reads "sleep timer"; tapped
+// it lays the durations out inline; while armed it shows a live countdown that
+// cancels the timer when tapped.
+export function SleepTimerControl({
+  timer,
+  onStart,
+  onCancel,
+}: {
+  timer: SleepTimer | null;
+  onStart: (option: SleepTimerOption) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second only while a countdown is on screen.
+  useEffect(() => {
+    if (!timer) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const choose = async (option: SleepTimerOption) => {
+    setOpen(false);
+    const started = await onStart(option);
+    if (!started && option === 'end-of-show') {
+      Alert.alert('Sleep timer', 'There’s no live show with an end time right now.');
+    }
+  };
+
+  if (timer) {
+    const suffix = timer.option === 'end-of-show' ? ' (end of show)' : '';
+    return (
+      <Pressable
+        style={s.row}
+        onPress={onCancel}
+        accessibilityRole="button"
+        accessibilityLabel="Cancel sleep timer"
+      >
+        <Eyebrow>sleep in</Eyebrow>
+        <Text style={s.value}>{`${formatSleepCountdown(timer.endsAt - now)}${suffix}`}</Text>
+      </Pressable>
+    );
+  }
+
+  if (!open) {
+    return (
+      <Pressable style={s.row} onPress={() => setOpen(true)} accessibilityRole="button">
+        <Eyebrow>sleep timer</Eyebrow>
+      </Pressable>
+    );
+  }
+
+  return (
+    <View style={s.row}>
+      {SLEEP_TIMER_OPTIONS.map(({ option, label }) => (
+        <Pressable
+          key={String(option)}
+          onPress={() => choose(option)}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={`Sleep after ${label}`}
+        >
+          <Text style={s.value}>{label}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 13, marginTop: 21 },
+  value: { fontFamily: font.body, fontWeight: '600', fontSize: 16, letterSpacing: 0.2, color: colors.green },
+});
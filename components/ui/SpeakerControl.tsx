@@ -0,0 +1,77 @@
+// components/ui/SpeakerControl.tsx
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useOutput } from '../../context/OutputContext';
+import { colors, font } from '../../theme/tokens';
+import { Eyebrow } from './Eyebrow';
+
+// UPnP/DLNA speaker row for the Listen page, laid out like stream quality.
+// Collapsed it shows where the stream plays; tapped it searches the network
+// and lays the phone and the speakers found out inline. Chromecasts have the
+// Cast button instead, and while a cast session is up it owns the stream.
+// Renders nothing where discovery isn't available.
+export function SpeakerControl() {
+  const {
+    isUpnpSupported,
+    upnpDevices,
+    selectedUpnpDevice,
+    activeOutput,
+    isDiscovering,
+    discoverUpnpDevices,
+    selectUpnpDevice,
+  } = useOutput();
+  const [open, setOpen] = useState(false);
+
+  if (!isUpnpSupported || activeOutput?.kind === 'chromecast') return null;
+
+  if (!open) {
+    return (
+      <Pressable
+        style={s.row}
+        onPress={() => {
+          setOpen(true);
+          discoverUpnpDevices();
+        }}
+        accessibilityRole="button"
+        accessibilityLabel="Choose a speaker"
+      >
+        <Eyebrow>speaker</Eyebrow>
+        <Text style={s.value}>{selectedUpnpDevice?.name ?? 'this phone'}</Text>
+      </Pressable>
+    );
+  }
+
+  const options = [
+    { id: null, name: 'this phone', device: null },
+    ...upnpDevices.map((device) => ({ id: device.id, name: device.name, device })),
+  ];
+
+  return (
+    <View style={s.row}>
+      {options.map((option) => {
+        const selected = option.id === (selectedUpnpDevice?.id ?? null);
+        return (
+          <Pressable
+            key={option.id ?? 'phone'}
+            onPress={() => {
+              setOpen(false);
+              if (!selected) selectUpnpDevice(option.device);
+            }}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={`Play on ${option.name}`}
+            accessibilityState={{ selected }}
+          >
+            <Text style={[s.value, !selected && { color: colors.text }]}>{option.name}</Text>
+          </Pressable>
+        );
+      })}
+      {isDiscovering ? <ActivityIndicator size="small" color={colors.text} /> : null}
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 13, marginTop: 21 },
+  value: { fontFamily: font.body, fontWeight: '600', fontSize: 16, letterSpacing: 0.2, color: colors.green },
+});
@@ -1,9 +1,37 @@
+import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { Platform, View } from 'react-native';
 import { WebView } from 'react-native-webview';
 import { eistLogoHtml } from '../../assets/eistLogoHtml';
+import { STATION } from '../../config';
+
+// Holding the logo still (no drag) opens the hidden diagnostics screen. The
+// WebView takes every touch for the spin physics, so the hold is timed in the
+// page and posted back.
+const LONG_PRESS_MS = 800;
+const LONG_PRESS_MESSAGE = 'logo-long-press';
+const longPressScript = `(function(){
+  var timer = null, x = 0, y = 0;
+  function cancel(){ if (timer) { clearTimeout(timer); timer = null; } }
+  window.addEventListener('touchstart', function(e){
+    cancel();
+    if (e.touches.length !== 1) return;
+    x = e.touches[0].clientX; y = e.touches[0].clientY;
+    timer = setTimeout(function(){
+      timer = null;
+      window.ReactNativeWebView && window.ReactNativeWebView.postMessage('${LONG_PRESS_MESSAGE}');
+    }, ${LONG_PRESS_MS});
+  }, { capture: true, passive: true });
+  window.addEventListener('touchmove', function(e){
+    var t = e.touches[0];
+    if (t && Math.abs(t.clientX - x) + Math.abs(t.clientY - y) > 10) cancel();
+  }, { capture: true, passive: true });
+  window.addEventListener('touchend', cancel, { capture: true, passive: true });
+  window.addEventListener('touchcancel', cancel, { capture: true, passive: true });
+})();true;`;
 
 export function SpinningLogo({ size = 100 }: { size?: number }) {
+  const router = useRouter();
   if (Platform.OS === 'web') return null; // web build: omit (or use an <iframe> later)
 
   // Transparent WKWebViews on iOS often load their content but never composite the
@@ -23,7 +51,7 @@ export function SpinningLogo({ size = 100 }: { size?: number }) {
   return (
     <View style={{ width: size, height: size }}>
       <WebView
-        source={{ html: eistLogoHtml, baseUrl: 'https://eist.radio/' }}
+        source={{ html: eistLogoHtml, baseUrl: `${STATION.websiteUrl}/` }}
         style={{ width: size, height: size, backgroundColor: 'transparent', opacity: painted ? 1 : 0 }}
         onLoadEnd={() => setPainted(true)}
         opaque={false}
@@ -42,7 +70,14 @@ export function SpinningLogo({ size = 100 }: { size?: number }) {
         // failing silently — the previous CDN version had no diagnostics, which
         // is why a blank logo on-device went unexplained.
         injectedJavaScriptBeforeContentLoaded={`window.onerror=function(m,s,l,c){window.ReactNativeWebView&&window.ReactNativeWebView.postMessage('logo-error: '+m);};true;`}
-        onMessage={(e) => console.warn('[SpinningLogo]', e.nativeEvent.data)}
+        injectedJavaScript={longPressScript}
+        onMessage={(e) => {
+          if (e.nativeEvent.data === LONG_PRESS_MESSAGE) {
+            router.push('/diagnostics');
+            return;
+          }
+          console.warn('[SpinningLogo]', e.nativeEvent.data);
+        }}
         onError={(e) => console.warn('[SpinningLogo] webview error', e.nativeEvent)}
       />
     </View>
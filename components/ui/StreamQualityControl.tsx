@@ -0,0 +1,65 @@
+// components/ui/StreamQualityControl.tsx
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { colors, font } from '../../theme/tokens';
+import { STREAM_QUALITY_OPTIONS, StreamQualitySetting } from '../../utils/streamQuality';
+import { Eyebrow } from './Eyebrow';
+
+// Stream quality row for the Listen page, laid out like the sleep timer.
+// Collapsed it shows the setting (and "low data" when auto has picked it);
+// tapped it lays the options out inline.
+export function StreamQualityControl({
+  setting,
+  isLowData,
+  onChange,
+}: {
+  setting: StreamQualitySetting;
+  isLowData: boolean;
+  onChange: (setting: StreamQualitySetting) => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  if (!open) {
+    const label = STREAM_QUALITY_OPTIONS.find((option) => option.setting === setting)?.label ?? setting;
+    const suffix = setting === 'auto' && isLowData ? ' (low data)' : '';
+    return (
+      <Pressable
+        style={s.row}
+        onPress={() => setOpen(true)}
+        accessibilityRole="button"
+        accessibilityLabel="Change stream quality"
+      >
+        <Eyebrow>quality</Eyebrow>
+        <Text style={s.value}>{`${label}${suffix}`}</Text>
+      </Pressable>
+    );
+  }
+
+  return (
+    <View style={s.row}>
+      {STREAM_QUALITY_OPTIONS.map((option) => {
+        const selected = option.setting === setting;
+        return (
+          <Pressable
+            key={option.setting}
+            onPress={() => {
+              setOpen(false);
+              if (!selected) onChange(option.setting);
+            }}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={`Stream quality ${option.label}`}
+            accessibilityState={{ selected }}
+          >
+            <Text style={[s.value, !selected && { color: colors.text }]}>{option.label}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const s = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 13, marginTop: 21 },
+  value: { fontFamily: font.body, fontWeight: '600', fontSize: 16, letterSpacing: 0.2, color: colors.green },
+});
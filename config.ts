@@ -1,5 +1,7 @@
 // config.ts
 import Constants from 'expo-constants';
+import { STATION_PROFILES } from './constants/stations';
+import { StationProfile, StreamVariant } from './types/station';
 
 // In EAS builds this is expoConfig, in Expo Go it's Constants.manifest
 const manifestOrConfig = Constants.expoConfig ?? (Constants.manifest as any);
@@ -8,13 +10,69 @@ const extra = (manifestOrConfig.extra ?? {}) as Record<string, any>;
 export const apiKey = (extra.apiKey) as string;
 export const EAS_PROJECT_ID = extra.eas?.projectId as string;
 
+// The station this build talks to: the profile named by STATION_PROFILE
+// (default `eist`), with any single setting overridden from the environment
+// (see app.config.ts). Every station-specific value in the app comes from here.
+const baseStation = STATION_PROFILES[extra.stationProfile as string] ?? STATION_PROFILES.eist;
+
+function stationStreams(): StreamVariant[] {
+  const [main, ...rest] = baseStation.streams;
+  const streamUrl = extra.streamUrl as string | undefined;
+  const lowDataStreamUrl = extra.lowDataStreamUrl as string | undefined;
+  const streams = [streamUrl ? { ...main, url: streamUrl } : main, ...rest];
+  // The low-data mount is only offered when one is configured
+  if (lowDataStreamUrl) {
+    return [
+      ...streams.filter((stream) => stream.quality !== 'low'),
+      { quality: 'low', url: lowDataStreamUrl, codec: 'aac', bitrateKbps: 48, contentType: 'audio/aac' },
+    ];
+  }
+  return streams;
+}
+
+export const STATION: StationProfile = {
+  ...baseStation,
+  streams: stationStreams(),
+  api: {
+    radiocult: (extra.radiocultApiBaseUrl as string | undefined) || baseStation.api.radiocult,
+    eist: (extra.eistApiBaseUrl as string | undefined) || baseStation.api.eist,
+    calendarFeeds: (extra.calendarFeedBaseUrl as string | undefined) || baseStation.api.calendarFeeds,
+    archiveAudio: extra.eistArchiveAudio ? extra.eistArchiveAudio === '1' : baseStation.api.archiveAudio,
+  },
+};
+
+// RadioCult API configuration. The base URL can be pointed at a local mock
+// server with RADIOCULT_API_BASE_URL (see scripts/mock-radiocult.js).
+export const STATION_ID = STATION.id;
+export const RADIOCULT_API_BASE_URL = STATION.api.radiocult;
+export const RADIOCULT_STATION_URL = `${RADIOCULT_API_BASE_URL}/station/${STATION_ID}`;
+
+// Live stream mounts, one per quality. utils/streamQuality.ts picks between
+// them from the listener's stream quality setting.
+export const STREAM_CATALOGUE = STATION.streams;
+
 // éist API configuration
-export const EIST_API_BASE_URL = 'https://eist-api.johnocallaghan.workers.dev';
+export const EIST_API_BASE_URL = STATION.api.eist;
+// Off until the API serves showAudio; see types/station.ts
+export const HAS_ARCHIVE_AUDIO = STATION.api.archiveAudio;
 
 export const EIST_API_ENDPOINTS = {
   shows: `${EIST_API_BASE_URL}/api/shows`,
   showBySlug: (slug: string) => `${EIST_API_BASE_URL}/api/shows/${encodeURIComponent(slug)}`,
+  showAudio: (slug: string) => `${EIST_API_BASE_URL}/api/shows/${encodeURIComponent(slug)}/audio`,
   artistsMapping: `${EIST_API_BASE_URL}/api/artists/mapping`,
   artistsStats: `${EIST_API_BASE_URL}/api/artists/stats`,
   meta: `${EIST_API_BASE_URL}/api/meta`,
 };
+
+export const MIXCLOUD_ENDPOINTS = {
+  cloudcasts: `https://api.mixcloud.com/${encodeURIComponent(STATION.mixcloudUser)}/cloudcasts/`,
+};
+
+// Calendar feeds, served by the cast receiver worker (workers/cast-receiver).
+// Override with CALENDAR_FEED_BASE_URL to try a local `wrangler dev`.
+export const CALENDAR_FEED_BASE_URL = STATION.api.calendarFeeds;
+
+export const CALENDAR_FEED_ENDPOINTS = {
+  artist: (id: string) => `${CALENDAR_FEED_BASE_URL}/ical/artist/${encodeURIComponent(id)}.ics`,
+};
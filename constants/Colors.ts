@@ -3,24 +3,26 @@
  * There are many other ways to style your app. For example, [Nativewind](https://www.nativewind.dev/), [Tamagui](https://tamagui.dev/), [unistyles](https://reactnativeunistyles.vercel.app), etc.
  */
 
-const tintColorLight = '#4733FF';
-const tintColorDark = '#4733FF';
+import { colors } from '../theme/tokens';
+
+const tintColorLight = colors.purple;
+const tintColorDark = colors.purple;
 
 export const Colors = {
   light: {
-    text: '#AFFC41',
-    background: '#4733FF',
+    text: colors.green,
+    background: colors.purple,
     tint: tintColorLight,
-    icon: '#AFFC41',
-    tabIconDefault: '#4733FF',
+    icon: colors.green,
+    tabIconDefault: colors.purple,
     tabIconSelected: tintColorLight,
   },
   dark: {
-    text: '#AFFC41',
-    background: '#4733FF',
+    text: colors.green,
+    background: colors.purple,
     tint: tintColorDark,
-    icon: '#AFFC41',
-    tabIconDefault: '#4733FF',
+    icon: colors.green,
+    tabIconDefault: colors.purple,
     tabIconSelected: tintColorDark,
   },
 };
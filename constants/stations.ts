@@ -0,0 +1,69 @@
+// constants/stations.ts
+//
+// Station profiles. Builds use `eist` unless STATION_PROFILE names another;
+// see config.ts for how a profile is picked and overridden.
+//
+// Native bits set at prebuild (splash and icon colours in app.json, the
+// widget and CarPlay plugins) can't read these and keep their own copies.
+
+import { StationProfile } from '../types/station';
+
+export const EIST_STATION: StationProfile = {
+  id: 'eist-radio',
+  name: 'éist',
+  location: 'Cork, Ireland',
+  websiteUrl: 'https://eist.radio',
+  streams: [
+    {
+      quality: 'high',
+      url: 'https://eist-radio.radiocult.fm/stream',
+      codec: 'mp3',
+      bitrateKbps: 128,
+      contentType: 'audio/mpeg',
+    },
+  ],
+  api: {
+    radiocult: 'https://api.radiocult.fm/api',
+    eist: 'https://eist-api.johnocallaghan.workers.dev',
+    calendarFeeds: 'https://eist-cast-receiver.johnocallaghan.workers.dev',
+    // The audio route isn't deployed on the éist API yet
+    archiveAudio: false,
+  },
+  mixcloudUser: 'eistcork',
+  links: [
+    { label: 'Discord', url: 'https://discord.gg/4eHnAAUmFN' },
+    { label: 'Instagram', url: 'https://www.instagram.com/eistradio' },
+    { label: 'SoundCloud', url: 'https://soundcloud.com/eistcork' },
+    { label: 'Mixcloud', url: 'https://www.mixcloud.com/eistcork/' },
+    { label: 'Website', url: 'https://eist.radio' },
+    { label: 'Email', url: 'mailto:info@eist.radio' },
+    { label: 'Support éist', url: 'https://eist.radio/support/' },
+  ],
+  colours: {
+    primary: '#4733FF',
+    secondary: '#AFFC41',
+    highlight: '#96BFE6',
+  },
+};
+
+// The local stand-ins: scripts/mock-radiocult.js (`make mock-api`, which also
+// serves the archive API with generated audio) and the cast receiver worker
+// under `wrangler dev`. There's no mock live stream, so that's the real one.
+// On a device, point the mocks at your machine with RADIOCULT_API_BASE_URL,
+// EIST_API_BASE_URL and CALENDAR_FEED_BASE_URL.
+export const MOCK_STATION: StationProfile = {
+  ...EIST_STATION,
+  name: 'éist (mock)',
+  api: {
+    ...EIST_STATION.api,
+    radiocult: 'http://localhost:4010/api',
+    eist: 'http://localhost:4010',
+    calendarFeeds: 'http://localhost:8787',
+    archiveAudio: true,
+  },
+};
+
+export const STATION_PROFILES: Record<string, StationProfile> = {
+  eist: EIST_STATION,
+  mock: MOCK_STATION,
+};
@@ -0,0 +1,210 @@
+// context/AlarmContext.tsx
+
+import * as Notifications from 'expo-notifications';
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { Platform } from 'react-native';
+import { WakeAlarm, WakeAlarmsMap } from '../types/notifications';
+import {
+  cancelWakeAlarm,
+  presentWakeAlarmFallback,
+  scheduleWakeAlarm,
+} from '../utils/notificationScheduler';
+import {
+  getWakeAlarms,
+  removeWakeAlarm as removeStoredWakeAlarm,
+  setWakeAlarm,
+} from '../utils/notificationStorage';
+import { useNotificationContext } from './NotificationContext';
+import { useTrackPlayer } from './TrackPlayerContext';
+
+// How long to wait for the stream to actually start after an in-app alarm
+// before posting the fallback notification.
+const AUTOPLAY_CHECK_MS = 15_000;
+
+type AlarmContextType = {
+  alarms: WakeAlarmsMap;
+  addWakeAlarm: (hour: number, minute: number, weekdays: number[]) => Promise<boolean>;
+  removeWakeAlarm: (alarmId: string) => Promise<void>;
+  isLoading: boolean;
+};
+
+const AlarmContext = createContext<AlarmContextType | undefined>(undefined);
+
+export const AlarmProvider = ({ children }: { children: ReactNode }) => {
+  const [alarms, setAlarms] = useState<WakeAlarmsMap>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const { permissionStatus, requestPermissions } = useNotificationContext();
+  const { play, isPlaying } = useTrackPlayer();
+
+  // Notification listeners are registered once on mount; read the live
+  // play()/isPlaying through refs rather than the first-render closures.
+  const playRef = useRef(play);
+  const isPlayingRef = useRef(isPlaying);
+  useEffect(() => {
+    playRef.current = play;
+    isPlayingRef.current = isPlaying;
+  }, [play, isPlaying]);
+
+  useEffect(() => {
+    if (Platform.OS === 'web') {
+      setIsLoading(false);
+      return;
+    }
+
+    getWakeAlarms()
+      .then(setAlarms)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Start the stream for a wake alarm. When the app is already open this is
+  // true autoplay; if the stream still isn't running shortly after, fall back
+  // to a visible notification the listener can tap.
+  const startFromAlarm = useCallback(async (alarmId: string, fallbackOnFailure: boolean) => {
+    if (isPlayingRef.current) return;
+
+    try {
+      await playRef.current();
+    } catch (error) {
+      console.error('Wake alarm playback failed:', error);
+    }
+
+    if (!fallbackOnFailure) return;
+    setTimeout(() => {
+      if (!isPlayingRef.current) {
+        presentWakeAlarmFallback(alarmId);
+      }
+    }, AUTOPLAY_CHECK_MS);
+  }, []);
+
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    // Alarm fired while the app is in the foreground (banner suppressed by the
+    // notification handler — we play instead).
+    const onReceived = Notifications.addNotificationReceivedListener((notification) => {
+      const data = notification.request.content.data;
+      if (data?.type === 'wake_alarm' && !data?.fallback) {
+        startFromAlarm(String(data.alarmId), true);
+      }
+    });
+
+    // Alarm (or its fallback) tapped from the lock screen / notification shade.
+    const onResponse = Notifications.addNotificationResponseReceivedListener((response) => {
+      const data = response.notification.request.content.data;
+      if (data?.type === 'wake_alarm') {
+        startFromAlarm(String(data.alarmId), false);
+      }
+    });
+
+    // Cold start from a tapped alarm: the response fired before we subscribed.
+    (async () => {
+      try {
+        const last = await Notifications.getLastNotificationResponseAsync();
+        const data = last?.notification.request.content.data;
+        if (data?.type === 'wake_alarm') {
+          await Notifications.clearLastNotificationResponseAsync();
+          startFromAlarm(String(data.alarmId), false);
+        }
+      } catch (error) {
+        console.error('Failed to read launch notification:', error);
+      }
+    })();
+
+    return () => {
+      onReceived.remove();
+      onResponse.remove();
+    };
+  }, [startFromAlarm]);
+
+  const addWakeAlarm = useCallback(
+    async (hour: number, minute: number, weekdays: number[]): Promise<boolean> => {
+      if (Platform.OS === 'web' || weekdays.length === 0) {
+        return false;
+      }
+
+      // Request permissions if needed
+      let currentPermission = permissionStatus;
+      if (currentPermission !== 'granted') {
+        currentPermission = await requestPermissions();
+        if (currentPermission !== 'granted') {
+          return false;
+        }
+      }
+
+      const alarmId = `alarm-${Date.now()}`;
+      const sortedWeekdays = [...weekdays].sort((a, b) => a - b);
+      const notificationIds = await scheduleWakeAlarm({
+        alarmId,
+        hour,
+        minute,
+        weekdays: sortedWeekdays,
+      });
+      if (notificationIds.length === 0) {
+        return false;
+      }
+
+      const newAlarm: WakeAlarm = {
+        alarmId,
+        hour,
+        minute,
+        weekdays: sortedWeekdays,
+        notificationIds,
+        createdAt: new Date().toISOString(),
+      };
+
+      await setWakeAlarm(newAlarm);
+      setAlarms((prev) => ({
+        ...prev,
+        [alarmId]: newAlarm,
+      }));
+
+      return true;
+    },
+    [permissionStatus, requestPermissions]
+  );
+
+  const removeWakeAlarm = useCallback(
+    async (alarmId: string): Promise<void> => {
+      const alarm = alarms[alarmId];
+      if (!alarm) return;
+
+      await cancelWakeAlarm(alarm.notificationIds);
+      await removeStoredWakeAlarm(alarmId);
+      setAlarms((prev) => {
+        const updated = { ...prev };
+        delete updated[alarmId];
+        return updated;
+      });
+    },
+    [alarms]
+  );
+
+  return (
+    <AlarmContext.Provider
+      value={{
+        alarms,
+        addWakeAlarm,
+        removeWakeAlarm,
+        isLoading,
+      }}
+    >
+      {children}
+    </AlarmContext.Provider>
+  );
+};
+
+export const useAlarms = (): AlarmContextType => {
+  const ctx = useContext(AlarmContext);
+  if (!ctx) {
+    throw new Error('useAlarms must be used within an AlarmProvider');
+  }
+  return ctx;
+};
@@ -11,10 +11,18 @@ import {
 } from 'react'
 import { AppState, Platform } from 'react-native'
 import {
+  CastArchiveMedia,
+  CastShowTiming,
+  loadArchiveOnCast,
   loadMediaOnCast,
   updateCastMediaMetadata,
+  castPause as castPauseUtil,
+  castPlay as castResumeUtil,
+  castSeek as castSeekUtil,
   castStop as castStopUtil,
+  castSetVolume,
 } from '../utils/castUtils'
+import { logEvent } from '../utils/eventLog'
 
 // Only import google-cast on mobile platforms
 let GoogleCast: any
@@ -40,6 +48,23 @@ const CAST_STATE = {
 const isPlayingStatus = (status: any): boolean =>
   status?.playerState === 'playing' || status?.playerState === 'buffering'
 
+// Seconds; duration is 0 for the live stream or before the receiver knows it
+export type CastProgress = {
+  position: number
+  duration: number
+}
+
+const NO_PROGRESS: CastProgress = { position: 0, duration: 0 }
+
+const progressFromStatus = (status: any): CastProgress | null => {
+  if (!status || typeof status.streamPosition !== 'number') return null
+  const duration = status.mediaInfo?.streamDuration
+  return {
+    position: status.streamPosition,
+    duration: Number.isFinite(duration) && duration > 0 ? duration : 0,
+  }
+}
+
 export type CastSessionState =
   | 'no_devices'
   | 'not_connected'
@@ -52,14 +77,29 @@ export type CastContextType = {
   castDeviceName: string | null
   castSessionState: CastSessionState
   isCastPlaying: boolean
-  castPlay: (title: string, artist: string, artworkUrl?: string, showTime?: string) => Promise<boolean>
+  castPlay: (
+    title: string,
+    artist: string,
+    artworkUrl?: string,
+    showTime?: string,
+    timing?: CastShowTiming
+  ) => Promise<boolean>
   castStop: () => Promise<void>
   updateCastMetadata: (
     title: string,
     artist: string,
     artworkUrl?: string,
-    showTime?: string
+    showTime?: string,
+    timing?: CastShowTiming
   ) => Promise<void>
+  setCastVolume: (volume: number) => Promise<boolean>
+  // Archive shows: load one at a position, and control it while it plays
+  castArchive: (media: CastArchiveMedia, startPosition?: number, autoplay?: boolean) => Promise<boolean>
+  castSeek: (position: number) => Promise<boolean>
+  castPause: () => Promise<boolean>
+  castResume: () => Promise<boolean>
+  // Where the receiver's player is, from its media status
+  castProgress: CastProgress
 }
 
 const CastContextValue = createContext<CastContextType | undefined>(undefined)
@@ -74,6 +114,12 @@ const disabledCastContext: CastContextType = {
   castPlay: async () => false,
   castStop: async () => {},
   updateCastMetadata: async () => {},
+  setCastVolume: async () => false,
+  castArchive: async () => false,
+  castSeek: async () => false,
+  castPause: async () => false,
+  castResume: async () => false,
+  castProgress: NO_PROGRESS,
 }
 
 export const CastProvider = ({ children }: { children: ReactNode }) => {
@@ -81,6 +127,7 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
   const [castState, setCastState] = useState<string | null>(null)
   const [castDeviceName, setCastDeviceName] = useState<string | null>(null)
   const [isCastPlaying, setIsCastPlaying] = useState(false)
+  const [castProgress, setCastProgress] = useState<CastProgress>(NO_PROGRESS)
 
   // Track metadata for when cast connects
   const currentMetadata = useRef<{
@@ -88,6 +135,7 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
     artist: string
     artworkUrl?: string
     showTime?: string
+    timing?: CastShowTiming
   }>({
     title: 'éist',
     artist: '',
@@ -152,6 +200,7 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
 
         // Listen for cast state changes
         castStateSubscription = GoogleCast.onCastStateChanged((state: string) => {
+          logEvent('cast', 'Cast state', state)
           setCastState(state)
         })
 
@@ -166,8 +215,10 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
         const handleSessionActive = async (session: any) => {
           try {
             const device = await session.getCastDevice()
+            logEvent('cast', 'Session active', device?.friendlyName)
             setCastDeviceName(device?.friendlyName || 'Cast Device')
           } catch (e) {
+            logEvent('cast', 'Session active')
             setCastDeviceName('Cast Device')
           }
           // Reconcile derived state (button tint) and play state with the
@@ -178,7 +229,8 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
         sessionStartedSubscription = sessionManager.onSessionStarted(handleSessionActive)
         sessionResumedSubscription = sessionManager.onSessionResumed(handleSessionActive)
 
-        sessionEndedSubscription = sessionManager.onSessionEnded(() => {
+        sessionEndedSubscription = sessionManager.onSessionEnded((_session: any, error?: string) => {
+          logEvent('cast', 'Session ended', error)
           setCastDeviceName(null)
           setIsCastPlaying(false)
         })
@@ -199,6 +251,7 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
         })
       } catch (error) {
         console.error('Failed to initialize cast:', error)
+        logEvent('cast', 'Cast init failed', error)
       }
     }
 
@@ -240,6 +293,8 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
   // foreground resync (syncCastState) re-seeds this after a background gap,
   // where in-background events would have been dropped.
   useEffect(() => {
+    // castProgress is left as it was: TrackPlayerContext resumes an archive
+    // show on the phone from the last position when the session ends
     if (!isCastConnected || isWeb || !GoogleCast) {
       setIsCastPlaying(false)
       return
@@ -247,6 +302,13 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
 
     let cancelled = false
     let statusSubscription: any
+    let progressSubscription: any
+
+    const applyStatus = (status: any) => {
+      setIsCastPlaying(isPlayingStatus(status))
+      const progress = progressFromStatus(status)
+      if (progress) setCastProgress(progress)
+    }
 
     const subscribe = async () => {
       try {
@@ -260,14 +322,21 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
         // Seed the current status, then subscribe for pushes.
         try {
           const status = await client.getMediaStatus()
-          if (!cancelled) setIsCastPlaying(isPlayingStatus(status))
+          if (!cancelled) applyStatus(status)
         } catch {
           // Client not ready yet — the event subscription will deliver it.
         }
 
-        statusSubscription = client.onMediaStatusUpdated((status: any) => {
-          setIsCastPlaying(isPlayingStatus(status))
-        })
+        statusSubscription = client.onMediaStatusUpdated(applyStatus)
+        // Status pushes only come on changes; this keeps the phone's scrub
+        // bar moving while an archive show plays on the receiver. The live
+        // stream has no duration and no scrub bar, so it's skipped rather
+        // than re-rendering every second.
+        progressSubscription = client.onMediaProgressUpdated((position: number, duration: number) => {
+          if (Number.isFinite(duration) && duration > 0) {
+            setCastProgress({ position, duration })
+          }
+        }, 1)
       } catch (error) {
         // Silently ignore - session/client might not be ready
       }
@@ -278,20 +347,28 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
     return () => {
       cancelled = true
       statusSubscription?.remove?.()
+      progressSubscription?.remove?.()
     }
   }, [isCastConnected, isWeb])
 
   const castPlay = useCallback(
-    async (title: string, artist: string, artworkUrl?: string, showTime?: string): Promise<boolean> => {
+    async (
+      title: string,
+      artist: string,
+      artworkUrl?: string,
+      showTime?: string,
+      timing?: CastShowTiming
+    ): Promise<boolean> => {
       // Don't rely on isCastConnected state - loadMediaOnCast does its own session check
       // This avoids race conditions where state hasn't updated yet but session exists
-      currentMetadata.current = { title, artist, artworkUrl, showTime }
+      currentMetadata.current = { title, artist, artworkUrl, showTime, timing }
 
-      const success = await loadMediaOnCast(title, artist, artworkUrl, showTime)
+      const success = await loadMediaOnCast(title, artist, artworkUrl, showTime, timing)
       if (success) {
         setIsCastPlaying(true)
         return true
       } else {
+        logEvent('cast', 'Load on cast device failed')
         return false
       }
     },
@@ -306,19 +383,49 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
   }, [])
 
   const updateCastMetadataFn = useCallback(
-    async (title: string, artist: string, artworkUrl?: string, showTime?: string) => {
+    async (title: string, artist: string, artworkUrl?: string, showTime?: string, timing?: CastShowTiming) => {
       if (!isCastConnected || !isCastPlaying) {
         // Just store metadata for when cast starts
-        currentMetadata.current = { title, artist, artworkUrl, showTime }
+        currentMetadata.current = { title, artist, artworkUrl, showTime, timing }
         return
       }
 
-      currentMetadata.current = { title, artist, artworkUrl, showTime }
-      await updateCastMediaMetadata(title, artist, artworkUrl, showTime)
+      currentMetadata.current = { title, artist, artworkUrl, showTime, timing }
+      await updateCastMediaMetadata(title, artist, artworkUrl, showTime, timing)
     },
     [isCastConnected, isCastPlaying]
   )
 
+  const castArchive = useCallback(async (media: CastArchiveMedia, startPosition: number = 0, autoplay: boolean = true) => {
+    const success = await loadArchiveOnCast(media, startPosition, autoplay)
+    if (success) {
+      setIsCastPlaying(autoplay)
+      setCastProgress({ position: startPosition, duration: media.duration ?? 0 })
+    } else {
+      logEvent('cast', 'Archive load on cast device failed', media.title)
+    }
+    return success
+  }, [])
+
+  const castSeek = useCallback(async (position: number) => {
+    const success = await castSeekUtil(position)
+    // Move the phone's scrub bar now rather than on the next status push
+    if (success) setCastProgress((progress) => ({ ...progress, position }))
+    return success
+  }, [])
+
+  const castPause = useCallback(async () => {
+    const success = await castPauseUtil()
+    if (success) setIsCastPlaying(false)
+    return success
+  }, [])
+
+  const castResume = useCallback(async () => {
+    const success = await castResumeUtil()
+    if (success) setIsCastPlaying(true)
+    return success
+  }, [])
+
   // For web or when cast is not available, return disabled context
   if (isWeb || !GoogleCast) {
     return (
@@ -339,6 +446,12 @@ export const CastProvider = ({ children }: { children: ReactNode }) => {
         castPlay,
         castStop,
         updateCastMetadata: updateCastMetadataFn,
+        setCastVolume: castSetVolume,
+        castArchive,
+        castSeek,
+        castPause,
+        castResume,
+        castProgress,
       }}
     >
       {children}
@@ -0,0 +1,216 @@
+// context/DigestContext.tsx
+
+import * as Notifications from 'expo-notifications';
+import { useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'expo-router';
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { AppState, Platform } from 'react-native';
+import { getScheduleWindow, scheduleQueryOptions } from '../hooks/useSchedule';
+import { WeeklyDigestSettings } from '../types/notifications';
+import { findUpcomingShowsForArtists } from '../utils/nextShow';
+import {
+  cancelWeeklyDigest,
+  DIGEST_WEEKS_AHEAD,
+  getWeeklyOccurrences,
+  scheduleWeeklyDigest,
+} from '../utils/notificationScheduler';
+import {
+  DEFAULT_WEEKLY_DIGEST,
+  getWeeklyDigest,
+  setWeeklyDigest,
+} from '../utils/notificationStorage';
+import { useNotificationContext } from './NotificationContext';
+
+export type WeeklyDigestChanges = Partial<Pick<WeeklyDigestSettings, 'enabled' | 'weekday' | 'hour' | 'minute'>>;
+
+type DigestContextType = {
+  digest: WeeklyDigestSettings;
+  updateWeeklyDigest: (changes: WeeklyDigestChanges) => Promise<boolean>;
+  isLoading: boolean;
+};
+
+const DigestContext = createContext<DigestContextType | undefined>(undefined);
+
+// Where a tapped digest lands: the schedule narrowed to the listed hosts
+export function subscribedScheduleHref(artistIds: string[]) {
+  return { pathname: '/schedule/hosts' as const, params: { artists: artistIds.join(',') } };
+}
+
+export const DigestProvider = ({ children }: { children: ReactNode }) => {
+  const [digest, setDigest] = useState<WeeklyDigestSettings>(DEFAULT_WEEKLY_DIGEST);
+  const [isLoading, setIsLoading] = useState(true);
+  const { subscriptions, permissionStatus, requestPermissions } = useNotificationContext();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+
+  // Latest settings for the async re-arm, which outlives the render it began in
+  const digestRef = useRef(digest);
+  // Bumped per re-arm so an older, slower run doesn't overwrite a newer one
+  const armGeneration = useRef(0);
+
+  useEffect(() => {
+    if (Platform.OS === 'web') {
+      setIsLoading(false);
+      return;
+    }
+
+    getWeeklyDigest()
+      .then((stored) => {
+        digestRef.current = stored;
+        setDigest(stored);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const saveDigest = useCallback(async (settings: WeeklyDigestSettings) => {
+    digestRef.current = settings;
+    setDigest(settings);
+    await setWeeklyDigest(settings);
+  }, []);
+
+  const subscribedIds = useMemo(
+    () =>
+      Object.values(subscriptions)
+        .filter((sub) => sub.isActive)
+        .map((sub) => sub.artistId)
+        .sort(),
+    [subscriptions]
+  );
+
+  // Replace the armed digests with one for each of the next
+  // DIGEST_WEEKS_AHEAD occurrences, each listing its week's shows from a
+  // schedule fetched far enough ahead to cover them. A week with no shows
+  // gets no digest. Nothing re-arms them in the background, so this runs
+  // whenever the app does.
+  const rearmDigest = useCallback(async () => {
+    const generation = ++armGeneration.current;
+    const current = digestRef.current;
+
+    await Promise.all(current.notificationIds.map(cancelWeeklyDigest));
+
+    const notificationIds: string[] = [];
+    if (current.enabled && permissionStatus === 'granted' && subscribedIds.length > 0) {
+      try {
+        const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const dates = getWeeklyOccurrences(current.weekday, current.hour, current.minute, DIGEST_WEEKS_AHEAD);
+        const window = getScheduleWindow(new Date(), DIGEST_WEEKS_AHEAD * 7 + 7);
+        const schedule = await queryClient.fetchQuery(scheduleQueryOptions(timezone, window));
+        for (const date of dates) {
+          if (generation !== armGeneration.current) break;
+          const shows = findUpcomingShowsForArtists(schedule, subscribedIds, date).map((show) => {
+            const hostId = show.artistIds?.find((id) => subscriptions[id]?.isActive);
+            return {
+              showTitle: show.title,
+              artistName: hostId ? subscriptions[hostId].artistName : undefined,
+              startDateUtc: show.startDateUtc,
+            };
+          });
+          const notificationId = await scheduleWeeklyDigest({ date, shows, artistIds: subscribedIds });
+          if (notificationId) notificationIds.push(notificationId);
+        }
+      } catch (error) {
+        console.error('Failed to prepare weekly digest:', error);
+      }
+    }
+
+    if (generation !== armGeneration.current) {
+      // Superseded while scheduling: don't leave these armed as well
+      await Promise.all(notificationIds.map(cancelWeeklyDigest));
+      return;
+    }
+    await saveDigest({ ...digestRef.current, notificationIds });
+  }, [permissionStatus, subscribedIds, subscriptions, queryClient, saveDigest]);
+
+  // Re-arm once hydrated, whenever the settings or subscriptions change, and
+  // each time the app comes back to the foreground (the week's shows move on).
+  useEffect(() => {
+    if (Platform.OS === 'web' || isLoading) return;
+    rearmDigest();
+  }, [isLoading, digest.enabled, digest.weekday, digest.hour, digest.minute, rearmDigest]);
+
+  useEffect(() => {
+    if (Platform.OS === 'web' || isLoading) return;
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') rearmDigest();
+    });
+    return () => sub.remove();
+  }, [isLoading, rearmDigest]);
+
+  // Tapped digest: open the filtered schedule
+  useEffect(() => {
+    if (Platform.OS === 'web') return;
+
+    const openFromData = (data: Record<string, unknown> | undefined) => {
+      if (data?.type !== 'weekly_digest') return false;
+      const artistIds = Array.isArray(data.artistIds) ? data.artistIds.map(String) : [];
+      router.push(subscribedScheduleHref(artistIds));
+      return true;
+    };
+
+    const onResponse = Notifications.addNotificationResponseReceivedListener((response) => {
+      openFromData(response.notification.request.content.data);
+    });
+
+    // Cold start from a tapped digest: the response fired before we subscribed.
+    (async () => {
+      try {
+        const last = await Notifications.getLastNotificationResponseAsync();
+        if (openFromData(last?.notification.request.content.data)) {
+          await Notifications.clearLastNotificationResponseAsync();
+        }
+      } catch (error) {
+        console.error('Failed to read launch notification:', error);
+      }
+    })();
+
+    return () => onResponse.remove();
+  }, [router]);
+
+  const updateWeeklyDigest = useCallback(
+    async (changes: WeeklyDigestChanges): Promise<boolean> => {
+      if (Platform.OS === 'web') {
+        return false;
+      }
+
+      if (changes.enabled && permissionStatus !== 'granted') {
+        const status = await requestPermissions();
+        if (status !== 'granted') {
+          return false;
+        }
+      }
+
+      await saveDigest({ ...digestRef.current, ...changes });
+      return true;
+    },
+    [permissionStatus, requestPermissions, saveDigest]
+  );
+
+  return (
+    <DigestContext.Provider
+      value={{
+        digest,
+        updateWeeklyDigest,
+        isLoading,
+      }}
+    >
+      {children}
+    </DigestContext.Provider>
+  );
+};
+
+export const useDigest = (): DigestContextType => {
+  const ctx = useContext(DigestContext);
+  if (!ctx) {
+    throw new Error('useDigest must be used within a DigestProvider');
+  }
+  return ctx;
+};
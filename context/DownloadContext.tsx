@@ -0,0 +1,282 @@
+// context/DownloadContext.tsx
+
+import * as FileSystem from 'expo-file-system';
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { Platform } from 'react-native';
+import { ArchiveAudio, ArchiveShow, DownloadedShow, DownloadsMap } from '../types/archive';
+import { getArchiveShowImage } from '../utils/archiveArtwork';
+import {
+  DOWNLOADS_DIR,
+  getDownloadQuota,
+  getDownloads,
+  getDownloadsSize,
+  removeDownload as removeStoredDownload,
+  setDownload,
+  setDownloadQuota,
+} from '../utils/downloadStorage';
+
+export type DownloadResult = 'downloaded' | 'quota' | 'cancelled' | 'failed';
+
+type DownloadContextType = {
+  downloads: DownloadsMap;
+  // In-flight downloads: showId -> fraction complete (0..1, or 0 if unknown)
+  downloadProgress: { [showId: string]: number };
+  downloadShow: (show: ArchiveShow, audio: ArchiveAudio) => Promise<DownloadResult>;
+  cancelDownload: (showId: string) => Promise<void>;
+  removeDownload: (showId: string) => Promise<void>;
+  getLocalAudio: (showId: string) => ArchiveAudio | null;
+  findDownloadBySlug: (slug: string) => DownloadedShow | undefined;
+  usedBytes: number;
+  quotaBytes: number;
+  setQuota: (bytes: number) => Promise<void>;
+  isSupported: boolean;
+  isLoading: boolean;
+};
+
+const DownloadContext = createContext<DownloadContextType | undefined>(undefined);
+
+function audioExtension(audio: ArchiveAudio): string {
+  if (audio.contentType?.includes('mp4') || audio.contentType?.includes('aac')) return 'm4a';
+  if (audio.contentType?.includes('ogg')) return 'ogg';
+  if (audio.contentType?.includes('wav')) return 'wav';
+  const match = audio.url.split('?')[0].match(/\.(mp3|m4a|aac|ogg|opus|wav)$/i);
+  return match ? match[1].toLowerCase() : 'mp3';
+}
+
+async function fileSize(uri: string): Promise<number> {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists ? info.size : 0;
+}
+
+async function deleteFile(uri?: string | null): Promise<void> {
+  if (!uri) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Failed to delete downloaded file:', error);
+  }
+}
+
+export const DownloadProvider = ({ children }: { children: ReactNode }) => {
+  const isSupported = Platform.OS !== 'web' && DOWNLOADS_DIR !== null;
+  const [downloads, setDownloads] = useState<DownloadsMap>({});
+  const [downloadProgress, setDownloadProgress] = useState<{ [showId: string]: number }>({});
+  const [quotaBytes, setQuotaBytes] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Running tasks, so they can be cancelled, plus why each one was stopped
+  const tasks = useRef<{ [showId: string]: FileSystem.DownloadResumable }>({});
+  const stopReasons = useRef<{ [showId: string]: DownloadResult }>({});
+  // Mirrors for the quota check inside progress callbacks
+  const downloadsRef = useRef<DownloadsMap>({});
+  const quotaRef = useRef(0);
+
+  useEffect(() => {
+    if (!isSupported) {
+      setIsLoading(false);
+      return;
+    }
+
+    Promise.all([getDownloads(), getDownloadQuota()])
+      .then(([stored, quota]) => {
+        downloadsRef.current = stored;
+        quotaRef.current = quota;
+        setDownloads(stored);
+        setQuotaBytes(quota);
+      })
+      .finally(() => setIsLoading(false));
+  }, [isSupported]);
+
+  const setProgress = (showId: string, fraction: number | null) => {
+    setDownloadProgress((prev) => {
+      const updated = { ...prev };
+      if (fraction === null) {
+        delete updated[showId];
+      } else {
+        updated[showId] = fraction;
+      }
+      return updated;
+    });
+  };
+
+  const downloadShow = useCallback(
+    async (show: ArchiveShow, audio: ArchiveAudio): Promise<DownloadResult> => {
+      if (!isSupported || !DOWNLOADS_DIR) return 'failed';
+      if (downloadsRef.current[show.id] || tasks.current[show.id]) return 'downloaded';
+
+      const usedBytes = getDownloadsSize(downloadsRef.current);
+      if (usedBytes >= quotaRef.current) return 'quota';
+
+      const audioUri = `${DOWNLOADS_DIR}${show.id}.${audioExtension(audio)}`;
+      const artworkUri = `${DOWNLOADS_DIR}${show.id}-artwork.jpg`;
+
+      try {
+        await FileSystem.makeDirectoryAsync(DOWNLOADS_DIR, { intermediates: true });
+      } catch (error) {
+        console.error('Failed to create downloads directory:', error);
+        return 'failed';
+      }
+
+      setProgress(show.id, 0);
+      const task = FileSystem.createDownloadResumable(
+        audio.url,
+        audioUri,
+        {},
+        ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+          if (totalBytesExpectedToWrite <= 0) return;
+          // Stop as soon as the server tells us the file won't fit
+          if (usedBytes + totalBytesExpectedToWrite > quotaRef.current) {
+            stopReasons.current[show.id] = 'quota';
+            task.cancelAsync().catch(() => {});
+            return;
+          }
+          setProgress(show.id, totalBytesWritten / totalBytesExpectedToWrite);
+        }
+      );
+      tasks.current[show.id] = task;
+
+      try {
+        const result = await task.downloadAsync();
+        const stopped = stopReasons.current[show.id];
+        if (!result || stopped) {
+          await deleteFile(audioUri);
+          return stopped ?? 'cancelled';
+        }
+        if (result.status < 200 || result.status >= 300) {
+          await deleteFile(audioUri);
+          return 'failed';
+        }
+
+        // Artwork is a nicety; the download still counts without it
+        let savedArtworkUri: string | null = null;
+        const imageUrl = getArchiveShowImage(show);
+        if (imageUrl) {
+          try {
+            const artwork = await FileSystem.downloadAsync(imageUrl, artworkUri);
+            if (artwork.status >= 200 && artwork.status < 300) {
+              savedArtworkUri = artworkUri;
+            } else {
+              // An error page, not an image
+              await deleteFile(artworkUri);
+            }
+          } catch (error) {
+            console.warn('Failed to download artwork:', error);
+          }
+        }
+
+        const bytes =
+          (await fileSize(audioUri)) + (savedArtworkUri ? await fileSize(savedArtworkUri) : 0);
+
+        // Servers that don't send Content-Length are only caught here
+        if (getDownloadsSize(downloadsRef.current) + bytes > quotaRef.current) {
+          await deleteFile(audioUri);
+          await deleteFile(savedArtworkUri);
+          return 'quota';
+        }
+
+        const download: DownloadedShow = {
+          show,
+          audioUri,
+          artworkUri: savedArtworkUri,
+          duration: audio.duration,
+          bytes,
+          downloadedAt: new Date().toISOString(),
+        };
+        await setDownload(download);
+        downloadsRef.current = { ...downloadsRef.current, [show.id]: download };
+        setDownloads(downloadsRef.current);
+        return 'downloaded';
+      } catch (error) {
+        console.error('Download failed:', error);
+        await deleteFile(audioUri);
+        return stopReasons.current[show.id] ?? 'failed';
+      } finally {
+        delete tasks.current[show.id];
+        delete stopReasons.current[show.id];
+        setProgress(show.id, null);
+      }
+    },
+    [isSupported]
+  );
+
+  const cancelDownload = useCallback(async (showId: string) => {
+    const task = tasks.current[showId];
+    if (!task) return;
+    stopReasons.current[showId] = 'cancelled';
+    try {
+      await task.cancelAsync();
+    } catch (error) {
+      console.error('Failed to cancel download:', error);
+    }
+  }, []);
+
+  const removeDownload = useCallback(async (showId: string) => {
+    const download = downloadsRef.current[showId];
+    if (!download) return;
+
+    await deleteFile(download.audioUri);
+    await deleteFile(download.artworkUri);
+    await removeStoredDownload(showId);
+
+    const updated = { ...downloadsRef.current };
+    delete updated[showId];
+    downloadsRef.current = updated;
+    setDownloads(updated);
+  }, []);
+
+  const getLocalAudio = useCallback(
+    (showId: string): ArchiveAudio | null => {
+      const download = downloads[showId];
+      return download ? { url: download.audioUri, duration: download.duration } : null;
+    },
+    [downloads]
+  );
+
+  const findDownloadBySlug = useCallback(
+    (slug: string) => Object.values(downloads).find((d) => d.show.slug === slug),
+    [downloads]
+  );
+
+  const setQuota = useCallback(async (bytes: number) => {
+    quotaRef.current = bytes;
+    setQuotaBytes(bytes);
+    await setDownloadQuota(bytes);
+  }, []);
+
+  return (
+    <DownloadContext.Provider
+      value={{
+        downloads,
+        downloadProgress,
+        downloadShow,
+        cancelDownload,
+        removeDownload,
+        getLocalAudio,
+        findDownloadBySlug,
+        usedBytes: getDownloadsSize(downloads),
+        quotaBytes,
+        setQuota,
+        isSupported,
+        isLoading,
+      }}
+    >
+      {children}
+    </DownloadContext.Provider>
+  );
+};
+
+export const useDownloads = (): DownloadContextType => {
+  const ctx = useContext(DownloadContext);
+  if (!ctx) {
+    throw new Error('useDownloads must be used within a DownloadProvider');
+  }
+  return ctx;
+};
@@ -0,0 +1,173 @@
+// context/FavouritesContext.tsx
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { ArchiveShow } from '../types/archive';
+import {
+  FavouriteArtist,
+  FavouriteArtistsMap,
+  FavouriteShow,
+  FavouriteShowsMap,
+} from '../types/favourites';
+import { getArchiveShowImage } from '../utils/archiveArtwork';
+import { cacheArtwork, deleteCachedArtwork } from '../utils/artworkCache';
+import {
+  getFavouriteArtists,
+  getFavouriteShows,
+  removeFavouriteArtist,
+  removeFavouriteShow,
+  setFavouriteArtist,
+  setFavouriteShow,
+} from '../utils/favouritesStorage';
+
+export type FavouriteArtistInput = {
+  artistId: string;
+  artistName: string;
+  artistSlug: string;
+  imageUrl?: string | null;
+};
+
+type FavouritesContextType = {
+  favouriteShows: FavouriteShowsMap;
+  favouriteArtists: FavouriteArtistsMap;
+  isShowSaved: (showId: string) => boolean;
+  isArtistSaved: (artistId: string) => boolean;
+  toggleShowFavourite: (show: ArchiveShow) => Promise<void>;
+  toggleArtistFavourite: (artist: FavouriteArtistInput) => Promise<void>;
+  isLoading: boolean;
+};
+
+const FavouritesContext = createContext<FavouritesContextType | undefined>(undefined);
+
+export const FavouritesProvider = ({ children }: { children: ReactNode }) => {
+  const [favouriteShows, setFavouriteShows] = useState<FavouriteShowsMap>({});
+  const [favouriteArtists, setFavouriteArtists] = useState<FavouriteArtistsMap>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Mirrors so quick repeated toggles see each other's result
+  const showsRef = useRef<FavouriteShowsMap>({});
+  const artistsRef = useRef<FavouriteArtistsMap>({});
+
+  useEffect(() => {
+    Promise.all([getFavouriteShows(), getFavouriteArtists()])
+      .then(([shows, artists]) => {
+        showsRef.current = shows;
+        artistsRef.current = artists;
+        setFavouriteShows(shows);
+        setFavouriteArtists(artists);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const isShowSaved = useCallback(
+    (showId: string) => !!favouriteShows[showId],
+    [favouriteShows]
+  );
+
+  const isArtistSaved = useCallback(
+    (artistId: string) => !!favouriteArtists[artistId],
+    [favouriteArtists]
+  );
+
+  const toggleShowFavourite = useCallback(async (show: ArchiveShow) => {
+    const existing = showsRef.current[show.id];
+
+    if (existing) {
+      const updated = { ...showsRef.current };
+      delete updated[show.id];
+      showsRef.current = updated;
+      setFavouriteShows(updated);
+      await removeFavouriteShow(show.id);
+      await deleteCachedArtwork(existing.artworkUri);
+      return;
+    }
+
+    // Save straight away so the heart fills at once; the artwork copy follows
+    const favourite: FavouriteShow = {
+      showId: show.id,
+      show,
+      artworkUri: null,
+      savedAt: new Date().toISOString(),
+    };
+    showsRef.current = { ...showsRef.current, [show.id]: favourite };
+    setFavouriteShows(showsRef.current);
+    await setFavouriteShow(favourite);
+
+    const artworkUri = await cacheArtwork(`show-${show.id}`, getArchiveShowImage(show));
+    // Unsaved again while the artwork was downloading
+    if (!showsRef.current[show.id]) {
+      await deleteCachedArtwork(artworkUri);
+      return;
+    }
+
+    const saved = { ...favourite, artworkUri };
+    showsRef.current = { ...showsRef.current, [show.id]: saved };
+    setFavouriteShows(showsRef.current);
+    await setFavouriteShow(saved);
+  }, []);
+
+  const toggleArtistFavourite = useCallback(async (artist: FavouriteArtistInput) => {
+    const existing = artistsRef.current[artist.artistId];
+
+    if (existing) {
+      const updated = { ...artistsRef.current };
+      delete updated[artist.artistId];
+      artistsRef.current = updated;
+      setFavouriteArtists(updated);
+      await removeFavouriteArtist(artist.artistId);
+      await deleteCachedArtwork(existing.artworkUri);
+      return;
+    }
+
+    const favourite: FavouriteArtist = {
+      ...artist,
+      artworkUri: null,
+      savedAt: new Date().toISOString(),
+    };
+    artistsRef.current = { ...artistsRef.current, [artist.artistId]: favourite };
+    setFavouriteArtists(artistsRef.current);
+    await setFavouriteArtist(favourite);
+
+    const artworkUri = await cacheArtwork(`artist-${artist.artistId}`, artist.imageUrl);
+    if (!artistsRef.current[artist.artistId]) {
+      await deleteCachedArtwork(artworkUri);
+      return;
+    }
+
+    const saved = { ...favourite, artworkUri };
+    artistsRef.current = { ...artistsRef.current, [artist.artistId]: saved };
+    setFavouriteArtists(artistsRef.current);
+    await setFavouriteArtist(saved);
+  }, []);
+
+  return (
+    <FavouritesContext.Provider
+      value={{
+        favouriteShows,
+        favouriteArtists,
+        isShowSaved,
+        isArtistSaved,
+        toggleShowFavourite,
+        toggleArtistFavourite,
+        isLoading,
+      }}
+    >
+      {children}
+    </FavouritesContext.Provider>
+  );
+};
+
+export const useFavourites = (): FavouritesContextType => {
+  const ctx = useContext(FavouritesContext);
+  if (!ctx) {
+    throw new Error('useFavourites must be used within a FavouritesProvider');
+  }
+  return ctx;
+};
@@ -0,0 +1,127 @@
+// context/ListeningHistoryContext.tsx
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { ArchiveShow, ListeningHistoryEntry, ListeningHistoryMap } from '../types/archive';
+import {
+  applyListeningProgress,
+  getListeningHistory,
+  saveListeningHistory,
+} from '../utils/listeningHistory';
+import { useTrackPlayer } from './TrackPlayerContext';
+
+// The position of a playing archive show is sampled in memory every
+// SAMPLE_INTERVAL_MS and persisted every SAVE_EVERY_SAMPLES samples.
+const SAMPLE_INTERVAL_MS = 2_000;
+const SAVE_EVERY_SAMPLES = 5;
+
+type ProgressSample = { show: ArchiveShow; position: number; duration: number };
+
+type ListeningHistoryContextType = {
+  history: ListeningHistoryMap;
+  getHistoryEntry: (showId: string) => ListeningHistoryEntry | undefined;
+  isLoading: boolean;
+};
+
+const ListeningHistoryContext = createContext<ListeningHistoryContextType | undefined>(
+  undefined
+);
+
+export const ListeningHistoryProvider = ({ children }: { children: ReactNode }) => {
+  const [history, setHistory] = useState<ListeningHistoryMap>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const { isPlaying, onDemandShow, getPlaybackProgress } = useTrackPlayer();
+
+  // Samples are folded into the ref synchronously so overlapping saves (an
+  // interval tick racing a pause) never drop each other's updates.
+  const historyRef = useRef<ListeningHistoryMap>({});
+
+  useEffect(() => {
+    getListeningHistory()
+      .then((stored) => {
+        // Keep anything recorded while storage was still loading
+        historyRef.current = { ...stored, ...historyRef.current };
+        setHistory(historyRef.current);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const commit = useCallback(async (sample: ProgressSample) => {
+    // Nothing loaded yet (or already torn down) — don't clobber a saved position
+    if (sample.position <= 0 && sample.duration <= 0) return;
+
+    historyRef.current = applyListeningProgress(
+      historyRef.current,
+      sample.show,
+      sample.position,
+      sample.duration
+    );
+    setHistory(historyRef.current);
+    await saveListeningHistory(historyRef.current);
+  }, []);
+
+  // While an archive show plays, keep the latest position in memory and
+  // persist it every few samples. When it pauses or ends, read it once more so
+  // the stored position is exactly where the listener stopped. Switching to
+  // another show (or back to live) resets the player before we can read it,
+  // so the outgoing show is committed from its last in-memory sample instead.
+  useEffect(() => {
+    if (!onDemandShow) return;
+
+    if (!isPlaying) {
+      getPlaybackProgress().then(({ position, duration }) =>
+        commit({ show: onDemandShow, position, duration })
+      );
+      return;
+    }
+
+    let lastSample: ProgressSample | null = null;
+    let samples = 0;
+    const interval = setInterval(async () => {
+      const { position, duration } = await getPlaybackProgress();
+      if (position <= 0 && duration <= 0) return;
+      lastSample = { show: onDemandShow, position, duration };
+      samples += 1;
+      if (samples % SAVE_EVERY_SAMPLES === 0) {
+        commit(lastSample);
+      }
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      if (lastSample) commit(lastSample);
+    };
+  }, [onDemandShow, isPlaying, getPlaybackProgress, commit]);
+
+  const getHistoryEntry = useCallback(
+    (showId: string) => history[showId],
+    [history]
+  );
+
+  return (
+    <ListeningHistoryContext.Provider
+      value={{
+        history,
+        getHistoryEntry,
+        isLoading,
+      }}
+    >
+      {children}
+    </ListeningHistoryContext.Provider>
+  );
+};
+
+export const useListeningHistory = (): ListeningHistoryContextType => {
+  const ctx = useContext(ListeningHistoryContext);
+  if (!ctx) {
+    throw new Error('useListeningHistory must be used within a ListeningHistoryProvider');
+  }
+  return ctx;
+};
@@ -10,31 +10,40 @@ import {
   useState,
 } from 'react';
 import { Alert, Linking, Platform } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
 import {
   ArtistSubscription,
   ArtistSubscriptionsMap,
   NotificationPermissionStatus,
+  ReminderLeadTime,
   ShowReminder,
   ShowRemindersMap,
 } from '../types/notifications';
 import {
   cancelShowReminder,
   getNotificationPermissionStatus,
+  presentReminderSetConfirmation,
   requestNotificationPermissions,
   scheduleShowReminder,
   ScheduleShowReminderParams,
 } from '../utils/notificationScheduler';
 import {
   cleanupExpiredReminders,
+  DEFAULT_REMINDER_LEAD_TIME,
   getArtistSubscriptions,
+  getDefaultLeadTime,
   getShowReminders,
   isArtistSubscribed as checkArtistSubscribed,
+  migrateShowReminders,
   removeArtistSubscription,
   removeShowReminder,
   setArtistSubscription,
+  setDefaultLeadTime as storeDefaultLeadTime,
   setShowReminder,
 } from '../utils/notificationStorage';
-import { fetchNextShowForArtist } from '../utils/nextShow';
+import { scheduleQueryOptions } from '../hooks/useSchedule';
+import { addMediaNotificationActionListener } from '../utils/androidNotificationSetup';
+import { findNextShowForArtist, findUpNextShow } from '../utils/nextShow';
 
 type NotificationContextType = {
   // Permission
@@ -46,6 +55,12 @@ type NotificationContextType = {
   isShowReminderSet: (showId: string) => boolean;
   toggleShowReminder: (params: ScheduleShowReminderParams) => Promise<boolean>;
   getShowReminder: (showId: string) => ShowReminder | undefined;
+  // Pass null to go back to following the default
+  setReminderLeadTime: (showId: string, leadTime: ReminderLeadTime | null) => Promise<void>;
+
+  // Lead time for reminders that don't pick their own
+  defaultLeadTime: ReminderLeadTime;
+  setDefaultLeadTime: (leadTime: ReminderLeadTime) => Promise<void>;
 
   // Artist subscriptions
   subscriptions: ArtistSubscriptionsMap;
@@ -72,12 +87,15 @@ const NotificationContext = createContext<NotificationContextType | undefined>(
 );
 
 export const NotificationProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
   const [permissionStatus, setPermissionStatus] =
     useState<NotificationPermissionStatus>('undetermined');
   const [reminders, setReminders] = useState<ShowRemindersMap>({});
   const [subscriptions, setSubscriptions] = useState<ArtistSubscriptionsMap>(
     {}
   );
+  const [defaultLeadTime, setDefaultLeadTimeState] =
+    useState<ReminderLeadTime>(DEFAULT_REMINDER_LEAD_TIME);
   const [isLoading, setIsLoading] = useState(true);
   const hasInitialized = useRef(false);
 
@@ -98,13 +116,16 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
         setPermissionStatus(status);
 
         // Load stored data
-        const [storedReminders, storedSubscriptions] = await Promise.all([
+        await migrateShowReminders();
+        const [storedReminders, storedSubscriptions, storedLeadTime] = await Promise.all([
           getShowReminders(),
           getArtistSubscriptions(),
+          getDefaultLeadTime(),
         ]);
 
         setReminders(storedReminders);
         setSubscriptions(storedSubscriptions);
+        setDefaultLeadTimeState(storedLeadTime);
 
         // Cleanup expired reminders
         await cleanupExpiredReminders();
@@ -160,13 +181,50 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
     [reminders]
   );
 
+  // Schedule and store a reminder. `leadTime` is the show's own choice, if it
+  // has one; otherwise the default applies.
+  const armShowReminder = useCallback(
+    async (
+      params: ScheduleShowReminderParams,
+      leadTimeOverride?: ReminderLeadTime
+    ): Promise<ShowReminder | null> => {
+      const scheduled = await scheduleShowReminder({
+        ...params,
+        leadTime: leadTimeOverride ?? params.leadTime ?? defaultLeadTime,
+      });
+      if (!scheduled) {
+        return null;
+      }
+
+      const newReminder: ShowReminder = {
+        showId: params.showId,
+        showTitle: params.showTitle,
+        artistName: params.artistName,
+        startDateUtc: params.startDateUtc,
+        notificationId: scheduled.notificationId,
+        createdAt: new Date().toISOString(),
+        // What it fires at, which is the start if the chosen notice has passed
+        leadTime: scheduled.leadTime,
+        customLeadTime: leadTimeOverride !== undefined || params.leadTime !== undefined,
+      };
+
+      await setShowReminder(newReminder);
+      setReminders((prev) => ({
+        ...prev,
+        [params.showId]: newReminder,
+      }));
+      return newReminder;
+    },
+    [defaultLeadTime]
+  );
+
   const toggleShowReminder = useCallback(
     async (params: ScheduleShowReminderParams): Promise<boolean> => {
       if (Platform.OS === 'web') {
         return false;
       }
 
-      const { showId, showTitle, artistName, startDateUtc } = params;
+      const { showId } = params;
       const existingReminder = reminders[showId];
 
       if (existingReminder) {
@@ -191,31 +249,100 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
       }
 
       // Schedule new reminder
-      const notificationId = await scheduleShowReminder(params);
-      if (!notificationId) {
-        return false;
-      }
+      return (await armShowReminder(params)) !== null;
+    },
+    [reminders, permissionStatus, requestPermissions, armShowReminder]
+  );
 
-      const newReminder: ShowReminder = {
-        showId,
-        showTitle,
-        artistName,
-        startDateUtc,
-        notificationId,
-        createdAt: new Date().toISOString(),
+  const setReminderLeadTime = useCallback(
+    async (showId: string, leadTime: ReminderLeadTime | null): Promise<void> => {
+      const existing = reminders[showId];
+      if (!existing) return;
+
+      await cancelShowReminder(existing.notificationId);
+      const show = {
+        showId: existing.showId,
+        showTitle: existing.showTitle,
+        artistName: existing.artistName,
+        startDateUtc: existing.startDateUtc,
       };
+      const rearmed = await armShowReminder(show, leadTime ?? undefined);
+      if (!rearmed) {
+        // The show has started in the meantime
+        await removeShowReminder(showId);
+        setReminders((prev) => {
+          const updated = { ...prev };
+          delete updated[showId];
+          return updated;
+        });
+      }
+    },
+    [reminders, armShowReminder]
+  );
 
-      await setShowReminder(newReminder);
-      setReminders((prev) => ({
-        ...prev,
-        [showId]: newReminder,
-      }));
-
-      return true;
+  // Change the default and move every reminder that follows it
+  const setDefaultLeadTime = useCallback(
+    async (leadTime: ReminderLeadTime): Promise<void> => {
+      setDefaultLeadTimeState(leadTime);
+      await storeDefaultLeadTime(leadTime);
+
+      for (const reminder of Object.values(reminders)) {
+        if (reminder.customLeadTime || reminder.leadTime === leadTime) continue;
+        await cancelShowReminder(reminder.notificationId);
+        const show = {
+          showId: reminder.showId,
+          showTitle: reminder.showTitle,
+          artistName: reminder.artistName,
+          startDateUtc: reminder.startDateUtc,
+        };
+        const scheduled = await scheduleShowReminder({ ...show, leadTime });
+        if (!scheduled) {
+          await removeShowReminder(reminder.showId);
+          setReminders((prev) => {
+            const updated = { ...prev };
+            delete updated[reminder.showId];
+            return updated;
+          });
+          continue;
+        }
+        const moved: ShowReminder = { ...reminder, ...scheduled };
+        await setShowReminder(moved);
+        setReminders((prev) => ({ ...prev, [reminder.showId]: moved }));
+      }
     },
-    [reminders, permissionStatus, requestPermissions]
+    [reminders]
   );
 
+  // "Remind me about next show" from the Android media notification. Sets a
+  // reminder for the station's next show (or confirms the one already set).
+  // There's no permission prompt from the notification shade, so without
+  // permission the tap does nothing.
+  useEffect(() => {
+    if (Platform.OS !== 'android') return;
+
+    return addMediaNotificationActionListener('remind_next', async () => {
+      if (permissionStatus !== 'granted') return;
+      try {
+        const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const nextShow = findUpNextShow(await queryClient.fetchQuery(scheduleQueryOptions(timezone)));
+        if (!nextShow) return;
+
+        const reminder =
+          reminders[nextShow.id] ??
+          (await armShowReminder({
+            showId: nextShow.id,
+            showTitle: nextShow.title.trim(),
+            startDateUtc: nextShow.startDateUtc,
+          }));
+        if (reminder) {
+          await presentReminderSetConfirmation(reminder);
+        }
+      } catch (error) {
+        console.error('Failed to set up-next reminder:', error);
+      }
+    });
+  }, [permissionStatus, queryClient, reminders, armShowReminder]);
+
   const isArtistSubscribed = useCallback(
     (artistId: string): boolean => {
       return subscriptions[artistId]?.isActive ?? false;
@@ -290,28 +417,13 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
       // reminder path in toggleShowReminder).
       for (const show of upcomingShows) {
         if (!reminders[show.showId]) {
-          const notificationId = await scheduleShowReminder(show);
-          if (notificationId) {
-            const newReminder: ShowReminder = {
-              showId: show.showId,
-              showTitle: show.showTitle,
-              artistName: show.artistName,
-              startDateUtc: show.startDateUtc,
-              notificationId,
-              createdAt: new Date().toISOString(),
-            };
-            await setShowReminder(newReminder);
-            setReminders((prev) => ({
-              ...prev,
-              [show.showId]: newReminder,
-            }));
-          }
+          await armShowReminder(show);
         }
       }
 
       return true;
     },
-    [subscriptions, reminders, permissionStatus, requestPermissions]
+    [subscriptions, reminders, permissionStatus, requestPermissions, armShowReminder]
   );
 
   const syncSubscribedArtistShows = useCallback(
@@ -325,26 +437,11 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
       // Schedule reminders for any upcoming shows that don't have reminders
       for (const show of upcomingShows) {
         if (!reminders[show.showId]) {
-          const notificationId = await scheduleShowReminder(show);
-          if (notificationId) {
-            const newReminder: ShowReminder = {
-              showId: show.showId,
-              showTitle: show.showTitle,
-              artistName: show.artistName,
-              startDateUtc: show.startDateUtc,
-              notificationId,
-              createdAt: new Date().toISOString(),
-            };
-            await setShowReminder(newReminder);
-            setReminders((prev) => ({
-              ...prev,
-              [show.showId]: newReminder,
-            }));
-          }
+          await armShowReminder(show);
         }
       }
     },
-    [subscriptions, reminders]
+    [subscriptions, reminders, armShowReminder]
   );
 
   // Launch re-sync: once per app session (after subscriptions/reminders have
@@ -373,9 +470,19 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
     const resyncSubscriptions = async () => {
       const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
+      // One schedule fetch (or the cached copy the screens already loaded)
+      // serves every subscribed artist
+      let schedule;
+      try {
+        schedule = await queryClient.fetchQuery(scheduleQueryOptions(timezone));
+      } catch (error) {
+        console.error('Failed to fetch schedule for reminder re-sync:', error);
+        return;
+      }
+
       for (const artistId of activeArtistIds) {
         try {
-          const nextShow = await fetchNextShowForArtist(artistId, timezone);
+          const nextShow = findNextShowForArtist(schedule, artistId);
           if (!nextShow) continue;
 
           const sub = subscriptions[artistId];
@@ -397,7 +504,7 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
     };
 
     resyncSubscriptions();
-  }, [isLoading, permissionStatus, subscriptions, syncSubscribedArtistShows]);
+  }, [isLoading, permissionStatus, subscriptions, syncSubscribedArtistShows, queryClient]);
 
   return (
     <NotificationContext.Provider
@@ -408,6 +515,9 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
         isShowReminderSet,
         toggleShowReminder,
         getShowReminder: getShowReminderValue,
+        setReminderLeadTime,
+        defaultLeadTime,
+        setDefaultLeadTime,
         subscriptions,
         isArtistSubscribed,
         toggleArtistSubscription,
@@ -0,0 +1,289 @@
+// context/OutputContext.tsx
+//
+// The places the live stream can play other than the phone, behind one
+// interface: a Chromecast session (CastContext) or a UPnP/DLNA renderer
+// (utils/upnp.ts). A connected Cast session wins; otherwise the renderer
+// picked in the speaker control is active. TrackPlayerContext sends play,
+// stop, metadata and volume here without caring which one it is.
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react'
+import { Platform } from 'react-native'
+import { OutputDevice, UpnpRenderer } from '../types/outputDevice'
+import { CastShowTiming } from '../utils/castUtils'
+import { logEvent } from '../utils/eventLog'
+import { isSsdpSupported } from '../utils/ssdp'
+import { getStreamVariant } from '../utils/streamQuality'
+import {
+  discoverUpnpRenderers,
+  upnpIsPlaying,
+  upnpLoad,
+  upnpSetVolume,
+  upnpStop,
+} from '../utils/upnp'
+import { useCast } from './CastContext'
+
+// Renderers fetch the stream over the home network, so like a Chromecast
+// they always get the full-quality mount
+const UPNP_STREAM = getStreamVariant('high')
+
+// How often a selected renderer is asked whether it's still playing, to catch
+// it being stopped from its own remote or app
+const UPNP_POLL_INTERVAL_MS = 10000
+
+const DISCOVERY_TIMEOUT_MS = 3000
+
+type OutputPlay = (
+  title: string,
+  artist: string,
+  artworkUrl?: string,
+  showTime?: string,
+  timing?: CastShowTiming
+) => Promise<boolean>
+
+// One implementation of an output
+type OutputBackend = {
+  device: OutputDevice
+  isPlaying: boolean
+  play: OutputPlay
+  stop: () => Promise<void>
+  updateMetadata: (...args: Parameters<OutputPlay>) => Promise<void>
+  setVolume: (volume: number) => Promise<boolean>
+}
+
+export type OutputContextType = {
+  // Where the stream goes, or null for the phone
+  activeOutput: OutputDevice | null
+  isOutputConnected: boolean
+  isOutputPlaying: boolean
+  // UPnP/DLNA renderers from the last search, and the one picked
+  isUpnpSupported: boolean
+  upnpDevices: OutputDevice[]
+  selectedUpnpDevice: OutputDevice | null
+  isDiscovering: boolean
+  discoverUpnpDevices: () => Promise<void>
+  // null goes back to the phone
+  selectUpnpDevice: (device: OutputDevice | null) => Promise<void>
+  // Whether playback should go to an output. Also checks the live Cast
+  // session, which CastContext's state can lag just after it starts.
+  hasActiveOutput: () => Promise<boolean>
+  outputPlay: OutputPlay
+  outputStop: () => Promise<void>
+  updateOutputMetadata: (...args: Parameters<OutputPlay>) => Promise<void>
+  // 0–1, on the output's own volume
+  setOutputVolume: (volume: number) => Promise<boolean>
+}
+
+const OutputContextValue = createContext<OutputContextType | undefined>(undefined)
+
+export const OutputProvider = ({ children }: { children: ReactNode }) => {
+  const {
+    isCastConnected,
+    isCastPlaying,
+    castDeviceName,
+    castPlay,
+    castStop,
+    updateCastMetadata,
+    setCastVolume,
+  } = useCast()
+
+  const [upnpDevices, setUpnpDevices] = useState<UpnpRenderer[]>([])
+  const [renderer, setRenderer] = useState<UpnpRenderer | null>(null)
+  const [isRendererPlaying, setIsRendererPlaying] = useState(false)
+  const [isDiscovering, setIsDiscovering] = useState(false)
+  const isUpnpSupported = isSsdpSupported()
+
+  // The renderer as of the latest render, for calls that outlive it
+  const rendererRef = useRef<UpnpRenderer | null>(null)
+  rendererRef.current = renderer
+  // What the renderer was last loaded with, so metadata polls that change
+  // nothing don't reload it
+  const rendererMetadata = useRef('')
+
+  const chromecast: OutputBackend | null = isCastConnected
+    ? {
+        device: { id: castDeviceName ?? 'chromecast', kind: 'chromecast', name: castDeviceName ?? 'Cast Device' },
+        isPlaying: isCastPlaying,
+        play: castPlay,
+        stop: castStop,
+        updateMetadata: updateCastMetadata,
+        setVolume: setCastVolume,
+      }
+    : null
+
+  const upnp: OutputBackend | null = renderer
+    ? {
+        device: { id: renderer.id, kind: 'upnp', name: renderer.name, model: renderer.model },
+        isPlaying: isRendererPlaying,
+        play: async (title, artist, artworkUrl) => {
+          rendererMetadata.current = JSON.stringify([title, artist, artworkUrl])
+          const success = await upnpLoad(renderer, {
+            url: UPNP_STREAM.url,
+            contentType: UPNP_STREAM.contentType,
+            title,
+            artist,
+            artworkUrl,
+          })
+          if (success) {
+            setIsRendererPlaying(true)
+          } else {
+            logEvent('cast', 'Load on UPnP renderer failed', renderer.name)
+          }
+          return success
+        },
+        stop: async () => {
+          if (await upnpStop(renderer)) setIsRendererPlaying(false)
+        },
+        updateMetadata: async (title, artist, artworkUrl) => {
+          // Re-setting the URI is the only way to push metadata, so only do it
+          // while the renderer is actually playing the stream
+          const metadata = JSON.stringify([title, artist, artworkUrl])
+          if (!isRendererPlaying || metadata === rendererMetadata.current) return
+          rendererMetadata.current = metadata
+          await upnpLoad(renderer, {
+            url: UPNP_STREAM.url,
+            contentType: UPNP_STREAM.contentType,
+            title,
+            artist,
+            artworkUrl,
+          })
+        },
+        setVolume: (volume) => upnpSetVolume(renderer, volume),
+      }
+    : null
+
+  const active = chromecast ?? upnp
+
+  const discoverUpnpDevices = useCallback(async () => {
+    if (!isUpnpSupported) return
+    setIsDiscovering(true)
+    try {
+      const found = await discoverUpnpRenderers(DISCOVERY_TIMEOUT_MS)
+      // Keep the selected renderer listed even if it missed this search
+      const selected = rendererRef.current
+      setUpnpDevices(selected && !found.some((device) => device.id === selected.id) ? [selected, ...found] : found)
+      logEvent('cast', `Found ${found.length} UPnP renderer${found.length === 1 ? '' : 's'}`)
+    } finally {
+      setIsDiscovering(false)
+    }
+  }, [isUpnpSupported])
+
+  const selectUpnpDevice = useCallback(
+    async (device: OutputDevice | null) => {
+      const previous = rendererRef.current
+      if (previous?.id === device?.id) return
+
+      if (previous) {
+        await upnpStop(previous)
+        setIsRendererPlaying(false)
+      }
+
+      const next = device ? upnpDevices.find((candidate) => candidate.id === device.id) ?? null : null
+      setRenderer(next)
+      logEvent('cast', next ? 'UPnP renderer selected' : 'UPnP renderer released', next?.name ?? previous?.name)
+    },
+    [upnpDevices]
+  )
+
+  // Follow the renderer's own transport state while one is picked
+  useEffect(() => {
+    if (!renderer || Platform.OS === 'web') {
+      setIsRendererPlaying(false)
+      return
+    }
+
+    let cancelled = false
+    const poll = async () => {
+      const playing = await upnpIsPlaying(renderer)
+      if (!cancelled && playing !== null) setIsRendererPlaying(playing)
+    }
+    const interval = setInterval(poll, UPNP_POLL_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [renderer])
+
+  // A Cast session takes over from a renderer that was playing
+  useEffect(() => {
+    const current = rendererRef.current
+    if (isCastConnected && current) {
+      upnpStop(current).then((stopped) => {
+        if (stopped) setIsRendererPlaying(false)
+      })
+    }
+  }, [isCastConnected])
+
+  const hasActiveOutput = useCallback(async () => {
+    if (isCastConnected || rendererRef.current) return true
+    if (Platform.OS === 'web') return false
+    try {
+      const GoogleCast = require('react-native-google-cast').default
+      const session = await GoogleCast.getSessionManager().getCurrentCastSession()
+      return !!session
+    } catch {
+      // No Cast SDK or no session
+      return false
+    }
+  }, [isCastConnected])
+
+  const outputPlay: OutputPlay = async (...args) => {
+    // A session that just started may not be in CastContext's state yet;
+    // castPlay checks the live session itself
+    if (active) return active.play(...args)
+    return castPlay(...args)
+  }
+
+  const outputStop = async () => {
+    if (active) {
+      await active.stop()
+    } else {
+      await castStop()
+    }
+  }
+
+  const updateOutputMetadata = async (...args: Parameters<OutputPlay>) => {
+    await active?.updateMetadata(...args)
+  }
+
+  const setOutputVolume = async (volume: number) => (active ? active.setVolume(volume) : false)
+
+  return (
+    <OutputContextValue.Provider
+      value={{
+        activeOutput: active?.device ?? null,
+        isOutputConnected: active !== null,
+        isOutputPlaying: active?.isPlaying ?? false,
+        isUpnpSupported,
+        upnpDevices,
+        selectedUpnpDevice: upnp?.device ?? null,
+        isDiscovering,
+        discoverUpnpDevices,
+        selectUpnpDevice,
+        hasActiveOutput,
+        outputPlay,
+        outputStop,
+        updateOutputMetadata,
+        setOutputVolume,
+      }}
+    >
+      {children}
+    </OutputContextValue.Provider>
+  )
+}
+
+export const useOutput = (): OutputContextType => {
+  const ctx = useContext(OutputContextValue)
+  if (!ctx) {
+    throw new Error('useOutput must be used within an OutputProvider')
+  }
+  return ctx
+}
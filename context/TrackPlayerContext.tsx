@@ -9,13 +9,52 @@ import {
   useRef,
   useState
 } from 'react';
-import { AppState, NativeEventEmitter, NativeModules, Platform } from 'react-native';
+import { AppState, NativeEventEmitter, NativeModules, Platform, Share } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { useQueryClient } from '@tanstack/react-query';
 import { useCast } from './CastContext';
+import { useOutput } from './OutputContext';
+import { STATION } from '../config';
 import { useNetworkConnectivity } from '../hooks/useNetworkConnectivity';
+import { useNowPlayingWidget } from '../hooks/useNowPlayingWidget';
+import { scheduleQueryOptions } from '../hooks/useSchedule';
+import { addMediaNotificationActionListener } from '../utils/androidNotificationSetup';
+import { formatClockTime } from '../utils/formatTime';
+import { findUpNextShow } from '../utils/nextShow';
+import { presentSharePrompt } from '../utils/notificationScheduler';
 import { getLockScreenImage, invalidateLockScreenImage, preloadLockScreenImage } from '../utils/androidLockScreenImage';
-import { setupTrackPlayer } from '../utils/trackPlayerSetup';
+import { setupTrackPlayer, updatePlayerCapabilities } from '../utils/trackPlayerSetup';
 import { getLiveShowInfo } from '../utils/liveShowInfo';
+import { formatShowProgress, nextShowProgressStep } from '../utils/showProgress';
+import { addWidgetPlayListener } from '../utils/nowPlayingWidget';
+import { getArchiveShowImage } from '../utils/archiveArtwork';
+import { CastShowTiming, isCastableUrl } from '../utils/castUtils';
+import { OutputDevice } from '../types/outputDevice';
 import { resolveIsPlaying } from '../utils/playbackUiState';
+import { loadEventLog, logEvent } from '../utils/eventLog';
+import { createReconnectPolicy, ReconnectStatus } from '../utils/reconnectPolicy';
+import {
+  endStreamSession,
+  loadStreamHealth,
+  recordStreamRecovery,
+  startStreamSession,
+} from '../utils/streamHealth';
+import {
+  resolveSleepDeadline,
+  SLEEP_FADE_DURATION_MS,
+  SLEEP_FADE_STEPS,
+  SleepTimer,
+  SleepTimerOption,
+} from '../utils/sleepTimer';
+import {
+  DEFAULT_STREAM_QUALITY,
+  getStreamQualitySetting,
+  getStreamVariant,
+  resolveStreamQuality,
+  setStreamQualitySetting,
+  StreamQualitySetting,
+} from '../utils/streamQuality';
+import { ArchiveAudio, ArchiveShow } from '../types/archive';
 
 // Only import TrackPlayer on mobile platforms
 let TrackPlayer: any, Event: any, State: any;
@@ -30,11 +69,14 @@ if (Platform.OS !== 'web') {
   }
 }
 
-const STREAM_URL = 'https://eist-radio.radiocult.fm/stream'
+const shareMessage = (message: string) => {
+  Share.share({ message }).catch((error) => console.error('Share failed:', error))
+}
 
 type TrackPlayerContextType = {
   isPlaying: boolean
   isPlayerReady: boolean
+  // castOnly plays on the active output (Chromecast or speaker) or not at all
   play: (options?: { castOnly?: boolean }) => Promise<void>
   stop: () => Promise<void>
   togglePlayStop: () => Promise<void>
@@ -51,10 +93,28 @@ type TrackPlayerContextType = {
   showTitle: string;
   showArtist: string;
   showArtworkUrl: string | undefined;
-  // Cast-related state (exposed from CastContext for convenience)
-  isCastConnected: boolean;
-  isCastPlaying: boolean;
-  castDeviceName: string | null;
+  // On-demand (archive) playback alongside the live stream
+  onDemandShow: ArchiveShow | null;
+  // Whether the archive show is playing on a Chromecast rather than the phone
+  isOnDemandCasting: boolean;
+  playArchiveShow: (show: ArchiveShow, audio: ArchiveAudio, startPosition?: number) => Promise<void>;
+  toggleOnDemandPause: () => Promise<void>;
+  seekTo: (position: number) => Promise<void>;
+  getPlaybackProgress: () => Promise<{ position: number; duration: number }>;
+  // Sleep timer: fades the stream out and stops it at the deadline
+  sleepTimer: SleepTimer | null;
+  startSleepTimer: (option: SleepTimerOption) => Promise<boolean>;
+  cancelSleepTimer: () => Promise<void>;
+  // Stream quality setting, and whether it currently resolves to low data
+  streamQuality: StreamQualitySetting;
+  setStreamQuality: (setting: StreamQualitySetting) => Promise<void>;
+  isLowDataMode: boolean;
+  // Whether a dropped live stream is being retried, or has been given up on
+  reconnectStatus: ReconnectStatus;
+  // Where the live stream plays when not on the phone (exposed from
+  // OutputContext for convenience)
+  activeOutput: OutputDevice | null;
+  isOutputPlaying: boolean;
 }
 
 const TrackPlayerContext = createContext<TrackPlayerContextType | undefined>(
@@ -70,15 +130,28 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
   const [isPlaying, setIsPlaying] = useState(false)
   const [isPlayerReady, setIsPlayerReady] = useState(false)
 
-  // Cast context for Chromecast integration
+  // The output (Chromecast or UPnP renderer) the stream goes to, if any
+  const {
+    activeOutput,
+    isOutputConnected,
+    isOutputPlaying,
+    hasActiveOutput,
+    outputPlay,
+    outputStop,
+    updateOutputMetadata,
+  } = useOutput()
+  // Archive shows go to a Chromecast directly; speakers only take the live stream
   const {
     isCastConnected,
     isCastPlaying,
-    castDeviceName,
-    castPlay,
-    castStop,
-    updateCastMetadata,
+    castArchive,
+    castSeek,
+    castPause,
+    castResume,
+    castProgress,
   } = useCast()
+  const castProgressRef = useRef(castProgress)
+  castProgressRef.current = castProgress
 
   // Store the latest show metadata in state
   const [showTitle, setShowTitle] = useState<string>('éist');
@@ -88,6 +161,12 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
   // End time (ISO) of the current live show, used to schedule the next Now
   // Playing refresh for exactly when the show changes rather than guessing.
   const currentEndDateRef = useRef<string | undefined>(undefined);
+  // Start time (ISO) of the current live show, for the show progress on the
+  // TV and in the Android media notification
+  const currentStartDateRef = useRef<string | undefined>(undefined);
+  // The show after this one, for the Android media notification and the TV
+  const upNextRef = useRef<{ title: string; startDateUtc: string } | null>(null);
+  const queryClient = useQueryClient()
 
   const hasInitialized = useRef(false)
   const audioRef = useRef<HTMLAudioElement | null>(null)
@@ -102,21 +181,77 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
   // Separate user intent tracking from actual playback state
   const userPlay = useRef(false)
 
-  // Unified recovery state - keeps trying as long as user hasn't stopped
+  // Unified recovery state - retries with backoff until it plays again, the
+  // user stops, or the policy gives up
   const isRecovering = useRef(false);
-  const retryTimeout = useRef<NodeJS.Timeout | null>(null);
+  const [reconnectPolicy] = useState(() => createReconnectPolicy());
+  const [reconnectStatus, setReconnectStatus] = useState<ReconnectStatus>('idle');
+
+  useEffect(() => reconnectPolicy.subscribe((state) => setReconnectStatus(state.status)), [reconnectPolicy]);
 
   // Deadline-driven metadata refresh timer (fires just after the current show ends)
   const metadataRefreshTimer = useRef<NodeJS.Timeout | null>(null);
 
+  // Sleep timer. The deadline lives in state (drives the ListenScreen
+  // countdown); the in-progress fade is tracked by a token so stop/play/cancel
+  // can abort it mid-ramp.
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null)
+  const sleepFade = useRef<{ cancelled: boolean } | null>(null)
+
+  // The archive show loaded for on-demand playback, or null for live. While set,
+  // the live-stream machinery (recovery restarts, the deadline metadata
+  // refresh, live Now Playing writes) stands down so nothing live bleeds into
+  // the archive show's lock-screen / CarPlay metadata. The ref mirrors the
+  // state for mount-registered listeners.
+  const [onDemandShow, setOnDemandShow] = useState<ArchiveShow | null>(null)
+  const onDemandShowRef = useRef<ArchiveShow | null>(null)
+  // The show's audio, to move it between the phone and a Chromecast, and
+  // whether it's on the Chromecast right now
+  const onDemandAudioRef = useRef<ArchiveAudio | null>(null)
+  const [isOnDemandCasting, setIsOnDemandCasting] = useState(false)
+  const onDemandOnCastRef = useRef(false)
+  const setOnDemandOnCast = (onCast: boolean) => {
+    onDemandOnCastRef.current = onCast
+    setIsOnDemandCasting(onCast)
+  }
+  const setOnDemand = (show: ArchiveShow | null) => {
+    onDemandShowRef.current = show
+    setOnDemandOnCast(false)
+    setOnDemandShow(show)
+  }
+
   // Network connectivity tracking
   const networkState = useNetworkConnectivity()
   const previousNetworkState = useRef(networkState)
 
+  // Which live mount to play. Read through refs by the restart paths, which
+  // run from timers; a network type change already restarts the stream, so
+  // auto switches mounts without anything extra here.
+  const [streamQuality, setStreamQualityState] = useState<StreamQualitySetting>(DEFAULT_STREAM_QUALITY)
+  const activeQuality = resolveStreamQuality(streamQuality, networkState)
+  const isLowDataMode = activeQuality === 'low'
+  const streamUrlRef = useRef(getStreamVariant(activeQuality).url)
+  streamUrlRef.current = getStreamVariant(activeQuality).url
+  const isLowDataRef = useRef(isLowDataMode)
+  isLowDataRef.current = isLowDataMode
+
+  useEffect(() => {
+    getStreamQualitySetting().then(setStreamQualityState)
+    loadEventLog()
+    loadStreamHealth()
+  }, [])
+
   useEffect(() => {
     isPlayingRef.current = isPlaying
   }, [isPlaying])
 
+  // The live show's place in the schedule, as the cast receiver wants it
+  const castShowTiming = (): CastShowTiming => ({
+    startDateUtc: currentStartDateRef.current,
+    endDateUtc: currentEndDateRef.current,
+    nextShow: upNextRef.current,
+  })
+
   // Helper functions for storing/retrieving last played state
   const storeLastPlayedState = async (wasPlaying: boolean) => {
     if (isWeb) return
@@ -177,17 +312,20 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       // Small delay to ensure cleanup
       await new Promise(resolve => setTimeout(resolve, 100))
 
-      // Use passed metadata first, then current track, then state fallbacks
-      const trackTitle = metadata?.title || currentTrack?.title || showTitle || 'éist'
-      const trackArtist = metadata?.artist || currentTrack?.artist || showArtist || ''
-      let artwork = metadata?.artworkUrl || currentTrack?.artwork || showArtworkUrl || require('../assets/images/eist-logo.png')
+      // Use passed metadata first, then current track, then state fallbacks.
+      // Only a live track's metadata carries over — an archive track's would be
+      // stale the moment we switch back to the stream.
+      const liveTrack = currentTrack?.isLiveStream ? currentTrack : undefined
+      const trackTitle = metadata?.title || liveTrack?.title || showTitle || 'éist'
+      const trackArtist = metadata?.artist || liveTrack?.artist || showArtist || ''
+      let artwork = metadata?.artworkUrl || liveTrack?.artwork || showArtworkUrl || require('../assets/images/eist-logo.png')
 
       // Use the lock screen image utility for proper Android handling
       artwork = getLockScreenImage(artwork)
 
       const trackToAdd = {
         id: 'radio-stream-' + Date.now(), // Unique ID for fresh track
-        url: STREAM_URL,
+        url: streamUrlRef.current,
         title: trackTitle,
         artist: trackArtist,
         album: 'éist',
@@ -219,6 +357,7 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       return
     }
 
+    endStreamSession()
     try {
       await TrackPlayer.stop()
     } catch (err) {
@@ -243,7 +382,7 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         
         const trackToAdd = {
           id: 'radio-display-' + Date.now(),
-          url: STREAM_URL,
+          url: streamUrlRef.current,
           title: showTitle || 'éist',
           artist: showArtist || '',
           album: 'éist',
@@ -311,9 +450,28 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
     }
   }
 
-  // Unified restart mechanism that uses user intent instead of current playing state
+  // Applies straight away if the live stream is playing here and the mount
+  // changes; otherwise from the next play
+  const setStreamQuality = async (setting: StreamQualitySetting) => {
+    const nextUrl = getStreamVariant(resolveStreamQuality(setting, networkState)).url
+    const mountChanged = nextUrl !== streamUrlRef.current
+    setStreamQualityState(setting)
+    streamUrlRef.current = nextUrl
+    await setStreamQualitySetting(setting)
+    logEvent('player', 'Stream quality set', setting)
+    if (mountChanged && !isOutputConnected) {
+      await attemptStreamRestart('stream-quality-change')
+    }
+  }
+
+  // Unified restart mechanism that uses user intent instead of current playing state.
+  // Called directly for deliberate restarts (quality change, foregrounding,
+  // network change); failures go through handleStreamFailure so they back off.
   const attemptStreamRestart = async (reason: string = 'unknown') => {
     if (isRecovering.current) return
+
+    // Archive shows are finite files, not a stream to keep alive
+    if (onDemandShowRef.current) return
     
     // Use userPlay instead of isPlayingRef.current
     if (!userPlay.current) {
@@ -321,18 +479,20 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
     }
 
     isRecovering.current = true
+    logEvent('recovery', 'Restarting stream', reason)
+    recordStreamRecovery()
 
-    // Clear any existing retry timeout
-    if (retryTimeout.current) {
-      clearTimeout(retryTimeout.current)
-      retryTimeout.current = null
-    }
+    // Also clears any pending retry
+    reconnectPolicy.begin()
 
     // Don't change userPlay here - just update UI state
     setIsPlaying(false)
 
-    if (isWeb) {
-      try {
+    // No settling delay here: a restart after a failure has already waited
+    // out the policy's backoff. play() throws while isRecovering is set, so
+    // a failed attempt lands in the catch and backs off again.
+    try {
+      if (isWeb) {
         // Clean reset for web
         if (audioRef.current) {
           audioRef.current.pause()
@@ -340,62 +500,77 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
           audioRef.current.load()
           audioRef.current = null
         }
-
-        // Wait a moment then restart
-        await new Promise(resolve => setTimeout(resolve, 2000))
-        
-        // Check userPlay instead of isPlayingRef.current
-        if (userPlay.current) {
-          await play()
-        }
-      } catch (err) {
-        console.error('Web restart failed:', err)
-        scheduleRetry(reason)
+      } else {
+        // Reset player state
+        isPlayerReadyRef.current = false
+        setIsPlayerReady(false)
+        hasInitialized.current = false
+
+        // Clean reset
+        await cleanResetPlayer()
       }
-      isRecovering.current = false
-      return
-    }
-
-    try {
-      // Reset player state
-      isPlayerReadyRef.current = false
-      setIsPlayerReady(false)
-      hasInitialized.current = false
-
-      // Clean reset
-      await cleanResetPlayer()
-
-      // Wait for cleanup
-      await new Promise(resolve => setTimeout(resolve, 2000))
 
       // Check userPlay instead of isPlayingRef.current
       if (userPlay.current) {
-        await setupPlayer()
+        if (!isWeb) await setupPlayer()
         await play()
       }
     } catch (err) {
       console.error(`Restart failed after ${reason}:`, err)
+      logEvent('recovery', `Restart failed (${reason})`, err)
       scheduleRetry(reason)
+    } finally {
+      isRecovering.current = false
     }
-    
-    isRecovering.current = false
   }
 
-  // Schedule a retry that respects user intent
+  // The stream failed on its own (play error, playback error, queue ran
+  // out): restart once the policy's backoff has passed
+  const handleStreamFailure = (reason: string) => {
+    // A restart in flight reports its own failure; a pending retry already
+    // covers this one
+    if (isRecovering.current || reconnectPolicy.getState().nextRetryAt !== null) return
+    if (onDemandShowRef.current || !userPlay.current) return
+    setIsPlaying(false)
+    scheduleRetry(reason)
+  }
+
+  // Schedule a retry that respects user intent, backing off each time
   const scheduleRetry = (reason: string) => {
     // Check userPlay instead of isPlayingRef.current
     if (!userPlay.current) return // Don't retry if user stopped
 
-    const retryDelay = Math.min(5000 + Math.random() * 5000, 60000) // 5-10s with max 60s
-    
-    retryTimeout.current = setTimeout(() => {
+    const next = reconnectPolicy.schedule(() => {
       attemptStreamRestart(`retry-${reason}`)
-    }, retryDelay)
+    })
+
+    if (next.status === 'failed') {
+      // Out of retries: stop and leave it to the listener (ListenScreen
+      // shows "couldn't reconnect, tap to retry")
+      logEvent('recovery', `Gave up after ${next.attempt} retries`, reason)
+      userPlay.current = false
+      setIsPlaying(false)
+      endStreamSession()
+      storeLastPlayedState(false)
+      if (isWeb) {
+        if (audioRef.current) {
+          audioRef.current.pause()
+          audioRef.current.src = ''
+          audioRef.current = null
+        }
+      } else {
+        TrackPlayer.stop().catch((err: unknown) => console.error('Failed to stop after giving up:', err))
+      }
+      return
+    }
+
+    const retryIn = Math.round(((next.nextRetryAt ?? Date.now()) - Date.now()) / 1000)
+    logEvent('recovery', `Retry ${next.attempt} in ${retryIn}s`, reason)
   }
 
   // Fetch the latest show metadata from the radiocult API and update state/metadata
   // Returns the fetched metadata for immediate use (since setState is async)
-  const fetchAndUpdateShowMetadata = async (): Promise<{ title: string; artist: string; artworkUrl?: string; showTime: string; endDateUtc?: string } | null> => {
+  const fetchAndUpdateShowMetadata = async (): Promise<{ title: string; artist: string; artworkUrl?: string; showTime: string; startDateUtc?: string; endDateUtc?: string } | null> => {
     try {
       const liveInfo = await getLiveShowInfo()
       if (!liveInfo) {
@@ -406,14 +581,29 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       const artist = liveInfo.djName || ''
       let artworkUrl = liveInfo.artworkUrl || undefined
       const showTime = liveInfo.showTime || ''
+      const startDateUtc = liveInfo.startDateUtc
       const endDateUtc = liveInfo.endDateUtc
 
+      // What's on after this show, from the shared schedule
+      let upNext = upNextRef.current
+      try {
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+        const nextShow = findUpNextShow(await queryClient.fetchQuery(scheduleQueryOptions(timeZone)))
+        upNext = nextShow ? { title: nextShow.title.trim(), startDateUtc: nextShow.startDateUtc } : null
+      } catch (error) {
+        console.warn('Up-next lookup failed:', error)
+      }
+
       // Check if metadata has actually changed
       const hasMetadataChanged =
         title !== showTitle ||
         artist !== showArtist ||
         artworkUrl !== showArtworkUrl ||
-        showTime !== showTimeRef.current
+        showTime !== showTimeRef.current ||
+        startDateUtc !== currentStartDateRef.current ||
+        endDateUtc !== currentEndDateRef.current ||
+        upNext?.title !== upNextRef.current?.title ||
+        upNext?.startDateUtc !== upNextRef.current?.startDateUtc
 
       // For Android, invalidate previous artwork cache if URL changed
       if (Platform.OS === 'android' && showArtworkUrl && showArtworkUrl !== artworkUrl) {
@@ -439,7 +629,9 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       setShowArtist(artist)
       setShowArtworkUrl(artworkUrl)
       showTimeRef.current = showTime
+      currentStartDateRef.current = startDateUtc
       currentEndDateRef.current = endDateUtc
+      upNextRef.current = upNext
 
       // Update track metadata if it changed
       if (hasMetadataChanged) {
@@ -447,7 +639,7 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         await updateMetadata(title, artist, artworkUrl, showTime)
 
         // Then preload the lock screen image for Android and update metadata again if successful
-        if (Platform.OS === 'android' && artworkUrl) {
+        if (Platform.OS === 'android' && artworkUrl && !isLowDataRef.current) {
           const imagePreloaded = await preloadLockScreenImage(artworkUrl)
           if (imagePreloaded) {
             // Update metadata again with the validated artwork
@@ -458,9 +650,10 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       }
 
       // Return the metadata for immediate use
-      return { title, artist, artworkUrl, showTime, endDateUtc }
+      return { title, artist, artworkUrl, showTime, startDateUtc, endDateUtc }
     } catch (err) {
       console.error('Failed to fetch or update show metadata:', err)
+      logEvent('metadata', 'Show metadata fetch failed', err)
       // Fallback to previous state/metadata
       try {
         await updateMetadata(showTitle, showArtist, showArtworkUrl, showTimeRef.current)
@@ -471,30 +664,49 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
     }
   }
 
+  // Set the local output volume (0..1). A cast receiver owns its own volume,
+  // so this only ever touches the on-device player.
+  const setLocalVolume = async (volume: number) => {
+    if (isWeb) {
+      if (audioRef.current) {
+        audioRef.current.volume = volume
+      }
+      return
+    }
+
+    try {
+      await TrackPlayer.setVolume(volume)
+    } catch (err) {
+      console.error('Failed to set volume:', err)
+    }
+  }
+
+  // Drop the sleep timer and abort any fade in progress. Returns whether a fade
+  // was interrupted so the caller can restore the volume at the right moment
+  // (stop() only does so once the stream is already silent).
+  const clearSleepTimer = (): boolean => {
+    const fade = sleepFade.current
+    if (fade) {
+      fade.cancelled = true
+    }
+    sleepFade.current = null
+    setSleepTimer(null)
+    return fade !== null
+  }
+
   const play = useCallback(async (options?: { castOnly?: boolean }) => {
     // Set user intent first
     userPlay.current = true
+    // A play from the listener (not from recovery) starts a fresh retry budget
+    if (!isRecovering.current) reconnectPolicy.reset()
     const castOnly = options?.castOnly === true
 
-    // Check if casting - either via state or by checking for active session
-    let shouldCast = isCastConnected
+    // Back to live: drop any archive show before the live metadata pipeline runs
+    const wasOnDemand = onDemandShowRef.current !== null
+    setOnDemand(null)
 
-    // Double-check for active cast session in case state hasn't updated yet
-    if (!shouldCast && Platform.OS !== 'web') {
-      try {
-        const GoogleCast = require('react-native-google-cast').default
-        const sessionManager = GoogleCast.getSessionManager()
-        const session = await sessionManager.getCurrentCastSession()
-        if (session) {
-          shouldCast = true
-        }
-      } catch (e) {
-        // Ignore errors - just means no cast session
-      }
-    }
-
-    // If casting, route playback to cast device instead of local
-    if (shouldCast) {
+    // If an output is active, route playback to it instead of local
+    if (await hasActiveOutput()) {
       try {
         await stopLocalPlaybackForCast()
         let castTitle = showTitle || 'éist'
@@ -509,6 +721,8 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
             castArtist = liveInfo.djName || castArtist
             castArtwork = liveInfo.artworkUrl || castArtwork
             castShowTime = liveInfo.showTime || castShowTime
+            currentStartDateRef.current = liveInfo.startDateUtc
+            currentEndDateRef.current = liveInfo.endDateUtc
 
             setShowTitle(castTitle)
             setShowArtist(castArtist)
@@ -521,11 +735,12 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
           console.warn('Failed to prefetch live show info for cast:', liveErr)
         }
 
-        const castSuccess = await castPlay(
+        const castSuccess = await outputPlay(
           castTitle,
           castArtist,
           castArtwork,
-          castShowTime
+          castShowTime,
+          castShowTiming()
         )
         if (castSuccess) {
           setIsPlaying(true)
@@ -539,7 +754,7 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         }
         // Fall through to local playback
       } catch (err) {
-        console.error('Cast play failed, falling back to local:', err)
+        console.error('Output play failed, falling back to local:', err)
         // Fall through to local playback
       }
     }
@@ -553,7 +768,7 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       }
 
       // Create fresh audio element
-      audioRef.current = new Audio(STREAM_URL)
+      audioRef.current = new Audio(streamUrlRef.current)
       audioRef.current.crossOrigin = 'anonymous'
 
       try {
@@ -565,10 +780,15 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         await fetchAndUpdateShowMetadata()
       } catch (err) {
         console.error('Web audio play failed:', err)
+        // Let a restart count this as a failed attempt
+        if (isRecovering.current) throw err
       }
       return
     }
 
+    // Recovery's own play() calls join the session already open
+    startStreamSession(isLowDataRef.current ? 'low' : 'high')
+
     try {
       // Ensure player is ready. Read readiness from the ref (not the captured
       // isPlayerReady state) so recovery paths driven by mount-registered
@@ -576,11 +796,14 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       if (!isPlayerReadyRef.current) {
         await setupPlayer()
         if (!isPlayerReadyRef.current) {
-          await attemptStreamRestart('player-not-ready')
-          return
+          throw new Error('Player not ready')
         }
       }
 
+      if (wasOnDemand) {
+        await updatePlayerCapabilities('live')
+      }
+
       // Fetch fresh metadata FIRST and pass directly to cleanResetPlayer
       // (React setState is async so state won't be updated yet)
       const metadata = await fetchAndUpdateShowMetadata()
@@ -610,29 +833,30 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         console.error('Failed to restore volume after play error:', volumeErr)
       }
       
-      const msg = err instanceof Error ? err.message.toLowerCase() : ''
-
-      // Use unified restart for all play errors
-      await attemptStreamRestart('play-error')
+      // Inside a restart, hand the failure back so it backs off; otherwise
+      // it's the first failure and starts the retry schedule
+      if (isRecovering.current) throw err
+      handleStreamFailure('play-error')
     }
-  }, [isPlayerReady, isWeb, setupPlayer, attemptStreamRestart, cleanResetPlayer, fetchAndUpdateShowMetadata, isCastConnected, castPlay, showTitle, showArtist, showArtworkUrl])
+  }, [isPlayerReady, isWeb, setupPlayer, handleStreamFailure, cleanResetPlayer, fetchAndUpdateShowMetadata, hasActiveOutput, outputPlay, showTitle, showArtist, showArtworkUrl])
 
   const stop = useCallback(async () => {
     // Clear user intent when manually stopping
     userPlay.current = false
+    endStreamSession()
+
+    // A stop (manual or the sleep timer's own) ends any sleep timer
+    const wasFading = clearSleepTimer()
 
     // Clear any pending retry attempts when user manually stops
-    if (retryTimeout.current) {
-      clearTimeout(retryTimeout.current)
-      retryTimeout.current = null
-    }
+    reconnectPolicy.reset()
 
     // If casting, stop cast playback
-    if (isCastConnected || isCastPlaying) {
+    if (isOutputConnected || isOutputPlaying) {
       try {
-        await castStop()
+        await outputStop()
       } catch (err) {
-        console.error('Cast stop failed:', err)
+        console.error('Output stop failed:', err)
       }
     }
 
@@ -665,10 +889,31 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       setIsPlaying(false)
       await storeLastPlayedState(false)
     }
-  }, [isWeb, ensureTrackForDisplay, isCastConnected, isCastPlaying, castStop])
 
+    // Put the volume back for the next play once the stream is silent, so an
+    // interrupted sleep fade doesn't leave the player muted.
+    if (wasFading) {
+      await setLocalVolume(1)
+    }
+  }, [isWeb, ensureTrackForDisplay, isOutputConnected, isOutputPlaying, outputStop])
+
+  const cancelSleepTimer = async () => {
+    if (clearSleepTimer()) {
+      await setLocalVolume(1)
+    }
+  }
+
+  // Play as requested by the listener. A fresh press means they're awake, so it
+  // supersedes any sleep timer; recovery paths call play() directly and leave
+  // the timer running.
+  const requestPlay = async (options?: { castOnly?: boolean }) => {
+    await cancelSleepTimer()
+    await play(options)
+  }
+
+  // The live toggle: with an archive show loaded, "play" switches to the stream
   const togglePlayStop = async () => {
-    if (isPlaying) {
+    if (isPlaying && !onDemandShowRef.current) {
       try {
         await stop()
       } catch (error) {
@@ -676,13 +921,278 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       }
     } else {
       try {
-        await play()
+        await requestPlay()
       } catch (error) {
         console.error('Error in togglePlayStop (play):', error)
       }
     }
   }
 
+  // Load the archive show onto the Chromecast at startPosition. A downloaded
+  // file can't go: the cast device fetches the audio itself.
+  const castArchiveShow = async (
+    show: ArchiveShow,
+    audio: ArchiveAudio,
+    startPosition: number,
+    autoplay: boolean = true
+  ) => {
+    if (!isCastableUrl(audio.url)) {
+      logEvent('cast', 'Downloaded archive show stays on the phone', show.title)
+      return false
+    }
+    const success = await castArchive(
+      {
+        url: audio.url,
+        contentType: audio.contentType,
+        duration: audio.duration,
+        title: show.title,
+        artist: show.artistName,
+        artworkUrl: getArchiveShowImage(show) ?? undefined,
+      },
+      startPosition,
+      autoplay
+    )
+    setOnDemandOnCast(success)
+    return success
+  }
+
+  // Load an archive show and play it from startPosition (seconds). Replaces the
+  // live stream in the same player so the lock screen, CarPlay and Android Auto
+  // pick it up with its own metadata and seek controls. With a Chromecast
+  // connected the show plays there instead, controlled from the phone.
+  const playArchiveShow = async (show: ArchiveShow, audio: ArchiveAudio, startPosition: number = 0) => {
+    userPlay.current = true
+    endStreamSession()
+    await cancelSleepTimer()
+
+    reconnectPolicy.reset()
+
+    if (isCastConnected) {
+      await stopLocalPlaybackForCast()
+      setOnDemand(show)
+      onDemandAudioRef.current = audio
+      if (await castArchiveShow(show, audio, startPosition)) {
+        setIsPlaying(true)
+        return
+      }
+      // Fall through to the phone
+    }
+
+    if (isOutputConnected || isOutputPlaying) {
+      try {
+        await outputStop()
+      } catch (err) {
+        console.error('Output stop failed:', err)
+      }
+    }
+
+    setOnDemand(show)
+    onDemandAudioRef.current = audio
+
+    if (isWeb) {
+      if (audioRef.current) {
+        audioRef.current.pause()
+        audioRef.current.src = ''
+        audioRef.current.load()
+      }
+
+      audioRef.current = new Audio(audio.url)
+      audioRef.current.crossOrigin = 'anonymous'
+      audioRef.current.currentTime = startPosition
+      audioRef.current.onended = () => {
+        userPlay.current = false
+        setIsPlaying(false)
+      }
+
+      try {
+        await audioRef.current.play()
+        setIsPlaying(true)
+      } catch (err) {
+        console.error('Web archive play failed:', err)
+        setIsPlaying(false)
+      }
+      return
+    }
+
+    try {
+      if (!isPlayerReadyRef.current) {
+        await setupPlayer()
+      }
+
+      const imageUrl = getArchiveShowImage(show)
+      if (imageUrl && !isLowDataRef.current) {
+        await preloadLockScreenImage(imageUrl)
+      }
+
+      await TrackPlayer.reset()
+      await updatePlayerCapabilities('on-demand')
+      await TrackPlayer.add({
+        id: `archive-${show.id}`,
+        url: audio.url,
+        title: show.title,
+        artist: show.artistName || 'éist',
+        album: 'éist · listen back',
+        artwork: getLockScreenImage(imageUrl || require('../assets/images/eist-logo.png')),
+        duration: audio.duration,
+        contentType: audio.contentType,
+        isLiveStream: false,
+      })
+      if (startPosition > 0) {
+        await TrackPlayer.seekTo(startPosition)
+      }
+      await TrackPlayer.play()
+      setIsPlaying(true)
+    } catch (err) {
+      console.error('Archive play failed:', err)
+      userPlay.current = false
+      setIsPlaying(false)
+    }
+  }
+
+  const toggleOnDemandPause = async () => {
+    if (!onDemandShowRef.current) return
+
+    if (onDemandOnCastRef.current) {
+      if (isCastPlaying) {
+        userPlay.current = false
+        if (await castPause()) setIsPlaying(false)
+      } else {
+        userPlay.current = true
+        if (await castResume()) setIsPlaying(true)
+      }
+      return
+    }
+
+    if (isWeb) {
+      const audioEl = audioRef.current
+      if (!audioEl) return
+      if (audioEl.paused) {
+        userPlay.current = true
+        await audioEl.play().catch((err) => console.error('Web archive resume failed:', err))
+        setIsPlaying(!audioEl.paused)
+      } else {
+        userPlay.current = false
+        audioEl.pause()
+        setIsPlaying(false)
+      }
+      return
+    }
+
+    try {
+      const { state } = await TrackPlayer.getPlaybackState()
+      if (state === State.Playing || state === State.Buffering || state === State.Loading) {
+        userPlay.current = false
+        await TrackPlayer.pause()
+      } else {
+        userPlay.current = true
+        await TrackPlayer.play()
+      }
+    } catch (err) {
+      console.error('Archive pause toggle failed:', err)
+    }
+  }
+
+  const seekTo = async (position: number) => {
+    if (!onDemandShowRef.current) return
+
+    if (onDemandOnCastRef.current) {
+      await castSeek(position)
+      return
+    }
+
+    if (isWeb) {
+      if (audioRef.current) {
+        audioRef.current.currentTime = position
+      }
+      return
+    }
+
+    try {
+      await TrackPlayer.seekTo(position)
+    } catch (err) {
+      console.error('Seek failed:', err)
+    }
+  }
+
+  // Stable identity: useOnDemandProgress polls this from an effect
+  const getPlaybackProgress = useCallback(async (): Promise<{ position: number; duration: number }> => {
+    if (!onDemandShowRef.current) {
+      return { position: 0, duration: 0 }
+    }
+
+    // Follows the receiver's media status (CastContext)
+    if (onDemandOnCastRef.current) {
+      return castProgressRef.current
+    }
+
+    if (isWeb) {
+      const audioEl = audioRef.current
+      const duration = audioEl && Number.isFinite(audioEl.duration) ? audioEl.duration : 0
+      return { position: audioEl?.currentTime ?? 0, duration }
+    }
+
+    try {
+      // Only report progress for the archive track itself — not the live
+      // stream it's about to replace while playArchiveShow is still loading
+      const track = await TrackPlayer.getActiveTrack()
+      if (track?.id !== `archive-${onDemandShowRef.current.id}`) {
+        return { position: 0, duration: 0 }
+      }
+      const { position, duration } = await TrackPlayer.getProgress()
+      return { position, duration }
+    } catch {
+      return { position: 0, duration: 0 }
+    }
+  }, [isWeb])
+
+  const startSleepTimer = async (option: SleepTimerOption): Promise<boolean> => {
+    let endDateUtc = currentEndDateRef.current
+    if (option === 'end-of-show') {
+      try {
+        const liveInfo = await getLiveShowInfo()
+        endDateUtc = liveInfo?.endDateUtc ?? endDateUtc
+      } catch (err) {
+        console.warn('Failed to fetch show end time for sleep timer:', err)
+      }
+    }
+
+    const endsAt = resolveSleepDeadline(option, endDateUtc)
+    if (endsAt === null) {
+      return false
+    }
+
+    await cancelSleepTimer()
+    setSleepTimer({ option, endsAt })
+    return true
+  }
+
+  // Sleep timer expiry: ramp the volume down over SLEEP_FADE_DURATION_MS, then
+  // stop. A stop, play or cancel during the ramp flips the fade token and the
+  // loop bails out without stopping.
+  const fadeOutAndStop = async () => {
+    if (sleepFade.current) return
+    const fade = { cancelled: false }
+    sleepFade.current = fade
+
+    // On an output the device owns the volume, so just stop at the deadline.
+    if (!isOutputConnected && !isOutputPlaying) {
+      const stepMs = SLEEP_FADE_DURATION_MS / SLEEP_FADE_STEPS
+      for (let step = SLEEP_FADE_STEPS - 1; step >= 0; step--) {
+        await setLocalVolume(step / SLEEP_FADE_STEPS)
+        await new Promise(resolve => setTimeout(resolve, stepMs))
+        if (fade.cancelled) return
+      }
+    }
+
+    if (fade.cancelled) return
+    await stop()
+  }
+
+  // The sleep timer effect below is keyed on the deadline only; read the fade
+  // through a ref so it always stops via the latest stop()/cast state.
+  const fadeOutAndStopRef = useRef(fadeOutAndStop)
+  fadeOutAndStopRef.current = fadeOutAndStop
+
   const updateMetadata = async (
     title: string,
     artist: string,
@@ -694,12 +1204,15 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
     }
     const resolvedShowTime = showTime ?? showTimeRef.current
 
-    // Also update cast metadata if casting
-    if (isCastConnected || isCastPlaying) {
+    // Live metadata never overwrites an archive show's Now Playing entry
+    if (onDemandShowRef.current) return
+
+    // Also update the output's metadata if playing on one
+    if (isOutputConnected || isOutputPlaying) {
       try {
-        await updateCastMetadata(title, artist, artworkUrl, resolvedShowTime)
+        await updateOutputMetadata(title, artist, artworkUrl, resolvedShowTime, castShowTiming())
       } catch (err) {
-        console.error('Failed to update cast metadata:', err)
+        console.error('Failed to update output metadata:', err)
       }
     }
 
@@ -729,10 +1242,21 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
       // Use the lock screen image utility for proper Android handling
       artworkToUse = getLockScreenImage(artworkToUse)
 
+      // Android's media notification also shows how far through the show we
+      // are and what's up next, on the album line. The track keeps its live
+      // duration; see utils/showProgress for why the bar is text.
+      let album = 'éist'
+      if (Platform.OS === 'android' && !isDeadAir) {
+        const progress = formatShowProgress(currentStartDateRef.current, currentEndDateRef.current)
+        const upNext = upNextRef.current
+        const upNextLine = upNext ? `Up next: ${formatClockTime(upNext.startDateUtc)} ${upNext.title}` : ''
+        album = [progress, upNextLine].filter(Boolean).join(' · ') || album
+      }
+
       const metadata = {
         title,
         artist: isDeadAir ? '' : (artist || ''),
-        album: 'éist',
+        album,
         artwork: artworkToUse,
         // Enhanced metadata for Android Auto and car OS compatibility
         duration: -1, // Live stream indicator
@@ -760,6 +1284,13 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
     const previous = previousNetworkState.current
     const current = networkState
 
+    if (previous.isConnected !== current.isConnected || previous.type !== current.type) {
+      logEvent(
+        'network',
+        `${previous.type}${previous.isConnected ? '' : ' (offline)'} → ${current.type}${current.isConnected ? '' : ' (offline)'}`
+      )
+    }
+
     // Auto-restart when network comes back online OR when switching network types
     const shouldRestart = (
       // Network reconnection (disconnected -> connected)
@@ -772,10 +1303,16 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
 
     // Check userPlay instead of isPlaying to handle network disconnection cases
     if (shouldRestart && userPlay.current) {
-      
-      setTimeout(async () => {
-        await attemptStreamRestart(`network-change-${previous.type}-to-${current.type}`)
-      }, 2000) // 2 second delay for network stability
+      const reason = `network-change-${previous.type}-to-${current.type}`
+      if (!previous.isConnected && current.isConnected) {
+        // Back online: no point waiting out the backoff
+        reconnectPolicy.retryNow(() => {
+          attemptStreamRestart(reason)
+        })
+      } else {
+        // Give the new network a moment, as long as the policy says
+        handleStreamFailure(reason)
+      }
     }
 
     previousNetworkState.current = current
@@ -803,6 +1340,61 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
     return () => sub.remove()
   }, [isWeb, play])
 
+  // The Android home-screen widget's play button. Like the CarPlay tap, it
+  // opens the app and asks for the real play() path; a no-op if already playing.
+  useEffect(() => {
+    if (isWeb || Platform.OS !== 'android') return
+    return addWidgetPlayListener(() => {
+      if (isPlayingRef.current) return
+      play().catch((error) => console.error('Widget play request failed:', error))
+    })
+  }, [isWeb, play])
+
+  useNowPlayingWidget()
+
+  // The Android media notification's Share button (live only; in an archive
+  // show the same button jumps forward). The share sheet can't open over
+  // another app, so from the background it posts a tap-to-share prompt.
+  useEffect(() => {
+    if (isWeb) return
+    return addMediaNotificationActionListener('share', () => {
+      if (onDemandShowRef.current) return
+      const what = showArtist ? `${showTitle} with ${showArtist}` : showTitle
+      const message = `Listening to ${what} on ${STATION.name}: ${STATION.websiteUrl}`
+      if (AppState.currentState === 'active') {
+        shareMessage(message)
+      } else {
+        presentSharePrompt(showTitle, message)
+      }
+    })
+  }, [isWeb, showTitle, showArtist])
+
+  useEffect(() => {
+    if (isWeb) return
+
+    const openFromData = (data: Record<string, unknown> | undefined) => {
+      if (data?.type !== 'share_now_playing') return false
+      shareMessage(String(data.message ?? ''))
+      return true
+    }
+    const onResponse = Notifications.addNotificationResponseReceivedListener((response) => {
+      openFromData(response.notification.request.content.data)
+    })
+    // Cold start from a tapped prompt: the response fired before we subscribed
+    ;(async () => {
+      try {
+        const last = await Notifications.getLastNotificationResponseAsync()
+        if (openFromData(last?.notification.request.content.data)) {
+          await Notifications.clearLastNotificationResponseAsync()
+        }
+      } catch (error) {
+        console.error('Failed to read launch notification:', error)
+      }
+    })()
+
+    return () => onResponse.remove()
+  }, [isWeb])
+
   useEffect(() => {
     setupPlayer()
 
@@ -827,6 +1419,8 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         Event.PlaybackState,
         async ({ state }: any) => {
           const wasPlaying = isPlayingRef.current
+          logEvent('player', `State ${state}`)
+          if (state === State.Playing) reconnectPolicy.reset()
           // Reflect the listening session, not the instantaneous decoder state.
           // RNTP passes through Loading/Buffering/Ready on startup and every
           // mid-stream rebuffer; mapping those to "stopped" flickers the button
@@ -842,7 +1436,7 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
           }
 
           // Refresh metadata when starting playback (especially from lock screen)
-          if (state === State.Playing && !wasPlaying) {
+          if (state === State.Playing && !wasPlaying && !onDemandShowRef.current) {
             try {
               await fetchAndUpdateShowMetadata()
             } catch (error) {
@@ -863,6 +1457,7 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
 
       const onError = TrackPlayer.addEventListener(Event.PlaybackError, async (error: any) => {
         console.error('Playback error:', error)
+        logEvent('player', 'Playback error', error?.message ?? error)
 
         if (error.message?.includes('interrupted') ||
           error.message?.includes('session') ||
@@ -876,23 +1471,43 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
             console.error('Error stopping playback after interruption:', stopError)
           }
         } else {
-          // Use unified restart for all other playback errors
-          await attemptStreamRestart('playback-error')
+          // All other playback errors back off through the reconnect policy
+          handleStreamFailure('playback-error')
         }
       })
 
       const onQueueEnded = TrackPlayer.addEventListener(
         Event.PlaybackQueueEnded,
         async () => {
-          // Use userPlay instead of isPlayingRef.current
-          if (userPlay.current) {
-            await attemptStreamRestart('queue-ended')
+          if (onDemandShowRef.current) {
+            // An archive show reaching its end is a natural stop, not a drop
+            userPlay.current = false
+            setIsPlaying(false)
+          } else if (userPlay.current) {
+            // Use userPlay instead of isPlayingRef.current
+            handleStreamFailure('queue-ended')
           } else {
             setIsPlaying(false)
           }
         }
       )
 
+      // The headless service can switch the player back to the live stream on
+      // its own (Android Auto browse item, RemotePlayId). Follow it so the live
+      // metadata pipeline isn't left standing down for an archive show that's
+      // no longer loaded.
+      const onTrackChanged = TrackPlayer.addEventListener(
+        Event.PlaybackActiveTrackChanged,
+        ({ track }: any) => {
+          if (track?.isLiveStream && onDemandShowRef.current) {
+            setOnDemand(null)
+            updatePlayerCapabilities('live').catch((error) =>
+              console.error('Failed to restore live capabilities:', error)
+            )
+          }
+        }
+      )
+
       const onAppState = AppState.addEventListener('change', async (next) => {
         if (next === 'active') {
           // Check if we should resume playback after returning from background
@@ -918,13 +1533,11 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         onState.remove()
         onError.remove()
         onQueueEnded.remove()
+        onTrackChanged.remove()
         onAppState.remove()
         
-        // Clear retry timeout
-        if (retryTimeout.current) {
-          clearTimeout(retryTimeout.current)
-          retryTimeout.current = null
-        }
+        // Clear any pending retry
+        reconnectPolicy.reset()
       }
     }
   }, [])
@@ -940,7 +1553,7 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
   // and it's torn down on stop (a fresh fetch runs on the next play — see play()
   // and the PlaybackState → Playing handler).
   useEffect(() => {
-    if (isWeb || !isPlaying) return
+    if (isWeb || !isPlaying || onDemandShow) return
 
     // Fire just after the show ends so the backend schedule has rolled over.
     const BUFFER_MS = 20_000
@@ -985,7 +1598,59 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         metadataRefreshTimer.current = null
       }
     }
-  }, [isPlaying, isWeb])
+  }, [isPlaying, isWeb, onDemandShow])
+
+  // Redraw the notification's show progress each time the bar moves on a
+  // step. Nothing else changes between the deadline-driven refreshes above,
+  // so only the local track is touched, not the output's metadata.
+  useEffect(() => {
+    if (Platform.OS !== 'android' || !isPlaying || onDemandShow || isOutputConnected) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const armNextStep = () => {
+      const next = nextShowProgressStep(currentStartDateRef.current, currentEndDateRef.current)
+      if (next === null) return
+      timer = setTimeout(async () => {
+        await updateMetadata(showTitle, showArtist, showArtworkUrl)
+        armNextStep()
+      }, next - Date.now())
+    }
+    armNextStep()
+
+    return () => {
+      if (timer) clearTimeout(timer)
+    }
+  }, [isPlaying, onDemandShow, isOutputConnected, showTitle, showArtist, showArtworkUrl])
+
+  // Sleep timer deadline. A plain setTimeout isn't enough on its own: JS timers
+  // are throttled or suspended while backgrounded, so the absolute deadline is
+  // also re-checked on every RNTP progress tick (native-driven, ~1s, and keeps
+  // arriving while audio plays in the background) and whenever the app returns
+  // to the foreground. fadeOutAndStop() ignores repeat triggers mid-fade.
+  useEffect(() => {
+    if (!sleepTimer) return
+
+    const checkDeadline = () => {
+      if (Date.now() < sleepTimer.endsAt) return
+      fadeOutAndStopRef.current().catch((error) =>
+        console.error('Sleep timer stop failed:', error)
+      )
+    }
+
+    const timer = setTimeout(checkDeadline, Math.max(0, sleepTimer.endsAt - Date.now()))
+    const onAppState = AppState.addEventListener('change', (next) => {
+      if (next === 'active') checkDeadline()
+    })
+    const onProgress = !isWeb && TrackPlayer
+      ? TrackPlayer.addEventListener(Event.PlaybackProgressUpdated, checkDeadline)
+      : null
+
+    return () => {
+      clearTimeout(timer)
+      onAppState.remove()
+      onProgress?.remove()
+    }
+  }, [sleepTimer, isWeb])
 
   const forceMetadataRefresh = async () => {
     try {
@@ -995,55 +1660,101 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
     }
   }
 
-  // Sync isPlaying state with cast playing state
+  // Sync isPlaying state with the output's playing state
   useEffect(() => {
-    if (isCastConnected && isCastPlaying && !isPlaying) {
+    // An archive show playing on the phone isn't affected by the output
+    if (onDemandShowRef.current && !onDemandOnCastRef.current) return
+
+    if (isOutputConnected && isOutputPlaying && !isPlaying) {
       setIsPlaying(true)
-    } else if (isCastConnected && !isCastPlaying && isPlaying && userPlay.current) {
-      // Cast stopped but user wanted to play - might need to resume locally
+    } else if (isOutputConnected && !isOutputPlaying && isPlaying && userPlay.current) {
+      // Output stopped but user wanted to play - might need to resume locally
       // For now just sync state; user can press play again
       setIsPlaying(false)
     }
-  }, [isCastConnected, isCastPlaying, isPlaying])
+  }, [isOutputConnected, isOutputPlaying, isPlaying])
 
-  // Handle cast disconnection - resume local playback if user was playing
-  const previousCastConnected = useRef(isCastConnected)
+  // Start playback on an output as it becomes active (a cast session starting,
+  // a speaker being picked, or one replacing another), and resume local
+  // playback when the last one goes away if the user was playing
+  const activeOutputId = activeOutput?.id ?? null
+  const previousOutputId = useRef(activeOutputId)
   useEffect(() => {
-    const wasConnected = previousCastConnected.current
+    const previousId = previousOutputId.current
+    const wasConnected = previousId !== null
+
+    // An archive show moves to a Chromecast as it connects, from where the
+    // phone had got to, and comes back to the phone if the session ends while
+    // it's playing. Speakers only play the live stream, so with them it stays
+    // on the phone.
+    if (onDemandShowRef.current) {
+      const show = onDemandShowRef.current
+      const audio = onDemandAudioRef.current
+      const canMoveToCast = !!audio && isCastableUrl(audio.url) && !onDemandOnCastRef.current
+      if (activeOutput?.kind === 'chromecast' && activeOutputId !== previousId && canMoveToCast && audio) {
+        ;(async () => {
+          const { position } = await getPlaybackProgress()
+          const wasPlaying = isPlayingRef.current
+          await stopLocalPlaybackForCast()
+          if (await castArchiveShow(show, audio, position, wasPlaying)) {
+            setIsPlaying(wasPlaying)
+          } else if (wasPlaying) {
+            await playArchiveShow(show, audio, position)
+          }
+        })()
+      } else if (wasConnected && activeOutputId === null && onDemandOnCastRef.current && audio) {
+        const { position } = castProgressRef.current
+        if (userPlay.current) {
+          setTimeout(async () => {
+            try {
+              await playArchiveShow(show, audio, position)
+            } catch (err) {
+              console.error('Failed to resume archive show after cast disconnect:', err)
+            }
+          }, 1000)
+        } else {
+          // Paused: the listening history has the position to resume from
+          setOnDemand(null)
+          setIsPlaying(false)
+        }
+      }
+      previousOutputId.current = activeOutputId
+      return
+    }
 
-    if (!wasConnected && isCastConnected && !isCastPlaying) {
+    if (activeOutputId !== null && activeOutputId !== previousId && !isOutputPlaying) {
       const castOnly = !userPlay.current && !isPlayingRef.current
       ;(async () => {
         try {
           await play({ castOnly })
         } catch (err) {
-          console.error('Failed to start cast playback after connect:', err)
+          console.error('Failed to start output playback after connect:', err)
         }
       })()
     }
 
-    if (wasConnected && !isCastConnected && userPlay.current) {
-      // Cast disconnected while user wanted to play - resume locally
-      // Small delay to let cast session fully end
+    if (wasConnected && activeOutputId === null && userPlay.current) {
+      // Output went away while user wanted to play - resume locally
+      // Small delay to let a cast session fully end
       setTimeout(async () => {
         if (userPlay.current && !isPlayingRef.current) {
           try {
             await play()
           } catch (err) {
-            console.error('Failed to resume local playback after cast disconnect:', err)
+            console.error('Failed to resume local playback after output disconnect:', err)
           }
         }
       }, 1000)
     }
-    previousCastConnected.current = isCastConnected
-  }, [isCastConnected, isCastPlaying, play])
+    previousOutputId.current = activeOutputId
+  }, [activeOutputId, isOutputPlaying, play])
 
   return (
     <TrackPlayerContext.Provider
       value={{
-        isPlaying: isPlaying || isCastPlaying,
+        isPlaying: isPlaying || isOutputPlaying,
         isPlayerReady,
-        play,
+        play: requestPlay,
         stop,
         togglePlayStop,
         setupPlayer,
@@ -1054,9 +1765,21 @@ export const TrackPlayerProvider = ({ children }: { children: ReactNode }) => {
         showTitle,
         showArtist,
         showArtworkUrl,
-        isCastConnected,
-        isCastPlaying,
-        castDeviceName,
+        onDemandShow,
+        isOnDemandCasting,
+        playArchiveShow,
+        toggleOnDemandPause,
+        seekTo,
+        getPlaybackProgress,
+        sleepTimer,
+        startSleepTimer,
+        cancelSleepTimer,
+        streamQuality,
+        setStreamQuality,
+        isLowDataMode,
+        reconnectStatus,
+        activeOutput,
+        isOutputPlaying,
       }}
     >
       {children}
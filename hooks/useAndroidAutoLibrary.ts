@@ -0,0 +1,153 @@
+// hooks/useAndroidAutoLibrary.ts
+//
+// Keeps Android Auto's browse tree in step with the app: recent archive shows
+// and artists from the same queries as the Listen-back and Artists pages, and
+// Saved from favourites. An artist's shows are fetched when the car opens
+// them. A show picked in the car plays through TrackPlayerContext, resuming
+// where the listener left off and from a download when there is one.
+
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+import { useDownloads } from '../context/DownloadContext';
+import { useFavourites } from '../context/FavouritesContext';
+import { useListeningHistory } from '../context/ListeningHistoryContext';
+import { useTrackPlayer } from '../context/TrackPlayerContext';
+import { ArchiveShow } from '../types/archive';
+import {
+  addAutoLoadChildrenListener,
+  addAutoPlayListener,
+  AUTO_ARTISTS_ID,
+  AUTO_LIVE_ID,
+  AUTO_RECENT_ID,
+  AUTO_SAVED_ID,
+  AutoMediaItem,
+  autoArtistId,
+  autoShowId,
+  parseAutoMediaId,
+  reportAutoPlayFailed,
+  setAutoLibrary,
+  setAutoNowPlaying,
+} from '../utils/androidAuto';
+import { getResumePosition } from '../utils/listeningHistory';
+import {
+  archiveShowAudioQueryOptions,
+  archiveShowQueryOptions,
+  archiveShowsByArtistQueryOptions,
+  useArchiveShows,
+} from './useArchiveShows';
+import { useArtists } from './useArtists';
+
+// Long lists are hard to use while driving; the rest is a tap away on the phone
+const MAX_RECENT = 40;
+
+function formatDate(isoString: string): string {
+  const date = new Date(isoString);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+function showItem(show: ArchiveShow): AutoMediaItem {
+  const date = formatDate(show.start);
+  return {
+    id: autoShowId(show.slug),
+    title: show.title.trim(),
+    subtitle: [show.artistName, date].filter(Boolean).join(' · '),
+  };
+}
+
+export function useAndroidAutoLibrary() {
+  const queryClient = useQueryClient();
+  const { shows } = useArchiveShows();
+  const { artists } = useArtists();
+  const { favouriteShows, favouriteArtists } = useFavourites();
+  const { findDownloadBySlug, getLocalAudio } = useDownloads();
+  const { getHistoryEntry } = useListeningHistory();
+  const { onDemandShow, playArchiveShow } = useTrackPlayer();
+
+  useEffect(() => {
+    if (Platform.OS !== 'android') return;
+    const savedShows = Object.values(favouriteShows)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+      .map((favourite) => showItem(favourite.show));
+    const savedArtists = Object.values(favouriteArtists)
+      .sort((a, b) => a.artistName.localeCompare(b.artistName))
+      .map((favourite) => ({
+        id: autoArtistId(favourite.artistSlug),
+        title: favourite.artistName,
+        browsable: true,
+      }));
+
+    setAutoLibrary({
+      [AUTO_RECENT_ID]: shows.slice(0, MAX_RECENT).map(showItem),
+      [AUTO_ARTISTS_ID]: artists.map((artist) => ({
+        id: autoArtistId(artist.slug),
+        title: artist.name,
+        browsable: true,
+      })),
+      [AUTO_SAVED_ID]: [...savedShows, ...savedArtists],
+    });
+  }, [shows, artists, favouriteShows, favouriteArtists]);
+
+  useEffect(() => {
+    if (Platform.OS !== 'android') return;
+    setAutoNowPlaying(onDemandShow ? autoShowId(onDemandShow.slug) : AUTO_LIVE_ID);
+  }, [onDemandShow]);
+
+  useEffect(() => {
+    if (Platform.OS !== 'android') return;
+    return addAutoLoadChildrenListener(async (parentId) => {
+      const target = parseAutoMediaId(parentId);
+      if (target?.type !== 'artist') return;
+      let items: AutoMediaItem[] = [];
+      try {
+        const artistShows = await queryClient.fetchQuery(archiveShowsByArtistQueryOptions(target.slug));
+        items = artistShows.map(showItem);
+      } catch (error) {
+        console.error('Failed to fetch artist shows for Android Auto:', error);
+      }
+      setAutoLibrary({ [parentId]: items });
+    });
+  }, [queryClient]);
+
+  // playArchiveShow changes every render; read the latest through a ref so the
+  // listener is registered once
+  const playFromCar = async (mediaId: string) => {
+    const target = parseAutoMediaId(mediaId);
+    if (target?.type !== 'show') return;
+    try {
+      // A download plays with no network, so don't insist on fetching
+      const show =
+        findDownloadBySlug(target.slug)?.show ??
+        (await queryClient.fetchQuery(archiveShowQueryOptions(target.slug)));
+      if (!show) {
+        reportAutoPlayFailed('This show is no longer available');
+        return;
+      }
+      const audio =
+        getLocalAudio(show.id) ??
+        (await queryClient.fetchQuery(archiveShowAudioQueryOptions(target.slug)));
+      if (!audio) {
+        reportAutoPlayFailed('This show can’t be played in the app');
+        return;
+      }
+      await playArchiveShow(show, audio, getResumePosition(getHistoryEntry(show.id)));
+    } catch (error) {
+      console.error('Android Auto play request failed:', error);
+      reportAutoPlayFailed('Couldn’t load this show');
+    }
+  };
+  const playFromCarRef = useRef(playFromCar);
+  playFromCarRef.current = playFromCar;
+
+  useEffect(() => {
+    if (Platform.OS !== 'android') return;
+    return addAutoPlayListener((mediaId) => {
+      playFromCarRef.current(mediaId);
+    });
+  }, []);
+}
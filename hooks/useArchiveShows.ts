@@ -2,8 +2,8 @@
 
 import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { useCallback, useMemo } from 'react';
-import { EIST_API_ENDPOINTS } from '../config';
-import { ArchiveSection, ArchiveShow, ShowsApiResponse } from '../types/archive';
+import { EIST_API_ENDPOINTS, HAS_ARCHIVE_AUDIO } from '../config';
+import { ArchiveAudio, ArchiveSection, ArchiveShow, ShowsApiResponse } from '../types/archive';
 
 const INITIAL_LIMIT = 75;
 const LOAD_MORE_LIMIT = 50;
@@ -44,6 +44,25 @@ async function fetchShowBySlug(slug: string): Promise<ArchiveShow | null> {
   return response.json();
 }
 
+async function fetchShowAudio(slug: string): Promise<ArchiveAudio | null> {
+  // The station's API has no audio route, so every show links out
+  if (!HAS_ARCHIVE_AUDIO) return null;
+
+  const response = await fetch(EIST_API_ENDPOINTS.showAudio(slug));
+
+  // No direct audio for this show — the screen falls back to the external link.
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch show audio: ${response.status} ${response.statusText}`);
+  }
+
+  const audio: ArchiveAudio = await response.json();
+  return audio?.url ? audio : null;
+}
+
 async function fetchShowsByArtist(artistSlug: string): Promise<ArchiveShow[]> {
   const response = await fetch(
     `${EIST_API_ENDPOINTS.shows}?hasArchive=true&artistSlug=${encodeURIComponent(artistSlug)}`
@@ -142,23 +161,53 @@ export function useArchiveShowsByMonth() {
   };
 }
 
+// Shared with callers outside components (Android Auto's browse tree), so
+// both go through the same cache entries as the screens
+export function archiveShowQueryOptions(slug: string) {
+  return {
+    queryKey: ['archiveShow', slug] as const,
+    queryFn: () => fetchShowBySlug(slug),
+    staleTime: 10 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  };
+}
+
+export function archiveShowAudioQueryOptions(slug: string) {
+  return {
+    queryKey: ['archiveShowAudio', slug] as const,
+    queryFn: () => fetchShowAudio(slug),
+    staleTime: 10 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  };
+}
+
+export function archiveShowsByArtistQueryOptions(artistSlug: string) {
+  return {
+    queryKey: ['archiveShowsByArtist', artistSlug] as const,
+    queryFn: () => fetchShowsByArtist(artistSlug),
+    staleTime: 10 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  };
+}
+
 export function useArchiveShowBySlug(slug: string | undefined) {
   return useQuery({
-    queryKey: ['archiveShow', slug],
-    queryFn: () => fetchShowBySlug(slug!),
+    ...archiveShowQueryOptions(slug!),
     enabled: !!slug,
-    staleTime: 10 * 60 * 1000,
-    gcTime: 30 * 60 * 1000,
+  });
+}
+
+export function useArchiveShowAudio(slug: string | undefined) {
+  return useQuery({
+    ...archiveShowAudioQueryOptions(slug!),
+    enabled: !!slug && HAS_ARCHIVE_AUDIO,
   });
 }
 
 export function useArchiveShowsByArtist(artistSlug: string | undefined, limit?: number) {
   const query = useQuery({
-    queryKey: ['archiveShowsByArtist', artistSlug],
-    queryFn: () => fetchShowsByArtist(artistSlug!),
+    ...archiveShowsByArtistQueryOptions(artistSlug!),
     enabled: !!artistSlug,
-    staleTime: 10 * 60 * 1000,
-    gcTime: 30 * 60 * 1000,
   });
 
   return {
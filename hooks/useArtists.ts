@@ -2,30 +2,12 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { useMemo } from 'react';
-import { apiKey, EIST_API_ENDPOINTS } from '../config';
+import { EIST_API_ENDPOINTS } from '../config';
 import { ArtistMapping, ArtistStat, DerivedArtist } from '../types/archive';
+import { RadioCultArtistLogo } from '../types/radiocult';
+import { getArtists } from '../utils/radiocultClient';
 
-const STATION_ID = 'eist-radio';
-const ARTISTS_URL = `https://api.radiocult.fm/api/station/${STATION_ID}/artists`;
-
-type ApiArtistLogo = {
-  default?: string;
-  '256x256'?: string;
-  '512x512'?: string;
-  '1024x1024'?: string;
-};
-
-type ApiArtist = {
-  id: string;
-  name?: string;
-  logo?: ApiArtistLogo;
-};
-
-type ArtistsResponse = {
-  artists: ApiArtist[];
-};
-
-function getArtistImage(logo?: ApiArtistLogo): string | null {
+function getArtistImage(logo?: RadioCultArtistLogo): string | null {
   if (!logo) return null;
   return logo['1024x1024'] || logo['512x512'] || logo['256x256'] || logo.default || null;
 }
@@ -84,23 +66,12 @@ async function fetchArtistStats(): Promise<Map<string, ArtistStat>> {
 
 async function fetchArtists(): Promise<DerivedArtist[]> {
   // Fetch both RadioCult artist profiles and éist API stats in parallel
-  const [artistsRes, statsMap] = await Promise.all([
-    fetch(ARTISTS_URL, {
-      headers: { 'x-api-key': apiKey },
-    }),
-    fetchArtistStats(),
-  ]);
-
-  if (!artistsRes.ok) {
-    throw new Error(`Failed to fetch artists: ${artistsRes.statusText}`);
-  }
-
-  const data = (await artistsRes.json()) as ArtistsResponse;
+  const [artists, statsMap] = await Promise.all([getArtists(), fetchArtistStats()]);
 
   // Deduplicate artists by slug, keeping the one with the most complete profile
   const artistsBySlug = new Map<string, DerivedArtist>();
 
-  for (const artist of data.artists || []) {
+  for (const artist of artists) {
     if (!artist.name) continue;
 
     const slug = normalizeSlug(artist.name);
@@ -137,6 +108,7 @@ export function useArtists() {
     queryKey: ['artists'],
     queryFn: fetchArtists,
     staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: false, // radiocultClient retries transient failures itself
   });
 
   return {
@@ -0,0 +1,71 @@
+// hooks/useCalendarExport.ts
+//
+// Writes schedule shows to an .ics file and hands it to the system share
+// sheet, from where it can be opened in (or added to) a calendar app.
+// Native-only, like the share card.
+import * as FileSystem from 'expo-file-system';
+import * as Linking from 'expo-linking';
+import * as Sharing from 'expo-sharing';
+import { useCallback, useState } from 'react';
+import { Alert, Platform } from 'react-native';
+import { RawScheduleItem } from '../types/schedule';
+import { buildCalendar, scheduleItemToIcsEvent } from '../utils/ics';
+
+export type CalendarShow = {
+  item: RawScheduleItem;
+  hostName?: string;
+};
+
+// Deep link that opens the show page in the app
+export function showDeepLink(showId: string): string {
+  return Linking.createURL(`/show/${encodeURIComponent(showId)}`);
+}
+
+/**
+ * Where "Subscribe in calendar" sends a feed URL: iOS hands webcal:// links to
+ * Calendar as a subscription; elsewhere Google Calendar's add-by-URL page.
+ */
+export function calendarSubscriptionUrl(feedUrl: string): string {
+  const webcal = feedUrl.replace(/^https?:\/\//, 'webcal://');
+  if (Platform.OS === 'ios') return webcal;
+  return `https://calendar.google.com/calendar/render?cid=${encodeURIComponent(webcal)}`;
+}
+
+export function useCalendarExport() {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportShows = useCallback(
+    async (shows: CalendarShow[], fileName: string) => {
+      if (Platform.OS === 'web' || isExporting || shows.length === 0) return;
+      setIsExporting(true);
+      try {
+        const ics = buildCalendar(
+          shows.map(({ item, hostName }) =>
+            scheduleItemToIcsEvent(item, { hostName, url: showDeepLink(item.id) })
+          )
+        );
+        const uri = `${FileSystem.cacheDirectory}${fileName}.ics`;
+        await FileSystem.writeAsStringAsync(uri, ics);
+
+        if (!(await Sharing.isAvailableAsync())) {
+          Alert.alert('Sharing unavailable', 'Sharing isn’t available on this device.');
+          return;
+        }
+
+        await Sharing.shareAsync(uri, {
+          mimeType: 'text/calendar',
+          UTI: 'public.calendar-event',
+          dialogTitle: 'Add to calendar',
+        });
+      } catch (error) {
+        console.error('Calendar export failed:', error);
+        Alert.alert('Export failed', 'Couldn’t create the calendar file. Please try again.');
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [isExporting]
+  );
+
+  return { exportShows, isExporting };
+}
@@ -1,4 +1,5 @@
 import { useInfiniteQuery } from '@tanstack/react-query'
+import { MIXCLOUD_ENDPOINTS } from '../config'
 
 export interface MixcloudShow {
   id: string
@@ -36,7 +37,7 @@ const fetchMixcloudShows = async (pageParam?: string): Promise<{
   nextCursor?: string
 }> => {
   try {
-    const url = pageParam || 'https://api.mixcloud.com/eistcork/cloudcasts/'
+    const url = pageParam || MIXCLOUD_ENDPOINTS.cloudcasts
     const response = await fetch(url)
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`)
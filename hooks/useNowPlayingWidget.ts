@@ -0,0 +1,113 @@
+// hooks/useNowPlayingWidget.ts
+//
+// Keeps the Android home-screen widget showing what's on now and next, from
+// the same sources as the Listen page: getLiveShowInfo for the current show
+// and the shared schedule for up next. Pushes on launch, on return to the
+// foreground and just after the current show's endDateUtc — the same
+// deadline-driven timing as TrackPlayerContext's metadata refresh. While the
+// app isn't running the widget rolls over to the next show on its own.
+
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { AppState, Platform } from 'react-native';
+import { getLiveShowInfo, formatShowTimeRange } from '../utils/liveShowInfo';
+import { formatClockTime } from '../utils/formatTime';
+import { findUpNextShow } from '../utils/nextShow';
+import { updateNowPlayingWidget } from '../utils/nowPlayingWidget';
+import { getArtist } from '../utils/radiocultClient';
+import { scheduleQueryOptions } from './useSchedule';
+
+// Fire just after the show ends so the live endpoint has rolled over
+const BUFFER_MS = 20_000;
+// Never sooner than the live-info cache TTL, so each push has fresh data
+const MIN_MS = 60_000;
+// Safety cap so a missing end time still refreshes eventually
+const MAX_MS = 60 * 60_000;
+
+function toEpochMs(iso?: string): number | null {
+  if (!iso) return null;
+  const ms = new Date(iso).getTime();
+  return Number.isNaN(ms) ? null : ms;
+}
+
+export function useNowPlayingWidget() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (Platform.OS !== 'android') return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    // A foreground refresh can overlap a timed one; only the latest re-arms
+    let generation = 0;
+
+    // Returns the current show's end so the next push can be timed off it
+    const push = async (): Promise<string | undefined> => {
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const [live, schedule] = await Promise.all([
+        getLiveShowInfo({ timeZone }),
+        queryClient.fetchQuery(scheduleQueryOptions(timeZone)).catch((error) => {
+          console.warn('Widget up-next fetch failed:', error);
+          return [];
+        }),
+      ]);
+
+      const nextShow = findUpNextShow(schedule);
+      let nextHost = '';
+      const nextArtistId = nextShow?.artistIds?.[0];
+      if (nextArtistId) {
+        try {
+          nextHost = (await getArtist(nextArtistId, { retries: 0 })).name || '';
+        } catch (error) {
+          console.warn('Failed to fetch up-next host:', error);
+        }
+      }
+
+      if (cancelled) return undefined;
+      updateNowPlayingWidget({
+        title: live?.title || 'éist',
+        host: live?.djName || '',
+        timeRange: live?.showTime || '',
+        endsAtMs: toEpochMs(live?.endDateUtc),
+        artworkUrl: live?.artworkUrl,
+        next: nextShow
+          ? {
+              title: nextShow.title.trim(),
+              host: nextHost,
+              startTime: formatClockTime(nextShow.startDateUtc, timeZone),
+              timeRange: formatShowTimeRange(nextShow.startDateUtc, nextShow.endDateUtc, timeZone),
+              endsAtMs: toEpochMs(nextShow.endDateUtc),
+            }
+          : null,
+      });
+      return live?.endDateUtc;
+    };
+
+    const refresh = async () => {
+      const run = ++generation;
+      if (timer) clearTimeout(timer);
+      let endDateUtc: string | undefined;
+      try {
+        endDateUtc = await push();
+      } catch (error) {
+        console.error('Widget refresh failed:', error);
+      }
+      if (cancelled || run !== generation) return;
+
+      const end = toEpochMs(endDateUtc);
+      const delay = end === null ? MAX_MS : end + BUFFER_MS - Date.now();
+      timer = setTimeout(refresh, Math.min(MAX_MS, Math.max(MIN_MS, delay)));
+    };
+
+    refresh();
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') refresh();
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      sub.remove();
+    };
+  }, [queryClient]);
+}
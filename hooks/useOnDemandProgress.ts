@@ -0,0 +1,37 @@
+// hooks/useOnDemandProgress.ts
+import { useEffect, useState } from 'react';
+import { useTrackPlayer } from '../context/TrackPlayerContext';
+
+export interface OnDemandProgress {
+  position: number; // seconds
+  duration: number; // seconds, 0 until the player knows it
+}
+
+// Position/duration of the loaded archive show, polled once a second while
+// `active`. Polling (rather than RNTP's useProgress) keeps web and native on
+// the same path through the context.
+export function useOnDemandProgress(active: boolean): OnDemandProgress {
+  const { getPlaybackProgress } = useTrackPlayer();
+  const [progress, setProgress] = useState<OnDemandProgress>({ position: 0, duration: 0 });
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    const tick = async () => {
+      const next = await getPlaybackProgress();
+      if (!cancelled) setProgress(next);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [active, getPlaybackProgress]);
+
+  return progress;
+}
+
+export default useOnDemandProgress;
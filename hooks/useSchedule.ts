@@ -0,0 +1,100 @@
+// hooks/useSchedule.ts
+//
+// The one place the app reads RadioCult's `/schedule`. Every consumer — the
+// Schedule page, show pages, artists' next show and the reminder resync —
+// shares a single React Query cache entry keyed by date window and timezone,
+// so a week of schedule is fetched once rather than once per screen.
+
+import { QueryClient, useQuery } from '@tanstack/react-query';
+import { RawScheduleItem, ScheduleWindow } from '../types/schedule';
+import { getSchedule } from '../utils/radiocultClient';
+import { findNextShowForArtist } from '../utils/nextShow';
+
+// Yesterday (late shows that began before UTC midnight are still on air) through
+// two weeks ahead (artists' next shows). The Schedule page shows a slice of it.
+const DAYS_BEHIND = 1;
+const DAYS_AHEAD = 14;
+
+const STALE_TIME_MS = 5 * 60 * 1000;
+
+function utcDay(date: Date, offsetDays: number): string {
+  const d = new Date(date);
+  d.setUTCDate(d.getUTCDate() + offsetDays);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * The shared schedule window for `now`: whole UTC days, so every caller on the
+ * same day lands on the same cache entry. Callers that need further ahead
+ * (the weekly digest) pass `daysAhead` and get an entry of their own.
+ */
+export function getScheduleWindow(now: Date = new Date(), daysAhead: number = DAYS_AHEAD): ScheduleWindow {
+  return {
+    startDate: `${utcDay(now, -DAYS_BEHIND)}T00:00:00Z`,
+    endDate: `${utcDay(now, daysAhead)}T23:59:59Z`,
+  };
+}
+
+export async function fetchSchedule(
+  window: ScheduleWindow,
+  timezone: string
+): Promise<RawScheduleItem[]> {
+  const schedules = await getSchedule({ ...window, timeZone: timezone });
+  return schedules.sort((a, b) => a.startDateUtc.localeCompare(b.startDateUtc));
+}
+
+/**
+ * Query options for the shared schedule entry. Use with `useQuery` in
+ * components, or `queryClient.fetchQuery` outside render (it returns the
+ * cached week when fresh).
+ */
+export function scheduleQueryOptions(timezone: string, window: ScheduleWindow = getScheduleWindow()) {
+  return {
+    queryKey: ['schedule', window.startDate, window.endDate, timezone] as const,
+    queryFn: () => fetchSchedule(window, timezone),
+    staleTime: STALE_TIME_MS,
+    // radiocultClient already retries transient failures, with backoff
+    retry: false,
+  };
+}
+
+export function useSchedule(timezone: string) {
+  return useQuery(scheduleQueryOptions(timezone));
+}
+
+/**
+ * A single scheduled show by id, from the shared schedule window.
+ */
+export function useScheduleEvent(id: string | undefined, timezone: string) {
+  const query = useSchedule(timezone);
+  const event = id ? query.data?.find((item) => item.id === id) : undefined;
+  return {
+    ...query,
+    event,
+    // Loaded fine, but the show isn't in the window
+    isNotFound: query.isSuccess && !event,
+  };
+}
+
+/**
+ * The artist's next (non-repeat) upcoming show, or null if none is scheduled
+ * in the window.
+ */
+export function useNextShowForArtist(artistId: string | undefined, timezone: string) {
+  const query = useSchedule(timezone);
+  const nextShow =
+    artistId && query.data ? findNextShowForArtist(query.data, artistId) : null;
+  return { ...query, nextShow };
+}
+
+/**
+ * Imperative counterpart of useNextShowForArtist for code outside render.
+ */
+export async function fetchNextShowForArtist(
+  queryClient: QueryClient,
+  artistId: string,
+  timezone: string
+): Promise<RawScheduleItem | null> {
+  const schedule = await queryClient.fetchQuery(scheduleQueryOptions(timezone));
+  return findNextShowForArtist(schedule, artistId);
+}
@@ -1,4 +1,8 @@
-const { withAndroidManifest, withDangerousMod } = require('@expo/config-plugins');
+const {
+  withAndroidManifest,
+  withDangerousMod,
+  withMainApplication,
+} = require('@expo/config-plugins');
 const { mergeContents } = require('@expo/config-plugins/build/utils/generateCode');
 const fs = require('fs');
 const path = require('path');
@@ -14,6 +18,7 @@ import android.os.Bundle
 import android.os.Handler
 import android.os.IBinder
 import android.os.Looper
+import android.os.SystemClock
 import android.support.v4.media.MediaBrowserCompat
 import android.support.v4.media.MediaDescriptionCompat
 import android.support.v4.media.MediaMetadataCompat
@@ -34,6 +39,12 @@ import androidx.media.MediaBrowserServiceCompat
  * start the stream), while a controller registered on RNTP's session mirrors RNTP's
  * playback state + metadata (with the DISPLAY_SUBTITLE fix) back onto the proxy so AA's
  * Now Playing stays correct. RNTP's own session/notification/lockscreen path is untouched.
+ *
+ * The browse tree is "Live now", "Recent archive shows", "Artists" (each opening that
+ * host's shows) and "Saved". The app publishes the lists through EistAutoBridge into
+ * AndroidAutoLibrary, which keeps the last copy so the tree still shows while the app
+ * isn't running. Live now plays natively as before; an archive show is handed to the
+ * app, which plays it through TrackPlayerContext, and so needs the app to be running.
  */
 class MediaBrowserService : MediaBrowserServiceCompat() {
 
@@ -41,6 +52,11 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
         private const val TAG = "EistMediaBrowser"
         private const val ROOT_ID = "root"
         private const val LIVE_RADIO_ID = "live_radio"
+        private const val RECENT_ID = "recent"
+        private const val ARTISTS_ID = "artists"
+        private const val SAVED_ID = "saved"
+        // Give up on an artist's shows if the app hasn't answered by then
+        private const val LOAD_TIMEOUT_MS = 8000L
         private const val RETRY_DELAY_MS = 1000L
         private const val MAX_RETRIES = 30
         // Window (ms) during which we ignore RNTP's transient STOPPED/NONE states
@@ -75,6 +91,32 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
     // Ignore RNTP transient idle states until this time (armed on every start).
     private var suppressIdleUntil = 0L
 
+    // Browse results waiting on the app to send an artist's shows
+    private val pendingLoads = mutableMapOf<String, MutableList<Result<MutableList<MediaBrowserCompat.MediaItem>>>>()
+
+    // Called on the bridge's thread; hop to main like every other session call
+    private val libraryListener = object : AndroidAutoLibrary.Listener {
+        override fun onChildrenChanged(parentIds: Set<String>) {
+            handler.post {
+                for (parentId in parentIds) {
+                    pendingLoads.remove(parentId)?.forEach { it.sendResult(mediaItemsFor(parentId)) }
+                    notifyChildrenChanged(parentId)
+                }
+            }
+        }
+
+        override fun onNowPlayingChanged() {
+            handler.post { mirrorMetadata(rntpController?.metadata) }
+        }
+
+        override fun onPlayFailed(message: String) {
+            handler.post {
+                suppressIdleUntil = 0L
+                publishError(message)
+            }
+        }
+    }
+
     // Callback for the PROXY session: every start entry point funnels into
     // startPlayback(); stop/pause forward to RNTP; skip is a deliberate no-op.
     private val proxyCallback = object : MediaSessionCompat.Callback() {
@@ -85,7 +127,7 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
 
         override fun onPlayFromMediaId(mediaId: String?, extras: Bundle?) {
             Log.d(TAG, "proxy onPlayFromMediaId: " + mediaId)
-            startPlayback()
+            if (mediaId == null || mediaId == LIVE_RADIO_ID) startPlayback() else playFromLibrary(mediaId)
         }
 
         override fun onPlayFromSearch(query: String?, extras: Bundle?) {
@@ -100,7 +142,8 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
 
         override fun onPrepareFromMediaId(mediaId: String?, extras: Bundle?) {
             Log.d(TAG, "proxy onPrepareFromMediaId: " + mediaId)
-            startPlayback()
+            // Only live is prepared ahead; an archive show waits for the play
+            if (mediaId == null || mediaId == LIVE_RADIO_ID) startPlayback()
         }
 
         override fun onPrepareFromSearch(query: String?, extras: Bundle?) {
@@ -126,6 +169,14 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
             }
         }
 
+        override fun onSeekTo(pos: Long) {
+            try {
+                rntpController?.transportControls?.seekTo(pos)
+            } catch (e: Exception) {
+                Log.e(TAG, "Error forwarding seek to RNTP", e)
+            }
+        }
+
         override fun onSkipToNext() { /* no-op: live radio */ }
         override fun onSkipToPrevious() { /* no-op: live radio */ }
     }
@@ -185,6 +236,7 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
         seedMetadata()
         publishState(PlaybackStateCompat.STATE_STOPPED)
 
+        AndroidAutoLibrary.listener = libraryListener
         bindToMusicService()
     }
 
@@ -192,6 +244,8 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
         super.onDestroy()
         Log.d(TAG, "MediaBrowserService destroyed")
         handler.removeCallbacksAndMessages(null)
+        if (AndroidAutoLibrary.listener === libraryListener) AndroidAutoLibrary.listener = null
+        pendingLoads.clear()
 
         // Unregister the mirror callback from RNTP's session FIRST, so no late
         // callback can touch the proxy session after it is released.
@@ -384,13 +438,17 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
         }
     }
 
+    private fun isLive(): Boolean =
+        (AndroidAutoLibrary.nowPlayingId ?: LIVE_RADIO_ID) == LIVE_RADIO_ID
+
     // Action mask depending on state: active states offer STOP|PAUSE; idle
-    // states offer PLAY + PLAY/PREPARE_FROM_*. Never advertise SKIP.
+    // states offer PLAY + PLAY/PREPARE_FROM_*. Archive shows can also seek.
+    // Never advertise SKIP.
     private fun actionsFor(state: Int): Long {
         val active = state == PlaybackStateCompat.STATE_PLAYING ||
             state == PlaybackStateCompat.STATE_BUFFERING ||
             state == PlaybackStateCompat.STATE_CONNECTING
-        return if (active) {
+        val actions = if (active) {
             PlaybackStateCompat.ACTION_STOP or PlaybackStateCompat.ACTION_PAUSE
         } else {
             PlaybackStateCompat.ACTION_PLAY or
@@ -399,11 +457,17 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
                 PlaybackStateCompat.ACTION_PREPARE_FROM_MEDIA_ID or
                 PlaybackStateCompat.ACTION_PREPARE_FROM_SEARCH
         }
+        return if (isLive()) actions else actions or PlaybackStateCompat.ACTION_SEEK_TO
     }
 
-    private fun publishState(state: Int) {
+    private fun publishState(
+        state: Int,
+        position: Long = PlaybackStateCompat.PLAYBACK_POSITION_UNKNOWN,
+        speed: Float = 1f,
+        updateTime: Long = SystemClock.elapsedRealtime()
+    ) {
         val playbackState = PlaybackStateCompat.Builder()
-            .setState(state, PlaybackStateCompat.PLAYBACK_POSITION_UNKNOWN, 1f)
+            .setState(state, position, speed, updateTime)
             .setActions(actionsFor(state))
             .build()
         try {
@@ -413,6 +477,20 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
         }
     }
 
+    // AA shows the message in place of Now Playing and offers Play again
+    private fun publishError(message: String) {
+        val playbackState = PlaybackStateCompat.Builder()
+            .setState(PlaybackStateCompat.STATE_ERROR, PlaybackStateCompat.PLAYBACK_POSITION_UNKNOWN, 0f)
+            .setErrorMessage(PlaybackStateCompat.ERROR_CODE_APP_ERROR, message)
+            .setActions(actionsFor(PlaybackStateCompat.STATE_STOPPED))
+            .build()
+        try {
+            proxySession?.setPlaybackState(playbackState)
+        } catch (e: Exception) {
+            Log.e(TAG, "Error publishing error state", e)
+        }
+    }
+
     private fun seedMetadata() {
         val metadata = MediaMetadataCompat.Builder()
             .putString(MediaMetadataCompat.METADATA_KEY_MEDIA_ID, LIVE_RADIO_ID)
@@ -457,6 +535,19 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
         }
     }
 
+    // An archive show picked from the browse tree. The app resolves its audio
+    // and plays it through TrackPlayerContext; nothing here can start it alone.
+    private fun playFromLibrary(mediaId: String) {
+        if (!AndroidAutoLibrary.requestPlay(mediaId)) {
+            Log.d(TAG, "App not listening; can't play " + mediaId)
+            publishError("Open éist on your phone to play archive shows")
+            return
+        }
+        // Same BUFFERING + grace window as live while the app loads the show
+        publishState(PlaybackStateCompat.STATE_BUFFERING)
+        suppressIdleUntil = System.currentTimeMillis() + GRACE_MS
+    }
+
     // Mirror RNTP's playback state onto the proxy, dropping transient idle
     // states within the grace window so BUFFERING is not clobbered.
     private fun mirrorState(state: PlaybackStateCompat?) {
@@ -470,7 +561,11 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
             Log.d(TAG, "Suppressing transient RNTP idle state: " + state.state)
             return
         }
-        publishState(state.state)
+        if (isLive()) {
+            publishState(state.state)
+        } else {
+            publishState(state.state, state.position, state.playbackSpeed, state.lastPositionUpdateTime)
+        }
     }
 
     // Mirror RNTP's metadata onto the proxy, applying the DISPLAY_SUBTITLE fix.
@@ -485,9 +580,13 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
         if (displaySubtitle.isNullOrEmpty() && !artist.isNullOrEmpty()) {
             builder.putString(MediaMetadataCompat.METADATA_KEY_DISPLAY_SUBTITLE, artist)
         }
-        // Associate Now Playing with the browse item; hide the seek bar (live).
-        builder.putString(MediaMetadataCompat.METADATA_KEY_MEDIA_ID, LIVE_RADIO_ID)
-        builder.putLong(MediaMetadataCompat.METADATA_KEY_DURATION, -1L)
+        // Associate Now Playing with the browse item. Live hides the seek bar;
+        // an archive show keeps RNTP's duration so AA can scrub it.
+        builder.putString(
+            MediaMetadataCompat.METADATA_KEY_MEDIA_ID,
+            AndroidAutoLibrary.nowPlayingId ?: LIVE_RADIO_ID
+        )
+        if (isLive()) builder.putLong(MediaMetadataCompat.METADATA_KEY_DURATION, -1L)
         try {
             proxySession?.setMetadata(builder.build())
         } catch (e: Exception) {
@@ -511,27 +610,242 @@ class MediaBrowserService : MediaBrowserServiceCompat() {
         Log.d(TAG, "onLoadChildren called for: \$parentId")
 
         if (parentId == ROOT_ID) {
-            val mediaItems = mutableListOf<MediaBrowserCompat.MediaItem>()
-
-            // Single playable item for live radio
-            val description = MediaDescriptionCompat.Builder()
-                .setMediaId(LIVE_RADIO_ID)
-                .setTitle("éist radio")
-                .setSubtitle("Tap to play live radio")
-                .build()
-
-            mediaItems.add(
-                MediaBrowserCompat.MediaItem(
-                    description,
-                    MediaBrowserCompat.MediaItem.FLAG_PLAYABLE
-                )
-            )
+            result.sendResult(mutableListOf(
+                mediaItem(LIVE_RADIO_ID, "Live now", "éist radio", playable = true),
+                mediaItem(RECENT_ID, "Recent archive shows", null, playable = false),
+                mediaItem(ARTISTS_ID, "Artists", null, playable = false),
+                mediaItem(SAVED_ID, "Saved", null, playable = false)
+            ))
+            return
+        }
+
+        // An artist's shows are fetched on demand; ask the app every time so a
+        // cached list is refreshed, and wait for it if there's nothing cached
+        val requested = AndroidAutoLibrary.isArtist(parentId) &&
+            AndroidAutoLibrary.requestChildren(parentId)
+        if (!requested || AndroidAutoLibrary.children(this, parentId) != null) {
+            result.sendResult(mediaItemsFor(parentId))
+            return
+        }
+
+        result.detach()
+        pendingLoads.getOrPut(parentId) { mutableListOf() }.add(result)
+        handler.postDelayed({
+            if (pendingLoads[parentId]?.remove(result) == true) {
+                result.sendResult(mediaItemsFor(parentId))
+            }
+        }, LOAD_TIMEOUT_MS)
+    }
 
-            result.sendResult(mediaItems)
+    private fun mediaItemsFor(parentId: String): MutableList<MediaBrowserCompat.MediaItem> =
+        (AndroidAutoLibrary.children(this, parentId) ?: emptyList())
+            .map { mediaItem(it.id, it.title, it.subtitle, !it.browsable) }
+            .toMutableList()
+
+    private fun mediaItem(
+        id: String,
+        title: String,
+        subtitle: String?,
+        playable: Boolean
+    ): MediaBrowserCompat.MediaItem {
+        val description = MediaDescriptionCompat.Builder()
+            .setMediaId(id)
+            .setTitle(title)
+            .setSubtitle(subtitle)
+            .build()
+        val flags = if (playable) {
+            MediaBrowserCompat.MediaItem.FLAG_PLAYABLE
         } else {
-            result.sendResult(mutableListOf())
+            MediaBrowserCompat.MediaItem.FLAG_BROWSABLE
+        }
+        return MediaBrowserCompat.MediaItem(description, flags)
+    }
+}
+`;
+
+// The browse tree's contents, shared between the bridge (written from JS) and
+// MediaBrowserService (read by Android Auto). Kept in SharedPreferences so the
+// tree is there on the next drive even if the app hasn't run since.
+const AUTO_LIBRARY_KOTLIN = `package com.oootini.eistapp.service
+
+import android.content.Context
+import android.util.Log
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * Stored as one JSON object of parentId -> [{ id, title, subtitle, browsable }].
+ * The app replaces "recent", "artists" and "saved" whenever they change, and
+ * fills in "artist/<slug>" nodes when Android Auto opens one.
+ */
+object AndroidAutoLibrary {
+    private const val TAG = "EistAutoLibrary"
+    private const val PREFS = "eist_android_auto_library"
+    private const val KEY_TREE = "tree"
+    private const val ARTIST_PREFIX = "artist/"
+
+    data class Item(val id: String, val title: String, val subtitle: String?, val browsable: Boolean)
+
+    interface Listener {
+        fun onChildrenChanged(parentIds: Set<String>)
+        fun onNowPlayingChanged()
+        fun onPlayFailed(message: String)
+    }
+
+    // MediaBrowserService, while Android Auto is connected
+    @Volatile var listener: Listener? = null
+    // EistAutoBridge, while the app's JS is running
+    @Volatile var bridge: EistAutoBridgeModule? = null
+    // Browse id of what the player has loaded; null means live
+    @Volatile var nowPlayingId: String? = null
+        private set
+
+    fun isArtist(parentId: String) = parentId.startsWith(ARTIST_PREFIX)
+
+    // Merges the given nodes into the stored tree; nodes not mentioned are kept
+    @Synchronized
+    fun save(context: Context, nodesJson: String) {
+        try {
+            val nodes = JSONObject(nodesJson)
+            val tree = readTree(context)
+            val changed = mutableSetOf<String>()
+            for (key in nodes.keys()) {
+                tree.put(key, nodes.getJSONArray(key))
+                changed.add(key)
+            }
+            prefs(context).edit().putString(KEY_TREE, tree.toString()).apply()
+            listener?.onChildrenChanged(changed)
+        } catch (e: Exception) {
+            Log.e(TAG, "Failed to save Android Auto library", e)
+        }
+    }
+
+    @Synchronized
+    fun children(context: Context, parentId: String): List<Item>? {
+        val items = readTree(context).optJSONArray(parentId) ?: return null
+        return (0 until items.length()).mapNotNull { i ->
+            val item = items.optJSONObject(i) ?: return@mapNotNull null
+            Item(
+                item.optString("id"),
+                item.optString("title"),
+                item.optString("subtitle").ifEmpty { null },
+                item.optBoolean("browsable", false)
+            )
         }
     }
+
+    fun setNowPlaying(mediaId: String?) {
+        if (mediaId == nowPlayingId) return
+        nowPlayingId = mediaId
+        listener?.onNowPlayingChanged()
+    }
+
+    fun playFailed(message: String) {
+        listener?.onPlayFailed(message)
+    }
+
+    // False when the app isn't running to answer
+    fun requestPlay(mediaId: String): Boolean = bridge?.requestPlay(mediaId) ?: false
+
+    fun requestChildren(parentId: String): Boolean = bridge?.requestChildren(parentId) ?: false
+
+    private fun prefs(context: Context) =
+        context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+
+    private fun readTree(context: Context): JSONObject =
+        prefs(context).getString(KEY_TREE, null)?.let {
+            try { JSONObject(it) } catch (e: Exception) { null }
+        } ?: JSONObject()
+}
+`;
+
+// Native <-> JS bridge for the browse tree. Unlike the widget and CarPlay
+// bridges nothing is buffered: a selection made while JS isn't listening is
+// answered with an error in the car rather than replayed later.
+const AUTO_BRIDGE_KOTLIN = `package com.oootini.eistapp.service
+
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.modules.core.DeviceEventManagerModule
+
+class EistAutoBridgeModule(private val reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        const val NAME = "EistAutoBridge"
+        const val PLAY_EVENT = "EistAutoPlay"
+        const val LOAD_CHILDREN_EVENT = "EistAutoLoadChildren"
+    }
+
+    @Volatile private var hasListeners = false
+
+    init {
+        AndroidAutoLibrary.bridge = this
+    }
+
+    override fun getName() = NAME
+
+    override fun invalidate() {
+        if (AndroidAutoLibrary.bridge === this) AndroidAutoLibrary.bridge = null
+        super.invalidate()
+    }
+
+    @ReactMethod
+    fun setLibrary(nodesJson: String) {
+        AndroidAutoLibrary.save(reactContext, nodesJson)
+    }
+
+    @ReactMethod
+    fun setNowPlaying(mediaId: String) {
+        AndroidAutoLibrary.setNowPlaying(mediaId)
+    }
+
+    @ReactMethod
+    fun playFailed(message: String) {
+        AndroidAutoLibrary.playFailed(message)
+    }
+
+    @ReactMethod
+    fun addListener(eventName: String) {
+        hasListeners = true
+    }
+
+    @ReactMethod
+    fun removeListeners(count: Int) {
+        // Listeners live as long as the app; nothing to tear down
+    }
+
+    fun requestPlay(mediaId: String): Boolean = emit(PLAY_EVENT, "mediaId", mediaId)
+
+    fun requestChildren(parentId: String): Boolean = emit(LOAD_CHILDREN_EVENT, "parentId", parentId)
+
+    private fun emit(event: String, key: String, value: String): Boolean {
+        if (!hasListeners || !reactContext.hasActiveReactInstance()) return false
+        val params = Arguments.createMap()
+        params.putString(key, value)
+        reactContext
+            .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+            .emit(event, params)
+        return true
+    }
+}
+`;
+
+const AUTO_BRIDGE_PACKAGE_KOTLIN = `package com.oootini.eistapp.service
+
+import com.facebook.react.ReactPackage
+import com.facebook.react.bridge.NativeModule
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.uimanager.ViewManager
+
+class EistAutoBridgePackage : ReactPackage {
+    override fun createNativeModules(reactContext: ReactApplicationContext): List<NativeModule> =
+        listOf(EistAutoBridgeModule(reactContext))
+
+    override fun createViewManagers(reactContext: ReactApplicationContext): List<ViewManager<*, *>> =
+        emptyList()
 }
 `;
 
@@ -607,7 +921,7 @@ function withAndroidAuto(config) {
     return config;
   });
 
-  // Step 2: Create xml/automotive_app_desc.xml and service/MediaBrowserService.kt
+  // Step 2: Create xml/automotive_app_desc.xml and the service/ Kotlin sources
   config = withDangerousMod(config, [
     'android',
     async (config) => {
@@ -640,15 +954,25 @@ function withAndroidAuto(config) {
         fs.mkdirSync(serviceDir, { recursive: true });
       }
 
-      // Update package name in Kotlin source if different
-      const kotlinSource = MEDIA_BROWSER_SERVICE_KOTLIN.replace(
-        'package com.oootini.eistapp.service',
-        `package ${packageName}.service`
-      );
+      // Update package name in Kotlin sources if different
+      const kotlin = (source) =>
+        source.replace('package com.oootini.eistapp.service', `package ${packageName}.service`);
 
       fs.writeFileSync(
         path.join(serviceDir, 'MediaBrowserService.kt'),
-        kotlinSource
+        kotlin(MEDIA_BROWSER_SERVICE_KOTLIN)
+      );
+      fs.writeFileSync(
+        path.join(serviceDir, 'AndroidAutoLibrary.kt'),
+        kotlin(AUTO_LIBRARY_KOTLIN)
+      );
+      fs.writeFileSync(
+        path.join(serviceDir, 'EistAutoBridgeModule.kt'),
+        kotlin(AUTO_BRIDGE_KOTLIN)
+      );
+      fs.writeFileSync(
+        path.join(serviceDir, 'EistAutoBridgePackage.kt'),
+        kotlin(AUTO_BRIDGE_PACKAGE_KOTLIN)
       );
 
       // Add androidx.media dependency to build.gradle
@@ -677,6 +1001,37 @@ function withAndroidAuto(config) {
     },
   ]);
 
+  // Step 3: Register EistAutoBridge in MainApplication
+  config = withMainApplication(config, (config) => {
+    const packageName = config.android?.package || 'com.oootini.eistapp';
+    let contents = config.modResults.contents;
+
+    contents = mergeContents({
+      tag: 'android-auto-bridge-import',
+      src: contents,
+      newSrc: `import ${packageName}.service.EistAutoBridgePackage`,
+      anchor: /^import android\.app\.Application/m,
+      offset: 0,
+      comment: '//',
+    }).contents;
+
+    // Same two template shapes as the widget plugin (withAndroidWidget.js)
+    const usesApply = /PackageList\(this\)\.packages\.apply/.test(contents);
+    contents = mergeContents({
+      tag: 'android-auto-bridge-package',
+      src: contents,
+      newSrc: usesApply
+        ? '              add(EistAutoBridgePackage())'
+        : '            packages.add(EistAutoBridgePackage())',
+      anchor: /PackageList\(this\)\.packages/,
+      offset: 1,
+      comment: '//',
+    }).contents;
+
+    config.modResults.contents = contents;
+    return config;
+  });
+
   return config;
 }
 
@@ -0,0 +1,554 @@
+const {
+  withAndroidManifest,
+  withDangerousMod,
+  withMainApplication,
+} = require('@expo/config-plugins');
+const { mergeContents } = require('@expo/config-plugins/build/utils/generateCode');
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Expo config plugin: Android home-screen widget showing Now Playing and Up Next.
+ *
+ * The widget is a plain AppWidgetProvider drawing RemoteViews; it never runs JS.
+ * The app pushes what to show through the EistWidgetBridge native module
+ * (utils/nowPlayingWidget.ts), which saves it to SharedPreferences, downloads
+ * the host artwork and redraws every placed widget.
+ *
+ * Each push carries the current show AND the next one, with their end times.
+ * When the app isn't running to push an update, the provider sets an alarm for
+ * the current show's end and rolls the next show into the "now" slot itself,
+ * so the widget doesn't keep advertising a show that has finished.
+ *
+ * Tapping play opens MainActivity with ACTION_PLAY. EistWidgetBridge picks that
+ * up (onNewIntent when running, the launch intent on a cold start) and emits
+ * EistWidgetPlay, which TrackPlayerContext answers with play() — the same path
+ * as the in-app play button, so Cast routing and metadata behave identically.
+ *
+ * NOTE: `android/` is prebuild-generated, so all of this lives in the plugin.
+ */
+
+const WIDGET_PROVIDER_KOTLIN = `package com.oootini.eistapp.widget
+
+import android.app.AlarmManager
+import android.app.PendingIntent
+import android.appwidget.AppWidgetManager
+import android.appwidget.AppWidgetProvider
+import android.content.ComponentName
+import android.content.Context
+import android.content.Intent
+import android.graphics.BitmapFactory
+import android.view.View
+import android.widget.RemoteViews
+import com.oootini.eistapp.R
+
+class NowPlayingWidgetProvider : AppWidgetProvider() {
+
+    companion object {
+        const val ACTION_PLAY = "com.oootini.eistapp.widget.PLAY"
+        private const val ACTION_SHOW_ENDED = "com.oootini.eistapp.widget.SHOW_ENDED"
+
+        // Redraw every placed widget from the stored state and re-arm the
+        // end-of-show alarm. Safe to call from any thread.
+        fun refreshAll(context: Context) {
+            val manager = AppWidgetManager.getInstance(context)
+            val ids = manager.getAppWidgetIds(ComponentName(context, NowPlayingWidgetProvider::class.java))
+            if (ids.isEmpty()) return
+
+            val state = NowPlayingWidgetStore.current(context)
+            for (id in ids) {
+                manager.updateAppWidget(id, buildViews(context, state))
+            }
+            scheduleShowEnded(context, state.endsAtMs)
+        }
+
+        private fun buildViews(context: Context, state: NowPlayingWidgetStore.Display): RemoteViews {
+            val views = RemoteViews(context.packageName, R.layout.now_playing_widget)
+            views.setTextViewText(R.id.widget_title, state.title)
+            setOptionalText(views, R.id.widget_host, state.host)
+            setOptionalText(views, R.id.widget_time, state.timeRange)
+            setOptionalText(views, R.id.widget_next, state.upNext)
+
+            val artwork = state.artworkPath?.let { BitmapFactory.decodeFile(it) }
+            if (artwork != null) {
+                views.setImageViewBitmap(R.id.widget_artwork, artwork)
+            } else {
+                views.setImageViewResource(R.id.widget_artwork, R.mipmap.ic_launcher)
+            }
+
+            views.setOnClickPendingIntent(R.id.widget_root, launchIntent(context, null, 0))
+            views.setOnClickPendingIntent(R.id.widget_play, launchIntent(context, ACTION_PLAY, 1))
+            return views
+        }
+
+        private fun setOptionalText(views: RemoteViews, viewId: Int, text: String) {
+            views.setTextViewText(viewId, text)
+            views.setViewVisibility(viewId, if (text.isEmpty()) View.GONE else View.VISIBLE)
+        }
+
+        private fun launchIntent(context: Context, action: String?, requestCode: Int): PendingIntent {
+            val intent = context.packageManager.getLaunchIntentForPackage(context.packageName)!!
+            if (action != null) intent.action = action
+            intent.flags = Intent.FLAG_ACTIVITY_NEW_TASK or Intent.FLAG_ACTIVITY_SINGLE_TOP
+            return PendingIntent.getActivity(
+                context,
+                requestCode,
+                intent,
+                PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+            )
+        }
+
+        // Inexact is fine: a minute or two late is better than waking the device
+        private fun scheduleShowEnded(context: Context, endsAtMs: Long?) {
+            val alarms = context.getSystemService(Context.ALARM_SERVICE) as AlarmManager
+            val intent = Intent(context, NowPlayingWidgetProvider::class.java).setAction(ACTION_SHOW_ENDED)
+            val pending = PendingIntent.getBroadcast(
+                context,
+                0,
+                intent,
+                PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
+            )
+            alarms.cancel(pending)
+            if (endsAtMs != null && endsAtMs > System.currentTimeMillis()) {
+                alarms.set(AlarmManager.RTC, endsAtMs, pending)
+            }
+        }
+    }
+
+    override fun onUpdate(context: Context, manager: AppWidgetManager, appWidgetIds: IntArray) {
+        refreshAll(context)
+    }
+
+    override fun onReceive(context: Context, intent: Intent) {
+        super.onReceive(context, intent)
+        if (intent.action == ACTION_SHOW_ENDED) {
+            refreshAll(context)
+        }
+    }
+}
+`;
+
+const WIDGET_STORE_KOTLIN = `package com.oootini.eistapp.widget
+
+import android.content.Context
+import android.graphics.Bitmap
+import android.graphics.BitmapFactory
+import android.util.Log
+import org.json.JSONObject
+import java.io.File
+import java.io.FileOutputStream
+import java.net.URL
+
+/**
+ * What the widget shows, as last pushed from JS:
+ *
+ *   { title, host, timeRange, endsAtMs, artworkUrl,
+ *     next: { title, host, startTime, timeRange, endsAtMs } | null }
+ *
+ * Times are pre-formatted by the app in the device's timezone.
+ */
+object NowPlayingWidgetStore {
+    private const val TAG = "EistWidget"
+    private const val PREFS = "eist_now_playing_widget"
+    private const val KEY_STATE = "state"
+    private const val KEY_ARTWORK_URL = "artwork_url"
+    private const val ARTWORK_FILE = "widget_artwork.png"
+    // Widgets are small; keep the RemoteViews bitmap well under the binder limit
+    private const val ARTWORK_SIZE_PX = 256
+
+    data class Display(
+        val title: String,
+        val host: String,
+        val timeRange: String,
+        val upNext: String,
+        val artworkPath: String?,
+        val endsAtMs: Long?
+    )
+
+    // Blocking: downloads the artwork if it changed. Call off the main thread.
+    fun save(context: Context, json: String) {
+        val prefs = context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+        val artworkUrl = JSONObject(json).optString("artworkUrl", "")
+        if (artworkUrl != prefs.getString(KEY_ARTWORK_URL, "")) {
+            val saved = artworkUrl.isNotEmpty() && downloadArtwork(context, artworkUrl)
+            if (!saved) File(context.filesDir, ARTWORK_FILE).delete()
+            prefs.edit().putString(KEY_ARTWORK_URL, if (saved) artworkUrl else "").apply()
+        }
+        prefs.edit().putString(KEY_STATE, json).apply()
+    }
+
+    fun current(context: Context): Display {
+        val prefs = context.getSharedPreferences(PREFS, Context.MODE_PRIVATE)
+        val state = prefs.getString(KEY_STATE, null)?.let {
+            try { JSONObject(it) } catch (e: Exception) { null }
+        } ?: return Display("éist", "", "", "", null, null)
+
+        val now = System.currentTimeMillis()
+        val endsAt = optTime(state, "endsAtMs")
+        val next = state.optJSONObject("next")
+
+        // The pushed show has ended and the app hasn't been back to say what's
+        // on: promote the next show (without artwork, which was the last host's)
+        if (endsAt != null && now >= endsAt) {
+            if (next != null) {
+                return Display(
+                    next.optString("title", "éist"),
+                    next.optString("host", ""),
+                    next.optString("timeRange", ""),
+                    "",
+                    null,
+                    optTime(next, "endsAtMs")
+                )
+            }
+            return Display("éist", "", "", "", null, null)
+        }
+
+        val artworkFile = File(context.filesDir, ARTWORK_FILE)
+        return Display(
+            state.optString("title", "éist"),
+            state.optString("host", ""),
+            state.optString("timeRange", ""),
+            next?.let { "Up next  " + it.optString("startTime", "") + "  " + it.optString("title", "") } ?: "",
+            if (artworkFile.exists()) artworkFile.path else null,
+            endsAt
+        )
+    }
+
+    private fun optTime(json: JSONObject, key: String): Long? =
+        if (json.has(key) && !json.isNull(key)) json.optLong(key) else null
+
+    private fun downloadArtwork(context: Context, url: String): Boolean {
+        return try {
+            val original = URL(url).openStream().use { BitmapFactory.decodeStream(it) } ?: return false
+            val scaled = Bitmap.createScaledBitmap(original, ARTWORK_SIZE_PX, ARTWORK_SIZE_PX, true)
+            FileOutputStream(File(context.filesDir, ARTWORK_FILE)).use {
+                scaled.compress(Bitmap.CompressFormat.PNG, 100, it)
+            }
+            true
+        } catch (e: Exception) {
+            Log.w(TAG, "Failed to download widget artwork", e)
+            false
+        }
+    }
+}
+`;
+
+// Native -> JS bridge. Mirrors the CarPlay bridge (plugins/withCarPlay.js): a
+// play tap can land before JS is listening, so it is buffered and replayed when
+// the first listener attaches.
+const WIDGET_BRIDGE_KOTLIN = `package com.oootini.eistapp.widget
+
+import android.app.Activity
+import android.content.Intent
+import com.facebook.react.bridge.BaseActivityEventListener
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.modules.core.DeviceEventManagerModule
+import kotlin.concurrent.thread
+
+class EistWidgetBridgeModule(private val reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        const val NAME = "EistWidgetBridge"
+        const val PLAY_EVENT = "EistWidgetPlay"
+    }
+
+    private var hasListeners = false
+    private var pendingPlay = false
+
+    private val activityListener = object : BaseActivityEventListener() {
+        override fun onNewIntent(intent: Intent) {
+            if (consumePlayIntent(intent)) requestPlay()
+        }
+    }
+
+    init {
+        reactContext.addActivityEventListener(activityListener)
+    }
+
+    override fun getName() = NAME
+
+    @ReactMethod
+    fun update(json: String) {
+        thread(name = "EistWidgetUpdate") {
+            NowPlayingWidgetStore.save(reactContext, json)
+            NowPlayingWidgetProvider.refreshAll(reactContext)
+        }
+    }
+
+    @ReactMethod
+    fun addListener(eventName: String) {
+        if (hasListeners) return
+        hasListeners = true
+        // Cold start from the widget: the play tap is the launch intent
+        val activity: Activity? = reactContext.currentActivity
+        if (activity != null && consumePlayIntent(activity.intent)) pendingPlay = true
+        if (pendingPlay) {
+            pendingPlay = false
+            emitPlay()
+        }
+    }
+
+    @ReactMethod
+    fun removeListeners(count: Int) {
+        // Listeners live as long as the app; nothing to tear down
+    }
+
+    private fun consumePlayIntent(intent: Intent?): Boolean {
+        if (intent?.action != NowPlayingWidgetProvider.ACTION_PLAY) return false
+        // So a config change or relaunch doesn't replay it
+        intent.action = Intent.ACTION_MAIN
+        return true
+    }
+
+    private fun requestPlay() {
+        if (hasListeners) emitPlay() else pendingPlay = true
+    }
+
+    private fun emitPlay() {
+        reactContext
+            .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+            .emit(PLAY_EVENT, null)
+    }
+}
+`;
+
+const WIDGET_PACKAGE_KOTLIN = `package com.oootini.eistapp.widget
+
+import com.facebook.react.ReactPackage
+import com.facebook.react.bridge.NativeModule
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.uimanager.ViewManager
+
+class EistWidgetBridgePackage : ReactPackage {
+    override fun createNativeModules(reactContext: ReactApplicationContext): List<NativeModule> =
+        listOf(EistWidgetBridgeModule(reactContext))
+
+    override fun createViewManagers(reactContext: ReactApplicationContext): List<ViewManager<*, *>> =
+        emptyList()
+}
+`;
+
+const WIDGET_LAYOUT_XML = `<?xml version="1.0" encoding="utf-8"?>
+<LinearLayout xmlns:android="http://schemas.android.com/apk/res/android"
+    android:id="@+id/widget_root"
+    android:layout_width="match_parent"
+    android:layout_height="match_parent"
+    android:background="@drawable/now_playing_widget_background"
+    android:gravity="center_vertical"
+    android:orientation="horizontal"
+    android:padding="12dp">
+
+    <ImageView
+        android:id="@+id/widget_artwork"
+        android:layout_width="64dp"
+        android:layout_height="64dp"
+        android:contentDescription="@null"
+        android:scaleType="centerCrop" />
+
+    <LinearLayout
+        android:layout_width="0dp"
+        android:layout_height="wrap_content"
+        android:layout_marginStart="12dp"
+        android:layout_marginEnd="8dp"
+        android:layout_weight="1"
+        android:orientation="vertical">
+
+        <TextView
+            android:id="@+id/widget_title"
+            android:layout_width="match_parent"
+            android:layout_height="wrap_content"
+            android:ellipsize="end"
+            android:maxLines="1"
+            android:textColor="#AFFC41"
+            android:textSize="16sp"
+            android:textStyle="bold" />
+
+        <TextView
+            android:id="@+id/widget_host"
+            android:layout_width="match_parent"
+            android:layout_height="wrap_content"
+            android:ellipsize="end"
+            android:maxLines="1"
+            android:textColor="#E7E5E5"
+            android:textSize="13sp" />
+
+        <TextView
+            android:id="@+id/widget_time"
+            android:layout_width="match_parent"
+            android:layout_height="wrap_content"
+            android:maxLines="1"
+            android:textColor="#E7E5E5"
+            android:textSize="13sp" />
+
+        <TextView
+            android:id="@+id/widget_next"
+            android:layout_width="match_parent"
+            android:layout_height="wrap_content"
+            android:layout_marginTop="4dp"
+            android:ellipsize="end"
+            android:maxLines="1"
+            android:textColor="#8CE7E5E5"
+            android:textSize="12sp" />
+    </LinearLayout>
+
+    <ImageButton
+        android:id="@+id/widget_play"
+        android:layout_width="48dp"
+        android:layout_height="48dp"
+        android:background="@android:color/transparent"
+        android:contentDescription="@string/now_playing_widget_play"
+        android:src="@android:drawable/ic_media_play"
+        android:tint="#AFFC41" />
+</LinearLayout>
+`;
+
+const WIDGET_BACKGROUND_XML = `<?xml version="1.0" encoding="utf-8"?>
+<shape xmlns:android="http://schemas.android.com/apk/res/android" android:shape="rectangle">
+    <solid android:color="#4733FF" />
+    <corners android:radius="16dp" />
+</shape>
+`;
+
+// updatePeriodMillis is only a floor-level safety net (Android clamps it to 30
+// minutes); the end-of-show alarm and pushes from the app do the real work.
+const WIDGET_INFO_XML = `<?xml version="1.0" encoding="utf-8"?>
+<appwidget-provider xmlns:android="http://schemas.android.com/apk/res/android"
+    android:description="@string/now_playing_widget_description"
+    android:initialLayout="@layout/now_playing_widget"
+    android:minWidth="250dp"
+    android:minHeight="80dp"
+    android:resizeMode="horizontal"
+    android:targetCellWidth="4"
+    android:targetCellHeight="1"
+    android:updatePeriodMillis="1800000"
+    android:widgetCategory="home_screen" />
+`;
+
+const WIDGET_STRINGS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <string name="now_playing_widget_description">What\\'s on éist now and next</string>
+    <string name="now_playing_widget_play">Play éist</string>
+</resources>
+`;
+
+function withWidgetManifest(config) {
+  return withAndroidManifest(config, (config) => {
+    const application = config.modResults.manifest.application?.[0];
+    if (!application) {
+      throw new Error('Could not find application in AndroidManifest.xml');
+    }
+
+    if (!application.receiver) {
+      application.receiver = [];
+    }
+
+    const hasWidgetReceiver = application.receiver.some(
+      (receiver) => receiver.$?.['android:name'] === '.widget.NowPlayingWidgetProvider'
+    );
+
+    if (!hasWidgetReceiver) {
+      application.receiver.push({
+        $: {
+          'android:name': '.widget.NowPlayingWidgetProvider',
+          'android:exported': 'false',
+          'android:label': '@string/now_playing_widget_description',
+        },
+        'intent-filter': [
+          {
+            action: [{ $: { 'android:name': 'android.appwidget.action.APPWIDGET_UPDATE' } }],
+          },
+        ],
+        'meta-data': [
+          {
+            $: {
+              'android:name': 'android.appwidget.provider',
+              'android:resource': '@xml/now_playing_widget_info',
+            },
+          },
+        ],
+      });
+    }
+
+    return config;
+  });
+}
+
+function withWidgetPackage(config) {
+  return withMainApplication(config, (config) => {
+    const packageName = config.android?.package || 'com.oootini.eistapp';
+    let contents = config.modResults.contents;
+
+    contents = mergeContents({
+      tag: 'eist-widget-import',
+      src: contents,
+      newSrc: `import ${packageName}.widget.EistWidgetBridgePackage`,
+      anchor: /^import android\.app\.Application/m,
+      offset: 0,
+      comment: '//',
+    }).contents;
+
+    // The template has either `val packages = PackageList(this).packages` or
+    // `PackageList(this).packages.apply {`; add ours on the line after
+    const usesApply = /PackageList\(this\)\.packages\.apply/.test(contents);
+    contents = mergeContents({
+      tag: 'eist-widget-package',
+      src: contents,
+      newSrc: usesApply
+        ? '              add(EistWidgetBridgePackage())'
+        : '            packages.add(EistWidgetBridgePackage())',
+      anchor: /PackageList\(this\)\.packages/,
+      offset: 1,
+      comment: '//',
+    }).contents;
+
+    config.modResults.contents = contents;
+    return config;
+  });
+}
+
+function withWidgetSources(config) {
+  return withDangerousMod(config, [
+    'android',
+    async (config) => {
+      const projectRoot = config.modRequest.projectRoot;
+      const packageName = config.android?.package || 'com.oootini.eistapp';
+      const mainDir = path.join(projectRoot, 'android', 'app', 'src', 'main');
+      const resDir = path.join(mainDir, 'res');
+      const widgetDir = path.join(mainDir, 'java', ...packageName.split('.'), 'widget');
+
+      const write = (dir, name, contents) => {
+        if (!fs.existsSync(dir)) {
+          fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(path.join(dir, name), contents);
+      };
+
+      // Update package name in Kotlin sources if different
+      const kotlin = (source) => source.replace(/com\.oootini\.eistapp/g, packageName);
+
+      write(widgetDir, 'NowPlayingWidgetProvider.kt', kotlin(WIDGET_PROVIDER_KOTLIN));
+      write(widgetDir, 'NowPlayingWidgetStore.kt', kotlin(WIDGET_STORE_KOTLIN));
+      write(widgetDir, 'EistWidgetBridgeModule.kt', kotlin(WIDGET_BRIDGE_KOTLIN));
+      write(widgetDir, 'EistWidgetBridgePackage.kt', kotlin(WIDGET_PACKAGE_KOTLIN));
+
+      write(path.join(resDir, 'layout'), 'now_playing_widget.xml', WIDGET_LAYOUT_XML);
+      write(path.join(resDir, 'drawable'), 'now_playing_widget_background.xml', WIDGET_BACKGROUND_XML);
+      write(path.join(resDir, 'xml'), 'now_playing_widget_info.xml', WIDGET_INFO_XML);
+      write(path.join(resDir, 'values'), 'now_playing_widget_strings.xml', WIDGET_STRINGS_XML);
+
+      return config;
+    },
+  ]);
+}
+
+function withAndroidWidget(config) {
+  config = withWidgetManifest(config);
+  config = withWidgetPackage(config);
+  config = withWidgetSources(config);
+  return config;
+}
+
+module.exports = withAndroidWidget;
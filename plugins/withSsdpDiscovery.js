@@ -0,0 +1,349 @@
+const {
+  withAndroidManifest,
+  withDangerousMod,
+  withMainApplication,
+} = require('@expo/config-plugins');
+const { mergeContents } = require('@expo/config-plugins/build/utils/generateCode');
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Expo config plugin: SSDP discovery for UPnP/DLNA speakers (Android only).
+ *
+ * React Native can't send UDP, so finding renderers needs a native module.
+ * EistSsdp multicasts an M-SEARCH to 239.255.255.250:1900 and resolves with
+ * the LOCATION, USN and SERVER of every reply that arrives before the timeout.
+ * The device descriptions and SOAP control that follow are built and read in
+ * JS (utils/upnp.ts).
+ *
+ * Android drops multicast replies unless a Wi-Fi MulticastLock is held, so the
+ * module takes one for the length of each search.
+ *
+ * Renderers serve their descriptions and control URLs over plain HTTP on the
+ * LAN, which the app's network security policy blocks. Rather than allow
+ * cleartext for the whole app, EistSsdp also makes those requests itself, over
+ * a raw socket (the platform HTTP clients enforce the policy), and refuses
+ * any address that isn't private, link-local or loopback.
+ *
+ * iOS isn't covered: multicast there needs the
+ * com.apple.developer.networking.multicast entitlement, which Apple grants on
+ * request. Without EistSsdp the app just doesn't offer speakers.
+ *
+ * NOTE: `android/` is prebuild-generated, so all of this lives in the plugin.
+ */
+
+const SSDP_MODULE_KOTLIN = `package com.oootini.eistapp.ssdp
+
+import android.content.Context
+import android.net.wifi.WifiManager
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.ReadableMap
+import com.facebook.react.bridge.WritableMap
+import java.io.ByteArrayOutputStream
+import java.io.IOException
+import java.io.InputStream
+import java.net.DatagramPacket
+import java.net.DatagramSocket
+import java.net.Inet6Address
+import java.net.InetAddress
+import java.net.InetSocketAddress
+import java.net.Socket
+import java.net.SocketTimeoutException
+import java.net.URL
+
+class EistSsdpModule(private val reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        const val NAME = "EistSsdp"
+        private const val MULTICAST_ADDRESS = "239.255.255.250"
+        private const val MULTICAST_PORT = 1900
+        // Seconds a device may wait before answering, per the UPnP spec
+        private const val MX = 2
+        // Descriptions and SOAP replies are a few KB
+        private const val MAX_RESPONSE_BYTES = 1 shl 20
+        private val CRLF = "\r\n".toByteArray(Charsets.ISO_8859_1)
+    }
+
+    override fun getName() = NAME
+
+    @ReactMethod
+    fun search(searchTarget: String, timeoutMs: Int, promise: Promise) {
+        // Blocking socket work; keep it off the JS and UI threads
+        Thread {
+            val wifi = reactContext.applicationContext.getSystemService(Context.WIFI_SERVICE) as WifiManager
+            val lock = wifi.createMulticastLock("eist-ssdp")
+            lock.setReferenceCounted(false)
+            var socket: DatagramSocket? = null
+            try {
+                lock.acquire()
+                socket = DatagramSocket()
+                val request = (
+                    "M-SEARCH * HTTP/1.1\\r\\n" +
+                    "HOST: $MULTICAST_ADDRESS:$MULTICAST_PORT\\r\\n" +
+                    "MAN: \\"ssdp:discover\\"\\r\\n" +
+                    "MX: $MX\\r\\n" +
+                    "ST: $searchTarget\\r\\n\\r\\n"
+                ).toByteArray(Charsets.UTF_8)
+                val group = InetAddress.getByName(MULTICAST_ADDRESS)
+                // UDP can drop the request; a second copy is the usual remedy
+                repeat(2) { socket.send(DatagramPacket(request, request.size, group, MULTICAST_PORT)) }
+
+                val results = Arguments.createArray()
+                val buffer = ByteArray(2048)
+                val deadline = System.currentTimeMillis() + timeoutMs
+                while (true) {
+                    val remaining = deadline - System.currentTimeMillis()
+                    if (remaining <= 0) break
+                    socket.soTimeout = remaining.toInt()
+                    val packet = DatagramPacket(buffer, buffer.size)
+                    try {
+                        socket.receive(packet)
+                    } catch (e: SocketTimeoutException) {
+                        break
+                    }
+                    val headers = parseHeaders(String(packet.data, 0, packet.length, Charsets.UTF_8))
+                    val location = headers["location"] ?: continue
+                    val result = Arguments.createMap()
+                    result.putString("location", location)
+                    result.putString("usn", headers["usn"] ?: "")
+                    headers["server"]?.let { result.putString("server", it) }
+                    results.pushMap(result)
+                }
+                promise.resolve(results)
+            } catch (e: Exception) {
+                promise.reject("E_SSDP_SEARCH", e.message, e)
+            } finally {
+                socket?.close()
+                if (lock.isHeld) lock.release()
+            }
+        }.start()
+    }
+
+    // One plain-HTTP request to a device on the LAN. Resolves with the status
+    // and body whatever the status; rejects on a network error, a timeout or
+    // an address off the local network.
+    @ReactMethod
+    fun request(url: String, method: String, headers: ReadableMap, body: String?, timeoutMs: Int, promise: Promise) {
+        Thread {
+            try {
+                val target = URL(url)
+                if (target.protocol != "http") throw IOException("Only http:// URLs are supported")
+                val address = InetAddress.getByName(target.host)
+                if (!isLocalAddress(address)) throw IOException("Not a local network address: " + target.host)
+                val port = if (target.port == -1) 80 else target.port
+                val payload = (body ?: "").toByteArray(Charsets.UTF_8)
+
+                val head = StringBuilder()
+                    .append(method).append(' ').append(target.file.ifEmpty { "/" }).append(" HTTP/1.1\r\n")
+                    .append("Host: ").append(target.host).append(':').append(port).append("\r\n")
+                    .append("Connection: close\r\n")
+                val names = headers.keySetIterator()
+                while (names.hasNextKey()) {
+                    val name = names.nextKey()
+                    head.append(name).append(": ").append(headers.getString(name)).append("\r\n")
+                }
+                if (body != null) head.append("Content-Length: ").append(payload.size).append("\r\n")
+                head.append("\r\n")
+
+                Socket().use { socket ->
+                    socket.connect(InetSocketAddress(address, port), timeoutMs)
+                    socket.soTimeout = timeoutMs
+                    val output = socket.getOutputStream()
+                    output.write(head.toString().toByteArray(Charsets.UTF_8))
+                    output.write(payload)
+                    output.flush()
+                    promise.resolve(readResponse(socket.getInputStream()))
+                }
+            } catch (e: Exception) {
+                promise.reject("E_SSDP_REQUEST", e.message, e)
+            }
+        }.start()
+    }
+
+    private fun isLocalAddress(address: InetAddress): Boolean =
+        address.isSiteLocalAddress || address.isLinkLocalAddress || address.isLoopbackAddress ||
+            // IPv6 unique local addresses (fc00::/7), which Java doesn't count as site-local
+            (address is Inet6Address && (address.address[0].toInt() and 0xfe) == 0xfc)
+
+    // Reads to the end (the request asked for Connection: close)
+    private fun readResponse(input: InputStream): WritableMap {
+        val raw = ByteArrayOutputStream()
+        val buffer = ByteArray(8192)
+        while (true) {
+            val read = input.read(buffer)
+            if (read == -1) break
+            raw.write(buffer, 0, read)
+            if (raw.size() > MAX_RESPONSE_BYTES) throw IOException("Response too large")
+        }
+        val bytes = raw.toByteArray()
+        val headEnd = indexOf(bytes, CRLF + CRLF, 0)
+        if (headEnd < 0) throw IOException("Malformed HTTP response")
+        val head = String(bytes, 0, headEnd, Charsets.ISO_8859_1)
+        val status = head.substringBefore("\r\n").split(' ').getOrNull(1)?.toIntOrNull()
+            ?: throw IOException("Malformed HTTP status line")
+        val headers = parseHeaders(head)
+
+        var content = bytes.copyOfRange(headEnd + 4, bytes.size)
+        if (headers["transfer-encoding"]?.lowercase()?.contains("chunked") == true) {
+            content = dechunk(content)
+        } else {
+            val length = headers["content-length"]?.toIntOrNull()
+            if (length != null && length < content.size) content = content.copyOf(length)
+        }
+
+        val result = Arguments.createMap()
+        result.putInt("status", status)
+        result.putString("body", String(content, Charsets.UTF_8))
+        return result
+    }
+
+    private fun dechunk(data: ByteArray): ByteArray {
+        val output = ByteArrayOutputStream()
+        var index = 0
+        while (index < data.size) {
+            val lineEnd = indexOf(data, CRLF, index)
+            if (lineEnd < 0) break
+            val size = String(data, index, lineEnd - index, Charsets.ISO_8859_1)
+                .substringBefore(';').trim().toIntOrNull(16) ?: break
+            if (size == 0) break
+            val start = lineEnd + 2
+            output.write(data, start, minOf(size, data.size - start))
+            index = start + size + 2
+        }
+        return output.toByteArray()
+    }
+
+    private fun indexOf(data: ByteArray, pattern: ByteArray, from: Int): Int {
+        outer@ for (i in from..data.size - pattern.size) {
+            for (j in pattern.indices) {
+                if (data[i + j] != pattern[j]) continue@outer
+            }
+            return i
+        }
+        return -1
+    }
+
+    // Header names lower-cased; the status line is skipped
+    private fun parseHeaders(response: String): Map<String, String> =
+        response.split("\\r\\n")
+            .drop(1)
+            .mapNotNull { line ->
+                val colon = line.indexOf(':')
+                if (colon <= 0) null else line.substring(0, colon).trim().lowercase() to line.substring(colon + 1).trim()
+            }
+            .toMap()
+}
+`;
+
+const SSDP_PACKAGE_KOTLIN = `package com.oootini.eistapp.ssdp
+
+import com.facebook.react.ReactPackage
+import com.facebook.react.bridge.NativeModule
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.uimanager.ViewManager
+
+class EistSsdpPackage : ReactPackage {
+    override fun createNativeModules(reactContext: ReactApplicationContext): List<NativeModule> =
+        listOf(EistSsdpModule(reactContext))
+
+    override fun createViewManagers(reactContext: ReactApplicationContext): List<ViewManager<*, *>> =
+        emptyList()
+}
+`;
+
+const PERMISSIONS = [
+  'android.permission.CHANGE_WIFI_MULTICAST_STATE',
+  'android.permission.ACCESS_WIFI_STATE',
+];
+
+function withSsdpDiscovery(config) {
+  // Step 1: Permissions for the multicast lock
+  config = withAndroidManifest(config, async (config) => {
+    const manifest = config.modResults.manifest;
+
+    if (!manifest['uses-permission']) {
+      manifest['uses-permission'] = [];
+    }
+    for (const permission of PERMISSIONS) {
+      const hasPermission = manifest['uses-permission'].some(
+        (entry) => entry.$?.['android:name'] === permission
+      );
+      if (!hasPermission) {
+        manifest['uses-permission'].push({ $: { 'android:name': permission } });
+      }
+    }
+
+    return config;
+  });
+
+  // Step 2: Write the ssdp/ Kotlin sources
+  config = withDangerousMod(config, [
+    'android',
+    async (config) => {
+      const projectRoot = config.modRequest.projectRoot;
+      const packageName = config.android?.package || 'com.oootini.eistapp';
+
+      const ssdpDir = path.join(
+        projectRoot,
+        'android',
+        'app',
+        'src',
+        'main',
+        'java',
+        ...packageName.split('.'),
+        'ssdp'
+      );
+      if (!fs.existsSync(ssdpDir)) {
+        fs.mkdirSync(ssdpDir, { recursive: true });
+      }
+
+      const kotlin = (source) =>
+        source.replace('package com.oootini.eistapp.ssdp', `package ${packageName}.ssdp`);
+
+      fs.writeFileSync(path.join(ssdpDir, 'EistSsdpModule.kt'), kotlin(SSDP_MODULE_KOTLIN));
+      fs.writeFileSync(path.join(ssdpDir, 'EistSsdpPackage.kt'), kotlin(SSDP_PACKAGE_KOTLIN));
+
+      return config;
+    },
+  ]);
+
+  // Step 3: Register EistSsdp in MainApplication
+  config = withMainApplication(config, (config) => {
+    const packageName = config.android?.package || 'com.oootini.eistapp';
+    let contents = config.modResults.contents;
+
+    contents = mergeContents({
+      tag: 'ssdp-discovery-import',
+      src: contents,
+      newSrc: `import ${packageName}.ssdp.EistSsdpPackage`,
+      anchor: /^import android\.app\.Application/m,
+      offset: 0,
+      comment: '//',
+    }).contents;
+
+    // Same two template shapes as the widget plugin (withAndroidWidget.js)
+    const usesApply = /PackageList\(this\)\.packages\.apply/.test(contents);
+    contents = mergeContents({
+      tag: 'ssdp-discovery-package',
+      src: contents,
+      newSrc: usesApply
+        ? '              add(EistSsdpPackage())'
+        : '            packages.add(EistSsdpPackage())',
+      anchor: /PackageList\(this\)\.packages/,
+      offset: 1,
+      comment: '//',
+    }).contents;
+
+    config.modResults.contents = contents;
+    return config;
+  });
+
+  return config;
+}
+
+module.exports = withSsdpDiscovery;
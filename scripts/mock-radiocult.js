@@ -0,0 +1,259 @@
+// scripts/mock-radiocult.js
+//
+// A local stand-in for the RadioCult station API, for exercising
+// utils/radiocultClient.ts without the real service. Serves a live show, a
+// week of schedule and a few artists, all relative to the current time.
+//
+// It also stands in for the archive side of the éist API (/api/shows,
+// /api/shows/:slug/audio, /api/artists/...), with a few past shows whose
+// audio is a generated tone, so archive playback, downloads and casting can
+// be tried without real recordings. One show has no audio, for the
+// external-link fallback. See "Archive API" in the README for the contract.
+//
+//   node scripts/mock-radiocult.js            # well-formed responses
+//   MOCK_MODE=malformed node scripts/...      # broken payloads
+//   MOCK_MODE=flaky node scripts/...          # every other request is a 503
+//   MOCK_MODE=slow node scripts/...           # responds after 15s (past the client timeout)
+//
+// Then start the app with RADIOCULT_API_BASE_URL=http://<your-ip>:4010/api
+// and, for the archive, EIST_API_BASE_URL=http://<your-ip>:4010 with EIST_ARCHIVE_AUDIO=1.
+
+const http = require('http');
+
+const PORT = Number(process.env.PORT || 4010);
+const MODE = process.env.MOCK_MODE || 'ok';
+const HOUR = 60 * 60 * 1000;
+
+const artists = [
+  { id: 'artist-1', name: 'Mock Host', logo: { '512x512': 'https://picsum.photos/seed/eist1/512' } },
+  { id: 'artist-2', name: 'Second Host', logo: { '512x512': 'https://picsum.photos/seed/eist2/512' } },
+  { id: 'artist-3', name: 'Night Shift' },
+];
+
+function hourStart(offsetHours) {
+  const d = new Date(Date.now() + offsetHours * HOUR);
+  d.setUTCMinutes(0, 0, 0);
+  return d;
+}
+
+function show(id, title, startOffsetHours, artistId) {
+  const start = hourStart(startOffsetHours);
+  return {
+    id,
+    stationId: 'eist-radio',
+    title,
+    startDateUtc: start.toISOString(),
+    endDateUtc: new Date(start.getTime() + 2 * HOUR).toISOString(),
+    description: { content: [{ type: 'paragraph', content: [{ type: 'text', text: `${title} on the mock station.` }] }] },
+    duration: 120,
+    timezone: 'Europe/Dublin',
+    artistIds: [artistId],
+    isRecurring: false,
+    media: { type: 'live' },
+  };
+}
+
+function schedule() {
+  const shows = [show('show-now', 'Mock Live Show', 0, 'artist-1')];
+  for (let day = 0; day < 8; day++) {
+    shows.push(show(`show-${day}-a`, `Morning Mock ${day}`, 2 + day * 24, 'artist-2'));
+    shows.push(show(`show-${day}-b`, `Late Mock ${day}`, 8 + day * 24, 'artist-3'));
+  }
+  return shows;
+}
+
+function wellFormed(route) {
+  if (route === '/schedule/live') {
+    return { result: { status: 'schedule', content: schedule()[0], metadata: {} } };
+  }
+  if (route === '/schedule') return { schedules: schedule() };
+  if (route === '/artists') return { artists };
+  const match = route.match(/^\/artists\/([^/]+)$/);
+  if (match) {
+    const artist = artists.find((a) => a.id === decodeURIComponent(match[1]));
+    return artist ? { artist } : null;
+  }
+  return null;
+}
+
+function malformed(route) {
+  if (route === '/schedule/live') return { result: { status: 'schedule', content: { id: 42 } } };
+  // One good item among broken ones: the client should keep just that one
+  if (route === '/schedule') return { schedules: [schedule()[1], { id: 'no-dates' }, null, 'x'] };
+  if (route === '/artists') return { artists: [artists[0], { name: 'no id' }] };
+  if (route.startsWith('/artists/')) return { artist: { name: 123 } };
+  return null;
+}
+
+// Archive shows, most recent first. The last has no audio.
+function archiveShows() {
+  return [
+    { slug: 'mock-archive-morning', title: 'Morning Mock (archive)', artist: artists[1], daysAgo: 1 },
+    { slug: 'mock-archive-late', title: 'Late Mock (archive)', artist: artists[2], daysAgo: 2 },
+    { slug: 'mock-archive-live', title: 'Mock Live Show (archive)', artist: artists[0], daysAgo: 7 },
+    { slug: 'mock-archive-no-audio', title: 'No Audio Mock', artist: artists[0], daysAgo: 14 },
+  ].map(({ slug, title, artist, daysAgo }) => {
+    const start = hourStart(-daysAgo * 24);
+    return {
+      id: slug,
+      title,
+      slug,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + 2 * HOUR).toISOString(),
+      artistIds: [artist.id],
+      artistName: artist.name,
+      artistSlug: slugify(artist.name),
+      mixcloud_match: null,
+      soundcloud_match: null,
+      match_score: 0,
+    };
+  });
+}
+
+function slugify(name) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+const AUDIO_SECONDS = 300;
+const SAMPLE_RATE = 8000;
+let toneWav = null;
+
+// Five minutes of a quiet 440 Hz tone, as 8-bit mono WAV
+function archiveAudio() {
+  if (toneWav) return toneWav;
+  const samples = AUDIO_SECONDS * SAMPLE_RATE;
+  const wav = Buffer.alloc(44 + samples);
+  wav.write('RIFF', 0);
+  wav.writeUInt32LE(36 + samples, 4);
+  wav.write('WAVEfmt ', 8);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(SAMPLE_RATE, 24);
+  wav.writeUInt32LE(SAMPLE_RATE, 28); // byte rate
+  wav.writeUInt16LE(1, 32); // block align
+  wav.writeUInt16LE(8, 34); // bits per sample
+  wav.write('data', 36);
+  wav.writeUInt32LE(samples, 40);
+  for (let i = 0; i < samples; i++) {
+    wav[44 + i] = 128 + Math.round(16 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE));
+  }
+  toneWav = wav;
+  return wav;
+}
+
+// Routes of the éist API, by path. `origin` is how the caller reached us, so
+// audio URLs work from a device on the LAN.
+function eistApi(url, origin) {
+  const shows = archiveShows();
+  if (url.pathname === '/api/shows') {
+    let results = shows;
+    const artistSlug = url.searchParams.get('artistSlug');
+    const q = url.searchParams.get('q')?.toLowerCase();
+    if (artistSlug) results = results.filter((s) => s.artistSlug === artistSlug);
+    if (q) results = results.filter((s) => `${s.title} ${s.artistName}`.toLowerCase().includes(q));
+    const limit = Number(url.searchParams.get('limit') || 50);
+    const offset = Number(url.searchParams.get('offset') || 0);
+    return {
+      shows: results.slice(offset, offset + limit),
+      pagination: { total: results.length, limit, offset, hasMore: offset + limit < results.length },
+    };
+  }
+  if (url.pathname === '/api/artists/mapping') {
+    return Object.fromEntries(artists.map((a) => [a.id, { name: a.name, slug: slugify(a.name) }]));
+  }
+  if (url.pathname === '/api/artists/stats') {
+    return artists.map((a) => {
+      const own = shows.filter((s) => s.artistIds.includes(a.id));
+      return {
+        name: a.name,
+        slug: slugify(a.name),
+        totalShows: own.length,
+        showsWithArchive: own.length,
+        latestShow: own[0]?.start ?? hourStart(-30 * 24).toISOString(),
+      };
+    });
+  }
+  const match = url.pathname.match(/^\/api\/shows\/([^/]+)(\/audio)?$/);
+  if (match) {
+    const show = shows.find((s) => s.slug === decodeURIComponent(match[1]));
+    if (!show) return null;
+    if (!match[2]) return show;
+    if (show.slug === 'mock-archive-no-audio') return null;
+    return { url: `${origin}/audio/${show.slug}.wav`, duration: AUDIO_SECONDS, contentType: 'audio/wav' };
+  }
+  return null;
+}
+
+// The tone, with Range support so players can seek
+function sendAudio(req, res) {
+  const audio = archiveAudio();
+  const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range || '');
+  if (!range) {
+    res.writeHead(200, { 'Content-Type': 'audio/wav', 'Content-Length': audio.length, 'Accept-Ranges': 'bytes' });
+    res.end(audio);
+    return;
+  }
+  const start = range[1] ? Number(range[1]) : Math.max(0, audio.length - Number(range[2]));
+  const end = range[1] && range[2] ? Math.min(Number(range[2]), audio.length - 1) : audio.length - 1;
+  if (start > end || start >= audio.length) {
+    res.writeHead(416, { 'Content-Range': `bytes */${audio.length}` });
+    res.end();
+    return;
+  }
+  res.writeHead(206, {
+    'Content-Type': 'audio/wav',
+    'Content-Length': end - start + 1,
+    'Content-Range': `bytes ${start}-${end}/${audio.length}`,
+    'Accept-Ranges': 'bytes',
+  });
+  res.end(audio.subarray(start, end + 1));
+}
+
+let requestCount = 0;
+
+const server = http.createServer((req, res) => {
+  requestCount++;
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/api\/station\/[^/]+(\/.*)$/);
+  const route = match ? match[1] : '';
+  console.log(`${req.method} ${url.pathname}${url.search} [${MODE}]`);
+
+  const send = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  // The archive side ignores MOCK_MODE; the modes are for the RadioCult client
+  if (!match) {
+    if (/^\/audio\/[^/]+\.wav$/.test(url.pathname)) {
+      sendAudio(req, res);
+      return;
+    }
+    const archive = eistApi(url, `http://${req.headers.host}`);
+    send(archive === null ? 404 : 200, archive ?? { error: 'Not Found' });
+    return;
+  }
+
+  if (MODE === 'flaky' && requestCount % 2 === 1) {
+    send(503, { error: 'Service Unavailable' });
+    return;
+  }
+
+  const body = MODE === 'malformed' ? malformed(route) : wellFormed(route);
+  if (body === null) {
+    send(404, { error: 'Not Found' });
+    return;
+  }
+
+  if (MODE === 'slow') {
+    setTimeout(() => send(200, body), 15_000);
+    return;
+  }
+  send(200, body);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock RadioCult API (${MODE}) on http://localhost:${PORT}/api`);
+  console.log(`Mock éist archive API on http://localhost:${PORT}`);
+});
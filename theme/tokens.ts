@@ -1,9 +1,10 @@
 // theme/tokens.ts
 import { TextStyle } from 'react-native';
+import { STATION } from '../config';
 
 export const colors = {
-  purple: '#4733FF',
-  green: '#AFFC41',
+  purple: STATION.colours.primary,
+  green: STATION.colours.secondary,
   text: '#E7E5E5',
   textDim: 'rgba(231,229,229,0.55)',
   pillDim: 'rgba(175,252,65,0.28)',
@@ -15,7 +16,7 @@ export const font = {
   body: 'FunnelSans',
 } as const;
 
-export const PAGE_COUNT = 6;
+export const PAGE_COUNT = 7;
 export const space = { screenX: 30, topGap: 6 } as const;
 
 // shared text fragments (colour applied at call site)
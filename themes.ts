@@ -1,7 +1,8 @@
 import { DefaultTheme, DarkTheme, Theme } from '@react-navigation/native'
+import { colors } from './theme/tokens'
 
-const EIST_GREEN = '#AFFC41'
-const EIST_PURPLE = '#4733FF'
+const EIST_GREEN = colors.green
+const EIST_PURPLE = colors.purple
 
 export const EistLightTheme: Theme = {
   ...DefaultTheme,
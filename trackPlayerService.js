@@ -1,7 +1,19 @@
 // trackPlayerService.js
 import TrackPlayer, { Event, State } from 'react-native-track-player';
+import { recordStreamState, startStreamSession } from './utils/streamHealth';
+import { getCurrentStreamQuality, getStreamVariant } from './utils/streamQuality';
 
-const STREAM_URL = 'https://eist-radio.radiocult.fm/stream';
+// True when an archive show (added by TrackPlayerContext.playArchiveShow) is
+// loaded rather than the live stream. Archive tracks pause and resume in place;
+// only the live stream is restarted fresh.
+const isOnDemandActive = async () => {
+  try {
+    const track = await TrackPlayer.getActiveTrack();
+    return track?.isLiveStream === false;
+  } catch {
+    return false;
+  }
+};
 
 // Start fresh stream
 const startFreshStream = async () => {
@@ -19,14 +31,21 @@ const startFreshStream = async () => {
     // Small delay to ensure cleanup
     await new Promise(resolve => setTimeout(resolve, 100));
     
-    // Re-add fresh stream track with preserved metadata if available
+    // A car or remote control starting the stream is a listening session
+    // like one started in the app (a no-op if one is already open)
+    const quality = await getCurrentStreamQuality();
+    startStreamSession(quality);
+
+    // Re-add fresh stream track with preserved metadata if available (an
+    // archive show's metadata doesn't carry over to the live stream)
+    const liveTrack = currentTrack?.isLiveStream ? currentTrack : undefined;
     const trackToAdd = {
       id: 'radio-stream-' + Date.now(), // Unique ID for fresh track
-      url: STREAM_URL,
-      title: currentTrack?.title || 'éist',
-      artist: currentTrack?.artist || '',
+      url: getStreamVariant(quality).url,
+      title: liveTrack?.title || 'éist',
+      artist: liveTrack?.artist || '',
       album: 'éist',
-      artwork: currentTrack?.artwork || require('./assets/images/eist-logo.png'),
+      artwork: liveTrack?.artwork || require('./assets/images/eist-logo.png'),
       isLiveStream: true,
     };
     
@@ -48,8 +67,19 @@ const startFreshStream = async () => {
 };
 
 module.exports = async function() {
+  // Stream health follows the player here rather than in the app, so sessions
+  // started from the car with no UI running are measured too. Archive shows
+  // never have a session open, so their states fall through.
+  TrackPlayer.addEventListener(Event.PlaybackState, ({ state }) => {
+    recordStreamState(state);
+  });
+
   TrackPlayer.addEventListener(Event.RemotePlay, async () => {
     try {
+      if (await isOnDemandActive()) {
+        await TrackPlayer.play();
+        return;
+      }
       await startFreshStream();
       // Force metadata refresh for Android Auto after play
       const queue = await TrackPlayer.getQueue();
@@ -102,6 +132,10 @@ module.exports = async function() {
     try {
       const { state } = await TrackPlayer.getPlaybackState();
       if (NON_PLAYING_STATES.includes(state)) {
+        if (await isOnDemandActive()) {
+          await TrackPlayer.play();
+          return;
+        }
         await startFreshStream();
       } else {
         await TrackPlayer.pause();
@@ -112,7 +146,25 @@ module.exports = async function() {
     }
   });
 
-  // Disable previous and next controls - they do nothing for live radio
+  // Seek controls only exist for archive shows (see updatePlayerCapabilities);
+  // the live stream never advertises them. Live jump-forward is the Android
+  // notification's Share button, handled in TrackPlayerContext.
+  TrackPlayer.addEventListener(Event.RemoteSeek, async ({ position }) => {
+    if (!(await isOnDemandActive())) return;
+    await TrackPlayer.seekTo(position).catch(() => {});
+  });
+  TrackPlayer.addEventListener(Event.RemoteJumpForward, async ({ interval }) => {
+    if (!(await isOnDemandActive())) return;
+    await TrackPlayer.seekBy(interval).catch(() => {});
+  });
+  TrackPlayer.addEventListener(Event.RemoteJumpBackward, async ({ interval }) => {
+    if (!(await isOnDemandActive())) return;
+    await TrackPlayer.seekBy(-interval).catch(() => {});
+  });
+
+  // Previous does nothing for live radio. Next is the media notification's
+  // "Remind me about next show" button on Android, handled in the app
+  // (NotificationContext) where reminders live.
   TrackPlayer.addEventListener(Event.RemoteNext, () => {
     // nothing
   });
@@ -58,6 +58,45 @@ export type ArchiveShow = {
   episode_info?: any;
 };
 
+// Direct audio for in-app playback of an archive show, resolved by the éist
+// API from the show's Mixcloud/SoundCloud match. Not every show has one.
+export type ArchiveAudio = {
+  url: string;
+  duration?: number; // seconds
+  contentType?: string;
+};
+
+// Where a listener got to in an archive show, plus when they last played it.
+// Keyed by ArchiveShow id; the show itself is kept so history rows render
+// without refetching.
+export type ListeningHistoryEntry = {
+  show: ArchiveShow;
+  position: number; // seconds
+  duration: number; // seconds, 0 if unknown
+  completed: boolean;
+  firstPlayedAt: string; // ISO
+  lastPlayedAt: string; // ISO
+};
+
+export type ListeningHistoryMap = {
+  [showId: string]: ListeningHistoryEntry;
+};
+
+// An archive show saved to device storage for offline listening. The show is
+// kept alongside the files so it can be listed and opened with no network.
+export type DownloadedShow = {
+  show: ArchiveShow;
+  audioUri: string; // file:// URI, resolved on load (stored by file name)
+  artworkUri?: string | null; // file:// URI, likewise
+  duration?: number; // seconds
+  bytes: number; // audio + artwork on disk
+  downloadedAt: string; // ISO
+};
+
+export type DownloadsMap = {
+  [showId: string]: DownloadedShow;
+};
+
 export type DerivedArtist = {
   id: string;
   slug: string;
@@ -0,0 +1,70 @@
+// types/castMessages.ts
+//
+// Messages on the urn:x-cast:com.eist.metadata channel between the app and
+// the cast receiver (workers/cast-receiver). Every message carries the
+// protocol version it was written against in `v`; utils/castProtocol.ts
+// builds and validates them on both ends.
+
+export type CastNextShow = {
+  title: string;
+  startDateUtc: string;
+};
+
+// App → receiver
+
+// The live show. Empty strings for anything unknown. The fields are the same
+// flat ones the unversioned (v1) receiver reads, so it keeps working.
+export type CastMetadataMessage = {
+  v: number;
+  type: 'metadata';
+  title: string;
+  djName: string;
+  showTime: string;
+  artworkUrl: string;
+  startDateUtc: string;
+  endDateUtc: string;
+};
+
+export type CastNextShowMessage = {
+  v: number;
+  type: 'next-show';
+  nextShow: CastNextShow | null;
+};
+
+export type CastPingMessage = {
+  v: number;
+  type: 'ping';
+  id: number;
+};
+
+// Receiver → app
+
+export type CastPongMessage = {
+  v: number;
+  type: 'pong';
+  id: number;
+};
+
+// Sent in answer to a ping, and whenever the receiver drops a message it
+// couldn't read (`rejected` says why)
+export type CastReceiverVersionMessage = {
+  v: number;
+  type: 'receiver-version';
+  receiverVersion: string;
+  protocolVersion: number;
+  rejected?: string;
+};
+
+export type CastStreamStatus = 'loading' | 'buffering' | 'playing' | 'paused' | 'ended' | 'error';
+
+// What the receiver's player is doing
+export type CastStreamStatusMessage = {
+  v: number;
+  type: 'stream-status';
+  status: CastStreamStatus;
+  detail?: string;
+};
+
+export type CastSenderMessage = CastMetadataMessage | CastNextShowMessage | CastPingMessage;
+export type CastReceiverMessage = CastPongMessage | CastReceiverVersionMessage | CastStreamStatusMessage;
+export type CastMessage = CastSenderMessage | CastReceiverMessage;
@@ -0,0 +1,25 @@
+// types/favourites.ts
+
+import { ArchiveShow } from './archive';
+
+// Saved archive shows and hosts. The artwork is copied to device storage when
+// an item is saved (`artworkUri`) so the Saved page still has it offline. It's
+// stored by file name and resolved to a file:// URI on load.
+export type FavouriteShow = {
+  showId: string;
+  show: ArchiveShow;
+  artworkUri?: string | null;
+  savedAt: string;
+};
+
+export type FavouriteArtist = {
+  artistId: string;
+  artistName: string;
+  artistSlug: string;
+  imageUrl?: string | null;
+  artworkUri?: string | null;
+  savedAt: string;
+};
+
+export type FavouriteShowsMap = Record<string, FavouriteShow>;
+export type FavouriteArtistsMap = Record<string, FavouriteArtist>;
@@ -1,5 +1,9 @@
 // types/notifications.ts
 
+// How early a show reminder fires: minutes before the start, or 19:00 the
+// evening before.
+export type ReminderLeadTime = 0 | 5 | 15 | 30 | 60 | 'evening_before';
+
 export type ShowReminder = {
   showId: string;
   showTitle: string;
@@ -7,6 +11,9 @@ export type ShowReminder = {
   startDateUtc: string;
   notificationId: string;
   createdAt: string;
+  leadTime: ReminderLeadTime;
+  // Picked for this show; otherwise it follows the default lead time
+  customLeadTime: boolean;
 };
 
 export type ArtistSubscription = {
@@ -24,3 +31,28 @@ export type NotificationPermissionStatus =
   | 'undetermined'
   | 'granted'
   | 'denied';
+
+// Wake-up alarms. `weekdays` uses expo-notifications' weekly-trigger numbering
+// (1 = Sunday … 7 = Saturday) so it can be passed straight to the scheduler.
+export type WakeAlarm = {
+  alarmId: string;
+  hour: number;
+  minute: number;
+  weekdays: number[];
+  notificationIds: string[];
+  createdAt: string;
+};
+
+export type WakeAlarmsMap = Record<string, WakeAlarm>;
+
+// Weekly digest of subscribed hosts' shows. `weekday` uses the same
+// weekly-trigger numbering as WakeAlarm. Each week's digest is its own one-off
+// notification (its text lists that week's shows), armed a few weeks ahead;
+// `notificationIds` are the ones currently armed.
+export type WeeklyDigestSettings = {
+  enabled: boolean;
+  weekday: number;
+  hour: number;
+  minute: number;
+  notificationIds: string[];
+};
@@ -0,0 +1,25 @@
+// types/outputDevice.ts
+//
+// Where the live stream can play other than the phone: a Chromecast session
+// (context/CastContext.tsx) or a UPnP/DLNA renderer on the local network
+// (utils/upnp.ts). context/OutputContext.tsx picks the active one.
+
+export type OutputDeviceKind = 'chromecast' | 'upnp';
+
+export type OutputDevice = {
+  // The Cast device name, or the renderer's UDN for UPnP
+  id: string;
+  kind: OutputDeviceKind;
+  name: string;
+  model?: string;
+};
+
+// A UPnP MediaRenderer as read from its device description
+export type UpnpRenderer = OutputDevice & {
+  kind: 'upnp';
+  // The description's URL, which control URLs are resolved against
+  location: string;
+  avTransportUrl: string;
+  // Missing on renderers without volume control
+  renderingControlUrl?: string;
+};
@@ -0,0 +1,45 @@
+// types/radiocult.ts
+
+import { RawScheduleItem } from './schedule';
+
+export type RadioCultArtistLogo = {
+  default?: string;
+  '256x256'?: string;
+  '512x512'?: string;
+  '1024x1024'?: string;
+};
+
+export type RadioCultArtist = {
+  id: string;
+  slug?: string;
+  name?: string;
+  description?: { content?: any[] };
+  logo?: RadioCultArtistLogo;
+  socials?: {
+    twitterHandle?: string;
+    instagramHandle?: string;
+    facebook?: string;
+    mixcloud?: string;
+    soundcloud?: string;
+    site?: string;
+  };
+  tags?: string[];
+};
+
+// Track metadata RadioCult reports while a playlist is on air
+export type RadioCultLiveMetadata = {
+  title?: string;
+  artist?: string;
+  [key: string]: unknown;
+};
+
+// `/schedule/live`. `status` is 'schedule' while a scheduled show is on air,
+// and `content` is then always present; anything else means off air or the
+// automated playlist.
+export type RadioCultLiveResult = {
+  status: string;
+  content?: RawScheduleItem;
+  metadata?: RadioCultLiveMetadata;
+  artist?: string;
+  artworkUrl?: string;
+};
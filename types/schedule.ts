@@ -0,0 +1,28 @@
+// types/schedule.ts
+
+// One show slot from RadioCult's `/schedule` endpoint. Only the fields the
+// app relies on are required (and checked by utils/radiocultClient).
+export type RawScheduleItem = {
+  id: string;
+  stationId?: string;
+  title: string;
+  startDateUtc: string;
+  endDateUtc: string;
+  description?: { content?: any[] };
+  duration?: number;
+  timezone?: string;
+  color?: string;
+  artistIds?: string[];
+  isRecurring?: boolean;
+  media?:
+    | { type: 'mix'; trackId?: string }
+    | { type: 'playlist'; playlistId: string }
+    | { type: 'live' };
+};
+
+// A UTC-day-aligned fetch window, as ISO strings. Part of the query key, so it
+// must be stable for the whole day.
+export type ScheduleWindow = {
+  startDate: string;
+  endDate: string;
+};
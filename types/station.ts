@@ -0,0 +1,48 @@
+// types/station.ts
+
+export type StreamQuality = 'high' | 'low';
+
+// One live stream mount
+export type StreamVariant = {
+  quality: StreamQuality;
+  url: string;
+  codec: 'mp3' | 'aac';
+  bitrateKbps: number;
+  contentType: string;
+};
+
+export type StationLink = {
+  label: string;
+  url: string;
+};
+
+// Everything that ties the app to a particular station. The app reads the
+// active profile from config.ts (STATION); the profiles themselves live in
+// constants/stations.ts.
+export type StationProfile = {
+  // RadioCult station id
+  id: string;
+  name: string;
+  location: string;
+  websiteUrl: string;
+  // Highest quality first; the first entry is the fallback for any quality
+  streams: StreamVariant[];
+  api: {
+    radiocult: string;
+    eist: string;
+    // Cast receiver worker, which also serves the calendar feeds
+    calendarFeeds: string;
+    // Whether the éist API serves direct archive audio (GET
+    // /api/shows/:slug/audio). Without it archive shows link out to Mixcloud
+    // or SoundCloud, and in-app playback, downloads and casting stay off.
+    archiveAudio: boolean;
+  };
+  mixcloudUser: string;
+  // The Connect page, in order
+  links: StationLink[];
+  colours: {
+    primary: string;
+    secondary: string;
+    highlight: string;
+  };
+};
@@ -0,0 +1,114 @@
+// utils/__tests__/ics.test.ts
+import { buildCalendar, IcsEvent, scheduleItemToIcsEvent } from '../ics';
+
+const event: IcsEvent = {
+  uid: 'show-1@eist.radio',
+  title: 'Late Bloom',
+  start: new Date('2026-10-19T20:00:00.250Z'),
+  end: new Date('2026-10-19T22:00:00Z'),
+};
+
+// The calendar's physical lines, without the trailing CRLF
+const physicalLines = (ics: string) => ics.slice(0, -2).split('\r\n');
+
+// Undoes folding (RFC 5545 3.1): a CRLF followed by a space joins the lines
+const unfold = (ics: string) => physicalLines(ics.replace(/\r\n /g, ''));
+
+const property = (ics: string, name: string) =>
+  unfold(ics)
+    .find((line) => line.startsWith(`${name}:`))
+    ?.slice(name.length + 1);
+
+describe('buildCalendar', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-19T09:30:15.999Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('writes one VEVENT per show with CRLF line endings', () => {
+    const ics = buildCalendar([event, { ...event, uid: 'show-2@eist.radio' }], 'éist: Aoife');
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    expect(unfold(ics).filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(property(ics, 'X-WR-CALNAME')).toBe('éist: Aoife');
+  });
+
+  it('writes DTSTAMP, DTSTART and DTEND as UTC basic format', () => {
+    const ics = buildCalendar([event]);
+
+    expect(property(ics, 'DTSTAMP')).toBe('20261019T093015Z');
+    expect(property(ics, 'DTSTART')).toBe('20261019T200000Z');
+    expect(property(ics, 'DTEND')).toBe('20261019T220000Z');
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines in text', () => {
+    const ics = buildCalendar([
+      { ...event, title: 'Dub, Roots; and C:\\Tapes', description: 'Line one\nLine two\r\nLine three' },
+    ]);
+
+    expect(property(ics, 'SUMMARY')).toBe('Dub\\, Roots\\; and C:\\\\Tapes');
+    expect(property(ics, 'DESCRIPTION')).toBe('Line one\\nLine two\\nLine three');
+  });
+
+  it('leaves URLs unescaped', () => {
+    const ics = buildCalendar([{ ...event, url: 'eistapp://show/a,b' }]);
+    expect(property(ics, 'URL')).toBe('eistapp://show/a,b');
+  });
+
+  it('folds long lines at 75 octets without splitting a character', () => {
+    const description = 'Ceol ó éist agus cúpla focal 🎶 '.repeat(12).trim();
+    const ics = buildCalendar([{ ...event, description }]);
+
+    const lines = physicalLines(ics);
+    for (const line of lines) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      // Half of a surrogate pair wouldn't survive the round trip through UTF-8
+      expect(Buffer.from(line, 'utf8').toString('utf8')).toBe(line);
+    }
+    expect(lines.filter((line) => line.startsWith(' ')).length).toBeGreaterThan(3);
+    expect(property(ics, 'DESCRIPTION')).toBe(description);
+  });
+
+  it('counts the continuation space towards the limit', () => {
+    // All one-octet characters, so every line is exactly at the limit
+    const ics = buildCalendar([{ ...event, title: 'x'.repeat(300) }]);
+    const folded = physicalLines(ics).filter((line) => line.startsWith('SUMMARY:') || line.startsWith(' x'));
+
+    expect(folded[0]).toHaveLength(75);
+    expect(folded.slice(1, -1).every((line) => line.length === 75)).toBe(true);
+  });
+});
+
+describe('scheduleItemToIcsEvent', () => {
+  const item = {
+    id: 'show-1',
+    title: '  Late Bloom ',
+    startDateUtc: '2026-10-19T20:00:00Z',
+    endDateUtc: '2026-10-19T22:00:00Z',
+    description: {
+      content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Slow songs for late nights.' }] }],
+    },
+  };
+
+  it('names the host and links back to the app', () => {
+    expect(scheduleItemToIcsEvent(item, { hostName: 'Aoife', url: 'eistapp://show/show-1' })).toEqual({
+      uid: 'show-1@eist.radio',
+      title: 'Late Bloom with Aoife',
+      start: new Date('2026-10-19T20:00:00Z'),
+      end: new Date('2026-10-19T22:00:00Z'),
+      description: 'with Aoife\n\nSlow songs for late nights.\n\nListen in the éist app: eistapp://show/show-1',
+      url: 'eistapp://show/show-1',
+    });
+  });
+
+  it('leaves the description out when there is nothing to say', () => {
+    const { description, title } = scheduleItemToIcsEvent({ ...item, description: undefined });
+    expect(description).toBeUndefined();
+    expect(title).toBe('Late Bloom');
+  });
+});
@@ -0,0 +1,196 @@
+// utils/__tests__/radiocultClient.test.ts
+jest.mock('../../config', () => ({
+  apiKey: 'test-key',
+  RADIOCULT_STATION_URL: 'https://radiocult.test/api/station/eist',
+}));
+
+import { getArtist, getArtists, getSchedule, isRadioCultError, RadioCultError } from '../radiocultClient';
+
+const STATION_URL = 'https://radiocult.test/api/station/eist';
+
+const show = {
+  id: 'show-1',
+  title: 'Late Bloom',
+  startDateUtc: '2026-10-19T20:00:00Z',
+  endDateUtc: '2026-10-19T22:00:00Z',
+  artistIds: ['artist-1'],
+};
+
+const json = (body: unknown, status = 200) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    json: async () => body,
+  }) as Response;
+
+const fetchMock = jest.fn<Promise<Response>, [string, RequestInit]>();
+
+// The error a rejected call fails with, to check its kind
+const failure = async (promise: Promise<unknown>): Promise<RadioCultError> => {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason
+  );
+  if (!isRadioCultError(error)) throw new Error(`Expected a RadioCultError, got ${String(error)}`);
+  return error;
+};
+
+describe('radiocultClient', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('sends the API key to the station URL', async () => {
+    fetchMock.mockResolvedValue(json({ artist: { id: 'artist-1', name: 'Aoife' } }));
+
+    await expect(getArtist('artist 1')).resolves.toEqual({ id: 'artist-1', name: 'Aoife' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${STATION_URL}/artists/artist%201`);
+    expect(init.headers).toMatchObject({ 'x-api-key': 'test-key' });
+  });
+
+  describe('retries', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    it('retries transient failures after a jittered backoff', async () => {
+      // random() = 0.5 puts each wait at half its ceiling: 250ms, then 500ms
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      fetchMock
+        .mockResolvedValueOnce(json({}, 503))
+        .mockRejectedValueOnce(new TypeError('Network request failed'))
+        .mockResolvedValueOnce(json({ artists: [] }));
+
+      const result = getArtists();
+      await jest.advanceTimersByTimeAsync(249);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(499);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+
+      await expect(result).resolves.toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up after the last retry with the last error', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      fetchMock.mockResolvedValue(json({}, 500));
+
+      const result = failure(getArtists({ retries: 1 }));
+      await jest.runAllTimersAsync();
+
+      expect(await result).toMatchObject({ kind: 'http', status: 500, isTransient: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("doesn't retry a request that can't succeed", async () => {
+      fetchMock.mockResolvedValue(json({}, 404));
+
+      const error = await failure(getArtist('missing'));
+
+      expect(error).toMatchObject({ kind: 'http', status: 404, isNotFound: true, isTransient: false });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries rate limiting', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      fetchMock.mockResolvedValueOnce(json({}, 429)).mockResolvedValueOnce(json({ artists: [] }));
+
+      const result = getArtists();
+      await jest.runAllTimersAsync();
+
+      await expect(result).resolves.toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('times out a request that never answers', async () => {
+      fetchMock.mockImplementation(
+        (_url, init) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+          })
+      );
+
+      const result = failure(getArtists({ timeoutMs: 1000, retries: 0 }));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(await result).toMatchObject({ kind: 'timeout', isTransient: true });
+    });
+  });
+
+  describe('errors', () => {
+    it('maps a network failure to kind network', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+      expect(await failure(getArtists({ retries: 0 }))).toMatchObject({
+        kind: 'network',
+        url: `${STATION_URL}/artists`,
+      });
+    });
+
+    it('maps a body that is not JSON to kind validation', async () => {
+      fetchMock.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => {
+          throw new SyntaxError('Unexpected token <');
+        },
+      } as unknown as Response);
+
+      expect(await failure(getArtists())).toMatchObject({ kind: 'validation' });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('maps a malformed envelope to kind validation', async () => {
+      fetchMock.mockResolvedValue(json({ artist: { name: 'No id' } }));
+
+      const error = await failure(getArtist('artist-1'));
+
+      expect(error).toBeInstanceOf(RadioCultError);
+      expect(error.kind).toBe('validation');
+      expect(error.message).toMatch(/^Malformed artist/);
+    });
+  });
+
+  describe('lists', () => {
+    it('drops invalid items and keeps the rest', async () => {
+      fetchMock.mockResolvedValue(
+        json({
+          schedules: [show, { ...show, id: 'show-2', title: 42 }, { id: 'show-3' }, { ...show, id: 'show-4' }],
+        })
+      );
+
+      const schedule = await getSchedule({ startDate: '2026-10-19', endDate: '2026-10-26' });
+
+      expect(schedule.map((item) => item.id)).toEqual(['show-1', 'show-4']);
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('treats a missing list as empty', async () => {
+      fetchMock.mockResolvedValue(json({}));
+
+      await expect(getArtists()).resolves.toEqual([]);
+    });
+
+    it('puts the range and timezone in the schedule query', async () => {
+      fetchMock.mockResolvedValue(json({ schedules: [] }));
+
+      await getSchedule({ startDate: '2026-10-19T00:00:00Z', endDate: '2026-10-26T23:59:59Z', timeZone: 'Europe/Dublin' });
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        `${STATION_URL}/schedule?startDate=2026-10-19T00%3A00%3A00Z&endDate=2026-10-26T23%3A59%3A59Z&timeZone=Europe%2FDublin`
+      );
+    });
+  });
+});
@@ -0,0 +1,122 @@
+// utils/__tests__/reconnectPolicy.test.ts
+import { createReconnectPolicy, reconnectDelay } from '../reconnectPolicy';
+
+const options = { baseDelayMs: 1000, maxDelayMs: 8000 };
+
+describe('reconnectDelay', () => {
+  it('doubles the ceiling with each attempt', () => {
+    // random() = 1 gives the ceiling itself
+    expect([0, 1, 2, 3].map((attempt) => reconnectDelay(attempt, options, () => 1))).toEqual([
+      1000, 2000, 4000, 8000,
+    ]);
+  });
+
+  it('never goes past maxDelayMs', () => {
+    expect(reconnectDelay(4, options, () => 1)).toBe(8000);
+    expect(reconnectDelay(20, options, () => 1)).toBe(8000);
+  });
+
+  it('jitters to between half and all of the ceiling', () => {
+    expect(reconnectDelay(2, options, () => 0)).toBe(2000);
+    expect(reconnectDelay(2, options, () => 0.5)).toBe(3000);
+    for (let i = 0; i < 100; i++) {
+      const delay = reconnectDelay(2, options);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    }
+  });
+});
+
+describe('createReconnectPolicy', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createPolicy = (maxAttempts = 3) =>
+    createReconnectPolicy({ ...options, maxAttempts, random: () => 1, now: () => Date.now() });
+
+  it('retries after the backoff, waiting longer each time', () => {
+    const policy = createPolicy();
+    const retry = jest.fn();
+
+    policy.begin();
+    expect(policy.schedule(retry)).toMatchObject({ status: 'reconnecting', attempt: 1 });
+    jest.advanceTimersByTime(999);
+    expect(retry).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(retry).toHaveBeenCalledTimes(1);
+
+    policy.begin();
+    policy.schedule(retry);
+    jest.advanceTimersByTime(1999);
+    expect(retry).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    expect(retry).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports when the pending retry fires', () => {
+    const policy = createPolicy();
+    const state = policy.schedule(jest.fn());
+    expect(state.nextRetryAt).toBe(Date.now() + 1000);
+
+    policy.begin();
+    expect(policy.getState().nextRetryAt).toBeNull();
+  });
+
+  it('gives up after maxAttempts', () => {
+    const policy = createPolicy(2);
+    const retry = jest.fn();
+
+    policy.schedule(retry);
+    jest.runOnlyPendingTimers();
+    policy.schedule(retry);
+    jest.runOnlyPendingTimers();
+    expect(retry).toHaveBeenCalledTimes(2);
+
+    expect(policy.schedule(retry)).toEqual({ status: 'failed', attempt: 2, nextRetryAt: null });
+    jest.runAllTimers();
+    expect(retry).toHaveBeenCalledTimes(2);
+  });
+
+  it('retryNow skips the wait and starts the count over', () => {
+    const policy = createPolicy();
+    const scheduled = jest.fn();
+    const immediate = jest.fn();
+
+    policy.schedule(scheduled);
+    policy.schedule(scheduled);
+    policy.retryNow(immediate);
+
+    expect(immediate).toHaveBeenCalledTimes(1);
+    expect(policy.getState()).toMatchObject({ attempt: 0, nextRetryAt: null });
+    jest.runAllTimers();
+    expect(scheduled).not.toHaveBeenCalled();
+
+    // Back to the shortest wait
+    policy.schedule(scheduled);
+    jest.advanceTimersByTime(1000);
+    expect(scheduled).toHaveBeenCalledTimes(1);
+  });
+
+  it('reset cancels the pending retry and notifies subscribers', () => {
+    const policy = createPolicy();
+    const retry = jest.fn();
+    const listener = jest.fn();
+    const unsubscribe = policy.subscribe(listener);
+
+    policy.schedule(retry);
+    policy.reset();
+
+    expect(listener).toHaveBeenLastCalledWith({ status: 'idle', attempt: 0, nextRetryAt: null });
+    jest.runAllTimers();
+    expect(retry).not.toHaveBeenCalled();
+
+    unsubscribe();
+    policy.schedule(retry);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
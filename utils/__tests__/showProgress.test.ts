@@ -0,0 +1,45 @@
+// utils/__tests__/showProgress.test.ts
+import { formatShowProgress, nextShowProgressStep } from '../showProgress';
+
+const start = '2026-10-19T20:00:00Z';
+const end = '2026-10-19T22:00:00Z';
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('formatShowProgress', () => {
+  it('fills the bar by how far through the show window we are', () => {
+    expect(formatShowProgress(start, end, at('2026-10-19T20:30:00Z'))).toMatch(/^●●○○○○○○○○ /);
+    expect(formatShowProgress(start, end, at('2026-10-19T21:00:00Z'))).toMatch(/^●●●●●○○○○○ /);
+  });
+
+  it('keeps the bar within the window', () => {
+    expect(formatShowProgress(start, end, at('2026-10-19T19:00:00Z'))).toMatch(/^○{10} /);
+    expect(formatShowProgress(start, end, at('2026-10-19T23:00:00Z'))).toMatch(/^●{10} /);
+  });
+
+  it('ends with the show times', () => {
+    expect(formatShowProgress(start, end, at('2026-10-19T20:30:00Z'))).toMatch(/ \d\d:\d\d–\d\d:\d\d$/);
+  });
+
+  it('is empty without a usable window', () => {
+    expect(formatShowProgress(undefined, end)).toBe('');
+    expect(formatShowProgress(start, 'not a date')).toBe('');
+    expect(formatShowProgress(end, start)).toBe('');
+  });
+});
+
+describe('nextShowProgressStep', () => {
+  it('is the next step boundary', () => {
+    expect(nextShowProgressStep(start, end, at('2026-10-19T20:30:00Z'))).toBe(at('2026-10-19T20:36:00Z'));
+    expect(nextShowProgressStep(start, end, at('2026-10-19T20:36:00Z'))).toBe(at('2026-10-19T20:48:00Z'));
+  });
+
+  it('is the first step before the show starts', () => {
+    expect(nextShowProgressStep(start, end, at('2026-10-19T19:00:00Z'))).toBe(at('2026-10-19T20:12:00Z'));
+  });
+
+  it('is null once the bar is full or without a window', () => {
+    expect(nextShowProgressStep(start, end, at('2026-10-19T21:50:00Z'))).toBeNull();
+    expect(nextShowProgressStep(start, end, at('2026-10-19T22:30:00Z'))).toBeNull();
+    expect(nextShowProgressStep(undefined, end)).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+// utils/__tests__/streamHealth.test.ts
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+type StreamHealth = typeof import('../streamHealth');
+
+describe('stream health sessions', () => {
+  let health: StreamHealth;
+
+  // Moves the clock on, then feeds the states in order
+  const after = (ms: number, ...states: string[]) => {
+    jest.advanceTimersByTime(ms);
+    states.forEach((state) => health.recordStreamState(state));
+  };
+
+  const lastSession = () => health.getStreamSessions().at(-1);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-19T20:00:00Z'));
+    // The module keeps the open session; start each test with none
+    jest.isolateModules(() => {
+      health = require('../streamHealth');
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('measures time to first audio, ignoring the reset before it', () => {
+    health.startStreamSession('high');
+    after(300, 'stopped', 'none', 'loading');
+    after(1200, 'buffering', 'playing');
+    after(60_000);
+    health.endStreamSession();
+
+    expect(lastSession()).toMatchObject({
+      quality: 'high',
+      timeToFirstAudioMs: 1500,
+      rebufferCount: 0,
+      rebufferMs: 0,
+      playingMs: 60_000,
+    });
+  });
+
+  it('counts a rebuffer after playing as a stall until the next playing', () => {
+    health.startStreamSession('low');
+    after(1000, 'playing');
+    after(10_000, 'buffering');
+    after(4000, 'playing');
+    after(6000);
+    health.endStreamSession();
+
+    const session = lastSession()!;
+    expect(session).toMatchObject({ rebufferCount: 1, rebufferMs: 4000, playingMs: 16_000 });
+    expect(health.bufferingRatio(session)).toBeCloseTo(0.2);
+  });
+
+  it('ends the session on a pause from a remote control', () => {
+    health.startStreamSession('high');
+    after(1000, 'playing');
+    after(30_000, 'paused');
+
+    expect(lastSession()).toMatchObject({
+      endedAt: Date.now(),
+      rebufferCount: 0,
+      rebufferMs: 0,
+      playingMs: 30_000,
+    });
+
+    // Nothing open to count the paused time against
+    after(600_000, 'playing');
+    expect(health.getStreamSessions()).toHaveLength(1);
+  });
+
+  it("doesn't count a stop mid-session as a stall", () => {
+    health.startStreamSession('high');
+    after(1000, 'playing');
+    after(10_000, 'stopped');
+    after(60_000, 'playing');
+    after(5000);
+    health.endStreamSession();
+
+    expect(lastSession()).toMatchObject({ rebufferCount: 0, rebufferMs: 0, playingMs: 15_000 });
+  });
+
+  it('counts a restart as a stall, and as a recovery once playing again', () => {
+    health.startStreamSession('high');
+    after(1000, 'playing');
+    jest.advanceTimersByTime(10_000);
+    health.recordStreamRecovery();
+    // The restart's own reset is part of the stall
+    after(500, 'stopped', 'none', 'loading');
+    after(2500, 'playing');
+    jest.advanceTimersByTime(1000);
+    health.recordStreamRecovery();
+    after(8000, 'error');
+    health.endStreamSession();
+
+    const session = lastSession()!;
+    expect(session).toMatchObject({
+      rebufferCount: 2,
+      rebufferMs: 11_000,
+      playingMs: 11_000,
+      recoveries: 2,
+      recoveriesSucceeded: 1,
+    });
+    expect(health.recoverySuccessRate(session)).toBe(0.5);
+  });
+
+  it('keeps one session across the play() calls made by recovery', () => {
+    health.startStreamSession('high');
+    after(1000, 'playing');
+    health.recordStreamRecovery();
+    health.startStreamSession('low');
+    after(1000, 'playing');
+    health.endStreamSession();
+
+    expect(health.getStreamSessions()).toHaveLength(1);
+    expect(lastSession()?.quality).toBe('high');
+  });
+
+  it('ignores states with no session open', () => {
+    health.recordStreamState('playing');
+    health.recordStreamState('paused');
+    health.recordStreamRecovery();
+    health.endStreamSession();
+
+    expect(health.getStreamSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+// utils/__tests__/upnp.test.ts
+import { buildDidlMetadata, parseDeviceDescription } from '../upnp';
+
+const LOCATION = 'http://192.168.1.20:49152/description.xml';
+
+const description = ({
+  urlBase = '',
+  avTransportUrl = '/upnp/control/AVTransport1',
+  prefix = '',
+  withAvTransport = true,
+} = {}) => {
+  const tag = (name: string, text: string) => `<${prefix}${name}>${text}</${prefix}${name}>`;
+  const service = (type: string, controlUrl: string) =>
+    `<${prefix}service>` +
+    tag('serviceType', `urn:schemas-upnp-org:service:${type}:1`) +
+    tag('serviceId', `urn:upnp-org:serviceId:${type}`) +
+    tag('controlURL', controlUrl) +
+    `</${prefix}service>`;
+  return (
+    '<?xml version="1.0"?>' +
+    `<${prefix}root xmlns${prefix ? `:${prefix.slice(0, -1)}` : ''}="urn:schemas-upnp-org:device-1-0">` +
+    (urlBase ? tag('URLBase', urlBase) : '') +
+    `<${prefix}device>` +
+    tag('deviceType', 'urn:schemas-upnp-org:device:MediaRenderer:1') +
+    tag('friendlyName', 'Kitchen &amp; Dining') +
+    tag('modelName', 'Play:1') +
+    tag('UDN', 'uuid:RINCON_1234') +
+    `<${prefix}serviceList>` +
+    (withAvTransport ? service('AVTransport', avTransportUrl) : '') +
+    service('RenderingControl', 'RenderingControl/ctrl') +
+    `</${prefix}serviceList>` +
+    `</${prefix}device>` +
+    `</${prefix}root>`
+  );
+};
+
+describe('parseDeviceDescription', () => {
+  it('reads a renderer and resolves its control URLs against the description', () => {
+    expect(parseDeviceDescription(description(), LOCATION)).toEqual({
+      id: 'uuid:RINCON_1234',
+      kind: 'upnp',
+      name: 'Kitchen & Dining',
+      model: 'Play:1',
+      location: LOCATION,
+      avTransportUrl: 'http://192.168.1.20:49152/upnp/control/AVTransport1',
+      renderingControlUrl: 'http://192.168.1.20:49152/RenderingControl/ctrl',
+    });
+  });
+
+  it('reads tags with a namespace prefix', () => {
+    const renderer = parseDeviceDescription(description({ prefix: 'dev:' }), LOCATION);
+    expect(renderer).toMatchObject({
+      name: 'Kitchen & Dining',
+      avTransportUrl: 'http://192.168.1.20:49152/upnp/control/AVTransport1',
+    });
+  });
+
+  it('resolves control URLs against URLBase when there is one', () => {
+    const renderer = parseDeviceDescription(description({ urlBase: 'http://192.168.1.20:1400/media/' }), LOCATION);
+    expect(renderer?.avTransportUrl).toBe('http://192.168.1.20:1400/upnp/control/AVTransport1');
+    expect(renderer?.renderingControlUrl).toBe('http://192.168.1.20:1400/media/RenderingControl/ctrl');
+  });
+
+  it('keeps absolute control URLs as they are', () => {
+    const renderer = parseDeviceDescription(
+      description({ avTransportUrl: 'http://192.168.1.21:8080/av' }),
+      LOCATION
+    );
+    expect(renderer?.avTransportUrl).toBe('http://192.168.1.21:8080/av');
+  });
+
+  it('returns null without an AVTransport service', () => {
+    expect(parseDeviceDescription(description({ withAvTransport: false }), LOCATION)).toBeNull();
+    expect(parseDeviceDescription('<root />', LOCATION)).toBeNull();
+  });
+});
+
+describe('buildDidlMetadata', () => {
+  const media = {
+    url: 'https://example.invalid/stream?a=1&b=2',
+    contentType: 'audio/mpeg',
+    title: 'Rock & Roll <Live>',
+    artist: 'The "Quoted" O\'Briens',
+    artworkUrl: 'https://example.invalid/art.png?w=1&h=1',
+  };
+
+  it('escapes &, <, > and quotes in every value', () => {
+    const didl = buildDidlMetadata(media);
+    expect(didl).toContain('<dc:title>Rock &amp; Roll &lt;Live&gt;</dc:title>');
+    expect(didl).toContain('<upnp:artist>The &quot;Quoted&quot; O&apos;Briens</upnp:artist>');
+    expect(didl).toContain('<upnp:albumArtURI>https://example.invalid/art.png?w=1&amp;h=1</upnp:albumArtURI>');
+    expect(didl).toContain(
+      '<res protocolInfo="http-get:*:audio/mpeg:*">https://example.invalid/stream?a=1&amp;b=2</res>'
+    );
+  });
+
+  it('leaves out the artist and artwork when there are none', () => {
+    const didl = buildDidlMetadata({ url: media.url, contentType: 'audio/aac', title: 'Live' });
+    expect(didl).not.toContain('upnp:artist');
+    expect(didl).not.toContain('upnp:albumArtURI');
+    expect(didl).toContain('<dc:title>Live</dc:title>');
+  });
+});
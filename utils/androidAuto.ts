@@ -0,0 +1,95 @@
+// utils/androidAuto.ts
+//
+// JS side of the Android Auto browse tree (plugins/withAndroidAuto.js). The
+// EistAutoBridge module only exists in Android builds made with the plugin, so
+// everything here is a no-op elsewhere (iOS, web, Expo Go).
+
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
+
+const PLAY_EVENT = 'EistAutoPlay';
+const LOAD_CHILDREN_EVENT = 'EistAutoLoadChildren';
+
+// Browse ids. The root and "Live now" are fixed on the native side.
+export const AUTO_LIVE_ID = 'live_radio';
+export const AUTO_RECENT_ID = 'recent';
+export const AUTO_ARTISTS_ID = 'artists';
+export const AUTO_SAVED_ID = 'saved';
+
+export const autoShowId = (slug: string) => `show/${slug}`;
+export const autoArtistId = (slug: string) => `artist/${slug}`;
+
+export type AutoMediaItem = {
+  id: string;
+  title: string;
+  subtitle?: string;
+  // Opens a list (an artist) rather than playing
+  browsable?: boolean;
+};
+
+export type AutoMediaTarget = { type: 'show'; slug: string } | { type: 'artist'; slug: string };
+
+export function parseAutoMediaId(id: string): AutoMediaTarget | null {
+  const [type, ...rest] = id.split('/');
+  const slug = rest.join('/');
+  if (!slug) return null;
+  if (type === 'show' || type === 'artist') return { type, slug };
+  return null;
+}
+
+function getBridge() {
+  if (Platform.OS !== 'android') return null;
+  return NativeModules.EistAutoBridge ?? null;
+}
+
+/**
+ * Replaces the given lists in the stored tree, keyed by parent id. Lists not
+ * mentioned are kept.
+ */
+export function setAutoLibrary(nodes: Record<string, AutoMediaItem[]>): void {
+  const bridge = getBridge();
+  if (!bridge) return;
+  try {
+    bridge.setLibrary(JSON.stringify(nodes));
+  } catch (error) {
+    console.error('Failed to update Android Auto library:', error);
+  }
+}
+
+// So Now Playing in the car highlights the right item and knows whether to seek
+export function setAutoNowPlaying(mediaId: string): void {
+  getBridge()?.setNowPlaying(mediaId);
+}
+
+// Shown in the car in place of Now Playing
+export function reportAutoPlayFailed(message: string): void {
+  getBridge()?.playFailed(message);
+}
+
+/**
+ * Calls `onPlay` with the browse id of an archive show picked in the car.
+ * Live is started natively and never arrives here. Returns an unsubscribe
+ * function.
+ */
+export function addAutoPlayListener(onPlay: (mediaId: string) => void): () => void {
+  const bridge = getBridge();
+  if (!bridge) return () => {};
+  const subscription = new NativeEventEmitter(bridge).addListener(
+    PLAY_EVENT,
+    (event: { mediaId: string }) => onPlay(event.mediaId)
+  );
+  return () => subscription.remove();
+}
+
+/**
+ * Calls `onLoad` when the car opens an artist, whose shows are only fetched on
+ * demand. Answer with setAutoLibrary({ [parentId]: items }).
+ */
+export function addAutoLoadChildrenListener(onLoad: (parentId: string) => void): () => void {
+  const bridge = getBridge();
+  if (!bridge) return () => {};
+  const subscription = new NativeEventEmitter(bridge).addListener(
+    LOAD_CHILDREN_EVENT,
+    (event: { parentId: string }) => onLoad(event.parentId)
+  );
+  return () => subscription.remove();
+}
@@ -39,4 +39,48 @@ export const setupAndroidNotificationChannel = async () => {
   } catch (error) {
     console.warn('Failed to create Android notification channel:', error);
   }
-}; 
\ No newline at end of file
+}; 
+// Media notification actions. RNTP 4 can't add custom notification buttons, so
+// the two éist actions ride on controls the live stream never uses: "next"
+// (a bell) reminds you about the next show and "jump forward" (share) shares
+// what's on. notificationCapabilities only shape the Android notification, so
+// the lock screen on iOS, CarPlay and Android Auto keep plain play/pause. In
+// archive playback the usual seek controls come back (updatePlayerCapabilities).
+export type MediaNotificationAction = 'remind_next' | 'share';
+
+export const liveMediaNotificationOptions = () => {
+  if (Platform.OS !== 'android') {
+    return {};
+  }
+
+  const { Capability } = require('react-native-track-player');
+  return {
+    notificationCapabilities: [
+      Capability.Play,
+      Capability.Pause,
+      Capability.SkipToNext,
+      Capability.JumpForward,
+    ],
+    nextIcon: require('../assets/images/notification-remind.png'),
+    forwardIcon: require('../assets/images/notification-share.png'),
+  };
+};
+
+/**
+ * Calls `handler` when the listener taps one of the live actions above. Archive
+ * playback uses the same buttons for skipping and seeking, so callers should
+ * ignore taps while an archive show is loaded. Returns an unsubscribe function.
+ */
+export const addMediaNotificationActionListener = (
+  action: MediaNotificationAction,
+  handler: () => void
+): (() => void) => {
+  if (Platform.OS !== 'android') {
+    return () => {};
+  }
+
+  const { default: TrackPlayer, Event } = require('react-native-track-player');
+  const event = action === 'remind_next' ? Event.RemoteNext : Event.RemoteJumpForward;
+  const subscription = TrackPlayer.addEventListener(event, handler);
+  return () => subscription.remove();
+};
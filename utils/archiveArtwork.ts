@@ -0,0 +1,24 @@
+// utils/archiveArtwork.ts
+//
+// Best available artwork URL for an archive show: the SoundCloud thumbnail,
+// else the largest Mixcloud picture. Shared by the listen-back page and the
+// on-demand player's Now Playing metadata.
+
+import { ArchiveShow } from '../types/archive';
+
+export function getArchiveShowImage(show?: ArchiveShow | null): string | null {
+  if (show?.soundcloud_match?.thumbnail) {
+    return show.soundcloud_match.thumbnail;
+  }
+  if (show?.mixcloud_match?.pictures) {
+    const pics = show.mixcloud_match.pictures;
+    return (
+      pics['1024wx1024h'] ||
+      pics['768wx768h'] ||
+      pics['640wx640h'] ||
+      pics.extra_large ||
+      null
+    );
+  }
+  return null;
+}
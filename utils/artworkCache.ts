@@ -0,0 +1,56 @@
+// utils/artworkCache.ts
+//
+// Copies remote artwork into app storage so saved items can show it offline.
+// Native only: on web the browser's HTTP cache is all we have.
+
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+
+const ARTWORK_DIR = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}artwork/`
+  : null;
+
+/**
+ * The cached file's name, for storing. iOS moves the app's container when the
+ * app is updated, so a stored file:// URI stops pointing at the file; the name
+ * is resolved against the artwork folder again when read.
+ */
+export function cachedArtworkName(uri?: string | null): string | null {
+  return uri ? uri.slice(uri.lastIndexOf('/') + 1) : null;
+}
+
+// The file:// URI for a stored name
+export function resolveCachedArtwork(name?: string | null): string | null {
+  return name && ARTWORK_DIR ? `${ARTWORK_DIR}${name}` : null;
+}
+
+/**
+ * Download `url` to a file named after `key`.
+ * @returns the local file:// URI, or null if it couldn't be saved
+ */
+export async function cacheArtwork(key: string, url?: string | null): Promise<string | null> {
+  if (Platform.OS === 'web' || !ARTWORK_DIR || !url) return null;
+
+  try {
+    await FileSystem.makeDirectoryAsync(ARTWORK_DIR, { intermediates: true });
+    const fileUri = `${ARTWORK_DIR}${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.jpg`;
+    const result = await FileSystem.downloadAsync(url, fileUri);
+    if (result.status < 200 || result.status >= 300) {
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+      return null;
+    }
+    return fileUri;
+  } catch (error) {
+    console.warn('Failed to cache artwork:', error);
+    return null;
+  }
+}
+
+export async function deleteCachedArtwork(uri?: string | null): Promise<void> {
+  if (!uri) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Failed to delete cached artwork:', error);
+  }
+}
@@ -0,0 +1,144 @@
+// utils/castProtocol.ts
+//
+// The app ↔ cast receiver message protocol (types/castMessages.ts): the
+// namespace, the version, message builders and the validator both ends run
+// on whatever arrives. The receiver page imports it too, bundled by esbuild
+// (workers/cast-receiver/scripts/build-receiver.mjs), so it mustn't import
+// config.ts (expo-constants) or anything else that only runs in the app.
+//
+// Compatibility: a receiver reads messages from any sender version it can
+// validate. A sender treats a receiver reporting an older protocol as
+// mismatched and stops relying on the channel (see castUtils).
+
+import {
+  CastMessage,
+  CastMetadataMessage,
+  CastNextShow,
+  CastNextShowMessage,
+  CastPingMessage,
+  CastPongMessage,
+  CastReceiverVersionMessage,
+  CastStreamStatus,
+  CastStreamStatusMessage,
+} from '../types/castMessages';
+
+export const CAST_NAMESPACE = 'urn:x-cast:com.eist.metadata';
+
+// 1 was the unversioned { type: 'metadata', title, djName, showTime, artworkUrl }
+export const CAST_PROTOCOL_VERSION = 2;
+
+export function castMetadataMessage(fields: Omit<CastMetadataMessage, 'v' | 'type'>): CastMetadataMessage {
+  return { v: CAST_PROTOCOL_VERSION, type: 'metadata', ...fields };
+}
+
+export function castNextShowMessage(nextShow: CastNextShow | null): CastNextShowMessage {
+  return { v: CAST_PROTOCOL_VERSION, type: 'next-show', nextShow };
+}
+
+export function castPingMessage(id: number): CastPingMessage {
+  return { v: CAST_PROTOCOL_VERSION, type: 'ping', id };
+}
+
+export function castPongMessage(id: number): CastPongMessage {
+  return { v: CAST_PROTOCOL_VERSION, type: 'pong', id };
+}
+
+export function castReceiverVersionMessage(receiverVersion: string, rejected?: string): CastReceiverVersionMessage {
+  return {
+    v: CAST_PROTOCOL_VERSION,
+    type: 'receiver-version',
+    receiverVersion,
+    protocolVersion: CAST_PROTOCOL_VERSION,
+    ...(rejected ? { rejected } : {}),
+  };
+}
+
+export function castStreamStatusMessage(status: CastStreamStatus, detail?: string): CastStreamStatusMessage {
+  return { v: CAST_PROTOCOL_VERSION, type: 'stream-status', status, ...(detail ? { detail } : {}) };
+}
+
+/**
+ * Validates a message from the channel (a JSON string or an object). Returns
+ * the message, or an `error` saying what was wrong with it. Messages without
+ * `v` are read as version 1, which only ever sent `metadata`; fields a
+ * version didn't have are filled with empty values. The receiver runs the
+ * same function on everything a sender sends.
+ */
+export function parseCastMessage(data: unknown): { message: CastMessage } | { error: string } {
+  let parsed: unknown = data;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return { error: 'not JSON' };
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return { error: 'not an object' };
+  const raw = parsed as Record<string, unknown>;
+
+  const v = raw.v === undefined ? 1 : raw.v;
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 1) return { error: 'bad version' };
+
+  const text = (key: string, required: boolean): string | null => {
+    const value = raw[key];
+    if (value === undefined || value === null) return required ? null : '';
+    return typeof value === 'string' ? value : null;
+  };
+  const integer = (key: string): number | null => {
+    const value = raw[key];
+    return typeof value === 'number' && Number.isInteger(value) ? value : null;
+  };
+
+  const type = raw.type;
+  switch (type) {
+    case 'metadata': {
+      const fields = {
+        title: text('title', true),
+        djName: text('djName', false),
+        showTime: text('showTime', false),
+        artworkUrl: text('artworkUrl', false),
+        startDateUtc: text('startDateUtc', false),
+        endDateUtc: text('endDateUtc', false),
+      };
+      const bad = Object.keys(fields).find((key) => fields[key as keyof typeof fields] === null);
+      if (bad) return { error: `metadata.${bad} is not a string` };
+      return { message: { v, type: 'metadata', ...(fields as Record<keyof typeof fields, string>) } };
+    }
+    case 'next-show': {
+      if (raw.nextShow === null || raw.nextShow === undefined) {
+        return { message: { v, type: 'next-show', nextShow: null } };
+      }
+      const next = typeof raw.nextShow === 'object' ? (raw.nextShow as Record<string, unknown>) : {};
+      if (typeof next.title !== 'string' || typeof next.startDateUtc !== 'string') {
+        return { error: 'next-show.nextShow is malformed' };
+      }
+      return { message: { v, type: 'next-show', nextShow: { title: next.title, startDateUtc: next.startDateUtc } } };
+    }
+    case 'ping':
+    case 'pong': {
+      const id = integer('id');
+      if (id === null) return { error: `${type}.id is not an integer` };
+      return { message: { v, type, id } };
+    }
+    case 'receiver-version': {
+      const receiverVersion = text('receiverVersion', true);
+      const protocolVersion = integer('protocolVersion');
+      const rejected = text('rejected', false);
+      if (receiverVersion === null || protocolVersion === null || rejected === null) {
+        return { error: 'receiver-version is malformed' };
+      }
+      return {
+        message: { v, type: 'receiver-version', receiverVersion, protocolVersion, ...(rejected ? { rejected } : {}) },
+      };
+    }
+    case 'stream-status': {
+      const statuses: unknown[] = ['loading', 'buffering', 'playing', 'paused', 'ended', 'error'];
+      const status = raw.status as CastStreamStatus;
+      const detail = text('detail', false);
+      if (!statuses.includes(status) || detail === null) return { error: 'stream-status is malformed' };
+      return { message: { v, type: 'stream-status', status, ...(detail ? { detail } : {}) } };
+    }
+    default:
+      return { error: `unknown type ${String(type)}` };
+  }
+}
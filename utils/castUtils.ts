@@ -1,8 +1,21 @@
 // utils/castUtils.ts
 
 import { Platform } from 'react-native'
-
-const STREAM_URL = 'https://eist-radio.radiocult.fm/stream'
+import { CastSenderMessage } from '../types/castMessages'
+import {
+  CAST_NAMESPACE,
+  CAST_PROTOCOL_VERSION,
+  castMetadataMessage,
+  castNextShowMessage,
+  castPingMessage,
+  parseCastMessage,
+} from './castProtocol'
+import { logEvent } from './eventLog'
+import { getStreamVariant } from './streamQuality'
+
+// The cast device fetches the stream over its own connection, not the phone's
+// mobile data, so it always gets the full-quality mount
+const CAST_STREAM = getStreamVariant('high')
 
 // Only import google-cast on mobile platforms
 let GoogleCast: any
@@ -29,6 +42,25 @@ export type CastMediaInfo = {
   customData?: Record<string, any>
 }
 
+// Where the live show sits in the schedule, for the receiver's progress bar
+// and "next up" card. Sent on the metadata channel (utils/castProtocol.ts)
+// and in the load request's customData.
+export type CastShowTiming = {
+  startDateUtc?: string
+  endDateUtc?: string
+  nextShow?: { title: string; startDateUtc: string } | null
+}
+
+function timingFields(timing?: CastShowTiming) {
+  return {
+    startDateUtc: timing?.startDateUtc || '',
+    endDateUtc: timing?.endDateUtc || '',
+    nextShow: timing?.nextShow
+      ? { title: formatCastTitle(timing.nextShow.title), startDateUtc: timing.nextShow.startDateUtc }
+      : null,
+  }
+}
+
 /**
  * Format title for Cast display - replace "(éist arís)" with repeat symbol
  * Matches the behavior of FormattedShowTitle component in the app
@@ -65,8 +97,8 @@ export function buildCastMediaInfo(
   const subtitle = subtitleParts.join(' · ')
 
   return {
-    contentUrl: STREAM_URL,
-    contentType: 'audio/mpeg',
+    contentUrl: CAST_STREAM.url,
+    contentType: CAST_STREAM.contentType,
     streamType: 'live',
     metadata: {
       type: 'generic',
@@ -86,7 +118,8 @@ export async function loadMediaOnCast(
   title: string,
   artist: string,
   artworkUrl?: string,
-  showTime?: string
+  showTime?: string,
+  timing?: CastShowTiming
 ): Promise<boolean> {
   if (Platform.OS === 'web' || !GoogleCast) {
     return false
@@ -118,6 +151,7 @@ export async function loadMediaOnCast(
         showTime: showTime || '',
         djName: artist || '',
         artworkUrl: artworkUrl || '',
+        ...timingFields(timing),
       }
     )
 
@@ -127,13 +161,9 @@ export async function loadMediaOnCast(
     })
 
     try {
-      await sendCastMetadataMessage({
-        type: 'metadata',
-        title: formattedTitle,
-        showTime: showTime || '',
-        djName: artist || '',
-        artworkUrl: artworkUrl || '',
-      })
+      if (await getReceiverCompatibility() !== 'mismatched') {
+        await sendShowMessages(formattedTitle, artist, artworkUrl, showTime, timing)
+      }
     } catch (messageError) {
       console.warn('Failed to send cast metadata message:', messageError)
     }
@@ -145,6 +175,84 @@ export async function loadMediaOnCast(
   }
 }
 
+// An archive show for the cast device: on-demand audio with its own
+// duration and artwork, in place of the live mount
+export type CastArchiveMedia = {
+  url: string
+  contentType?: string
+  duration?: number // seconds
+  title: string
+  artist: string
+  artworkUrl?: string
+}
+
+// The cast device fetches the audio itself, so a downloaded file can't go
+export function isCastableUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url)
+}
+
+/**
+ * Load an archive show onto the cast device at startPosition (seconds), playing
+ * unless autoplay is false. The receiver shows its own seek bar for buffered
+ * media.
+ */
+export async function loadArchiveOnCast(
+  media: CastArchiveMedia,
+  startPosition: number = 0,
+  autoplay: boolean = true
+): Promise<boolean> {
+  if (Platform.OS === 'web' || !GoogleCast || !isCastableUrl(media.url)) {
+    return false
+  }
+
+  try {
+    const sessionManager = GoogleCast.getSessionManager()
+    const session = await sessionManager.getCurrentCastSession()
+
+    if (!session) {
+      console.error('No cast session available')
+      return false
+    }
+
+    const client = session.getClient()
+    if (!client) {
+      console.error('No remote media client available')
+      return false
+    }
+
+    await client.loadMedia({
+      mediaInfo: {
+        contentUrl: media.url,
+        contentType: media.contentType || 'audio/mpeg',
+        streamType: 'buffered',
+        streamDuration: media.duration,
+        metadata: {
+          type: 'generic',
+          title: formatCastTitle(media.title),
+          subtitle: media.artist ? `with ${media.artist} · listen back` : 'éist · listen back',
+          artist: media.artist || 'éist',
+          images: media.artworkUrl ? [{ url: media.artworkUrl }] : [],
+        },
+        // Read by the receiver's layout like a live load's. The empty timing
+        // clears the live show's progress bar and next-up card.
+        customData: {
+          djName: media.artist || '',
+          artworkUrl: media.artworkUrl || '',
+          startDateUtc: '',
+          endDateUtc: '',
+          nextShow: null,
+        },
+      },
+      startTime: startPosition,
+      autoplay,
+    })
+    return true
+  } catch (error) {
+    console.error('Failed to load archive show on cast:', error)
+    return false
+  }
+}
+
 /**
  * Update metadata on the currently casting media
  */
@@ -152,29 +260,65 @@ export async function updateCastMediaMetadata(
   title: string,
   artist: string,
   artworkUrl?: string,
-  showTime?: string
+  showTime?: string,
+  timing?: CastShowTiming
 ): Promise<boolean> {
   if (Platform.OS === 'web' || !GoogleCast) {
     return false
   }
 
   try {
-    const formattedTitle = formatCastTitle(title)
-    return await sendCastMetadataMessage({
-      type: 'metadata',
-      title: formattedTitle,
-      showTime: showTime || '',
-      djName: artist || '',
-      artworkUrl: artworkUrl || '',
-    })
+    // A receiver that can't read the channel still shows the media's own
+    // metadata, so reload the stream with the new show rather than leave
+    // the TV on the old one
+    if (await getReceiverCompatibility() === 'mismatched') {
+      return await loadMediaOnCast(title, artist, artworkUrl, showTime, timing)
+    }
+    return await sendShowMessages(formatCastTitle(title), artist, artworkUrl, showTime, timing)
   } catch (error) {
     console.error('Failed to update cast metadata:', error)
     return false
   }
 }
 
-const CAST_METADATA_NAMESPACE = 'urn:x-cast:com.eist.metadata'
-let castChannel: { sessionId?: string; channel?: any } = {}
+// Whether the receiver speaks our protocol: unknown until it answers the
+// ping sent when the channel opens. A receiver that reports an older
+// protocol, rejects a message or never answers is mismatched.
+type ReceiverCompatibility = 'unknown' | 'compatible' | 'mismatched'
+
+const RECEIVER_PING_TIMEOUT_MS = 5000
+
+let castChannel: {
+  sessionId?: string
+  channel?: any
+  receiver: ReceiverCompatibility
+  pingTimer?: ReturnType<typeof setTimeout>
+} = { receiver: 'unknown' }
+let nextPingId = 1
+
+function handleReceiverMessage(data: unknown) {
+  const parsed = parseCastMessage(data)
+  if ('error' in parsed) {
+    logEvent('cast', 'Unreadable receiver message', parsed.error)
+    return
+  }
+
+  const { message } = parsed
+  if (message.type === 'pong') {
+    clearTimeout(castChannel.pingTimer)
+  } else if (message.type === 'receiver-version') {
+    clearTimeout(castChannel.pingTimer)
+    const compatible = message.protocolVersion >= CAST_PROTOCOL_VERSION && !message.rejected
+    castChannel.receiver = compatible ? 'compatible' : 'mismatched'
+    logEvent(
+      'cast',
+      `Receiver ${message.receiverVersion}, protocol ${message.protocolVersion}${compatible ? '' : ' (mismatched)'}`,
+      message.rejected
+    )
+  } else if (message.type === 'stream-status') {
+    logEvent('cast', `Receiver ${message.status}`, message.detail)
+  }
+}
 
 async function getCastChannel() {
   if (Platform.OS === 'web' || !GoogleCast) return null
@@ -188,6 +332,7 @@ async function getCastChannel() {
     return castChannel.channel
   }
 
+  clearTimeout(castChannel.pingTimer)
   if (castChannel.channel) {
     try {
       await castChannel.channel.remove()
@@ -196,17 +341,36 @@ async function getCastChannel() {
     }
   }
 
-  const channel = await session.addChannel(CAST_METADATA_NAMESPACE)
-  castChannel = { sessionId, channel }
+  const channel = await session.addChannel(CAST_NAMESPACE)
+  channel.onMessage(handleReceiverMessage)
+  castChannel = { sessionId, channel, receiver: 'unknown' }
+
+  const pingTimer = setTimeout(() => {
+    if (castChannel.channel !== channel || castChannel.receiver !== 'unknown') return
+    castChannel.receiver = 'mismatched'
+    logEvent('cast', 'Receiver did not answer ping')
+  }, RECEIVER_PING_TIMEOUT_MS)
+  castChannel.pingTimer = pingTimer
+  try {
+    await channel.sendMessage(castPingMessage(nextPingId++))
+  } catch (error) {
+    console.warn('Failed to ping cast receiver:', error)
+  }
+
   return channel
 }
 
-async function sendCastMetadataMessage(payload: Record<string, any>) {
+async function getReceiverCompatibility(): Promise<ReceiverCompatibility> {
+  await getCastChannel()
+  return castChannel.receiver
+}
+
+async function sendCastMessage(message: CastSenderMessage) {
   const channel = await getCastChannel()
   if (!channel) return false
 
   try {
-    await channel.sendMessage(payload)
+    await channel.sendMessage(message)
     return true
   } catch (error) {
     console.warn('Failed to send cast metadata message:', error)
@@ -214,6 +378,31 @@ async function sendCastMetadataMessage(payload: Record<string, any>) {
   }
 }
 
+// The live show and what's on next, as two channel messages
+async function sendShowMessages(
+  formattedTitle: string,
+  artist: string,
+  artworkUrl?: string,
+  showTime?: string,
+  timing?: CastShowTiming
+): Promise<boolean> {
+  const { startDateUtc, endDateUtc, nextShow } = timingFields(timing)
+  const sent = await sendCastMessage(
+    castMetadataMessage({
+      title: formattedTitle,
+      djName: artist || '',
+      showTime: showTime || '',
+      artworkUrl: artworkUrl || '',
+      startDateUtc,
+      endDateUtc,
+    })
+  )
+  if (sent) {
+    await sendCastMessage(castNextShowMessage(nextShow))
+  }
+  return sent
+}
+
 /**
  * Control playback on the cast device
  */
@@ -294,3 +483,51 @@ export async function castStop(): Promise<boolean> {
     return false
   }
 }
+
+export async function castSeek(position: number): Promise<boolean> {
+  if (Platform.OS === 'web' || !GoogleCast) {
+    return false
+  }
+
+  try {
+    const sessionManager = GoogleCast.getSessionManager()
+    const session = await sessionManager.getCurrentCastSession()
+
+    if (!session) {
+      return false
+    }
+
+    const client = session.getClient()
+    if (!client) {
+      return false
+    }
+
+    await client.seek({ position: Math.max(0, position) })
+    return true
+  } catch (error) {
+    console.error('Failed to seek on cast:', error)
+    return false
+  }
+}
+
+// `volume` is 0–1, the cast device's own volume
+export async function castSetVolume(volume: number): Promise<boolean> {
+  if (Platform.OS === 'web' || !GoogleCast) {
+    return false
+  }
+
+  try {
+    const sessionManager = GoogleCast.getSessionManager()
+    const session = await sessionManager.getCurrentCastSession()
+
+    if (!session) {
+      return false
+    }
+
+    await session.setVolume(Math.min(1, Math.max(0, volume)))
+    return true
+  } catch (error) {
+    console.error('Failed to set cast volume:', error)
+    return false
+  }
+}
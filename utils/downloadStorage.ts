@@ -0,0 +1,124 @@
+// utils/downloadStorage.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { DownloadedShow, DownloadsMap } from '../types/archive';
+
+const DOWNLOADS_KEY = 'eist_downloads';
+const DOWNLOAD_QUOTA_KEY = 'eist_download_quota_bytes';
+
+const MB = 1024 * 1024;
+
+export const DOWNLOADS_DIR = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}downloads/`
+  : null;
+
+// Storage quota choices offered on the Downloads view.
+export const DOWNLOAD_QUOTA_OPTIONS: { bytes: number; label: string }[] = [
+  { bytes: 500 * MB, label: '500 MB' },
+  { bytes: 1024 * MB, label: '1 GB' },
+  { bytes: 2048 * MB, label: '2 GB' },
+  { bytes: 5120 * MB, label: '5 GB' },
+];
+
+export const DEFAULT_DOWNLOAD_QUOTA_BYTES = 1024 * MB;
+
+// Downloads
+
+// Files are stored by name, relative to DOWNLOADS_DIR, and resolved on load:
+// iOS moves the app's container when the app is updated, so a stored
+// file:// URI stops pointing at the file.
+type StoredDownload = Omit<DownloadedShow, 'audioUri' | 'artworkUri'> & {
+  audioFile: string;
+  artworkFile: string | null;
+};
+
+function fileName(uri: string): string {
+  return uri.slice(uri.lastIndexOf('/') + 1);
+}
+
+function toStored({ audioUri, artworkUri, ...rest }: DownloadedShow): StoredDownload {
+  return { ...rest, audioFile: fileName(audioUri), artworkFile: artworkUri ? fileName(artworkUri) : null };
+}
+
+function fromStored({ audioFile, artworkFile, ...rest }: StoredDownload): DownloadedShow {
+  return {
+    ...rest,
+    audioUri: `${DOWNLOADS_DIR ?? ''}${audioFile}`,
+    artworkUri: artworkFile ? `${DOWNLOADS_DIR ?? ''}${artworkFile}` : null,
+  };
+}
+
+async function getStoredDownloads(): Promise<{ [showId: string]: StoredDownload }> {
+  const data = await AsyncStorage.getItem(DOWNLOADS_KEY);
+  return data ? JSON.parse(data) : {};
+}
+
+export async function getDownloads(): Promise<DownloadsMap> {
+  try {
+    const stored = await getStoredDownloads();
+    const downloads: DownloadsMap = {};
+    for (const [showId, download] of Object.entries(stored)) {
+      downloads[showId] = fromStored(download);
+    }
+    return downloads;
+  } catch (error) {
+    console.error('Failed to get downloads:', error);
+    return {};
+  }
+}
+
+export async function setDownload(download: DownloadedShow): Promise<void> {
+  try {
+    const downloads = await getStoredDownloads();
+    downloads[download.show.id] = toStored(download);
+    await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(downloads));
+  } catch (error) {
+    console.error('Failed to set download:', error);
+  }
+}
+
+export async function removeDownload(showId: string): Promise<void> {
+  try {
+    const downloads = await getStoredDownloads();
+    delete downloads[showId];
+    await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(downloads));
+  } catch (error) {
+    console.error('Failed to remove download:', error);
+  }
+}
+
+// Quota
+
+export async function getDownloadQuota(): Promise<number> {
+  try {
+    const data = await AsyncStorage.getItem(DOWNLOAD_QUOTA_KEY);
+    const bytes = data ? parseInt(data, 10) : NaN;
+    return Number.isFinite(bytes) && bytes > 0 ? bytes : DEFAULT_DOWNLOAD_QUOTA_BYTES;
+  } catch (error) {
+    console.error('Failed to get download quota:', error);
+    return DEFAULT_DOWNLOAD_QUOTA_BYTES;
+  }
+}
+
+export async function setDownloadQuota(bytes: number): Promise<void> {
+  try {
+    await AsyncStorage.setItem(DOWNLOAD_QUOTA_KEY, String(bytes));
+  } catch (error) {
+    console.error('Failed to set download quota:', error);
+  }
+}
+
+export function getDownloadsSize(downloads: DownloadsMap): number {
+  return Object.values(downloads).reduce((total, d) => total + d.bytes, 0);
+}
+
+/**
+ * Formats a byte count as "340 MB" / "1.2 GB".
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * MB) {
+    return `${(bytes / (1024 * MB)).toFixed(1).replace(/\.0$/, '')} GB`;
+  }
+  return `${Math.round(bytes / MB)} MB`;
+}
@@ -0,0 +1,108 @@
+// utils/eventLog.ts
+//
+// A small ring buffer of playback events for bug reports: player state
+// changes, stream recoveries and why they ran, network transitions, Cast
+// session changes and metadata fetch failures. It's persisted (debounced) so
+// a drop that ended with the app being killed is still there on next launch.
+// Read it on the diagnostics screen (long-press the spinning logo).
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const EVENT_LOG_KEY = 'eist_event_log';
+const MAX_EVENTS = 500;
+const PERSIST_DELAY_MS = 2000;
+
+export type EventCategory = 'player' | 'recovery' | 'network' | 'cast' | 'metadata';
+
+export type LoggedEvent = {
+  at: number; // epoch ms
+  category: EventCategory;
+  message: string;
+  details?: string;
+};
+
+let events: LoggedEvent[] = [];
+let loaded = false;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(events: LoggedEvent[]) => void>();
+
+function describe(details: unknown): string | undefined {
+  if (details === undefined || details === null) return undefined;
+  if (details instanceof Error) return details.message;
+  if (typeof details === 'string') return details;
+  try {
+    return JSON.stringify(details);
+  } catch {
+    return String(details);
+  }
+}
+
+function notify() {
+  for (const listener of listeners) listener(events);
+}
+
+function schedulePersist() {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    AsyncStorage.setItem(EVENT_LOG_KEY, JSON.stringify(events)).catch((error) =>
+      console.error('Failed to save event log:', error)
+    );
+  }, PERSIST_DELAY_MS);
+}
+
+export function logEvent(category: EventCategory, message: string, details?: unknown): void {
+  const event: LoggedEvent = { at: Date.now(), category, message, details: describe(details) };
+  events = [...events, event].slice(-MAX_EVENTS);
+  notify();
+  schedulePersist();
+}
+
+/**
+ * Loads the previous session's events ahead of this one's. Safe to call more
+ * than once.
+ */
+export async function loadEventLog(): Promise<LoggedEvent[]> {
+  if (loaded) return events;
+  loaded = true;
+  try {
+    const data = await AsyncStorage.getItem(EVENT_LOG_KEY);
+    const previous: LoggedEvent[] = data ? JSON.parse(data) : [];
+    events = [...previous, ...events].slice(-MAX_EVENTS);
+    notify();
+  } catch (error) {
+    console.error('Failed to load event log:', error);
+  }
+  return events;
+}
+
+export function getEventLog(): LoggedEvent[] {
+  return events;
+}
+
+export function subscribeEventLog(listener: (events: LoggedEvent[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function clearEventLog(): Promise<void> {
+  events = [];
+  notify();
+  try {
+    await AsyncStorage.removeItem(EVENT_LOG_KEY);
+  } catch (error) {
+    console.error('Failed to clear event log:', error);
+  }
+}
+
+export function formatEvent(event: LoggedEvent): string {
+  const line = `${new Date(event.at).toISOString()} [${event.category}] ${event.message}`;
+  return event.details ? `${line} — ${event.details}` : line;
+}
+
+// Plain text for attaching to a bug report; `header` lines go first
+export function formatEventLog(log: LoggedEvent[], header: string[] = []): string {
+  return [...header, '', ...log.map(formatEvent)].join('\n') + '\n';
+}
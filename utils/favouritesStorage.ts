@@ -0,0 +1,110 @@
+// utils/favouritesStorage.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  FavouriteArtist,
+  FavouriteArtistsMap,
+  FavouriteShow,
+  FavouriteShowsMap,
+} from '../types/favourites';
+import { cachedArtworkName, resolveCachedArtwork } from './artworkCache';
+
+const FAVOURITE_SHOWS_KEY = 'eist_favourite_shows';
+const FAVOURITE_ARTISTS_KEY = 'eist_favourite_artists';
+
+// Cached artwork is stored by file name (see utils/artworkCache.ts) and
+// resolved to a file:// URI on load
+type StoredArtwork = { artworkFile: string | null };
+type StoredFavouriteShow = Omit<FavouriteShow, 'artworkUri'> & StoredArtwork;
+type StoredFavouriteArtist = Omit<FavouriteArtist, 'artworkUri'> & StoredArtwork;
+
+function showToStored({ artworkUri, ...rest }: FavouriteShow): StoredFavouriteShow {
+  return { ...rest, artworkFile: cachedArtworkName(artworkUri) };
+}
+
+function showFromStored({ artworkFile, ...rest }: StoredFavouriteShow): FavouriteShow {
+  return { ...rest, artworkUri: resolveCachedArtwork(artworkFile) };
+}
+
+function artistToStored({ artworkUri, ...rest }: FavouriteArtist): StoredFavouriteArtist {
+  return { ...rest, artworkFile: cachedArtworkName(artworkUri) };
+}
+
+function artistFromStored({ artworkFile, ...rest }: StoredFavouriteArtist): FavouriteArtist {
+  return { ...rest, artworkUri: resolveCachedArtwork(artworkFile) };
+}
+
+async function getStored<S>(key: string): Promise<Record<string, S>> {
+  const data = await AsyncStorage.getItem(key);
+  return data ? JSON.parse(data) : {};
+}
+
+function resolveAll<S, T>(stored: Record<string, S>, fromStored: (favourite: S) => T): Record<string, T> {
+  const favourites: Record<string, T> = {};
+  for (const [id, favourite] of Object.entries(stored)) {
+    favourites[id] = fromStored(favourite);
+  }
+  return favourites;
+}
+
+// Favourite Shows
+
+export async function getFavouriteShows(): Promise<FavouriteShowsMap> {
+  try {
+    return resolveAll(await getStored<StoredFavouriteShow>(FAVOURITE_SHOWS_KEY), showFromStored);
+  } catch (error) {
+    console.error('Failed to get favourite shows:', error);
+    return {};
+  }
+}
+
+export async function setFavouriteShow(favourite: FavouriteShow): Promise<void> {
+  try {
+    const favourites = await getStored<StoredFavouriteShow>(FAVOURITE_SHOWS_KEY);
+    favourites[favourite.showId] = showToStored(favourite);
+    await AsyncStorage.setItem(FAVOURITE_SHOWS_KEY, JSON.stringify(favourites));
+  } catch (error) {
+    console.error('Failed to set favourite show:', error);
+  }
+}
+
+export async function removeFavouriteShow(showId: string): Promise<void> {
+  try {
+    const favourites = await getStored<StoredFavouriteShow>(FAVOURITE_SHOWS_KEY);
+    delete favourites[showId];
+    await AsyncStorage.setItem(FAVOURITE_SHOWS_KEY, JSON.stringify(favourites));
+  } catch (error) {
+    console.error('Failed to remove favourite show:', error);
+  }
+}
+
+// Favourite Artists
+
+export async function getFavouriteArtists(): Promise<FavouriteArtistsMap> {
+  try {
+    return resolveAll(await getStored<StoredFavouriteArtist>(FAVOURITE_ARTISTS_KEY), artistFromStored);
+  } catch (error) {
+    console.error('Failed to get favourite artists:', error);
+    return {};
+  }
+}
+
+export async function setFavouriteArtist(favourite: FavouriteArtist): Promise<void> {
+  try {
+    const favourites = await getStored<StoredFavouriteArtist>(FAVOURITE_ARTISTS_KEY);
+    favourites[favourite.artistId] = artistToStored(favourite);
+    await AsyncStorage.setItem(FAVOURITE_ARTISTS_KEY, JSON.stringify(favourites));
+  } catch (error) {
+    console.error('Failed to set favourite artist:', error);
+  }
+}
+
+export async function removeFavouriteArtist(artistId: string): Promise<void> {
+  try {
+    const favourites = await getStored<StoredFavouriteArtist>(FAVOURITE_ARTISTS_KEY);
+    delete favourites[artistId];
+    await AsyncStorage.setItem(FAVOURITE_ARTISTS_KEY, JSON.stringify(favourites));
+  } catch (error) {
+    console.error('Failed to remove favourite artist:', error);
+  }
+}
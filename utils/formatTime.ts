@@ -11,3 +11,17 @@ export function formatClockTime(input: string | Date, timeZone?: string): string
     ...(timeZone ? { timeZone } : {}),
   }).format(date)
 }
+
+/**
+ * Formats a duration in seconds as "m:ss", or "h:mm:ss" past an hour.
+ */
+export function formatDuration(totalSeconds: number): string {
+  const secs = Math.max(0, Math.floor(totalSeconds))
+  const hours = Math.floor(secs / 3600)
+  const minutes = Math.floor((secs % 3600) / 60)
+  const ss = String(secs % 60).padStart(2, '0')
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${ss}`
+  }
+  return `${minutes}:${ss}`
+}
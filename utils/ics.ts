@@ -0,0 +1,117 @@
+// utils/ics.ts
+//
+// Minimal iCalendar (RFC 5545) writer for schedule shows: one VEVENT per
+// show, times in UTC, text escaped and lines folded as the spec requires.
+
+import { RawScheduleItem } from '../types/schedule';
+import { stripFormatting } from './stripFormatting';
+
+const PRODUCT_ID = '-//éist//éist app//EN';
+const UID_DOMAIN = 'eist.radio';
+// Lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+export type IcsEvent = {
+  uid: string;
+  title: string;
+  start: Date;
+  end: Date;
+  description?: string;
+  url?: string;
+};
+
+function formatIcsDate(date: Date): string {
+  // 2025-01-27T19:00:00.000Z -> 20250127T190000Z
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+// Fold on character boundaries so multi-byte characters (the fada in "éist")
+// are never split across lines
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function scheduleItemToIcsEvent(
+  item: RawScheduleItem,
+  options: { hostName?: string; url?: string } = {}
+): IcsEvent {
+  const { hostName, url } = options;
+  const about = stripFormatting(item.description?.content || []).trim();
+  const description = [
+    hostName ? `with ${hostName}` : '',
+    about,
+    url ? `Listen in the éist app: ${url}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    uid: `${item.id}@${UID_DOMAIN}`,
+    title: hostName ? `${item.title.trim()} with ${hostName}` : item.title.trim(),
+    start: new Date(item.startDateUtc),
+    end: new Date(item.endDateUtc),
+    description: description || undefined,
+    url,
+  };
+}
+
+export function buildCalendar(events: IcsEvent[], calendarName = 'éist'): string {
+  const stamp = formatIcsDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDate(event.start)}`,
+      `DTEND:${formatIcsDate(event.end)}`,
+      `SUMMARY:${escapeText(event.title)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,98 @@
+// utils/listeningHistory.ts
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ArchiveShow, ListeningHistoryEntry, ListeningHistoryMap } from '../types/archive';
+
+const LISTENING_HISTORY_KEY = 'eist_listening_history';
+
+// Oldest entries are dropped beyond this so the stored map stays small.
+const MAX_HISTORY_ENTRIES = 200;
+
+// A show counts as played once the listener is within this much of the end
+// (archive uploads often trail off with a minute of silence or station ID).
+const COMPLETED_THRESHOLD_SECONDS = 60;
+
+// Positions this close to the start aren't worth offering a resume for.
+const MIN_RESUME_SECONDS = 30;
+
+export type ListeningStatus = 'played' | 'in-progress';
+
+export async function getListeningHistory(): Promise<ListeningHistoryMap> {
+  try {
+    const data = await AsyncStorage.getItem(LISTENING_HISTORY_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('Failed to get listening history:', error);
+    return {};
+  }
+}
+
+export async function saveListeningHistory(history: ListeningHistoryMap): Promise<void> {
+  try {
+    await AsyncStorage.setItem(LISTENING_HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Failed to save listening history:', error);
+  }
+}
+
+/**
+ * Fold a progress sample into the history map, returning a new map. Once a
+ * show is completed it stays marked played even if the listener scrubs back.
+ */
+export function applyListeningProgress(
+  history: ListeningHistoryMap,
+  show: ArchiveShow,
+  position: number,
+  duration: number,
+  now: Date = new Date()
+): ListeningHistoryMap {
+  const previous = history[show.id];
+  const knownDuration = duration > 0 ? duration : previous?.duration ?? 0;
+  const reachedEnd =
+    knownDuration > 0 && position >= knownDuration - COMPLETED_THRESHOLD_SECONDS;
+
+  const next: ListeningHistoryMap = {
+    ...history,
+    [show.id]: {
+      show,
+      position: reachedEnd ? 0 : position,
+      duration: knownDuration,
+      completed: reachedEnd || (previous?.completed ?? false),
+      firstPlayedAt: previous?.firstPlayedAt ?? now.toISOString(),
+      lastPlayedAt: now.toISOString(),
+    },
+  };
+
+  const ids = Object.keys(next);
+  if (ids.length <= MAX_HISTORY_ENTRIES) return next;
+
+  ids
+    .sort((a, b) => next[a].lastPlayedAt.localeCompare(next[b].lastPlayedAt))
+    .slice(0, ids.length - MAX_HISTORY_ENTRIES)
+    .forEach((id) => delete next[id]);
+  return next;
+}
+
+/**
+ * Seconds to resume from, or 0 to start at the top.
+ */
+export function getResumePosition(entry?: ListeningHistoryEntry | null): number {
+  if (!entry || entry.position < MIN_RESUME_SECONDS) return 0;
+  return entry.position;
+}
+
+export function getListeningStatus(entry?: ListeningHistoryEntry | null): ListeningStatus | null {
+  if (!entry) return null;
+  if (getResumePosition(entry) > 0) return 'in-progress';
+  if (entry.completed) return 'played';
+  return null;
+}
+
+/**
+ * Shows with a resumable position, most recently played first.
+ */
+export function getContinueListening(history: ListeningHistoryMap): ListeningHistoryEntry[] {
+  return Object.values(history)
+    .filter((entry) => getResumePosition(entry) > 0)
+    .sort((a, b) => b.lastPlayedAt.localeCompare(a.lastPlayedAt));
+}
@@ -1,10 +1,5 @@
-import { apiKey } from '../config'
 import { formatClockTime } from './formatTime'
-
-const STATION_ID = 'eist-radio'
-const API_BASE = `https://api.radiocult.fm/api/station/${STATION_ID}`
-const LIVE_URL = `${API_BASE}/schedule/live`
-const ARTIST_URL = `${API_BASE}/artists`
+import { getArtist, getLiveSchedule } from './radiocultClient'
 
 const CACHE_TTL_MS = 60_000
 
@@ -51,18 +46,12 @@ export function formatShowTimeRange(start?: string, end?: string, timeZone?: str
   return `${formatClockTime(startDate, tz)}–${formatClockTime(endDate, tz)}`
 }
 
-async function fetchArtistInfo(artistId: string, headers: Record<string, string>): Promise<ArtistInfo> {
+async function fetchArtistInfo(artistId: string): Promise<ArtistInfo> {
   if (artistCache[artistId]) {
     return artistCache[artistId]
   }
 
-  const res = await fetch(`${ARTIST_URL}/${encodeURIComponent(artistId)}`, { headers })
-  if (!res.ok) {
-    throw new Error(`Artist lookup failed (${res.status})`)
-  }
-
-  const json = await res.json()
-  const artist = json.artist || {}
+  const artist = await getArtist(artistId)
   const artworkUrl =
     artist.logo?.['1024x1024'] ||
     artist.logo?.['512x512'] ||
@@ -95,23 +84,9 @@ export async function getLiveShowInfo(options?: { timeZone?: string }): Promise<
   }
 
   inflight = (async () => {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    }
-    if (apiKey) {
-      headers['x-api-key'] = apiKey
-    }
-
-    const res = await fetch(LIVE_URL, { headers })
-    if (!res.ok) {
-      throw new Error(`Live schedule fetch failed (${res.status})`)
-    }
-
-    const json = await res.json()
-    const result = json?.result ?? json
-    const status = result?.status
+    const result = await getLiveSchedule()
 
-    if (status !== 'schedule') {
+    if (result.status !== 'schedule' || !result.content) {
       const data: LiveShowInfo = {
         title: 'éist · off air',
         djName: '',
@@ -124,14 +99,14 @@ export async function getLiveShowInfo(options?: { timeZone?: string }): Promise<
       return data
     }
 
-    const content = result?.content || {}
+    const content = result.content
     const artistId = content.artistIds?.[0]
     let djName = ''
     let artworkUrl: string | undefined
 
     if (artistId) {
       try {
-        const artistInfo = await fetchArtistInfo(artistId, headers)
+        const artistInfo = await fetchArtistInfo(artistId)
         djName = artistInfo.name
         artworkUrl = artistInfo.artworkUrl
       } catch (error) {
@@ -140,11 +115,11 @@ export async function getLiveShowInfo(options?: { timeZone?: string }): Promise<
     }
 
     if (!djName) {
-      djName = result?.artist || ''
+      djName = result.artist || ''
     }
 
     if (!artworkUrl) {
-      artworkUrl = result?.artworkUrl || undefined
+      artworkUrl = result.artworkUrl || undefined
     }
 
     const startDateUtc = content.startDateUtc
@@ -1,14 +1,13 @@
 // utils/nextShow.ts
 //
 // Shared helpers for resolving an artist's next (non-repeat) upcoming show
-// from the RadioCult schedule, plus a friendly date formatter. Used by the
-// artist detail page and the Active reminders screen.
+// from the shared schedule (see hooks/useSchedule), plus a friendly date
+// formatter. Used by the artist detail page, the Active reminders screen and
+// the reminder resync.
 
-import { apiKey } from '../config';
+import { RawScheduleItem } from '../types/schedule';
 import { formatClockTime } from './formatTime';
 
-const STATION_ID = 'eist-radio';
-
 const REPEAT_PATTERNS = [
   'éist arís',
   'eist arís',
@@ -18,54 +17,79 @@ const REPEAT_PATTERNS = [
   'from the archives',
 ];
 
-export type ScheduleItem = {
-  id: string;
-  title: string;
-  startDateUtc: string;
-  endDateUtc: string;
-  artistIds?: string[];
-};
-
-export async function fetchNextShowForArtist(
-  artistId: string,
-  timezone: string
-): Promise<ScheduleItem | null> {
-  const now = new Date();
-  const weekAhead = new Date(now.getTime() + 14 * 24 * 60 * 60 * 1000);
-
-  const startDate = now.toISOString();
-  const endDate = weekAhead.toISOString();
-
-  const url =
-    `https://api.radiocult.fm/api/station/${STATION_ID}/schedule` +
-    `?startDate=${encodeURIComponent(startDate)}` +
-    `&endDate=${encodeURIComponent(endDate)}` +
-    `&timeZone=${encodeURIComponent(timezone)}`;
+export function isRepeatTitle(title: string): boolean {
+  const titleLower = title.toLowerCase();
+  return REPEAT_PATTERNS.some((pattern) => titleLower.includes(pattern));
+}
 
-  try {
-    const res = await fetch(url, {
-      headers: { 'x-api-key': apiKey, 'Content-Type': 'application/json' },
-    });
-    if (!res.ok) return null;
+export type ScheduleItem = Pick<
+  RawScheduleItem,
+  'id' | 'title' | 'startDateUtc' | 'endDateUtc' | 'artistIds'
+>;
 
-    const json = (await res.json()) as { schedules?: ScheduleItem[] };
-    const schedules = json.schedules || [];
+/**
+ * The first show in `schedules` (sorted by start) hosted by the artist that
+ * hasn't started yet and isn't a repeat.
+ */
+export function findNextShowForArtist<T extends ScheduleItem>(
+  schedules: T[],
+  artistId: string,
+  now: Date = new Date()
+): T | null {
+  const nowMs = now.getTime();
+  for (const show of schedules) {
+    if (!show.artistIds?.includes(artistId)) continue;
+    if (new Date(show.startDateUtc).getTime() <= nowMs) continue;
+    if (!isRepeatTitle(show.title)) {
+      return show;
+    }
+  }
+  return null;
+}
 
-    for (const show of schedules) {
-      if (show.artistIds?.includes(artistId)) {
-        const titleLower = show.title.toLowerCase();
-        const isRepeat = REPEAT_PATTERNS.some((pattern) =>
-          titleLower.includes(pattern)
-        );
-        if (!isRepeat) {
-          return show;
-        }
-      }
+/**
+ * The station's "up next": the soonest show in `schedules` that hasn't started
+ * yet, whoever hosts it (repeats included — they're what's on next).
+ */
+export function findUpNextShow<T extends ScheduleItem>(
+  schedules: T[],
+  now: Date = new Date()
+): T | null {
+  const nowMs = now.getTime();
+  let next: T | null = null;
+  for (const show of schedules) {
+    const start = new Date(show.startDateUtc).getTime();
+    if (start <= nowMs) continue;
+    if (!next || start < new Date(next.startDateUtc).getTime()) {
+      next = show;
     }
-    return null;
-  } catch {
-    return null;
   }
+  return next;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every non-repeat show hosted by any of `artistIds` that starts within
+ * `days` days of `from`, in start order.
+ */
+export function findUpcomingShowsForArtists<T extends ScheduleItem>(
+  schedules: T[],
+  artistIds: string[],
+  from: Date = new Date(),
+  days = 7
+): T[] {
+  const ids = new Set(artistIds);
+  const startMs = from.getTime();
+  const endMs = startMs + days * DAY_MS;
+  return schedules
+    .filter((show) => {
+      if (!show.artistIds?.some((id) => ids.has(id))) return false;
+      const showStart = new Date(show.startDateUtc).getTime();
+      if (showStart < startMs || showStart >= endMs) return false;
+      return !isRepeatTitle(show.title);
+    })
+    .sort((a, b) => a.startDateUtc.localeCompare(b.startDateUtc));
 }
 
 export function formatNextShowDate(isoString: string): string {
@@ -2,21 +2,63 @@
 
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
-import { NotificationPermissionStatus } from '../types/notifications';
+import { NotificationPermissionStatus, ReminderLeadTime } from '../types/notifications';
+import { formatClockTime } from './formatTime';
 
-// Configure notification behavior
+// Configure notification behavior. A wake alarm that fires while the app is
+// open is handled by starting the stream instead (see AlarmContext), so its
+// banner and sound are suppressed; the explicit fallback copy still shows.
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: false,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
+  handleNotification: async (notification) => {
+    const data = notification.request.content.data;
+    const isAutoplayAlarm = data?.type === 'wake_alarm' && !data?.fallback;
+    return {
+      shouldShowAlert: !isAutoplayAlarm,
+      shouldPlaySound: !isAutoplayAlarm,
+      shouldSetBadge: false,
+      shouldShowBanner: !isAutoplayAlarm,
+      shouldShowList: true,
+    };
+  },
 });
 
-// Minutes before show start to send notification
-const REMINDER_MINUTES_BEFORE = 5;
+// 'evening_before' reminders go out at this local hour the day before
+const EVENING_BEFORE_HOUR = 19;
+
+export function formatLeadTime(leadTime: ReminderLeadTime): string {
+  if (leadTime === 'evening_before') return 'The evening before';
+  if (leadTime === 0) return 'At start';
+  if (leadTime === 60) return '1 hour before';
+  return `${leadTime} min before`;
+}
+
+// When a reminder with this lead time should fire for a show starting at `showStart`
+export function getReminderTime(showStart: Date, leadTime: ReminderLeadTime): Date {
+  if (leadTime === 'evening_before') {
+    const evening = new Date(showStart);
+    evening.setDate(evening.getDate() - 1);
+    evening.setHours(EVENING_BEFORE_HOUR, 0, 0, 0);
+    return evening;
+  }
+  return new Date(showStart.getTime() - leadTime * 60 * 1000);
+}
+
+function reminderCopy(
+  showTitle: string,
+  artistName: string | undefined,
+  showStart: Date,
+  leadTime: ReminderLeadTime
+): { title: string; body: string } {
+  const what = artistName ? `${showTitle} with ${artistName}` : showTitle;
+  if (leadTime === 'evening_before') {
+    return { title: 'On Tomorrow', body: `${what} is on tomorrow at ${formatClockTime(showStart)}` };
+  }
+  if (leadTime === 0) {
+    return { title: 'Show Starting Now', body: `${what} is starting now` };
+  }
+  const when = leadTime === 60 ? '1 hour' : `${leadTime} minutes`;
+  return { title: 'Show Starting Soon', body: `${what} starts in ${when}` };
+}
 
 export async function requestNotificationPermissions(): Promise<NotificationPermissionStatus> {
   if (Platform.OS === 'web') {
@@ -62,31 +104,49 @@ export type ScheduleShowReminderParams = {
   showTitle: string;
   artistName?: string;
   startDateUtc: string;
+  // Chosen for this show; without it the default lead time applies
+  leadTime?: ReminderLeadTime;
 };
 
+// A scheduled reminder, with the lead time it actually fires at
+export type ScheduledShowReminder = {
+  notificationId: string;
+  leadTime: ReminderLeadTime;
+};
+
+/**
+ * Schedules a reminder at `leadTime` before the show. When that has already
+ * passed it reminds at the start instead, and says so in the returned
+ * `leadTime`. Null if the show has started or scheduling failed.
+ */
 export async function scheduleShowReminder(
-  params: ScheduleShowReminderParams
-): Promise<string | null> {
+  params: ScheduleShowReminderParams & { leadTime: ReminderLeadTime }
+): Promise<ScheduledShowReminder | null> {
   const { showId, showTitle, artistName, startDateUtc } = params;
+  let { leadTime } = params;
 
+  const now = new Date();
   const showStart = new Date(startDateUtc);
-  const reminderTime = new Date(
-    showStart.getTime() - REMINDER_MINUTES_BEFORE * 60 * 1000
-  );
 
-  // Don't schedule if show already started or reminder time has passed
-  if (reminderTime <= new Date()) {
+  // Don't schedule if show already started
+  if (showStart <= now) {
     return null;
   }
 
+  // Too late for the chosen lead time (e.g. an hour's notice for a show in
+  // twenty minutes): remind at the start instead
+  let reminderTime = getReminderTime(showStart, leadTime);
+  if (reminderTime <= now) {
+    leadTime = 0;
+    reminderTime = showStart;
+  }
+
   try {
-    const body = artistName
-      ? `${showTitle} with ${artistName} starts in ${REMINDER_MINUTES_BEFORE} minutes`
-      : `${showTitle} starts in ${REMINDER_MINUTES_BEFORE} minutes`;
+    const { title, body } = reminderCopy(showTitle, artistName, showStart, leadTime);
 
     const notificationId = await Notifications.scheduleNotificationAsync({
       content: {
-        title: 'Show Starting Soon',
+        title,
         body,
         data: { showId, type: 'show_reminder' },
         sound: true,
@@ -97,7 +157,7 @@ export async function scheduleShowReminder(
       },
     });
 
-    return notificationId;
+    return { notificationId, leadTime };
   } catch (error) {
     console.error('Failed to schedule show reminder:', error);
     return null;
@@ -140,3 +200,220 @@ export async function hasScheduledReminder(showId: string): Promise<boolean> {
     (notification) => notification.content.data?.showId === showId
   );
 }
+
+// Wake-up alarms
+
+const WAKE_ALARM_CONTENT = {
+  title: 'Good morning',
+  body: 'Tap to wake up to éist',
+  sound: true,
+};
+
+export type ScheduleWakeAlarmParams = {
+  alarmId: string;
+  hour: number;
+  minute: number;
+  weekdays: number[];
+};
+
+// Schedules one repeating weekly notification per selected weekday. The
+// notification doubles as the fallback: the OS won't let a backgrounded app
+// start audio on its own, so tapping it opens the app and starts the stream.
+export async function scheduleWakeAlarm(
+  params: ScheduleWakeAlarmParams
+): Promise<string[]> {
+  const { alarmId, hour, minute, weekdays } = params;
+  const notificationIds: string[] = [];
+
+  for (const weekday of weekdays) {
+    try {
+      const notificationId = await Notifications.scheduleNotificationAsync({
+        content: {
+          ...WAKE_ALARM_CONTENT,
+          data: { alarmId, type: 'wake_alarm' },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+          weekday,
+          hour,
+          minute,
+        },
+      });
+      notificationIds.push(notificationId);
+    } catch (error) {
+      console.error(`Failed to schedule wake alarm for weekday ${weekday}:`, error);
+    }
+  }
+
+  return notificationIds;
+}
+
+export async function cancelWakeAlarm(notificationIds: string[]): Promise<void> {
+  for (const notificationId of notificationIds) {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(notificationId);
+    } catch (error) {
+      console.error('Failed to cancel wake alarm:', error);
+    }
+  }
+}
+
+// Shown immediately when an alarm fires while the app is open but playback
+// couldn't be started (e.g. the audio session was refused).
+export async function presentWakeAlarmFallback(alarmId: string): Promise<void> {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        ...WAKE_ALARM_CONTENT,
+        data: { alarmId, type: 'wake_alarm', fallback: true },
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error('Failed to present wake alarm fallback:', error);
+  }
+}
+
+// Media notification actions (see utils/androidNotificationSetup.ts). Those
+// buttons give no feedback of their own, so each answers with a notification.
+
+// Confirms "Remind me about next show"
+export async function presentReminderSetConfirmation(params: {
+  showTitle: string;
+  startDateUtc: string;
+  leadTime: ReminderLeadTime;
+}): Promise<void> {
+  const { showTitle, startDateUtc, leadTime } = params;
+  const when = formatLeadTime(leadTime).toLowerCase();
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Reminder Set',
+        body: `${showTitle} at ${formatClockTime(startDateUtc)}: we'll remind you ${when}`,
+        data: { type: 'reminder_set' },
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error('Failed to present reminder confirmation:', error);
+  }
+}
+
+// Android won't open the share sheet from a notification button while the app
+// is in the background, so "Share" posts this instead; tapping it opens the
+// app and shares `message` (see TrackPlayerContext).
+export async function presentSharePrompt(showTitle: string, message: string): Promise<void> {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Share What’s On',
+        body: `Tap to share ${showTitle}`,
+        data: { type: 'share_now_playing', message },
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error('Failed to present share prompt:', error);
+  }
+}
+
+// Weekly digest
+
+// Longest list that still reads in an expanded notification
+const DIGEST_MAX_LINES = 6;
+
+// Digests armed at a time. Nothing runs in the background to arm the next
+// one, so this is how long the digest keeps coming without the app opening.
+export const DIGEST_WEEKS_AHEAD = 4;
+
+export type DigestShow = {
+  showTitle: string;
+  artistName?: string;
+  startDateUtc: string;
+};
+
+// The next time the clock reads weekday/hour:minute, strictly after `from`.
+// `weekday` is 1 = Sunday … 7 = Saturday, as for weekly triggers.
+export function getNextWeeklyOccurrence(
+  weekday: number,
+  hour: number,
+  minute: number,
+  from: Date = new Date()
+): Date {
+  const next = new Date(from);
+  next.setHours(hour, minute, 0, 0);
+  const daysAhead = (weekday - 1 - next.getDay() + 7) % 7;
+  next.setDate(next.getDate() + daysAhead);
+  if (next <= from) {
+    next.setDate(next.getDate() + 7);
+  }
+  return next;
+}
+
+// The next `count` weekly occurrences after `from`, a week apart
+export function getWeeklyOccurrences(
+  weekday: number,
+  hour: number,
+  minute: number,
+  count: number,
+  from: Date = new Date()
+): Date[] {
+  const first = getNextWeeklyOccurrence(weekday, hour, minute, from);
+  return Array.from({ length: count }, (_, week) => {
+    const date = new Date(first);
+    date.setDate(date.getDate() + week * 7);
+    return date;
+  });
+}
+
+function formatDigestLine(show: DigestShow): string {
+  const start = new Date(show.startDateUtc);
+  const day = start.toLocaleDateString(undefined, { weekday: 'short' });
+  const title = show.artistName ? `${show.showTitle} with ${show.artistName}` : show.showTitle;
+  return `${day} ${formatClockTime(start)} · ${title}`;
+}
+
+// One-off notification listing a week's shows. Unlike wake alarms this can't
+// be a repeating trigger, because the text changes every week: the caller
+// arms DIGEST_WEEKS_AHEAD of them and re-arms whenever the app runs.
+export async function scheduleWeeklyDigest(params: {
+  date: Date;
+  shows: DigestShow[];
+  artistIds: string[];
+}): Promise<string | null> {
+  const { date, shows, artistIds } = params;
+  if (shows.length === 0 || date <= new Date()) {
+    return null;
+  }
+
+  const lines = shows.slice(0, DIGEST_MAX_LINES).map(formatDigestLine);
+  if (shows.length > DIGEST_MAX_LINES) {
+    lines.push(`+ ${shows.length - DIGEST_MAX_LINES} more`);
+  }
+
+  try {
+    return await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Your hosts this week',
+        body: lines.join('\n'),
+        data: { type: 'weekly_digest', artistIds },
+        sound: true,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to schedule weekly digest:', error);
+    return null;
+  }
+}
+
+export async function cancelWeeklyDigest(notificationId: string): Promise<void> {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
+  } catch (error) {
+    console.error('Failed to cancel weekly digest:', error);
+  }
+}
@@ -4,19 +4,60 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   ArtistSubscription,
   ArtistSubscriptionsMap,
+  ReminderLeadTime,
   ShowReminder,
   ShowRemindersMap,
+  WakeAlarm,
+  WakeAlarmsMap,
+  WeeklyDigestSettings,
 } from '../types/notifications';
 
 const SHOW_REMINDERS_KEY = 'eist_show_reminders';
 const ARTIST_SUBSCRIPTIONS_KEY = 'eist_artist_subscriptions';
+const WAKE_ALARMS_KEY = 'eist_wake_alarms';
+const WEEKLY_DIGEST_KEY = 'eist_weekly_digest';
+const DEFAULT_LEAD_TIME_KEY = 'eist_reminder_lead_time';
+
+export const DEFAULT_REMINDER_LEAD_TIME: ReminderLeadTime = 5;
+// What every reminder used before lead times were configurable
+const LEGACY_REMINDER_LEAD_TIME: ReminderLeadTime = 5;
+
+export const REMINDER_LEAD_TIMES: ReminderLeadTime[] = [0, 5, 15, 30, 60, 'evening_before'];
+
+function isReminderLeadTime(value: unknown): value is ReminderLeadTime {
+  return REMINDER_LEAD_TIMES.includes(value as ReminderLeadTime);
+}
+
+// Off until chosen; Monday 09:00 once switched on
+export const DEFAULT_WEEKLY_DIGEST: WeeklyDigestSettings = {
+  enabled: false,
+  weekday: 2,
+  hour: 9,
+  minute: 0,
+  notificationIds: [],
+};
 
 // Show Reminders
 
+// Fill in fields added since a reminder was stored. Reminders saved before
+// lead times existed were scheduled 5 minutes out and follow the default.
+function normalizeShowReminder(reminder: ShowReminder): ShowReminder {
+  return {
+    ...reminder,
+    leadTime: isReminderLeadTime(reminder.leadTime) ? reminder.leadTime : LEGACY_REMINDER_LEAD_TIME,
+    customLeadTime: reminder.customLeadTime ?? false,
+  };
+}
+
 export async function getShowReminders(): Promise<ShowRemindersMap> {
   try {
     const data = await AsyncStorage.getItem(SHOW_REMINDERS_KEY);
-    return data ? JSON.parse(data) : {};
+    if (!data) return {};
+    const reminders: ShowRemindersMap = JSON.parse(data);
+    for (const showId of Object.keys(reminders)) {
+      reminders[showId] = normalizeShowReminder(reminders[showId]);
+    }
+    return reminders;
   } catch (error) {
     console.error('Failed to get show reminders:', error);
     return {};
@@ -55,6 +96,42 @@ export async function getShowReminder(
   }
 }
 
+// Rewrite stored reminders in the current shape (see normalizeShowReminder)
+export async function migrateShowReminders(): Promise<void> {
+  try {
+    const data = await AsyncStorage.getItem(SHOW_REMINDERS_KEY);
+    if (!data) return;
+    const stored: ShowRemindersMap = JSON.parse(data);
+    const needsMigration = Object.values(stored).some(
+      (reminder) => !isReminderLeadTime(reminder.leadTime) || reminder.customLeadTime === undefined
+    );
+    if (needsMigration) {
+      await AsyncStorage.setItem(SHOW_REMINDERS_KEY, JSON.stringify(await getShowReminders()));
+    }
+  } catch (error) {
+    console.error('Failed to migrate show reminders:', error);
+  }
+}
+
+export async function getDefaultLeadTime(): Promise<ReminderLeadTime> {
+  try {
+    const data = await AsyncStorage.getItem(DEFAULT_LEAD_TIME_KEY);
+    const parsed = data ? JSON.parse(data) : null;
+    return isReminderLeadTime(parsed) ? parsed : DEFAULT_REMINDER_LEAD_TIME;
+  } catch (error) {
+    console.error('Failed to get default reminder lead time:', error);
+    return DEFAULT_REMINDER_LEAD_TIME;
+  }
+}
+
+export async function setDefaultLeadTime(leadTime: ReminderLeadTime): Promise<void> {
+  try {
+    await AsyncStorage.setItem(DEFAULT_LEAD_TIME_KEY, JSON.stringify(leadTime));
+  } catch (error) {
+    console.error('Failed to set default reminder lead time:', error);
+  }
+}
+
 // Artist Subscriptions
 
 export async function getArtistSubscriptions(): Promise<ArtistSubscriptionsMap> {
@@ -114,6 +191,58 @@ export async function isArtistSubscribed(artistId: string): Promise<boolean> {
   return subscription?.isActive ?? false;
 }
 
+// Wake Alarms
+
+export async function getWakeAlarms(): Promise<WakeAlarmsMap> {
+  try {
+    const data = await AsyncStorage.getItem(WAKE_ALARMS_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('Failed to get wake alarms:', error);
+    return {};
+  }
+}
+
+export async function setWakeAlarm(alarm: WakeAlarm): Promise<void> {
+  try {
+    const alarms = await getWakeAlarms();
+    alarms[alarm.alarmId] = alarm;
+    await AsyncStorage.setItem(WAKE_ALARMS_KEY, JSON.stringify(alarms));
+  } catch (error) {
+    console.error('Failed to set wake alarm:', error);
+  }
+}
+
+export async function removeWakeAlarm(alarmId: string): Promise<void> {
+  try {
+    const alarms = await getWakeAlarms();
+    delete alarms[alarmId];
+    await AsyncStorage.setItem(WAKE_ALARMS_KEY, JSON.stringify(alarms));
+  } catch (error) {
+    console.error('Failed to remove wake alarm:', error);
+  }
+}
+
+// Weekly Digest
+
+export async function getWeeklyDigest(): Promise<WeeklyDigestSettings> {
+  try {
+    const data = await AsyncStorage.getItem(WEEKLY_DIGEST_KEY);
+    return data ? { ...DEFAULT_WEEKLY_DIGEST, ...JSON.parse(data) } : DEFAULT_WEEKLY_DIGEST;
+  } catch (error) {
+    console.error('Failed to get weekly digest settings:', error);
+    return DEFAULT_WEEKLY_DIGEST;
+  }
+}
+
+export async function setWeeklyDigest(settings: WeeklyDigestSettings): Promise<void> {
+  try {
+    await AsyncStorage.setItem(WEEKLY_DIGEST_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to set weekly digest settings:', error);
+  }
+}
+
 // Cleanup expired reminders (shows that have already started)
 export async function cleanupExpiredReminders(): Promise<void> {
   try {
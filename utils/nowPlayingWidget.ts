@@ -0,0 +1,49 @@
+// utils/nowPlayingWidget.ts
+//
+// JS side of the Android home-screen widget (plugins/withAndroidWidget.js).
+// The EistWidgetBridge module only exists in Android builds made with the
+// plugin, so everything here is a no-op elsewhere (iOS, web, Expo Go).
+
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
+
+const PLAY_EVENT = 'EistWidgetPlay';
+
+export type WidgetShow = {
+  title: string;
+  host: string;
+  // e.g. "16:00–18:00", in the device's timezone
+  timeRange: string;
+  // When the widget should stop showing this show (epoch ms)
+  endsAtMs: number | null;
+};
+
+export type NowPlayingWidgetState = WidgetShow & {
+  artworkUrl?: string;
+  next: (WidgetShow & { startTime: string }) | null;
+};
+
+function getBridge() {
+  if (Platform.OS !== 'android') return null;
+  return NativeModules.EistWidgetBridge ?? null;
+}
+
+export function updateNowPlayingWidget(state: NowPlayingWidgetState): void {
+  const bridge = getBridge();
+  if (!bridge) return;
+  try {
+    bridge.update(JSON.stringify(state));
+  } catch (error) {
+    console.error('Failed to update widget:', error);
+  }
+}
+
+/**
+ * Calls `onPlay` when the widget's play button is tapped, including a tap that
+ * cold-started the app. Returns an unsubscribe function.
+ */
+export function addWidgetPlayListener(onPlay: () => void): () => void {
+  const bridge = getBridge();
+  if (!bridge) return () => {};
+  const subscription = new NativeEventEmitter(bridge).addListener(PLAY_EVENT, onPlay);
+  return () => subscription.remove();
+}
@@ -0,0 +1,296 @@
+// utils/radiocultClient.ts
+//
+// The app's only way to talk to RadioCult. Every request gets the station base
+// URL and API key, a timeout, retries with backoff for transient failures, and
+// its JSON checked against a schema before anything reads it. Failures surface
+// as a RadioCultError whose `kind` says what went wrong, so screens can fall
+// back instead of crashing on a malformed payload.
+
+import Ajv from 'ajv';
+import { apiKey, RADIOCULT_STATION_URL } from '../config';
+import { RadioCultArtist, RadioCultLiveResult } from '../types/radiocult';
+import { RawScheduleItem } from '../types/schedule';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 4_000;
+
+export type RadioCultErrorKind = 'network' | 'timeout' | 'http' | 'validation';
+
+export class RadioCultError extends Error {
+  readonly kind: RadioCultErrorKind;
+  readonly url: string;
+  // HTTP status for 'http' errors
+  readonly status?: number;
+
+  constructor(kind: RadioCultErrorKind, message: string, url: string, status?: number) {
+    super(message);
+    this.name = 'RadioCultError';
+    this.kind = kind;
+    this.url = url;
+    this.status = status;
+  }
+
+  get isNotFound(): boolean {
+    return this.kind === 'http' && this.status === 404;
+  }
+
+  // Worth another attempt: the network, a timeout, rate limiting or a server error
+  get isTransient(): boolean {
+    if (this.kind === 'network' || this.kind === 'timeout') return true;
+    if (this.kind === 'http' && this.status !== undefined) {
+      return this.status === 429 || this.status >= 500;
+    }
+    return false;
+  }
+}
+
+export function isRadioCultError(error: unknown): error is RadioCultError {
+  return error instanceof RadioCultError;
+}
+
+export type RequestOptions = {
+  timeoutMs?: number;
+  // Extra attempts after the first for transient failures
+  retries?: number;
+};
+
+// Response schemas. Only what the app reads is required; unknown fields pass through.
+
+const ajv = new Ajv();
+
+const logoSchema = {
+  type: 'object',
+  properties: {
+    default: { type: 'string' },
+    '256x256': { type: 'string' },
+    '512x512': { type: 'string' },
+    '1024x1024': { type: 'string' },
+  },
+};
+
+const artistSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'object' },
+    logo: logoSchema,
+    socials: { type: 'object' },
+  },
+};
+
+const scheduleItemSchema = {
+  type: 'object',
+  required: ['id', 'title', 'startDateUtc', 'endDateUtc'],
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    startDateUtc: { type: 'string' },
+    endDateUtc: { type: 'string' },
+    artistIds: { type: 'array', items: { type: 'string' } },
+    description: { type: 'object' },
+    media: {
+      type: 'object',
+      required: ['type'],
+      properties: { type: { type: 'string' } },
+    },
+  },
+};
+
+const validateArtist = ajv.compile(artistSchema);
+const validateScheduleItem = ajv.compile(scheduleItemSchema);
+
+const validateArtistEnvelope = ajv.compile({
+  type: 'object',
+  required: ['artist'],
+  properties: { artist: artistSchema },
+});
+
+// List envelopes only check for the array; items are checked one by one so a
+// single bad entry is dropped rather than failing the whole list.
+const validateArtistsEnvelope = ajv.compile({
+  type: 'object',
+  properties: { artists: { type: 'array' } },
+});
+
+const validateScheduleEnvelope = ajv.compile({
+  type: 'object',
+  properties: { schedules: { type: 'array' } },
+});
+
+const validateLiveEnvelope = ajv.compile({
+  type: 'object',
+  required: ['result'],
+  properties: {
+    result: {
+      type: 'object',
+      required: ['status'],
+      properties: {
+        status: { type: 'string' },
+        content: { type: 'object' },
+        metadata: { type: 'object' },
+        artist: { type: 'string' },
+        artworkUrl: { type: 'string' },
+      },
+    },
+  },
+});
+
+function assertValid<T>(
+  validate: Ajv.ValidateFunction,
+  data: unknown,
+  path: string,
+  what: string
+): T {
+  if (!validate(data)) {
+    throw new RadioCultError(
+      'validation',
+      `Malformed ${what}: ${ajv.errorsText(validate.errors)}`,
+      `${RADIOCULT_STATION_URL}${path}`
+    );
+  }
+  return data as T;
+}
+
+function filterValid<T>(validate: Ajv.ValidateFunction, items: unknown[], what: string): T[] {
+  const valid: T[] = [];
+  for (const item of items) {
+    if (validate(item)) {
+      valid.push(item as T);
+    } else {
+      console.warn(`Skipping malformed ${what}:`, ajv.errorsText(validate.errors));
+    }
+  }
+  return valid;
+}
+
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  // Full jitter, so clients that failed together don't retry together
+  return Math.random() * ceiling;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+async function requestOnce(url: string, timeoutMs: number): Promise<unknown> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['x-api-key'] = apiKey;
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new RadioCultError('timeout', `Request timed out after ${timeoutMs}ms`, url);
+      }
+      throw new RadioCultError('network', `Network request failed: ${String(error)}`, url);
+    }
+
+    if (!response.ok) {
+      throw new RadioCultError(
+        'http',
+        `Request failed: ${response.status} ${response.statusText}`,
+        url,
+        response.status
+      );
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      if (timedOut) {
+        throw new RadioCultError('timeout', `Request timed out after ${timeoutMs}ms`, url);
+      }
+      throw new RadioCultError('validation', `Response is not JSON: ${String(error)}`, url);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function request(path: string, options: RequestOptions = {}): Promise<unknown> {
+  const url = `${RADIOCULT_STATION_URL}${path}`;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce(url, timeoutMs);
+    } catch (error) {
+      if (!isRadioCultError(error) || !error.isTransient || attempt >= retries) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt));
+    }
+  }
+}
+
+export async function getLiveSchedule(options?: RequestOptions): Promise<RadioCultLiveResult> {
+  const path = '/schedule/live';
+  const json = assertValid<{ result: RadioCultLiveResult }>(
+    validateLiveEnvelope,
+    await request(path, options),
+    path,
+    'live schedule'
+  );
+  const result = json.result;
+  if (result.status === 'schedule') {
+    assertValid<RawScheduleItem>(validateScheduleItem, result.content, path, 'live show');
+  }
+  return result;
+}
+
+export async function getSchedule(
+  range: { startDate: string; endDate: string; timeZone?: string },
+  options?: RequestOptions
+): Promise<RawScheduleItem[]> {
+  let path =
+    '/schedule' +
+    `?startDate=${encodeURIComponent(range.startDate)}` +
+    `&endDate=${encodeURIComponent(range.endDate)}`;
+  if (range.timeZone) {
+    path += `&timeZone=${encodeURIComponent(range.timeZone)}`;
+  }
+  const json = assertValid<{ schedules?: unknown[] }>(
+    validateScheduleEnvelope,
+    await request(path, options),
+    path,
+    'schedule'
+  );
+  return filterValid<RawScheduleItem>(validateScheduleItem, json.schedules ?? [], 'schedule item');
+}
+
+export async function getArtist(id: string, options?: RequestOptions): Promise<RadioCultArtist> {
+  const path = `/artists/${encodeURIComponent(id)}`;
+  const json = assertValid<{ artist: RadioCultArtist }>(
+    validateArtistEnvelope,
+    await request(path, options),
+    path,
+    'artist'
+  );
+  return json.artist;
+}
+
+export async function getArtists(options?: RequestOptions): Promise<RadioCultArtist[]> {
+  const path = '/artists';
+  const json = assertValid<{ artists?: unknown[] }>(
+    validateArtistsEnvelope,
+    await request(path, options),
+    path,
+    'artist list'
+  );
+  return filterValid<RadioCultArtist>(validateArtist, json.artists ?? [], 'artist');
+}
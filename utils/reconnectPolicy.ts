@@ -0,0 +1,124 @@
+// utils/reconnectPolicy.ts
+//
+// When to retry a dropped live stream. Each failed restart waits longer than
+// the last (exponential backoff with jitter, up to a ceiling), and after
+// maxAttempts the policy gives up so the Listen page can offer "tap to retry"
+// instead of spinning forever. Getting the network back skips the wait.
+// TrackPlayerContext owns one and does the actual restarting; the policy only
+// keeps the count and the timer, so it can be driven with fake timers.
+
+export type ReconnectStatus = 'idle' | 'reconnecting' | 'failed';
+
+export type ReconnectState = {
+  status: ReconnectStatus;
+  // Failed restarts since the stream last played
+  attempt: number;
+  // When the pending retry fires (epoch ms), if one is scheduled
+  nextRetryAt: number | null;
+};
+
+export type ReconnectPolicyOptions = {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+  random: () => number;
+  now: () => number;
+};
+
+export type ReconnectPolicy = {
+  getState: () => ReconnectState;
+  subscribe: (listener: (state: ReconnectState) => void) => () => void;
+  // A restart is under way
+  begin: () => void;
+  // The restart failed: retry after the backoff, or give up
+  schedule: (retry: () => void) => ReconnectState;
+  // Network's back: drop the pending wait and the count, and retry now
+  retryNow: (retry: () => void) => void;
+  // Playing again, or the listener stopped
+  reset: () => void;
+};
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectPolicyOptions = {
+  baseDelayMs: 2000,
+  maxDelayMs: 60_000,
+  maxAttempts: 8,
+  random: Math.random,
+  now: Date.now,
+};
+
+/**
+ * The wait before retry number `attempt` (0-based): base × 2^attempt capped
+ * at maxDelayMs, then jittered to between half and all of that so devices
+ * that dropped together don't all reconnect together.
+ */
+export function reconnectDelay(
+  attempt: number,
+  options: Pick<ReconnectPolicyOptions, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+export function createReconnectPolicy(overrides: Partial<ReconnectPolicyOptions> = {}): ReconnectPolicy {
+  const options = { ...DEFAULT_RECONNECT_OPTIONS, ...overrides };
+  let state: ReconnectState = { status: 'idle', attempt: 0, nextRetryAt: null };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<(state: ReconnectState) => void>();
+
+  const update = (next: Partial<ReconnectState>) => {
+    state = { ...state, ...next };
+    for (const listener of listeners) listener(state);
+  };
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    begin: () => {
+      clearTimer();
+      update({ status: 'reconnecting', nextRetryAt: null });
+    },
+
+    schedule: (retry) => {
+      clearTimer();
+      if (state.attempt >= options.maxAttempts) {
+        update({ status: 'failed', nextRetryAt: null });
+        return state;
+      }
+      const delay = reconnectDelay(state.attempt, options, options.random);
+      timer = setTimeout(() => {
+        timer = null;
+        retry();
+      }, delay);
+      update({ status: 'reconnecting', attempt: state.attempt + 1, nextRetryAt: options.now() + delay });
+      return state;
+    },
+
+    retryNow: (retry) => {
+      clearTimer();
+      update({ attempt: 0, nextRetryAt: null });
+      retry();
+    },
+
+    reset: () => {
+      clearTimer();
+      if (state.status !== 'idle' || state.attempt !== 0) {
+        update({ status: 'idle', attempt: 0, nextRetryAt: null });
+      }
+    },
+  };
+}
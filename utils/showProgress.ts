@@ -0,0 +1,57 @@
+// utils/showProgress.ts
+//
+// The live show's progress for the Android media notification. The player's
+// own position can't stand in for it: on a live stream it counts from tuning
+// in (and from zero again after every reconnect), and giving the live track a
+// finite duration would stop Android Auto and car OSes treating it as live.
+// So the notification carries the show's window as text instead, with a bar
+// drawn in characters that's redrawn each time it moves on a step.
+
+import { formatClockTime } from './formatTime';
+
+export const SHOW_PROGRESS_STEPS = 10;
+
+type ShowWindow = { start: number; end: number };
+
+function showWindow(startDateUtc?: string, endDateUtc?: string): ShowWindow | null {
+  if (!startDateUtc || !endDateUtc) return null;
+  const start = new Date(startDateUtc).getTime();
+  const end = new Date(endDateUtc).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return null;
+  return { start, end };
+}
+
+/**
+ * e.g. "●●●○○○○○○○ 20:00–22:00" for a quarter of the way through a 20:00
+ * show. Empty when the window isn't known.
+ */
+export function formatShowProgress(
+  startDateUtc: string | undefined,
+  endDateUtc: string | undefined,
+  now: number = Date.now(),
+  steps: number = SHOW_PROGRESS_STEPS
+): string {
+  const window = showWindow(startDateUtc, endDateUtc);
+  if (!window) return '';
+  const fraction = Math.min(1, Math.max(0, (now - window.start) / (window.end - window.start)));
+  const filled = Math.floor(fraction * steps);
+  const bar = '●'.repeat(filled) + '○'.repeat(steps - filled);
+  return `${bar} ${formatClockTime(new Date(window.start))}–${formatClockTime(new Date(window.end))}`;
+}
+
+/**
+ * When the bar next gains a step (epoch ms), or null when it's full or the
+ * window isn't known.
+ */
+export function nextShowProgressStep(
+  startDateUtc: string | undefined,
+  endDateUtc: string | undefined,
+  now: number = Date.now(),
+  steps: number = SHOW_PROGRESS_STEPS
+): number | null {
+  const window = showWindow(startDateUtc, endDateUtc);
+  if (!window || now >= window.end) return null;
+  const stepMs = (window.end - window.start) / steps;
+  const next = Math.max(1, Math.floor((now - window.start) / stepMs) + 1);
+  return next >= steps ? null : Math.ceil(window.start + next * stepMs);
+}
@@ -0,0 +1,59 @@
+// utils/sleepTimer.ts
+//
+// Pure helpers for the live-stream sleep timer owned by TrackPlayerContext.
+// The timer is stored as an absolute deadline (epoch ms) rather than a
+// remaining duration, so it stays correct across backgrounding: JS timers can
+// be throttled or suspended while the app is in the background, but a deadline
+// can always be re-checked against the clock when control returns.
+
+import { formatDuration } from './formatTime';
+
+export type SleepTimerOption = 15 | 30 | 60 | 'end-of-show';
+
+export type SleepTimer = {
+  option: SleepTimerOption;
+  endsAt: number;
+};
+
+export const SLEEP_TIMER_OPTIONS: { option: SleepTimerOption; label: string }[] = [
+  { option: 15, label: '15 min' },
+  { option: 30, label: '30 min' },
+  { option: 60, label: '60 min' },
+  { option: 'end-of-show', label: 'end of show' },
+];
+
+// How long the volume ramp takes before playback is stopped, and how many
+// discrete volume steps it uses (RNTP has no native fade).
+export const SLEEP_FADE_DURATION_MS = 30_000;
+export const SLEEP_FADE_STEPS = 30;
+
+/**
+ * Resolve the absolute deadline for a sleep timer option.
+ *
+ * @param option     minutes from now, or 'end-of-show'
+ * @param endDateUtc the current live show's end time (from getLiveShowInfo);
+ *                   only used for 'end-of-show'
+ * @param now        current time in epoch ms (injectable for callers)
+ * @returns the deadline in epoch ms, or null when 'end-of-show' has no usable
+ *          end time (station off air, or the show has already ended)
+ */
+export function resolveSleepDeadline(
+  option: SleepTimerOption,
+  endDateUtc?: string,
+  now: number = Date.now()
+): number | null {
+  if (option !== 'end-of-show') {
+    return now + option * 60_000;
+  }
+  if (!endDateUtc) return null;
+  const end = new Date(endDateUtc).getTime();
+  if (Number.isNaN(end) || end <= now) return null;
+  return end;
+}
+
+/**
+ * Formats the time left on a sleep timer as "m:ss", or "h:mm:ss" past an hour.
+ */
+export function formatSleepCountdown(remainingMs: number): string {
+  return formatDuration(Math.ceil(remainingMs / 1000));
+}
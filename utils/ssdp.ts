@@ -0,0 +1,71 @@
+// utils/ssdp.ts
+//
+// JS side of SSDP discovery (plugins/withSsdpDiscovery.js): multicasts an
+// M-SEARCH and collects the replies. React Native has no UDP, so the search
+// runs in the EistSsdp native module, which only exists in Android builds made
+// with the plugin. Elsewhere (iOS, web, Expo Go) searches find nothing.
+//
+// The same module makes the plain-HTTP requests to the devices it finds, so
+// the app doesn't have to allow cleartext traffic (see lanRequest).
+
+import { NativeModules, Platform } from 'react-native';
+
+export type SsdpResponse = {
+  // The device description's URL
+  location: string;
+  usn: string;
+  server?: string;
+};
+
+export type LanRequest = {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+};
+
+export type LanResponse = {
+  status: number;
+  body: string;
+};
+
+function getModule() {
+  if (Platform.OS !== 'android') return null;
+  return NativeModules.EistSsdp ?? null;
+}
+
+export function isSsdpSupported(): boolean {
+  return getModule() !== null;
+}
+
+/**
+ * Searches the local network for `searchTarget` (an SSDP ST such as a UPnP
+ * device type) for `timeoutMs`, then resolves with the distinct responders.
+ */
+export async function ssdpSearch(searchTarget: string, timeoutMs: number = 3000): Promise<SsdpResponse[]> {
+  const ssdp = getModule();
+  if (!ssdp) return [];
+  try {
+    const responses: SsdpResponse[] = await ssdp.search(searchTarget, timeoutMs);
+    const seen = new Set<string>();
+    return responses.filter((response) => {
+      if (!response.location || seen.has(response.location)) return false;
+      seen.add(response.location);
+      return true;
+    });
+  } catch (error) {
+    console.error('Failed to search for SSDP devices:', error);
+    return [];
+  }
+}
+
+/**
+ * Makes a plain-HTTP request to a device on the local network. Only private,
+ * link-local and loopback addresses are allowed. Resolves whatever the status;
+ * throws on a network error or timeout, or where there's no EistSsdp.
+ */
+export async function lanRequest(url: string, request: LanRequest): Promise<LanResponse> {
+  const ssdp = getModule();
+  if (!ssdp) throw new Error('Local network requests are not supported here');
+  return ssdp.request(url, request.method ?? 'GET', request.headers ?? {}, request.body ?? null, request.timeoutMs);
+}
@@ -0,0 +1,256 @@
+// utils/streamHealth.ts
+//
+// Per-session live stream health, so "the stream keeps dropping" can be
+// checked against numbers: time from play() to first audio, how often and
+// for how long it rebuffered, and how many recoveries got it playing again.
+// A session opens on a live play(), from TrackPlayerContext or from the
+// playback service's fresh-stream start (car and remote controls), and closes
+// on stop or pause. trackPlayerService.js feeds it every RNTP state, so it
+// works with or without the app's UI running. The last MAX_SESSIONS are kept
+// for the diagnostics screen. The open session is saved as it goes, so one
+// that ended with the app being killed is closed at its last event on the
+// next launch.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StreamQuality } from '../types/station';
+
+const STREAM_HEALTH_KEY = 'eist_stream_health';
+const MAX_SESSIONS = 20;
+const PERSIST_DELAY_MS = 2000;
+
+export type StreamSession = {
+  startedAt: number; // epoch ms, when play() was pressed
+  endedAt: number | null;
+  quality: StreamQuality;
+  // null until (unless) the stream first reaches `playing`
+  timeToFirstAudioMs: number | null;
+  rebufferCount: number;
+  rebufferMs: number;
+  playingMs: number;
+  recoveries: number;
+  recoveriesSucceeded: number;
+};
+
+// `stopped` is the player standing still mid-session, which isn't the
+// listener stopping (that ends the session first): it counts towards neither
+// listening nor rebuffering.
+type Phase = 'starting' | 'playing' | 'stalled' | 'stopped';
+
+type OpenSession = {
+  session: StreamSession;
+  phase: Phase;
+  phaseStartedAt: number;
+  recoveryPending: boolean;
+  lastEventAt: number;
+};
+
+type StoredHealth = {
+  sessions: StreamSession[];
+  open: OpenSession | null;
+};
+
+let sessions: StreamSession[] = [];
+let open: OpenSession | null = null;
+let loaded = false;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(sessions: StreamSession[]) => void>();
+
+function notify() {
+  for (const listener of listeners) listener(sessions);
+}
+
+function schedulePersist() {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    const stored: StoredHealth = { sessions, open };
+    AsyncStorage.setItem(STREAM_HEALTH_KEY, JSON.stringify(stored)).catch((error) =>
+      console.error('Failed to save stream health:', error)
+    );
+  }, PERSIST_DELAY_MS);
+}
+
+// Adds the time spent in the current phase to the session's totals
+function closePhase(current: OpenSession, at: number) {
+  const elapsed = Math.max(0, at - current.phaseStartedAt);
+  if (current.phase === 'playing') current.session.playingMs += elapsed;
+  if (current.phase === 'stalled') current.session.rebufferMs += elapsed;
+  current.phaseStartedAt = at;
+}
+
+function enterPhase(current: OpenSession, phase: Phase, at: number) {
+  closePhase(current, at);
+  current.phase = phase;
+  current.lastEventAt = at;
+}
+
+function finish(current: OpenSession, at: number): StreamSession {
+  closePhase(current, at);
+  return { ...current.session, endedAt: at };
+}
+
+/**
+ * Opens a session for a live play(). A no-op while one is already open, so
+ * the play() calls made by stream recovery count towards the session the
+ * listener started.
+ */
+export function startStreamSession(quality: StreamQuality): void {
+  if (open) return;
+  // The playback service can start a session before the app has loaded the
+  // saved ones; load them so the first save doesn't drop them
+  void loadStreamHealth();
+  const now = Date.now();
+  open = {
+    session: {
+      startedAt: now,
+      endedAt: null,
+      quality,
+      timeToFirstAudioMs: null,
+      rebufferCount: 0,
+      rebufferMs: 0,
+      playingMs: 0,
+      recoveries: 0,
+      recoveriesSucceeded: 0,
+    },
+    phase: 'starting',
+    phaseStartedAt: now,
+    recoveryPending: false,
+    lastEventAt: now,
+  };
+  schedulePersist();
+}
+
+/**
+ * Feeds an RNTP PlaybackState (the raw State string) into the open session.
+ * `paused` is the listener stopping from a remote control (lock screen, car,
+ * headphones), so it ends the session. `stopped` after `playing` is a pause
+ * in the session, not a stall; during startup or a restart it's part of the
+ * reset and changes nothing. Leaving `playing` for anything else but `ready`
+ * counts as a stall, which lasts until the next `playing`.
+ */
+export function recordStreamState(state: string): void {
+  if (!open) return;
+  const now = Date.now();
+
+  if (state === 'paused') {
+    endStreamSession();
+    return;
+  }
+
+  if (state === 'playing') {
+    if (open.phase === 'playing') return;
+    if (open.session.timeToFirstAudioMs === null) {
+      open.session.timeToFirstAudioMs = now - open.session.startedAt;
+    }
+    if (open.recoveryPending) {
+      open.session.recoveriesSucceeded += 1;
+      open.recoveryPending = false;
+    }
+    enterPhase(open, 'playing', now);
+  } else if (state === 'stopped') {
+    if (open.phase !== 'playing') return;
+    enterPhase(open, 'stopped', now);
+  } else if (state !== 'ready' && open.phase === 'playing') {
+    open.session.rebufferCount += 1;
+    enterPhase(open, 'stalled', now);
+  } else {
+    return;
+  }
+  schedulePersist();
+}
+
+/**
+ * Counts a stream restart. It succeeded if the stream is `playing` again
+ * before the next restart or the end of the session. The listener is waiting
+ * through a restart, so it's a stall even from `stopped`.
+ */
+export function recordStreamRecovery(): void {
+  if (!open) return;
+  const now = Date.now();
+  open.session.recoveries += 1;
+  open.recoveryPending = true;
+  if (open.phase === 'playing' || open.phase === 'stopped') {
+    open.session.rebufferCount += 1;
+    enterPhase(open, 'stalled', now);
+  } else {
+    open.lastEventAt = now;
+  }
+  schedulePersist();
+}
+
+export function endStreamSession(): void {
+  if (!open) return;
+  sessions = [...sessions, finish(open, Date.now())].slice(-MAX_SESSIONS);
+  open = null;
+  notify();
+  schedulePersist();
+}
+
+/**
+ * Loads the saved sessions, closing one left open by the previous launch at
+ * its last event. Safe to call more than once.
+ */
+export async function loadStreamHealth(): Promise<StreamSession[]> {
+  if (loaded) return sessions;
+  loaded = true;
+  try {
+    const data = await AsyncStorage.getItem(STREAM_HEALTH_KEY);
+    const stored: StoredHealth | null = data ? JSON.parse(data) : null;
+    if (stored) {
+      const previous = stored.open ? [finish(stored.open, stored.open.lastEventAt)] : [];
+      sessions = [...stored.sessions, ...previous, ...sessions].slice(-MAX_SESSIONS);
+      notify();
+      schedulePersist();
+    }
+  } catch (error) {
+    console.error('Failed to load stream health:', error);
+  }
+  return sessions;
+}
+
+export function getStreamSessions(): StreamSession[] {
+  return sessions;
+}
+
+export function subscribeStreamHealth(listener: (sessions: StreamSession[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function clearStreamHealth(): Promise<void> {
+  sessions = [];
+  notify();
+  try {
+    await AsyncStorage.setItem(STREAM_HEALTH_KEY, JSON.stringify({ sessions, open }));
+  } catch (error) {
+    console.error('Failed to clear stream health:', error);
+  }
+}
+
+// Share of the session's listening time spent rebuffering, 0–1
+export function bufferingRatio(session: StreamSession): number {
+  const total = session.playingMs + session.rebufferMs;
+  return total > 0 ? session.rebufferMs / total : 0;
+}
+
+// Share of restarts that got the stream playing again; null with none
+export function recoverySuccessRate(session: StreamSession): number | null {
+  return session.recoveries > 0 ? session.recoveriesSucceeded / session.recoveries : null;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function formatStreamSession(session: StreamSession): string {
+  const length = session.endedAt ? session.endedAt - session.startedAt : 0;
+  const rate = recoverySuccessRate(session);
+  return [
+    `${new Date(session.startedAt).toISOString()} ${session.quality}, ${Math.round(length / 60000)} min`,
+    `first audio ${session.timeToFirstAudioMs === null ? 'never' : formatSeconds(session.timeToFirstAudioMs)}`,
+    `${session.rebufferCount} stalls (${formatSeconds(session.rebufferMs)}, ${(bufferingRatio(session) * 100).toFixed(1)}% buffering)`,
+    `recoveries ${session.recoveriesSucceeded}/${session.recoveries}${rate === null ? '' : ` (${Math.round(rate * 100)}%)`}`,
+  ].join(' · ');
+}
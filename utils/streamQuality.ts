@@ -0,0 +1,78 @@
+// utils/streamQuality.ts
+//
+// Which live stream mount to play. The listener picks auto, high or low; auto
+// plays the low-data mount on mobile data and the full one everywhere else.
+// Low data also means no artwork prefetching (ListenScreen and the Android
+// lock screen), since that's fetched whether or not anyone looks at it.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { STREAM_CATALOGUE } from '../config';
+import { StreamQuality, StreamVariant } from '../types/station';
+
+const STREAM_QUALITY_KEY = 'eist_stream_quality';
+
+export type StreamQualitySetting = 'auto' | StreamQuality;
+
+// Whether the station offers a low-data mount. Without one there's nothing to
+// pick between: every setting plays the main mount, nothing is treated as low
+// data, and the Listen page leaves the quality setting out.
+export const HAS_LOW_DATA_STREAM = STREAM_CATALOGUE.some((variant) => variant.quality === 'low');
+
+export const STREAM_QUALITY_OPTIONS: { setting: StreamQualitySetting; label: string }[] = [
+  { setting: 'auto', label: 'auto' },
+  { setting: 'high', label: 'high' },
+  ...(HAS_LOW_DATA_STREAM ? [{ setting: 'low' as const, label: 'low data' }] : []),
+];
+
+export const DEFAULT_STREAM_QUALITY: StreamQualitySetting = 'auto';
+
+export function resolveStreamQuality(
+  setting: StreamQualitySetting,
+  network: { isCellular: boolean }
+): StreamQuality {
+  if (!HAS_LOW_DATA_STREAM) return 'high';
+  if (setting !== 'auto') return setting;
+  return network.isCellular ? 'low' : 'high';
+}
+
+/**
+ * The mount for a quality, falling back to the main mount when the station
+ * doesn't offer that quality.
+ */
+export function getStreamVariant(quality: StreamQuality): StreamVariant {
+  return STREAM_CATALOGUE.find((variant) => variant.quality === quality) ?? STREAM_CATALOGUE[0];
+}
+
+export async function getStreamQualitySetting(): Promise<StreamQualitySetting> {
+  try {
+    const data = await AsyncStorage.getItem(STREAM_QUALITY_KEY);
+    return STREAM_QUALITY_OPTIONS.some((option) => option.setting === data)
+      ? (data as StreamQualitySetting)
+      : DEFAULT_STREAM_QUALITY;
+  } catch (error) {
+    console.error('Failed to get stream quality:', error);
+    return DEFAULT_STREAM_QUALITY;
+  }
+}
+
+export async function setStreamQualitySetting(setting: StreamQualitySetting): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STREAM_QUALITY_KEY, setting);
+  } catch (error) {
+    console.error('Failed to set stream quality:', error);
+  }
+}
+
+/**
+ * The live stream quality for right now, for callers outside React
+ * (trackPlayerService.js) that can't read TrackPlayerContext.
+ */
+export async function getCurrentStreamQuality(): Promise<StreamQuality> {
+  const [setting, network] = await Promise.all([
+    getStreamQualitySetting(),
+    NetInfo.fetch().catch(() => null),
+  ]);
+  return resolveStreamQuality(setting, { isCellular: network?.type === 'cellular' });
+}
+
@@ -6,7 +6,7 @@ import TrackPlayer, {
     Capability,
     IOSCategory
 } from 'react-native-track-player';
-import { setupAndroidNotificationChannel } from './androidNotificationSetup';
+import { liveMediaNotificationOptions, setupAndroidNotificationChannel } from './androidNotificationSetup';
 
 export const setupTrackPlayer = async () => {
   try {
@@ -26,39 +26,67 @@ export const setupTrackPlayer = async () => {
     });
 
     // Options setup - Enhanced for Android Auto
-    await TrackPlayer.updateOptions({
-      android: {
-        appKilledPlaybackBehavior: AppKilledPlaybackBehavior.PausePlayback,
-        alwaysPauseOnInterruption: true,
-      },
-      
-      // Capabilities for live radio. Play+Pause is the standard pattern for
-      // car/lock-screen: a single toggle button. Stop is intentionally omitted —
-      // TrackPlayer.stop() tears down the Android foreground service, which kills
-      // the MusicService and breaks the MediaBrowserService binding. Android Auto
-      // then can't send play commands and the app appears dead (Google Play
-      // rejection: "pressing stop completely stop app"). Pause keeps the service
-      // alive; the RemotePause handler in trackPlayerService.js treats
-      // pause-while-playing as a live-radio stop, and pause-while-stopped as a
-      // fresh-stream start.
-      capabilities: [
-        Capability.Play,
-        Capability.Pause,
-        Capability.PlayFromId,
-        Capability.PlayFromSearch,
-        Capability.SetRating,
-      ],
-
-      compactCapabilities: [
-        Capability.Play,
-        Capability.Pause,
-      ],
-      
-      // Progress update interval
-      progressUpdateEventInterval: 1,
-    });
+    await updatePlayerCapabilities('live');
   } catch (error) {
     console.error('TrackPlayer setup error:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export type PlaybackMode = 'live' | 'on-demand';
+
+// Remote-control capabilities depend on what's loaded: the live stream has no
+// timeline, while an archive show (on-demand) needs seek and skip controls on
+// the lock screen, notification and car head unit. Re-applied whenever
+// TrackPlayerContext switches between the two.
+export const updatePlayerCapabilities = async (mode: PlaybackMode) => {
+  const capabilities =
+    mode === 'live'
+      ? // Capabilities for live radio. Play+Pause is the standard pattern for
+        // car/lock-screen: a single toggle button. Stop is intentionally omitted —
+        // TrackPlayer.stop() tears down the Android foreground service, which kills
+        // the MusicService and breaks the MediaBrowserService binding. Android Auto
+        // then can't send play commands and the app appears dead (Google Play
+        // rejection: "pressing stop completely stop app"). Pause keeps the service
+        // alive; the RemotePause handler in trackPlayerService.js treats
+        // pause-while-playing as a live-radio stop, and pause-while-stopped as a
+        // fresh-stream start.
+        [
+          Capability.Play,
+          Capability.Pause,
+          Capability.PlayFromId,
+          Capability.PlayFromSearch,
+          Capability.SetRating,
+        ]
+      : [
+          Capability.Play,
+          Capability.Pause,
+          Capability.SeekTo,
+          Capability.JumpForward,
+          Capability.JumpBackward,
+          Capability.PlayFromId,
+        ];
+
+  await TrackPlayer.updateOptions({
+    android: {
+      appKilledPlaybackBehavior: AppKilledPlaybackBehavior.PausePlayback,
+      alwaysPauseOnInterruption: true,
+    },
+
+    capabilities,
+
+    compactCapabilities: [
+      Capability.Play,
+      Capability.Pause,
+    ],
+
+    // Android notification: remind-me and share for live (see androidNotificationSetup)
+    ...(mode === 'live' ? liveMediaNotificationOptions() : {}),
+
+    forwardJumpInterval: 30,
+    backwardJumpInterval: 15,
+
+    // Progress update interval
+    progressUpdateEventInterval: 1,
+  });
+};
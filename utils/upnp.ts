@@ -0,0 +1,232 @@
+// utils/upnp.ts
+//
+// UPnP/DLNA renderer backend: finds MediaRenderers over SSDP (utils/ssdp.ts),
+// reads their device descriptions, and drives them with SOAP calls to the
+// AVTransport and RenderingControl services, all over plain HTTP through
+// lanRequest. The renderer pulls the stream URL itself, like a Chromecast
+// does. context/OutputContext.tsx wraps this as one of the app's outputs.
+//
+// Renderers only take metadata with a URI, so pushing a new show means
+// setting the same stream URI again: most play straight on, some rebuffer.
+
+import { UpnpRenderer } from '../types/outputDevice';
+import { LanResponse, lanRequest, ssdpSearch } from './ssdp';
+
+const MEDIA_RENDERER = 'urn:schemas-upnp-org:device:MediaRenderer:1';
+const AV_TRANSPORT = 'urn:schemas-upnp-org:service:AVTransport:1';
+const RENDERING_CONTROL = 'urn:schemas-upnp-org:service:RenderingControl:1';
+
+// Renderers on a home network answer quickly or not at all
+const REQUEST_TIMEOUT_MS = 5000;
+
+export type UpnpMedia = {
+  url: string;
+  contentType: string;
+  title: string;
+  artist?: string;
+  artworkUrl?: string;
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// The text of the first <tag> in `xml`, ignoring any namespace prefix
+function tagText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+  return match ? unescapeXml(match[1].trim()) : undefined;
+}
+
+// Control URLs may be absolute, or relative to URLBase or the description
+function resolveUrl(url: string, base: string): string {
+  if (/^https?:\/\//i.test(url)) return url;
+  const origin = base.match(/^https?:\/\/[^/]+/i)?.[0] ?? '';
+  if (url.startsWith('/')) return origin + url;
+  return base.replace(/[^/]*$/, '') + url;
+}
+
+/**
+ * Reads a device description. Returns null unless it describes a renderer
+ * with an AVTransport service.
+ */
+export function parseDeviceDescription(xml: string, location: string): UpnpRenderer | null {
+  const base = tagText(xml, 'URLBase') || location;
+  const services = xml.match(/<(?:\w+:)?service>[\s\S]*?<\/(?:\w+:)?service>/g) ?? [];
+  const controlUrl = (serviceType: string) => {
+    const service = services.find((block) => tagText(block, 'serviceType') === serviceType);
+    const url = service && tagText(service, 'controlURL');
+    return url ? resolveUrl(url, base) : undefined;
+  };
+
+  const avTransportUrl = controlUrl(AV_TRANSPORT);
+  if (!avTransportUrl) return null;
+
+  const name = tagText(xml, 'friendlyName') || 'Speaker';
+  return {
+    id: tagText(xml, 'UDN') || location,
+    kind: 'upnp',
+    name,
+    model: tagText(xml, 'modelName'),
+    location,
+    avTransportUrl,
+    renderingControlUrl: controlUrl(RENDERING_CONTROL),
+  };
+}
+
+function isOk(response: LanResponse): boolean {
+  return response.status >= 200 && response.status < 300;
+}
+
+/**
+ * Searches the network for renderers. Devices whose description can't be
+ * fetched or read are left out.
+ */
+export async function discoverUpnpRenderers(timeoutMs: number = 3000): Promise<UpnpRenderer[]> {
+  const responses = await ssdpSearch(MEDIA_RENDERER, timeoutMs);
+  const renderers = await Promise.all(
+    responses.map(async (response) => {
+      try {
+        const description = await lanRequest(response.location, { timeoutMs: REQUEST_TIMEOUT_MS });
+        if (!isOk(description)) return null;
+        return parseDeviceDescription(description.body, response.location);
+      } catch (error) {
+        console.warn('Failed to read UPnP device description:', response.location, error);
+        return null;
+      }
+    })
+  );
+
+  const seen = new Set<string>();
+  return renderers.filter((renderer): renderer is UpnpRenderer => {
+    if (!renderer || seen.has(renderer.id)) return false;
+    seen.add(renderer.id);
+    return true;
+  });
+}
+
+// DIDL-Lite for the stream, as CurrentURIMetaData
+export function buildDidlMetadata(media: UpnpMedia): string {
+  const artist = media.artist ? `<upnp:artist>${escapeXml(media.artist)}</upnp:artist>` : '';
+  const artwork = media.artworkUrl ? `<upnp:albumArtURI>${escapeXml(media.artworkUrl)}</upnp:albumArtURI>` : '';
+  return (
+    '<DIDL-Lite xmlns="urn:schemas-upnp-org:metadata-1-0/DIDL-Lite/" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:upnp="urn:schemas-upnp-org:metadata-1-0/upnp/">' +
+    '<item id="0" parentID="-1" restricted="1">' +
+    `<dc:title>${escapeXml(media.title)}</dc:title>` +
+    artist +
+    artwork +
+    '<upnp:class>object.item.audioItem.audioBroadcast</upnp:class>' +
+    `<res protocolInfo="http-get:*:${escapeXml(media.contentType)}:*">${escapeXml(media.url)}</res>` +
+    '</item></DIDL-Lite>'
+  );
+}
+
+/**
+ * Invokes `action` on a renderer's service and resolves with the response
+ * body. Throws on a network error or a SOAP fault.
+ */
+async function soapCall(
+  controlUrl: string,
+  serviceType: string,
+  action: string,
+  args: Record<string, string | number>
+): Promise<string> {
+  const body =
+    '<?xml version="1.0" encoding="utf-8"?>' +
+    '<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/" ' +
+    's:encodingStyle="http://schemas.xmlsoap.org/soap/encoding/"><s:Body>' +
+    `<u:${action} xmlns:u="${serviceType}">` +
+    Object.entries(args)
+      .map(([key, value]) => `<${key}>${escapeXml(String(value))}</${key}>`)
+      .join('') +
+    `</u:${action}></s:Body></s:Envelope>`;
+
+  const response = await lanRequest(controlUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/xml; charset="utf-8"',
+      SOAPACTION: `"${serviceType}#${action}"`,
+    },
+    body,
+    timeoutMs: REQUEST_TIMEOUT_MS,
+  });
+  if (!isOk(response)) {
+    const fault =
+      tagText(response.body, 'errorDescription') || tagText(response.body, 'faultstring') || `HTTP ${response.status}`;
+    throw new Error(`${action} failed: ${fault}`);
+  }
+  return response.body;
+}
+
+/**
+ * Sets the renderer's transport to the stream, with the show as its
+ * metadata, and starts it.
+ */
+export async function upnpLoad(renderer: UpnpRenderer, media: UpnpMedia): Promise<boolean> {
+  try {
+    await soapCall(renderer.avTransportUrl, AV_TRANSPORT, 'SetAVTransportURI', {
+      InstanceID: 0,
+      CurrentURI: media.url,
+      CurrentURIMetaData: buildDidlMetadata(media),
+    });
+    await soapCall(renderer.avTransportUrl, AV_TRANSPORT, 'Play', { InstanceID: 0, Speed: 1 });
+    return true;
+  } catch (error) {
+    console.error('Failed to load stream on UPnP renderer:', error);
+    return false;
+  }
+}
+
+export async function upnpStop(renderer: UpnpRenderer): Promise<boolean> {
+  try {
+    await soapCall(renderer.avTransportUrl, AV_TRANSPORT, 'Stop', { InstanceID: 0 });
+    return true;
+  } catch (error) {
+    console.error('Failed to stop UPnP renderer:', error);
+    return false;
+  }
+}
+
+// `volume` is 0–1; renderers take 0–100
+export async function upnpSetVolume(renderer: UpnpRenderer, volume: number): Promise<boolean> {
+  if (!renderer.renderingControlUrl) return false;
+  try {
+    await soapCall(renderer.renderingControlUrl, RENDERING_CONTROL, 'SetVolume', {
+      InstanceID: 0,
+      Channel: 'Master',
+      DesiredVolume: Math.round(Math.min(1, Math.max(0, volume)) * 100),
+    });
+    return true;
+  } catch (error) {
+    console.error('Failed to set UPnP renderer volume:', error);
+    return false;
+  }
+}
+
+/**
+ * Whether the renderer is playing (or about to), or null when it can't be
+ * reached.
+ */
+export async function upnpIsPlaying(renderer: UpnpRenderer): Promise<boolean | null> {
+  try {
+    const response = await soapCall(renderer.avTransportUrl, AV_TRANSPORT, 'GetTransportInfo', { InstanceID: 0 });
+    const state = tagText(response, 'CurrentTransportState');
+    return state === 'PLAYING' || state === 'TRANSITIONING';
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,17 @@
+// workers/cast-receiver/scripts/build-receiver.mjs
+//
+// Bundles the receiver page's script (src/receiver/page.ts) into
+// dist/receiver-page.txt for index.ts to inline. Wrangler runs this before
+// every dev and deploy build (see [build] in wrangler.toml).
+
+import { build } from 'esbuild';
+
+await build({
+  entryPoints: ['src/receiver/page.ts'],
+  outfile: 'dist/receiver-page.txt',
+  bundle: true,
+  format: 'iife',
+  // No __name() wrappers: the script runs on the TV, outside the worker
+  keepNames: false,
+  logLevel: 'warning',
+});
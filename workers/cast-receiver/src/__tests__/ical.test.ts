@@ -0,0 +1,107 @@
+// workers/cast-receiver/src/__tests__/ical.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ARTIST_FEED_PATTERN, Env, handleArtistFeed } from '../ical';
+
+const env: Env = { RADIOCULT_API_BASE_URL: 'https://radiocult.test/api', STATION_ID: 'eist' };
+
+const show = (id: string, title: string, startDateUtc: string, artistIds = ['artist-1']) => ({
+  id,
+  title,
+  startDateUtc,
+  endDateUtc: startDateUtc.replace('T20', 'T22'),
+  artistIds,
+});
+
+const schedules = [
+  show('show-2', 'Late Bloom', '2026-10-26T20:00:00Z'),
+  show('show-1', 'Late Bloom', '2026-10-19T20:00:00Z'),
+  show('show-3', 'Late Bloom (éist arís)', '2026-10-21T20:00:00Z'),
+  show('show-4', 'Dawn Chorus', '2026-10-20T20:00:00Z', ['artist-2']),
+  { id: 'show-5', title: 42 },
+];
+
+// Answers the artist and schedule requests, or fails them with the given status
+function stubRadioCult({ artist = 200, schedule = 200 }: { artist?: number; schedule?: number } = {}) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const isArtist = url.includes('/artists/');
+    const status = isArtist ? artist : schedule;
+    const body = isArtist ? { artist: { id: 'artist-1', name: 'Aoife' } } : { schedules };
+    return status === 200 ? Response.json(body) : new Response(null, { status });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+// The calendar's lines with folding undone, and the value of each property
+const lines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+const values = (ics: string, name: string) =>
+  lines(ics)
+    .filter((line) => line.startsWith(`${name}:`))
+    .map((line) => line.slice(name.length + 1));
+
+describe('artist calendar feed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('matches the feed path', () => {
+    expect('/ical/artist/artist-1.ics'.match(ARTIST_FEED_PATTERN)?.[1]).toBe('artist-1');
+    expect(ARTIST_FEED_PATTERN.test('/ical/artist/a/b.ics')).toBe(false);
+  });
+
+  it("serves the artist's shows in order, without repeats", async () => {
+    const fetchMock = stubRadioCult();
+
+    const response = await handleArtistFeed('artist-1', env);
+    const ics = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('inline; filename="eist-artist-1.ics"');
+    expect(values(ics, 'X-WR-CALNAME')).toEqual(['éist: Aoife']);
+    expect(values(ics, 'UID')).toEqual(['show-1@eist.radio', 'show-2@eist.radio']);
+    expect(values(ics, 'SUMMARY')).toEqual(['Late Bloom with Aoife', 'Late Bloom with Aoife']);
+    expect(values(ics, 'URL')).toEqual(['eistapp://show/show-1', 'eistapp://show/show-2']);
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://radiocult.test/api/station/eist/artists/artist-1',
+      'https://radiocult.test/api/station/eist/schedule' +
+        '?startDate=2026-10-12T00%3A00%3A00Z&endDate=2026-12-18T23%3A59%3A59Z',
+    ]);
+  });
+
+  it('returns 404 for an artist RadioCult does not know', async () => {
+    stubRadioCult({ artist: 404 });
+
+    const response = await handleArtistFeed('missing', env);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('still serves the feed when the artist lookup fails', async () => {
+    stubRadioCult({ artist: 500 });
+
+    const response = await handleArtistFeed('artist-1', env);
+    const ics = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(values(ics, 'X-WR-CALNAME')).toEqual(['éist']);
+    expect(values(ics, 'SUMMARY')).toEqual(['Late Bloom', 'Late Bloom']);
+  });
+
+  it('returns 502 when the schedule is unavailable', async () => {
+    stubRadioCult({ schedule: 503 });
+
+    const response = await handleArtistFeed('artist-1', env);
+
+    expect(response.status).toBe(502);
+  });
+});
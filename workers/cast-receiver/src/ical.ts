@@ -0,0 +1,116 @@
+/**
+ * Per-artist iCalendar feeds: GET /ical/artist/:id.ics
+ *
+ * Calendar apps poll this URL, so the feed always reflects the current
+ * RadioCult schedule rather than a one-off export. The calendar itself is
+ * written by the app's own ICS writer (utils/ics.ts), so exported shows and
+ * subscribed ones look the same.
+ *
+ * Locally, point RADIOCULT_API_BASE_URL at scripts/mock-radiocult.js to serve
+ * a stubbed schedule (`npm run dev:mock`).
+ */
+
+import { RawScheduleItem } from '../../../types/schedule';
+import { buildCalendar, scheduleItemToIcsEvent } from '../../../utils/ics';
+import { isRepeatTitle } from '../../../utils/nextShow';
+
+export interface Env {
+  RADIOCULT_API_BASE_URL: string;
+  STATION_ID: string;
+  // Secret: `wrangler secret put RADIOCULT_API_KEY`
+  RADIOCULT_API_KEY?: string;
+}
+
+// Last week's shows stay visible; upcoming ones as far ahead as RadioCult plans
+const DAYS_BEHIND = 7;
+const DAYS_AHEAD = 60;
+
+// Calendar apps refresh on their own schedule; this just spares RadioCult
+// when many subscribers poll at once
+const CACHE_SECONDS = 15 * 60;
+
+export const ARTIST_FEED_PATTERN = /^\/ical\/artist\/([^/]+)\.ics$/;
+
+// Matches Linking.createURL('/show/:id') in release builds
+const showDeepLink = (id: string) => `eistapp://show/${encodeURIComponent(id)}`;
+
+class RadioCultResponseError extends Error {
+  constructor(readonly status: number, url: string) {
+    super(`RadioCult request failed: ${status} ${url}`);
+  }
+}
+
+async function radiocult<T>(env: Env, path: string): Promise<T> {
+  const url = `${env.RADIOCULT_API_BASE_URL}/station/${env.STATION_ID}${path}`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (env.RADIOCULT_API_KEY) {
+    headers['x-api-key'] = env.RADIOCULT_API_KEY;
+  }
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new RadioCultResponseError(response.status, url);
+  }
+  return (await response.json()) as T;
+}
+
+function utcDay(offsetDays: number): string {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() + offsetDays);
+  return d.toISOString().split('T')[0];
+}
+
+function isScheduleItem(value: unknown): value is RawScheduleItem {
+  const item = value as Partial<RawScheduleItem> | null;
+  return (
+    !!item &&
+    typeof item.id === 'string' &&
+    typeof item.title === 'string' &&
+    typeof item.startDateUtc === 'string' &&
+    typeof item.endDateUtc === 'string'
+  );
+}
+
+export async function handleArtistFeed(artistId: string, env: Env): Promise<Response> {
+  let artistName: string | undefined;
+  try {
+    const { artist } = await radiocult<{ artist?: { name?: string } }>(
+      env,
+      `/artists/${encodeURIComponent(artistId)}`
+    );
+    artistName = artist?.name;
+  } catch (error) {
+    if (error instanceof RadioCultResponseError && error.status === 404) {
+      return new Response('Not Found', { status: 404 });
+    }
+    // Without a name the feed is still useful; carry on
+    console.error('Failed to fetch artist:', error);
+  }
+
+  let schedules: unknown[];
+  try {
+    const query =
+      `?startDate=${encodeURIComponent(`${utcDay(-DAYS_BEHIND)}T00:00:00Z`)}` +
+      `&endDate=${encodeURIComponent(`${utcDay(DAYS_AHEAD)}T23:59:59Z`)}`;
+    const json = await radiocult<{ schedules?: unknown[] }>(env, `/schedule${query}`);
+    schedules = Array.isArray(json.schedules) ? json.schedules : [];
+  } catch (error) {
+    console.error('Failed to fetch schedule:', error);
+    // Calendar apps keep their last copy on an error, rather than emptying it
+    return new Response('Schedule unavailable', { status: 502 });
+  }
+
+  const events = schedules
+    .filter(isScheduleItem)
+    .filter((item) => item.artistIds?.includes(artistId) && !isRepeatTitle(item.title))
+    .sort((a, b) => a.startDateUtc.localeCompare(b.startDateUtc))
+    .map((item) => scheduleItemToIcsEvent(item, { hostName: artistName, url: showDeepLink(item.id) }));
+
+  const calendarName = artistName ? `éist: ${artistName}` : 'éist';
+  return new Response(buildCalendar(events, calendarName), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="eist-${artistId}.ics"`,
+      'Cache-Control': `public, max-age=${CACHE_SECONDS}`,
+    },
+  });
+}
@@ -16,12 +16,37 @@
  *
  * Styling is done via CSS custom properties on the cast-media-player element.
  * See: https://developers.google.com/cast/docs/styled_receiver
+ *
+ * On top of the player sits the TV now-playing layout: artwork, host, a
+ * progress bar across the show's slot and a "next up" card. It's filled from
+ * the urn:x-cast:com.eist.metadata messages the app sends (and the load
+ * request's customData). The player underneath still does the playback; the
+ * layout only covers its default UI.
+ *
+ * The page's script is runReceiver (src/receiver/receiver.ts), bundled with
+ * the app's message validator (utils/castProtocol.ts) so it reads the
+ * channel's messages (types/castMessages.ts) exactly as the app writes them.
+ * It's built on its own by scripts/build-receiver.mjs and inlined into the
+ * markup (src/receiver/html.ts).
+ * A message it can't read is answered with `receiver-version` (saying why)
+ * and the layout steps aside for the player's own metadata until a good one
+ * arrives. src/receiver/fakeCaf.ts runs the same script against a fake CAF
+ * SDK, off the device.
  */
 
+import RECEIVER_SCRIPT from '../dist/receiver-page.txt';
+import { ARTIST_FEED_PATTERN, Env, handleArtistFeed } from './ical';
+import { receiverHtml } from './receiver/html';
+
 export default {
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
 
+    const artistFeed = url.pathname.match(ARTIST_FEED_PATTERN);
+    if (artistFeed && request.method === 'GET') {
+      return handleArtistFeed(decodeURIComponent(artistFeed[1]), env);
+    }
+
     if (url.pathname === '/' || url.pathname === '/index.html') {
       return new Response(RECEIVER_HTML, {
         headers: {
@@ -35,169 +60,4 @@ export default {
   },
 };
 
-// Styled media receiver with éist branding
-const RECEIVER_HTML = `<!DOCTYPE html>
-<html>
-<head>
-  <script src="https://www.gstatic.com/cast/sdk/libs/caf_receiver/v3/cast_receiver_framework.js"></script>
-  <style>
-    html,
-    body {
-      width: 100%;
-      height: 100%;
-      margin: 0;
-      background: #0D0D14;
-    }
-
-    body {
-      font-family: 'Funnel Sans', sans-serif;
-      color: #E6E3FF;
-      overflow: hidden;
-      position: relative;
-    }
-
-    @font-face {
-      font-family: 'Funnel Sans';
-      src: url('https://eist.radio/fonts/FunnelSans-VariableFont_wght.woff2') format('woff2');
-      font-weight: 100 900;
-      font-style: normal;
-      font-display: swap;
-    }
-
-    cast-media-player {
-      /* Dark background for ALL states */
-      --background-color: #0D0D14;
-      --background: #0D0D14;
-      --splash-color: #0D0D14;
-      --splash-background: #0D0D14;
-      --splash-image: none;
-      --logo-background: transparent;
-      --watermark-color: transparent;
-      --watermark-background: transparent;
-
-      /* Branding */
-      --playback-logo-image: url('https://eist.radio/eist-logo-small.png');
-      --font-family: 'Funnel Sans', sans-serif;
-      --theme-hue: 250;
-
-      /* Accent colors - subtle on splash */
-      --progress-color: #CFCBFF;
-      --spinner-color: #CFCBFF;
-      --splash-spinner-color: #CFCBFF;
-      --logo-color: #0D0D14; /* This colour shows on loading */
-      position: absolute !important;
-      inset: 0;
-      width: 100%;
-      height: 100%;
-      display: block;
-      z-index: 0 !important;
-      opacity: 1;
-      pointer-events: auto;
-    }
-
-    .metadata-version {
-      position: absolute;
-      right: 24px;
-      bottom: 18px;
-      font-size: 12px;
-      letter-spacing: 0.18em;
-      text-transform: uppercase;
-      opacity: 0.35;
-      color: #FFFFFF;
-    }
-  </style>
-</head>
-<body>
-  <div class="metadata-version">v2026.01.30-7</div>
-  <cast-media-player></cast-media-player>
-  <script>
-    const CUSTOM_NAMESPACE = 'urn:x-cast:com.eist.metadata';
-
-    if (!window.cast || !cast.framework) {
-      console.warn('Cast framework unavailable; metadata sync disabled.');
-    } else {
-      const ctx = cast.framework.CastReceiverContext.getInstance();
-      const playerManager = ctx.getPlayerManager();
-
-      function formatTitle(rawTitle) {
-        if (!rawTitle) return 'éist';
-        return String(rawTitle)
-          .replace(/\(éist arís\)/gi, '↻')
-          .replace(/\(eist aris\)/gi, '↻')
-          .replace(/\(éíst arís\)/gi, '↻')
-          .replace(/\(éist aris\)/gi, '↻')
-          .replace(/\(eist arís\)/gi, '↻')
-          .trim();
-      }
-
-      function applyMetadataToPlayer(payload) {
-        if (!payload || typeof payload !== 'object') return;
-        const mediaInfo = playerManager.getMediaInformation();
-        if (!mediaInfo) return;
-
-        const metadata = mediaInfo.metadata || { type: 'generic' };
-        if (!metadata.type) {
-          metadata.type = 'generic';
-        }
-
-        if (payload.title) {
-          metadata.title = formatTitle(payload.title);
-        }
-        if (payload.djName) {
-          metadata.artist = payload.djName;
-        }
-        const subtitleParts = [];
-        if (payload.djName) subtitleParts.push(payload.djName);
-        if (payload.showTime) subtitleParts.push(payload.showTime);
-        if (subtitleParts.length > 0) {
-          metadata.subtitle = subtitleParts.join(' · ');
-        }
-        if (payload.artworkUrl) {
-          metadata.images = [{ url: payload.artworkUrl }];
-        }
-
-        mediaInfo.metadata = metadata;
-
-        if (typeof playerManager.setMediaInformation === 'function') {
-          playerManager.setMediaInformation(mediaInfo);
-        } else if (typeof playerManager.setMediaMetadata === 'function') {
-          playerManager.setMediaMetadata(metadata);
-        } else if (typeof playerManager.broadcastStatus === 'function') {
-          playerManager.broadcastStatus(true);
-        }
-      }
-
-      function syncCustomDataToMetadata() {
-        const mediaInfo = playerManager.getMediaInformation();
-        if (!mediaInfo) return;
-
-        const customData = mediaInfo.customData || {};
-        applyMetadataToPlayer({
-          title: mediaInfo.metadata?.title,
-          showTime: customData.showTime,
-          djName: customData.djName,
-          artworkUrl: customData.artworkUrl,
-        });
-      }
-
-      playerManager.addEventListener(
-        cast.framework.events.EventType.PLAYER_LOAD_COMPLETE,
-        syncCustomDataToMetadata
-      );
-
-      ctx.addCustomMessageListener(CUSTOM_NAMESPACE, (event) => {
-        if (event?.data && typeof event.data === 'object') {
-          applyMetadataToPlayer(event.data);
-        }
-      });
-
-      const options = new cast.framework.CastReceiverOptions();
-      options.customNamespaces = {
-        [CUSTOM_NAMESPACE]: cast.framework.system.MessageType.JSON
-      };
-
-      ctx.start(options);
-    }
-  </script>
-</body>
-</html>`;
+const RECEIVER_HTML = receiverHtml(RECEIVER_SCRIPT);
@@ -0,0 +1,8 @@
+// workers/cast-receiver/src/receiver-page.d.ts
+//
+// The built page script (scripts/build-receiver.mjs), which wrangler's
+// default Text rule imports as a string.
+declare module '*.txt' {
+  const text: string;
+  export default text;
+}
@@ -0,0 +1,131 @@
+// workers/cast-receiver/src/receiver/__tests__/receiver.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { castMetadataMessage, castNextShowMessage, castPingMessage } from '../../../../../utils/castProtocol';
+import { FakeReceiver, layoutElements, startFakeReceiver } from '../fakeCaf';
+
+const NOW = new Date('2026-10-19T20:30:00Z');
+
+const show = {
+  title: 'Late Bloom (éist arís)',
+  djName: 'Aoife',
+  showTime: '20:00 - 22:00',
+  artworkUrl: 'https://example.invalid/show.png',
+  startDateUtc: '2026-10-19T20:00:00Z',
+  endDateUtc: '2026-10-19T22:00:00Z',
+};
+
+describe('receiver', () => {
+  let receiver: FakeReceiver;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    receiver = startFakeReceiver({ progressIntervalMs: 1000 });
+  });
+
+  afterEach(() => {
+    receiver.stop();
+    vi.useRealTimers();
+  });
+
+  it('finds every element it renders in the page markup', () => {
+    const ids = layoutElements().map((element) => element.id);
+    expect(ids).toEqual(expect.arrayContaining(['now-playing', 'np-title', 'np-progress-fill', 'np-next-time']));
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(receiver.element('now-playing').hidden).toBe(true);
+  });
+
+  it('registers the metadata namespace before starting', () => {
+    expect(receiver.startedWith()?.customNamespaces).toEqual({ 'urn:x-cast:com.eist.metadata': 'JSON' });
+  });
+
+  it('fills the layout from a LOAD before playback starts', async () => {
+    const request = await receiver.load({
+      contentId: 'https://example.invalid/stream',
+      metadata: { type: 'generic', title: show.title },
+      customData: { ...show, nextShow: { title: 'Dawn Chorus', startDateUtc: '2026-10-19T22:00:00Z' } },
+    });
+
+    expect(request).not.toBeNull();
+    expect(receiver.element('now-playing').hidden).toBe(false);
+    expect(receiver.element('np-title').textContent).toBe('Late Bloom ↻');
+    expect(receiver.element('np-host').textContent).toBe('with Aoife');
+    expect(receiver.element('np-artwork').src).toBe(show.artworkUrl);
+    expect(receiver.element('np-next').hidden).toBe(false);
+    expect(receiver.element('np-next-title').textContent).toBe('Dawn Chorus');
+
+    // The player's own metadata follows once the load completes
+    expect(receiver.mediaInformation()?.metadata).toMatchObject({
+      title: 'Late Bloom ↻',
+      artist: 'Aoife',
+      subtitle: 'Aoife · 20:00 - 22:00',
+      images: [{ url: show.artworkUrl }],
+    });
+  });
+
+  it('moves the progress bar across the show window', () => {
+    receiver.deliver(castMetadataMessage(show));
+    expect(receiver.element('np-progress').hidden).toBe(false);
+    expect(receiver.element('np-progress-fill').style.width).toBe('25.00%');
+
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    expect(receiver.element('np-progress-fill').style.width).toBe('50.00%');
+  });
+
+  it('hides the progress bar without a show window', () => {
+    receiver.deliver(castMetadataMessage({ ...show, startDateUtc: '', endDateUtc: '' }));
+    expect(receiver.element('np-progress').hidden).toBe(true);
+    expect(receiver.element('np-times').hidden).toBe(true);
+  });
+
+  it('updates and clears the next show', () => {
+    receiver.deliver(castMetadataMessage(show));
+    receiver.deliver(castNextShowMessage({ title: 'Dawn Chorus', startDateUtc: '2026-10-19T22:00:00Z' }));
+    expect(receiver.element('np-next').hidden).toBe(false);
+
+    receiver.deliver(castNextShowMessage(null));
+    expect(receiver.element('np-next').hidden).toBe(true);
+  });
+
+  it('falls back to the default artwork when the show artwork fails to load', () => {
+    receiver.deliver(castMetadataMessage(show));
+    receiver.element('np-artwork').fail();
+    expect(receiver.element('np-artwork').src).toBe('https://example.invalid/fallback.png');
+  });
+
+  it('answers a ping with a pong and its version', () => {
+    receiver.deliver(castPingMessage(7), 'sender-2');
+    expect(receiver.sent.map((entry) => entry.senderId)).toEqual(['sender-2', 'sender-2']);
+    expect(receiver.replies()).toEqual([
+      { message: { v: 2, type: 'pong', id: 7 } },
+      { message: { v: 2, type: 'receiver-version', receiverVersion: 'fake', protocolVersion: 2 } },
+    ]);
+  });
+
+  it('rejects a message it cannot read and steps aside until a good one arrives', () => {
+    receiver.deliver(castMetadataMessage(show));
+    receiver.deliver({ v: 2, type: 'metadata', title: 42 });
+
+    const [reply] = receiver.replies();
+    expect(reply).toMatchObject({ message: { type: 'receiver-version', receiverVersion: 'fake' } });
+    expect('message' in reply && reply.message.type === 'receiver-version' && reply.message.rejected).toBeTruthy();
+    expect(receiver.element('now-playing').hidden).toBe(true);
+
+    receiver.deliver(castMetadataMessage(show));
+    expect(receiver.element('now-playing').hidden).toBe(false);
+  });
+
+  it('reports player state and errors to every sender', () => {
+    receiver.emit('BUFFERING', { isBuffering: true });
+    receiver.emit('BUFFERING', { isBuffering: false });
+    receiver.emit('PLAYING');
+    receiver.emit('ERROR', { detailedErrorCode: 905 });
+
+    expect(receiver.sent.every((entry) => entry.senderId === undefined)).toBe(true);
+    expect(receiver.replies()).toEqual([
+      { message: { v: 2, type: 'stream-status', status: 'buffering' } },
+      { message: { v: 2, type: 'stream-status', status: 'playing' } },
+      { message: { v: 2, type: 'stream-status', status: 'error', detail: '905' } },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+// workers/cast-receiver/src/receiver/caf.ts
+//
+// The slice of the Cast Application Framework (CAF) receiver SDK and the
+// page's DOM that the receiver script touches, typed by hand since the SDK
+// only exists on the device. On a Chromecast it's window.cast and document;
+// fakeCaf.ts implements the same shapes for running the receiver on Linux.
+
+export type CafMediaMetadata = {
+  type?: string | number;
+  title?: string;
+  subtitle?: string;
+  artist?: string;
+  images?: { url: string }[];
+};
+
+export type CafMediaInformation = {
+  contentId?: string;
+  contentUrl?: string;
+  contentType?: string;
+  streamType?: string;
+  metadata?: CafMediaMetadata;
+  customData?: Record<string, any>;
+};
+
+export type CafLoadRequest = {
+  media: CafMediaInformation;
+  autoplay?: boolean;
+};
+
+export type CafPlayerEvent = {
+  type: string;
+  isBuffering?: boolean;
+  detailedErrorCode?: number;
+};
+
+export type CafCustomMessageEvent = {
+  senderId: string;
+  data: unknown;
+};
+
+export type CafReceiverOptions = {
+  customNamespaces?: Record<string, string>;
+};
+
+export type CafPlayerManager = {
+  getMediaInformation: () => CafMediaInformation | null;
+  setMediaInformation?: (mediaInfo: CafMediaInformation, broadcast?: boolean) => void;
+  setMediaMetadata?: (metadata: CafMediaMetadata) => void;
+  broadcastStatus?: (includeMedia?: boolean) => void;
+  addEventListener: (type: string, handler: (event: CafPlayerEvent) => void) => void;
+  setMessageInterceptor: (
+    type: string,
+    interceptor: (request: CafLoadRequest) => CafLoadRequest | null | Promise<CafLoadRequest | null>
+  ) => void;
+};
+
+export type CafReceiverContext = {
+  getPlayerManager: () => CafPlayerManager;
+  addCustomMessageListener: (namespace: string, listener: (event: CafCustomMessageEvent) => void) => void;
+  // An undefined senderId sends to every connected sender
+  sendCustomMessage: (namespace: string, senderId: string | undefined, message: unknown) => void;
+  start: (options: CafReceiverOptions) => void;
+};
+
+export type CafEventType =
+  | 'PLAYER_LOAD_COMPLETE'
+  | 'LOAD_START'
+  | 'PLAYING'
+  | 'PAUSE'
+  | 'BUFFERING'
+  | 'MEDIA_FINISHED'
+  | 'ERROR';
+
+export type CafNamespace = {
+  framework: {
+    CastReceiverContext: { getInstance: () => CafReceiverContext };
+    CastReceiverOptions: new () => CafReceiverOptions;
+    events: { EventType: Record<CafEventType, string> };
+    messages: { MessageType: { LOAD: string } };
+    system: { MessageType: { JSON: string } };
+  };
+};
+
+// The elements the now-playing layout writes to
+export type ReceiverElement = {
+  hidden: boolean;
+  textContent: string | null;
+  style: { width: string };
+  src: string;
+  onerror: (() => void) | null;
+  getAttribute: (name: string) => string | null;
+};
+
+export type ReceiverDocument = {
+  getElementById: (id: string) => ReceiverElement | null;
+};
@@ -0,0 +1,18 @@
+// workers/cast-receiver/src/receiver/config.ts
+//
+// What the receiver page is told at startup. Shared by the page script and
+// the markup, so the version on the TV and the one reported to the app agree.
+
+import { CAST_NAMESPACE, CAST_PROTOCOL_VERSION } from '../../../../utils/castProtocol';
+import { ReceiverConfig } from './receiver';
+
+// Shown in the corner of the TV and reported to the app
+export const RECEIVER_VERSION = 'v2026.10.19-4';
+
+export const RECEIVER_CONFIG: ReceiverConfig = {
+  namespace: CAST_NAMESPACE,
+  protocolVersion: CAST_PROTOCOL_VERSION,
+  receiverVersion: RECEIVER_VERSION,
+  fallbackArtwork: 'https://eist.radio/eist-logo-small.png',
+  progressIntervalMs: 15000,
+};
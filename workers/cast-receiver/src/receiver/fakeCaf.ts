@@ -0,0 +1,221 @@
+// workers/cast-receiver/src/receiver/fakeCaf.ts
+//
+// A stand-in for the CAF receiver SDK and the receiver page's DOM, so
+// runReceiver can be driven on Linux instead of a Chromecast: deliver
+// messages as the app would, push a LOAD through the interceptor, fire
+// player events, then look at what the receiver sent back and what the TV
+// layout shows. Not part of the worker bundle; index.ts doesn't import it.
+
+import { CAST_NAMESPACE, CAST_PROTOCOL_VERSION, parseCastMessage } from '../../../../utils/castProtocol';
+import {
+  CafCustomMessageEvent,
+  CafEventType,
+  CafLoadRequest,
+  CafMediaInformation,
+  CafNamespace,
+  CafPlayerEvent,
+  CafPlayerManager,
+  CafReceiverContext,
+  CafReceiverOptions,
+  ReceiverDocument,
+  ReceiverElement,
+} from './caf';
+import { receiverHtml } from './html';
+import { ReceiverConfig, runReceiver } from './receiver';
+
+type LayoutElement = { id: string; hidden: boolean; src: string };
+
+// The elements with an id in the receiver page's markup, read from the
+// markup itself so the fake layout can't drift from it
+export function layoutElements(): LayoutElement[] {
+  const tags = receiverHtml('').match(/<[a-z][^>]*\sid="[^"]+"[^>]*>/g) ?? [];
+  return tags.map((tag) => ({
+    id: /\sid="([^"]+)"/.exec(tag)?.[1] ?? '',
+    hidden: /\shidden[\s>]/.test(tag),
+    src: /\ssrc="([^"]*)"/.exec(tag)?.[1] ?? '',
+  }));
+}
+
+export type SentMessage = {
+  namespace: string;
+  senderId: string | undefined;
+  message: unknown;
+};
+
+export type FakeElement = ReceiverElement & {
+  // Fires the element's onerror, as a failed image load would
+  fail: () => void;
+};
+
+export function createFakeDocument(): ReceiverDocument & { element: (id: string) => FakeElement } {
+  const elements = new Map<string, FakeElement>();
+  for (const { id, hidden, src } of layoutElements()) {
+    const attributes = new Map<string, string>(src ? [['src', src]] : []);
+    const element: FakeElement = {
+      hidden,
+      textContent: '',
+      style: { width: '' },
+      get src() {
+        return attributes.get('src') ?? '';
+      },
+      set src(value: string) {
+        attributes.set('src', value);
+      },
+      onerror: null,
+      getAttribute: (name) => attributes.get(name) ?? null,
+      fail: () => element.onerror?.(),
+    };
+    elements.set(id, element);
+  }
+
+  return {
+    getElementById: (id) => elements.get(id) ?? null,
+    element: (id) => {
+      const element = elements.get(id);
+      if (!element) throw new Error(`No element #${id} in the receiver layout`);
+      return element;
+    },
+  };
+}
+
+const EVENT_TYPES: Record<CafEventType, string> = {
+  PLAYER_LOAD_COMPLETE: 'PLAYER_LOAD_COMPLETE',
+  LOAD_START: 'LOAD_START',
+  PLAYING: 'PLAYING',
+  PAUSE: 'PAUSE',
+  BUFFERING: 'BUFFERING',
+  MEDIA_FINISHED: 'MEDIA_FINISHED',
+  ERROR: 'ERROR',
+};
+
+export type FakeCaf = {
+  cast: CafNamespace;
+  // Everything the receiver sent with sendCustomMessage, oldest first
+  sent: SentMessage[];
+  // The options the receiver started with, once it has
+  startedWith: () => CafReceiverOptions | null;
+  // A message from a sender on a custom namespace
+  deliver: (data: unknown, senderId?: string, namespace?: string) => void;
+  // A LOAD from a sender: through the interceptor, then LOAD_START and, unless
+  // the interceptor dropped it, PLAYER_LOAD_COMPLETE
+  load: (media: CafMediaInformation) => Promise<CafLoadRequest | null>;
+  emit: (type: CafEventType, event?: Omit<CafPlayerEvent, 'type'>) => void;
+  mediaInformation: () => CafMediaInformation | null;
+};
+
+export function createFakeCaf(): FakeCaf {
+  const sent: SentMessage[] = [];
+  const messageListeners = new Map<string, ((event: CafCustomMessageEvent) => void)[]>();
+  const eventListeners = new Map<string, ((event: CafPlayerEvent) => void)[]>();
+  const interceptors = new Map<string, (request: CafLoadRequest) => CafLoadRequest | null | Promise<CafLoadRequest | null>>();
+  let mediaInfo: CafMediaInformation | null = null;
+  let options: CafReceiverOptions | null = null;
+
+  const emit = (type: CafEventType, event: Omit<CafPlayerEvent, 'type'> = {}) => {
+    for (const handler of eventListeners.get(EVENT_TYPES[type]) ?? []) {
+      handler({ type: EVENT_TYPES[type], ...event });
+    }
+  };
+
+  const playerManager: CafPlayerManager = {
+    getMediaInformation: () => mediaInfo,
+    setMediaInformation: (next) => {
+      mediaInfo = next;
+    },
+    addEventListener: (type, handler) => {
+      eventListeners.set(type, [...(eventListeners.get(type) ?? []), handler]);
+    },
+    setMessageInterceptor: (type, interceptor) => {
+      interceptors.set(type, interceptor);
+    },
+  };
+
+  const context: CafReceiverContext = {
+    getPlayerManager: () => playerManager,
+    addCustomMessageListener: (namespace, listener) => {
+      messageListeners.set(namespace, [...(messageListeners.get(namespace) ?? []), listener]);
+    },
+    sendCustomMessage: (namespace, senderId, message) => {
+      if (!options?.customNamespaces?.[namespace]) {
+        throw new Error(`Namespace ${namespace} was not registered before start()`);
+      }
+      sent.push({ namespace, senderId, message });
+    },
+    start: (startOptions) => {
+      options = startOptions;
+    },
+  };
+
+  const cast: CafNamespace = {
+    framework: {
+      CastReceiverContext: { getInstance: () => context },
+      CastReceiverOptions: class {
+        customNamespaces?: Record<string, string>;
+      },
+      events: { EventType: EVENT_TYPES },
+      messages: { MessageType: { LOAD: 'LOAD' } },
+      system: { MessageType: { JSON: 'JSON' } },
+    },
+  };
+
+  return {
+    cast,
+    sent,
+    startedWith: () => options,
+    deliver: (data, senderId = 'sender-1', namespace = CAST_NAMESPACE) => {
+      for (const listener of messageListeners.get(namespace) ?? []) {
+        // CAF hands JSON namespaces' messages over already parsed
+        listener({ senderId, data: typeof data === 'string' ? JSON.parse(data) : data });
+      }
+    },
+    load: async (media) => {
+      const interceptor = interceptors.get('LOAD');
+      const request = interceptor ? await interceptor({ media }) : { media };
+      emit('LOAD_START');
+      if (!request) return null;
+      mediaInfo = request.media;
+      emit('PLAYER_LOAD_COMPLETE');
+      return request;
+    },
+    emit,
+    mediaInformation: () => mediaInfo,
+  };
+}
+
+export type FakeReceiver = FakeCaf & {
+  document: ReturnType<typeof createFakeDocument>;
+  element: (id: string) => FakeElement;
+  // Messages the receiver sent, parsed with the app's validator
+  replies: () => ReturnType<typeof parseCastMessage>[];
+  stop: () => void;
+};
+
+/**
+ * Starts runReceiver against a fresh fake SDK and layout, with the same
+ * protocol the worker serves.
+ */
+export function startFakeReceiver(config: Partial<ReceiverConfig> = {}): FakeReceiver {
+  const caf = createFakeCaf();
+  const document = createFakeDocument();
+  const stop = runReceiver({
+    cast: caf.cast,
+    document,
+    parseCastMessage,
+    config: {
+      namespace: CAST_NAMESPACE,
+      protocolVersion: CAST_PROTOCOL_VERSION,
+      receiverVersion: 'fake',
+      fallbackArtwork: 'https://example.invalid/fallback.png',
+      progressIntervalMs: 15000,
+      ...config,
+    },
+  });
+
+  return {
+    ...caf,
+    document,
+    element: document.element,
+    replies: () => caf.sent.map((entry) => parseCastMessage(entry.message)),
+    stop: () => stop?.(),
+  };
+}
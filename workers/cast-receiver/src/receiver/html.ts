@@ -0,0 +1,234 @@
+// workers/cast-receiver/src/receiver/html.ts
+//
+// The receiver page: the styled <cast-media-player>, the TV now-playing
+// layout over it, and the page script (src/receiver/page.ts, built to
+// dist/receiver-page.txt) inlined at the end.
+
+import { RECEIVER_VERSION } from './config';
+
+// Styled media receiver with éist branding, running `script`
+export function receiverHtml(script: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <script src="https://www.gstatic.com/cast/sdk/libs/caf_receiver/v3/cast_receiver_framework.js"></script>
+  <style>
+    html,
+    body {
+      width: 100%;
+      height: 100%;
+      margin: 0;
+      background: #0D0D14;
+    }
+
+    body {
+      font-family: 'Funnel Sans', sans-serif;
+      color: #E6E3FF;
+      overflow: hidden;
+      position: relative;
+    }
+
+    @font-face {
+      font-family: 'Funnel Sans';
+      src: url('https://eist.radio/fonts/FunnelSans-VariableFont_wght.woff2') format('woff2');
+      font-weight: 100 900;
+      font-style: normal;
+      font-display: swap;
+    }
+
+    cast-media-player {
+      /* Dark background for ALL states */
+      --background-color: #0D0D14;
+      --background: #0D0D14;
+      --splash-color: #0D0D14;
+      --splash-background: #0D0D14;
+      --splash-image: none;
+      --logo-background: transparent;
+      --watermark-color: transparent;
+      --watermark-background: transparent;
+
+      /* Branding */
+      --playback-logo-image: url('https://eist.radio/eist-logo-small.png');
+      --font-family: 'Funnel Sans', sans-serif;
+      --theme-hue: 250;
+
+      /* Accent colors - subtle on splash */
+      --progress-color: #CFCBFF;
+      --spinner-color: #CFCBFF;
+      --splash-spinner-color: #CFCBFF;
+      --logo-color: #0D0D14; /* This colour shows on loading */
+      position: absolute !important;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+      display: block;
+      z-index: 0 !important;
+      opacity: 1;
+      pointer-events: auto;
+    }
+
+    .now-playing {
+      position: absolute;
+      inset: 0;
+      z-index: 1;
+      display: flex;
+      gap: 64px;
+      padding: 72px 88px;
+      box-sizing: border-box;
+      background: #0D0D14;
+    }
+
+    .now-playing[hidden] {
+      display: none;
+    }
+
+    .now-playing-main {
+      flex: 1;
+      display: flex;
+      align-items: center;
+      gap: 56px;
+      min-width: 0;
+    }
+
+    .artwork {
+      width: 480px;
+      height: 480px;
+      flex-shrink: 0;
+      object-fit: cover;
+      border-radius: 6px;
+      background: #1A1A26;
+    }
+
+    .details {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .eyebrow {
+      font-size: 22px;
+      font-weight: 600;
+      letter-spacing: 0.04em;
+      color: #CFCBFF;
+    }
+
+    .title {
+      margin: 16px 0 0;
+      font-size: 72px;
+      font-weight: 700;
+      line-height: 1.02;
+      letter-spacing: -0.02em;
+      color: #AFFC41;
+      display: -webkit-box;
+      -webkit-line-clamp: 3;
+      -webkit-box-orient: vertical;
+      overflow: hidden;
+    }
+
+    .host {
+      margin-top: 20px;
+      font-size: 36px;
+      font-weight: 500;
+      color: #AFFC41;
+    }
+
+    .progress {
+      margin-top: 48px;
+      height: 6px;
+      border-radius: 3px;
+      background: rgba(230, 227, 255, 0.16);
+      overflow: hidden;
+    }
+
+    .progress-fill {
+      height: 100%;
+      width: 0;
+      background: #CFCBFF;
+      transition: width 1s linear;
+    }
+
+    .progress-times {
+      display: flex;
+      justify-content: space-between;
+      margin-top: 12px;
+      font-size: 20px;
+      opacity: 0.6;
+    }
+
+    .sidebar {
+      width: 360px;
+      flex-shrink: 0;
+      display: flex;
+      flex-direction: column;
+      justify-content: flex-end;
+    }
+
+    .up-next {
+      padding: 28px 32px;
+      border-radius: 6px;
+      background: #4733FF;
+    }
+
+    .up-next[hidden] {
+      display: none;
+    }
+
+    .up-next-title {
+      margin-top: 12px;
+      font-size: 34px;
+      font-weight: 700;
+      line-height: 1.1;
+      color: #FFFFFF;
+    }
+
+    .up-next-time {
+      margin-top: 12px;
+      font-size: 22px;
+      color: #E6E3FF;
+    }
+
+    .metadata-version {
+      position: absolute;
+      right: 24px;
+      bottom: 18px;
+      font-size: 12px;
+      letter-spacing: 0.18em;
+      text-transform: uppercase;
+      opacity: 0.35;
+      color: #FFFFFF;
+      z-index: 2;
+    }
+  </style>
+</head>
+<body>
+  <div class="metadata-version">${RECEIVER_VERSION}</div>
+  <cast-media-player></cast-media-player>
+  <div class="now-playing" id="now-playing" hidden>
+    <div class="now-playing-main">
+      <img class="artwork" id="np-artwork" src="https://eist.radio/eist-logo-small.png" alt="">
+      <div class="details">
+        <div class="eyebrow">live now</div>
+        <h1 class="title" id="np-title">éist</h1>
+        <div class="host" id="np-host"></div>
+        <div class="progress" id="np-progress" hidden>
+          <div class="progress-fill" id="np-progress-fill"></div>
+        </div>
+        <div class="progress-times" id="np-times" hidden>
+          <span id="np-start"></span>
+          <span id="np-end"></span>
+        </div>
+      </div>
+    </div>
+    <aside class="sidebar">
+      <div class="up-next" id="np-next" hidden>
+        <div class="eyebrow">next up</div>
+        <div class="up-next-title" id="np-next-title"></div>
+        <div class="up-next-time" id="np-next-time"></div>
+      </div>
+    </aside>
+  </div>
+  <script>
+${script}
+  </script>
+</body>
+</html>`;
+}
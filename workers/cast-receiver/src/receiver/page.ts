@@ -0,0 +1,21 @@
+// workers/cast-receiver/src/receiver/page.ts
+//
+// Entry point of the receiver page's script. scripts/build-receiver.mjs
+// bundles it on its own, as a plain browser script, and index.ts inlines the
+// result into the page. It's kept out of the worker bundle because wrangler
+// builds that with esbuild's keepNames, whose __name() helper only exists
+// there.
+
+import { parseCastMessage } from '../../../../utils/castProtocol';
+import { CafNamespace, ReceiverDocument } from './caf';
+import { RECEIVER_CONFIG } from './config';
+import { runReceiver } from './receiver';
+
+const page = globalThis as unknown as { cast?: CafNamespace; document: ReceiverDocument };
+
+runReceiver({
+  cast: page.cast,
+  document: page.document,
+  parseCastMessage,
+  config: RECEIVER_CONFIG,
+});
@@ -0,0 +1,283 @@
+// workers/cast-receiver/src/receiver/receiver.ts
+//
+// The receiver page's script: keeps the TV now-playing layout and the
+// player's metadata in step with the app, and answers the app on the
+// metadata channel (types/castMessages.ts).
+//
+// page.ts starts it on the TV; src/receiver/fakeCaf.ts starts it in tests.
+// Everything from outside (the CAF SDK, the DOM, the message validator, the
+// protocol constants) comes in through `deps`, so both can supply their own.
+
+import { CastMessage, CastReceiverVersionMessage, CastStreamStatusMessage } from '../../../../types/castMessages';
+import {
+  CafLoadRequest,
+  CafNamespace,
+  CafPlayerManager,
+  CafReceiverContext,
+  ReceiverDocument,
+  ReceiverElement,
+} from './caf';
+
+export type ReceiverConfig = {
+  namespace: string;
+  protocolVersion: number;
+  receiverVersion: string;
+  fallbackArtwork: string;
+  // How often the show progress bar moves
+  progressIntervalMs: number;
+};
+
+export type ReceiverDeps = {
+  cast: CafNamespace | undefined;
+  document: ReceiverDocument;
+  parseCastMessage: (data: unknown) => { message: CastMessage } | { error: string };
+  config: ReceiverConfig;
+};
+
+type NowPlaying = {
+  title: string;
+  djName: string;
+  artworkUrl: string;
+  startDateUtc: string;
+  endDateUtc: string;
+  nextShow: { title: string; startDateUtc: string } | null;
+};
+
+// The fields a metadata message, a next-show message or a load's customData
+// can carry; whatever's missing is left as it is
+type ShowPayload = Partial<Omit<NowPlaying, 'nextShow'>> & {
+  showTime?: string;
+  nextShow?: NowPlaying['nextShow'];
+};
+
+/**
+ * Starts the receiver. Returns a function that stops its timers, or null when
+ * the CAF SDK isn't there (the page opened in a normal browser).
+ */
+export function runReceiver(deps: ReceiverDeps): (() => void) | null {
+  const { cast, document, parseCastMessage, config } = deps;
+
+  // Timing fields are ISO strings ('' when unknown)
+  const nowPlaying: NowPlaying = {
+    title: '',
+    djName: '',
+    artworkUrl: '',
+    startDateUtc: '',
+    endDateUtc: '',
+    nextShow: null,
+  };
+  // Set when a message couldn't be read: what's shown may be out of date
+  let layoutStale = false;
+
+  const byId = (id: string) => document.getElementById(id) as ReceiverElement;
+
+  const formatClock = (iso: string) => {
+    const date = new Date(iso);
+    if (isNaN(date.getTime())) return '';
+    return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false });
+  };
+
+  const formatTitle = (rawTitle: unknown) => {
+    if (!rawTitle) return 'éist';
+    return String(rawTitle)
+      .replace(/\(éist arís\)/gi, '↻')
+      .replace(/\(eist aris\)/gi, '↻')
+      .replace(/\(éíst arís\)/gi, '↻')
+      .replace(/\(éist aris\)/gi, '↻')
+      .replace(/\(eist arís\)/gi, '↻')
+      .trim();
+  };
+
+  const renderProgress = () => {
+    const start = new Date(nowPlaying.startDateUtc).getTime();
+    const end = new Date(nowPlaying.endDateUtc).getTime();
+    const hasWindow = !isNaN(start) && !isNaN(end) && end > start;
+    byId('np-progress').hidden = !hasWindow;
+    byId('np-times').hidden = !hasWindow;
+    if (!hasWindow) return;
+    const fraction = Math.min(1, Math.max(0, (Date.now() - start) / (end - start)));
+    byId('np-progress-fill').style.width = (fraction * 100).toFixed(2) + '%';
+    byId('np-start').textContent = formatClock(nowPlaying.startDateUtc);
+    byId('np-end').textContent = formatClock(nowPlaying.endDateUtc);
+  };
+
+  const renderNowPlaying = () => {
+    byId('now-playing').hidden = !nowPlaying.title || layoutStale;
+    byId('np-title').textContent = nowPlaying.title || 'éist';
+    byId('np-host').textContent = nowPlaying.djName ? 'with ' + nowPlaying.djName : '';
+
+    const artwork = byId('np-artwork');
+    const artworkUrl = nowPlaying.artworkUrl || config.fallbackArtwork;
+    if (artwork.getAttribute('src') !== artworkUrl) {
+      artwork.onerror = () => {
+        artwork.onerror = null;
+        artwork.src = config.fallbackArtwork;
+      };
+      artwork.src = artworkUrl;
+    }
+
+    const next = nowPlaying.nextShow;
+    byId('np-next').hidden = !next || !next.title;
+    if (next && next.title) {
+      byId('np-next-title').textContent = next.title;
+      byId('np-next-time').textContent = formatClock(next.startDateUtc);
+    }
+
+    renderProgress();
+  };
+
+  const updateNowPlaying = (payload: ShowPayload) => {
+    for (const key of ['title', 'djName', 'artworkUrl', 'startDateUtc', 'endDateUtc'] as const) {
+      const value = payload[key];
+      if (typeof value === 'string') nowPlaying[key] = key === 'title' && value ? formatTitle(value) : value;
+    }
+    if ('nextShow' in payload) {
+      nowPlaying.nextShow = payload.nextShow && typeof payload.nextShow === 'object' ? payload.nextShow : null;
+    }
+    renderNowPlaying();
+  };
+
+  if (!cast || !cast.framework) {
+    console.warn('Cast framework unavailable; metadata sync disabled.');
+    return null;
+  }
+
+  const ctx: CafReceiverContext = cast.framework.CastReceiverContext.getInstance();
+  const playerManager: CafPlayerManager = ctx.getPlayerManager();
+  const EventType = cast.framework.events.EventType;
+
+  const applyMetadataToPlayer = (payload: ShowPayload) => {
+    const mediaInfo = playerManager.getMediaInformation();
+    if (!mediaInfo) return;
+
+    const metadata = mediaInfo.metadata || { type: 'generic' };
+    if (!metadata.type) {
+      metadata.type = 'generic';
+    }
+
+    if (payload.title) {
+      metadata.title = formatTitle(payload.title);
+    }
+    if (payload.djName) {
+      metadata.artist = payload.djName;
+    }
+    const subtitleParts = [];
+    if (payload.djName) subtitleParts.push(payload.djName);
+    if (payload.showTime) subtitleParts.push(payload.showTime);
+    if (subtitleParts.length > 0) {
+      metadata.subtitle = subtitleParts.join(' · ');
+    }
+    if (payload.artworkUrl) {
+      metadata.images = [{ url: payload.artworkUrl }];
+    }
+
+    mediaInfo.metadata = metadata;
+
+    if (typeof playerManager.setMediaInformation === 'function') {
+      playerManager.setMediaInformation(mediaInfo);
+    } else if (typeof playerManager.setMediaMetadata === 'function') {
+      playerManager.setMediaMetadata(metadata);
+    } else if (typeof playerManager.broadcastStatus === 'function') {
+      playerManager.broadcastStatus(true);
+    }
+  };
+
+  // The app's load request carries the show in customData (see
+  // castUtils.loadMediaOnCast), so the layout fills in before the stream
+  // has even started
+  const showFromLoad = (media: CafLoadRequest['media']): ShowPayload => {
+    const customData = media.customData || {};
+    return {
+      title: media.metadata?.title,
+      showTime: customData.showTime,
+      djName: customData.djName,
+      artworkUrl: customData.artworkUrl,
+      startDateUtc: customData.startDateUtc,
+      endDateUtc: customData.endDateUtc,
+      nextShow: customData.nextShow,
+    };
+  };
+
+  const send = (senderId: string | undefined, message: CastMessage) => {
+    try {
+      ctx.sendCustomMessage(config.namespace, senderId, message);
+    } catch (error) {
+      console.warn('Failed to send cast message:', error);
+    }
+  };
+
+  const versionMessage = (rejected?: string): CastReceiverVersionMessage => {
+    const message: CastReceiverVersionMessage = {
+      v: config.protocolVersion,
+      type: 'receiver-version',
+      receiverVersion: config.receiverVersion,
+      protocolVersion: config.protocolVersion,
+    };
+    if (rejected) message.rejected = rejected;
+    return message;
+  };
+
+  // Player state for the app's diagnostics, to every sender
+  const sendStreamStatus = (status: CastStreamStatusMessage['status'], detail?: unknown) => {
+    const message: CastStreamStatusMessage = { v: config.protocolVersion, type: 'stream-status', status };
+    if (detail !== undefined && detail !== null) message.detail = String(detail);
+    send(undefined, message);
+  };
+
+  playerManager.setMessageInterceptor(cast.framework.messages.MessageType.LOAD, (request) => {
+    if (request && request.media) {
+      layoutStale = false;
+      updateNowPlaying(showFromLoad(request.media));
+    }
+    return request;
+  });
+
+  playerManager.addEventListener(EventType.PLAYER_LOAD_COMPLETE, () => {
+    const mediaInfo = playerManager.getMediaInformation();
+    if (mediaInfo) applyMetadataToPlayer(showFromLoad(mediaInfo));
+  });
+  playerManager.addEventListener(EventType.LOAD_START, () => sendStreamStatus('loading'));
+  playerManager.addEventListener(EventType.PLAYING, () => sendStreamStatus('playing'));
+  playerManager.addEventListener(EventType.PAUSE, () => sendStreamStatus('paused'));
+  playerManager.addEventListener(EventType.MEDIA_FINISHED, () => sendStreamStatus('ended'));
+  playerManager.addEventListener(EventType.BUFFERING, (event) => {
+    if (event.isBuffering) sendStreamStatus('buffering');
+  });
+  playerManager.addEventListener(EventType.ERROR, (event) => {
+    sendStreamStatus('error', event.detailedErrorCode);
+  });
+
+  ctx.addCustomMessageListener(config.namespace, (event) => {
+    const parsed = parseCastMessage(event?.data);
+    if ('error' in parsed) {
+      // Say so, and step aside for the player's own metadata, which a
+      // mismatched app keeps current by reloading the stream
+      console.warn('Dropped cast message:', parsed.error);
+      layoutStale = true;
+      renderNowPlaying();
+      send(event?.senderId, versionMessage(parsed.error));
+      return;
+    }
+
+    const message = parsed.message;
+    if (message.type === 'metadata') {
+      layoutStale = false;
+      applyMetadataToPlayer(message);
+      updateNowPlaying(message);
+    } else if (message.type === 'next-show') {
+      updateNowPlaying({ nextShow: message.nextShow });
+    } else if (message.type === 'ping') {
+      send(event.senderId, { v: config.protocolVersion, type: 'pong', id: message.id });
+      send(event.senderId, versionMessage());
+    }
+  });
+
+  const options = new cast.framework.CastReceiverOptions();
+  options.customNamespaces = {
+    [config.namespace]: cast.framework.system.MessageType.JSON,
+  };
+  ctx.start(options);
+
+  const progressTimer = setInterval(renderProgress, config.progressIntervalMs);
+  return () => clearInterval(progressTimer);
+}